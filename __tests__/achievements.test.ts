@@ -0,0 +1,158 @@
+/**
+ * @file achievements.test.ts
+ * @description
+ * Tests for the achievement rules in lib/party-kit/achievements.ts.
+ *
+ * Key features tested:
+ * - Threshold, rank and time-of-day rules against a user's stats
+ * - Unlocks skip achievements the user already has
+ * - Progress towards every achievement, complete once unlocked
+ * - Productive blocks counted by local hour
+ * - Stat updates merge by summing counts and keeping bests
+ * - Locally kept achievements import as the score they needed
+ *
+ * @dependencies
+ * - vitest for the test runner
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  ACHIEVEMENT_DEFINITIONS,
+  achievementProgress,
+  legacyAchievementStats,
+  mergeStatUpdates,
+  newlyUnlocked,
+  productiveHours,
+  ruleProgress,
+} from "@/lib/party-kit/achievements";
+
+describe("ruleProgress", () => {
+  it("should count towards a threshold and cap at it", () => {
+    const rule = { stat: "monthlyScore", atLeast: 10 } as const;
+
+    expect(ruleProgress(rule, { monthlyScore: 7 })).toEqual({
+      current: 7,
+      target: 10,
+      met: false,
+    });
+    expect(ruleProgress(rule, { monthlyScore: 12 })).toEqual({
+      current: 10,
+      target: 10,
+      met: true,
+    });
+    expect(ruleProgress(rule, {}).current).toBe(0);
+  });
+
+  it("should need a rank at or above the target", () => {
+    const rule = { stat: "monthlyRank", atMost: 10 } as const;
+
+    expect(ruleProgress(rule, {}).met).toBe(false);
+    expect(ruleProgress(rule, { monthlyRank: 14 })).toEqual({
+      current: 14,
+      target: 10,
+      met: false,
+    });
+    expect(ruleProgress(rule, { monthlyRank: 10 }).met).toBe(true);
+  });
+
+  it("should count productive blocks within the hours", () => {
+    const rule = ACHIEVEMENT_DEFINITIONS["early-bird"].rule;
+
+    expect(ruleProgress(rule, { "hour:08": 5, "hour:03": 2 }).met).toBe(false);
+    expect(ruleProgress(rule, { "hour:07": 1 }).met).toBe(true);
+  });
+});
+
+describe("unlocks and progress", () => {
+  it("should unlock what the stats earn and the user lacks", () => {
+    const earned = newlyUnlocked(
+      { monthlyScore: 55, dailyStreak: 3, duelWins: 1 },
+      [{ id: "score-10", unlockedAt: 1 }]
+    );
+
+    expect(earned.map((achievement) => achievement.id)).toEqual([
+      "score-50",
+      "streak-3",
+      "duel-win-1",
+    ]);
+  });
+
+  it("should report progress towards every achievement", () => {
+    const progress = achievementProgress({ monthlyScore: 7 }, []);
+
+    expect(progress).toHaveLength(Object.keys(ACHIEVEMENT_DEFINITIONS).length);
+    expect(progress[0]).toMatchObject({
+      name: "Rookie Achiever",
+      current: 7,
+      target: 10,
+      unlockedAt: null,
+    });
+  });
+
+  it("should show unlocked achievements as complete", () => {
+    // Unlocked before the stats were tracked
+    const [rookie] = achievementProgress({}, [
+      { id: "score-10", unlockedAt: 5 },
+    ]);
+
+    expect(rookie).toMatchObject({ current: 10, target: 10, unlockedAt: 5 });
+  });
+});
+
+describe("stat helpers", () => {
+  it("should count productive blocks by local hour", () => {
+    // 07:30 and 07:35 in New York, then an unproductive block
+    const blocks = [
+      {
+        startTime: Date.UTC(2025, 2, 10, 11, 30),
+        classification: "productive",
+      },
+      {
+        startTime: Date.UTC(2025, 2, 10, 11, 35),
+        classification: "productive",
+      },
+      {
+        startTime: Date.UTC(2025, 2, 10, 11, 40),
+        classification: "unproductive",
+      },
+    ] as const;
+
+    expect(productiveHours([...blocks], "America/New_York")).toEqual({
+      "hour:07": 2,
+    });
+    expect(productiveHours([...blocks], "UTC")).toEqual({ "hour:11": 2 });
+  });
+
+  it("should sum counts and keep bests when merging updates", () => {
+    const merged = mergeStatUpdates(
+      { add: { chatMessages: 2 }, max: { dailyStreak: 4 } },
+      {
+        add: { chatMessages: 1, duelWins: 1 },
+        max: { dailyStreak: 3 },
+        min: { monthlyRank: 8 },
+      }
+    );
+
+    expect(merged).toEqual({
+      add: { chatMessages: 3, duelWins: 1 },
+      max: { dailyStreak: 4 },
+      min: { monthlyRank: 8 },
+    });
+  });
+
+  it("should import local achievements as the score they needed", () => {
+    expect(legacyAchievementStats(["score-10", "score-50"], 60)).toEqual({
+      max: { monthlyScore: 50 },
+    });
+    // Only the score achievements were ever unlocked locally
+    expect(legacyAchievementStats(["duel-win-5", "made-up"], 60)).toBeNull();
+    expect(legacyAchievementStats([], 60)).toBeNull();
+  });
+
+  it("should not import achievements the saved scores don't back up", () => {
+    expect(legacyAchievementStats(["score-10", "score-100"], 60)).toEqual({
+      max: { monthlyScore: 10 },
+    });
+    expect(legacyAchievementStats(["score-10"], 0)).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * @file chat-events.test.ts
+ * @description
+ * Tests for the chat announcement helpers in lib/party-kit/chat-events.ts.
+ *
+ * Key features tested:
+ * - Ranks map to the best milestone they are within
+ * - Streaks announce the longest milestone they just passed, once
+ * - Announcements have a plain text version
+ *
+ * @dependencies
+ * - vitest for the test runner
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  describeChatEvent,
+  rankMilestone,
+  streakMilestone,
+} from "@/lib/party-kit/chat-events";
+
+describe("milestones", () => {
+  it("should map ranks to the best milestone they are within", () => {
+    expect(rankMilestone(1)).toBe(1);
+    expect(rankMilestone(2)).toBe(3);
+    expect(rankMilestone(10)).toBe(10);
+    expect(rankMilestone(11)).toBeNull();
+  });
+
+  it("should pass each streak milestone once", () => {
+    expect(streakMilestone("daily", 2, 3)).toBe(3);
+    expect(streakMilestone("daily", 3, 3)).toBeNull();
+    expect(streakMilestone("daily", 3, 4)).toBeNull();
+    // A late day can jump past several at once
+    expect(streakMilestone("daily", 6, 14)).toBe(14);
+    expect(streakMilestone("flow", 11, 12)).toBe(12);
+  });
+});
+
+describe("describeChatEvent", () => {
+  it("should describe each event as plain text", () => {
+    const user = { userId: "u1", username: "Al" };
+
+    expect(
+      describeChatEvent({
+        type: "achievement_unlocked",
+        ...user,
+        achievementId: "early-bird",
+      })
+    ).toBe("🏆 Al unlocked Early Bird!");
+    expect(
+      describeChatEvent({
+        type: "rank_up",
+        ...user,
+        rank: 3,
+        milestone: 3,
+        month: "2025-03",
+      })
+    ).toBe("📈 Al climbed to #3 on the monthly leaderboard!");
+    expect(
+      describeChatEvent({
+        type: "streak_milestone",
+        ...user,
+        streak: "daily",
+        length: 7,
+      })
+    ).toBe("🔥 Al kept a 7-day streak!");
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * @file chat-history.test.ts
+ * @description
+ * Tests for mergeMessages in lib/party-kit/chat-history.ts.
+ *
+ * Key features tested:
+ * - Live messages are appended and older pages prepended in order
+ * - Duplicate ids are dropped, newer copies of a message replace older ones
+ *
+ * @dependencies
+ * - vitest for the test runner
+ */
+
+import { describe, it, expect } from "vitest";
+import { mergeMessages } from "@/lib/party-kit/chat-history";
+import type { ChatMessage } from "@/lib/party-kit/protocol";
+
+function message(timestamp: number, text = `m${timestamp}`): ChatMessage {
+  return {
+    type: "chat",
+    id: `id-${timestamp}`,
+    userId: "u1",
+    from: "Tester",
+    text,
+    timestamp,
+  };
+}
+
+const ids = (messages: ChatMessage[]) => messages.map((m) => m.timestamp);
+
+describe("mergeMessages", () => {
+  it("should append live messages and prepend older pages", () => {
+    let list = mergeMessages([], [message(3), message(2)]);
+    list = mergeMessages(list, [message(4)]);
+    list = mergeMessages(list, [message(1), message(0)]);
+    expect(ids(list)).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it("should sort messages that land in the middle", () => {
+    const list = mergeMessages([message(1), message(5)], [message(3)]);
+    expect(ids(list)).toEqual([1, 3, 5]);
+  });
+
+  it("should drop duplicates and keep the newest copy", () => {
+    const list = mergeMessages(
+      [message(1), message(2)],
+      [message(2, "edited"), message(3)]
+    );
+    expect(ids(list)).toEqual([1, 2, 3]);
+    expect(list[1].text).toBe("edited");
+  });
+});
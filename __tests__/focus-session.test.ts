@@ -0,0 +1,104 @@
+/**
+ * @file focus-session.test.ts
+ * @description
+ * Tests for the group focus session timing helpers in
+ * lib/party-kit/focus-session.ts.
+ *
+ * Key features tested:
+ * - Phases alternate focus and break, with no break after the last round
+ * - Sessions ended early stop at their end time
+ * - Only participants still in a session are focusing during focus phases
+ *
+ * @dependencies
+ * - vitest for the test runner
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  focusWindows,
+  isFocusing,
+  phaseAt,
+  sessionEnd,
+} from "@/lib/party-kit/focus-session";
+import type { FocusSession } from "@/lib/types/focus-session-types";
+
+const MINUTE = 60 * 1000;
+const START = Date.UTC(2025, 2, 10, 14);
+
+function session(overrides: Partial<FocusSession> = {}): FocusSession {
+  return {
+    id: "s1",
+    hostId: "u1",
+    hostName: "Al",
+    focusMs: 25 * MINUTE,
+    breakMs: 5 * MINUTE,
+    rounds: 2,
+    startedAt: START,
+    endedAt: null,
+    participants: [{ userId: "u1", username: "Al", joinedAt: START }],
+    ...overrides,
+  };
+}
+
+describe("phaseAt", () => {
+  it("should alternate focus and break phases", () => {
+    expect(phaseAt(session(), START)).toEqual({
+      phase: "focus",
+      round: 1,
+      startsAt: START,
+      endsAt: START + 25 * MINUTE,
+    });
+    expect(phaseAt(session(), START + 27 * MINUTE)).toMatchObject({
+      phase: "break",
+      round: 1,
+      endsAt: START + 30 * MINUTE,
+    });
+    expect(phaseAt(session(), START + 30 * MINUTE)).toMatchObject({
+      phase: "focus",
+      round: 2,
+    });
+  });
+
+  it("should end after the last focus phase", () => {
+    expect(sessionEnd(session())).toBe(START + 55 * MINUTE);
+    expect(phaseAt(session(), START + 55 * MINUTE)).toBeNull();
+  });
+
+  it("should stop a session ended early", () => {
+    const ended = session({ endedAt: START + 10 * MINUTE });
+
+    expect(phaseAt(ended, START + 10 * MINUTE)).toBeNull();
+    expect(focusWindows(ended)).toEqual([[START, START + 10 * MINUTE]]);
+  });
+});
+
+describe("focusWindows", () => {
+  it("should list every focus phase", () => {
+    expect(focusWindows(session())).toEqual([
+      [START, START + 25 * MINUTE],
+      [START + 30 * MINUTE, START + 55 * MINUTE],
+    ]);
+  });
+});
+
+describe("isFocusing", () => {
+  it("should only hold participants still in the session", () => {
+    const left = session({
+      participants: [
+        { userId: "u1", username: "Al", joinedAt: START },
+        {
+          userId: "u2",
+          username: "Bea",
+          joinedAt: START,
+          leftAt: START + MINUTE,
+        },
+      ],
+    });
+
+    expect(isFocusing(left, "u1", START + 2 * MINUTE)).toBe(true);
+    expect(isFocusing(left, "u2", START + 2 * MINUTE)).toBe(false);
+    expect(isFocusing(left, "u3", START + 2 * MINUTE)).toBe(false);
+    // Breaks are open to everyone
+    expect(isFocusing(left, "u1", START + 26 * MINUTE)).toBe(false);
+  });
+});
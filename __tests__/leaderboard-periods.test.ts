@@ -0,0 +1,96 @@
+/**
+ * @file leaderboard-periods.test.ts
+ * @description
+ * Tests for the leaderboard period helpers in
+ * lib/party-kit/leaderboard-periods.ts.
+ *
+ * Key features tested:
+ * - Local dates follow the user's timezone, unknown timezones fall back to UTC
+ * - ISO weeks across year boundaries
+ * - Period keys and date ranges for each leaderboard
+ * - Month arithmetic across year boundaries
+ *
+ * @dependencies
+ * - vitest for the test runner
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  addMonths,
+  isoWeek,
+  isoWeekDays,
+  localDate,
+  monthStart,
+  periodWindow,
+  resolveTimeZone,
+} from "@/lib/party-kit/leaderboard-periods";
+
+// Monday 2025-03-10, 02:30 UTC
+const MONDAY_EARLY = Date.UTC(2025, 2, 10, 2, 30);
+
+describe("localDate", () => {
+  it("should follow the timezone", () => {
+    expect(localDate(MONDAY_EARLY, "UTC")).toBe("2025-03-10");
+    expect(localDate(MONDAY_EARLY, "America/New_York")).toBe("2025-03-09");
+    expect(localDate(MONDAY_EARLY, "Asia/Tokyo")).toBe("2025-03-10");
+  });
+
+  it("should fall back to UTC for unknown timezones", () => {
+    expect(resolveTimeZone("Mars/Olympus_Mons")).toBe("UTC");
+    expect(resolveTimeZone(undefined)).toBe("UTC");
+    expect(localDate(MONDAY_EARLY, "Mars/Olympus_Mons")).toBe("2025-03-10");
+  });
+});
+
+describe("isoWeek", () => {
+  it("should number weeks from the one holding the first Thursday", () => {
+    expect(isoWeek("2025-03-10")).toBe("2025-W11");
+    expect(isoWeek("2025-03-16")).toBe("2025-W11");
+    expect(isoWeek("2025-03-17")).toBe("2025-W12");
+  });
+
+  it("should handle weeks spanning a new year", () => {
+    // 2024-12-30 is the Monday of 2025's first week
+    expect(isoWeek("2024-12-30")).toBe("2025-W01");
+    // 2021-01-03 is the Sunday ending 2020's last week
+    expect(isoWeek("2021-01-03")).toBe("2020-W53");
+    expect(isoWeekDays("2021-01-03")).toEqual(["2020-12-28", "2021-01-03"]);
+  });
+});
+
+describe("periodWindow", () => {
+  it("should cover the user's day and week", () => {
+    expect(periodWindow("daily", MONDAY_EARLY, "America/New_York")).toEqual({
+      key: "2025-03-09",
+      firstDay: "2025-03-09",
+      lastDay: "2025-03-09",
+    });
+    // Still Sunday in New York, so the week before
+    expect(periodWindow("weekly", MONDAY_EARLY, "America/New_York")).toEqual({
+      key: "2025-W10",
+      firstDay: "2025-03-03",
+      lastDay: "2025-03-09",
+    });
+  });
+
+  it("should keep months in UTC and all time as a single period", () => {
+    expect(periodWindow("monthly", MONDAY_EARLY, "Asia/Tokyo")).toEqual({
+      key: "2025-03",
+    });
+    expect(periodWindow("all_time", MONDAY_EARLY, "UTC")).toEqual({
+      key: "all",
+    });
+  });
+});
+
+describe("addMonths", () => {
+  it("should step across year boundaries", () => {
+    expect(addMonths("2025-03", 1)).toBe("2025-04");
+    expect(addMonths("2025-01", -1)).toBe("2024-12");
+    expect(addMonths("2024-12", 1)).toBe("2025-01");
+  });
+
+  it("should start months at midnight UTC", () => {
+    expect(monthStart("2025-04")).toBe(Date.UTC(2025, 3, 1));
+  });
+});
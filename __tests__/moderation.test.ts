@@ -0,0 +1,55 @@
+/**
+ * @file moderation.test.ts
+ * @description
+ * Tests for the moderation helpers in lib/party-kit/moderation.ts.
+ *
+ * Key features tested:
+ * - Warnings decay by one per day since the latest
+ * - Bans never end, mutes end at their time
+ * - Restrictions are described to the user with the time left
+ *
+ * @dependencies
+ * - vitest for the test runner
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  WARNING_DECAY_MS,
+  decayedWarnings,
+  describeRestriction,
+  isRestricted,
+} from "@/lib/party-kit/moderation";
+
+const NOW = Date.UTC(2025, 2, 10, 12);
+
+describe("decayedWarnings", () => {
+  it("should forgive one warning per day since the latest", () => {
+    expect(decayedWarnings(3, NOW, NOW)).toBe(3);
+    expect(decayedWarnings(3, NOW - WARNING_DECAY_MS + 1, NOW)).toBe(3);
+    expect(decayedWarnings(3, NOW - WARNING_DECAY_MS, NOW)).toBe(2);
+    expect(decayedWarnings(3, NOW - 10 * WARNING_DECAY_MS, NOW)).toBe(0);
+  });
+});
+
+describe("isRestricted", () => {
+  it("should keep bans and running mutes", () => {
+    expect(isRestricted(null, NOW)).toBe(false);
+    expect(isRestricted({ reason: "Spam", until: null }, NOW)).toBe(true);
+    expect(isRestricted({ reason: "Spam", until: NOW + 1 }, NOW)).toBe(true);
+    expect(isRestricted({ reason: "Spam", until: NOW }, NOW)).toBe(false);
+  });
+});
+
+describe("describeRestriction", () => {
+  it("should tell bans and the minutes left of mutes", () => {
+    expect(describeRestriction({ reason: "Spam", until: null }, NOW)).toBe(
+      "You are banned from chat: Spam"
+    );
+    expect(
+      describeRestriction({ reason: "Spam", until: NOW + 90 * 1000 }, NOW)
+    ).toBe("You are muted for 2 more minutes: Spam");
+    expect(
+      describeRestriction({ reason: "Spam", until: NOW + 1000 }, NOW)
+    ).toBe("You are muted for 1 more minute: Spam");
+  });
+});
@@ -7,6 +7,45 @@
  * Key features tested:
  * - set_score message updates ephemeral scoreboard in storage
  * - scoreboard broadcast
+ * - editing and deleting chat messages (author only, tombstones, broadcast,
+ *   edits rate limited)
+ * - paginated chat history (latest page, before cursor, since timestamp,
+ *   with the edits and deletes made since)
+ * - per-message chat storage (legacy migration, pruning, concurrent sends)
+ * - score deltas are summed per user and flushed atomically, none are lost,
+ *   overlapping flushes never send a batch twice
+ * - score submissions credit each block id once per user, replays are refused,
+ *   users banned from scoring count towards nothing
+ * - anti-cheat: allowance against elapsed time, bursts, overlapping blocks,
+ *   violations recorded and repeat offenders banned from scoring, blocks
+ *   over the allowance credited later and never banned for
+ * - every submission is written to the score ledger with its decision,
+ *   leaderboard clears dated in each user's timezone
+ * - daily, weekly and all-time leaderboards per connection subscription
+ * - regions: stored on profile updates, regional boards and ranks
+ * - windowed scoreboards: top and own rows, deltas, pages, older clients
+ * - monthly rollover: standings frozen once, winners announced once and
+ *   recorded, retries
+ * - teams: team leaderboard subscription, one team per user per month
+ * - focus duels: challenge and answers, credited blocks in the window,
+ *   winner announced and saved, unanswered duels expire
+ * - group focus sessions: phases on alarms, chat muted while focusing,
+ *   bonus for participants' productive blocks
+ * - streaks: broadcast and saved when credited blocks change them, shown
+ *   on leaderboard rows
+ * - achievements: stats queued from scores, ranks and chat, unlocked by
+ *   the saved progress, pushed once, requeued when recording fails, local
+ *   ones imported
+ * - announcements: unlocks and rank milestones posted as chat events,
+ *   once per milestone and month, unless the user opted out
+ * - roles: looked up on hello, privileged operations checked per role and
+ *   written to the audit log, bans only of users below the moderator's role
+ * - room-to-room requests only accepted with the room secret: scoreboard
+ *   refreshes, and bans, mutes and kicks passed on to the user's rooms
+ * - moderation: timed mutes, kicks with a cool-off, unbans, persisted
+ *   warnings that decay and reset, all only of users below the moderator
+ * - signed tokens used once, even after the room was evicted, and their
+ *   nonces forgotten once expired
  *
  * @dependencies
  * - vitest for test runner
@@ -16,8 +55,166 @@
  *   Here, we do partial mocking of the 'room' and 'connection' to verify logic.
  */
 
-import { describe, it, expect, beforeEach, vi } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import ChatServer from "@/party-server/server";
+import { CREDIT_WINDOW_MS } from "@/party-server/credited-blocks";
+import { DUEL_GRACE_MS } from "@/party-server/duel-store";
+import {
+  MAX_ALLOWANCE,
+  MAX_SUBMISSIONS_PER_WINDOW,
+} from "@/party-server/score-guard";
+import { BLOCK_DURATION_MS } from "@/lib/party-kit/block-scoring";
+import { signPartyToken } from "@/lib/party-kit/auth-token";
+import { WARNING_DECAY_MS } from "@/lib/party-kit/moderation";
+import { moderateMessage } from "@/app/actions/moderation";
+
+// Moderation calls OpenAI, never flag anything in tests
+vi.mock("@/app/actions/moderation", () => ({
+  moderateMessage: vi.fn(async () => false),
+}));
+
+// A Supabase stand-in: every query builder call chains and is recorded in
+// mockDb.calls, and awaiting the chain resolves to mockDb.result (an empty
+// result unless a test changes it). Tests can stub mockDb.rpc.
+const { mockDb } = vi.hoisted(() => {
+  const result = { data: null, error: null };
+  const chain: any = new Proxy(
+    {},
+    {
+      get(_target, prop) {
+        if (prop === "then") {
+          return (resolve: (value: any) => void) => resolve(mockDb.result);
+        }
+        return (...args: any[]) => {
+          mockDb.calls.push([String(prop), args]);
+          return chain;
+        };
+      },
+    }
+  );
+  // The client itself must not be thenable, or awaiting it would unwrap it
+  const mockDb = {
+    result: result as any,
+    calls: [] as [string, any[]][],
+    from: vi.fn((...args: any[]) => {
+      mockDb.calls.push(["from", args]);
+      return chain;
+    }),
+    rpc: vi.fn(async (..._args: any[]): Promise<any> => result),
+  };
+  return { mockDb };
+});
+vi.mock("@/party-server/supabase-service-client", () => ({
+  createServiceClient: vi.fn(async () => mockDb),
+}));
+
+/**
+ * A Map-backed stand-in for Durable Object storage supporting the calls the
+ * server makes: get, put (single or many), delete (single or many) and list
+ * with prefix/start/startAfter/end/reverse/limit.
+ */
+function createMockStorage(initial: [string, any][] = []) {
+  const data = new Map<string, any>(initial);
+  return {
+    data,
+    get: vi.fn(async (key: string) => data.get(key)),
+    put: vi.fn(async (keyOrEntries: any, value?: any) => {
+      if (typeof keyOrEntries === "string") {
+        data.set(keyOrEntries, value);
+      } else {
+        for (const [k, v] of Object.entries(keyOrEntries)) data.set(k, v);
+      }
+    }),
+    delete: vi.fn(async (keys: string | string[]) => {
+      if (typeof keys === "string") return data.delete(keys);
+      return keys.filter((key) => data.delete(key)).length;
+    }),
+    list: vi.fn(async (options: any = {}) => {
+      let keys = Array.from(data.keys())
+        .filter((key) => !options.prefix || key.startsWith(options.prefix))
+        .filter((key) => !options.start || key >= options.start)
+        .filter((key) => !options.startAfter || key > options.startAfter)
+        .filter((key) => !options.end || key < options.end)
+        .sort();
+      if (options.reverse) keys.reverse();
+      if (options.limit !== undefined) keys = keys.slice(0, options.limit);
+      return new Map(keys.map((key) => [key, data.get(key)]));
+    }),
+    alarm: null as number | null,
+    getAlarm: vi.fn(async function (this: any) {
+      return this.alarm;
+    }),
+    setAlarm: vi.fn(async function (this: any, time: number) {
+      this.alarm = time;
+    }),
+    deleteAlarm: vi.fn(async function (this: any) {
+      this.alarm = null;
+    }),
+  };
+}
+
+// A stored chat message whose id sorts by `timestamp`
+function storedMessage(timestamp: number, userId = "u1") {
+  return {
+    type: "chat",
+    id: `${timestamp.toString(36).padStart(10, "0")}-00000000`,
+    userId,
+    from: userId,
+    text: `message ${timestamp}`,
+    timestamp,
+  };
+}
+
+// Productive (or, for a negative delta, unproductive) blocks worth `delta`.
+// Every block gets its own id and an earlier stretch of time than the last.
+let nextBlockId = 0;
+let lastBlockStart = Infinity;
+function blocksWorth(delta: number) {
+  return Array.from({ length: Math.abs(delta) }, () => {
+    lastBlockStart = Math.min(Date.now(), lastBlockStart - BLOCK_DURATION_MS);
+    return {
+      id: `block-${nextBlockId++}`,
+      startTime: lastBlockStart,
+      classification: delta > 0 ? "productive" : "unproductive",
+    };
+  });
+}
+
+// An identified connection for `userId`
+function identifiedConnection(userId: string) {
+  return {
+    id: `conn-${userId}`,
+    state: {
+      userId,
+      username: userId,
+      task: "",
+      role: "",
+      status: "active",
+      warningCount: 0,
+      hasSetValidUserId: true,
+      protocolVersion: 2,
+      timezone: "UTC",
+      region: "global",
+      leaderboard: "monthly",
+      leaderboardRegion: "global",
+      teamBoard: false,
+      accessRole: "member",
+    },
+    setState(updates: any) {
+      this.state = { ...this.state, ...updates };
+    },
+    send: vi.fn(),
+  };
+}
+
+function createRoom(storage: ReturnType<typeof createMockStorage>) {
+  return {
+    id: "chat",
+    storage,
+    getConnections: vi.fn(() => []),
+    broadcast: vi.fn(),
+  };
+}
 
 describe("ChatServer ephemeral scoreboard logic", () => {
   let mockStorage: any;
@@ -99,3 +296,2451 @@ describe("ChatServer ephemeral scoreboard logic", () => {
     expect(scoreboard[2].userId).toBe("u2");
   });
 });
+
+describe("ChatServer message edits", () => {
+  const id = storedMessage(1, "author").id;
+  let storage: ReturnType<typeof createMockStorage>;
+  let mockRoom: ReturnType<typeof createRoom>;
+  let server: ChatServer;
+
+  beforeEach(() => {
+    storage = createMockStorage([
+      [`msg:${id}`, { ...storedMessage(1, "author"), text: "helo" }],
+    ]);
+    mockRoom = createRoom(storage);
+    server = new ChatServer(mockRoom as any);
+  });
+
+  it("should let the author edit their message", async () => {
+    await server.onMessage(
+      JSON.stringify({ type: "edit_message", id, text: "hello" }),
+      identifiedConnection("author") as any
+    );
+
+    const stored = storage.data.get(`msg:${id}`);
+    expect(stored.text).toBe("hello");
+    expect(stored.editedAt).toBeTypeOf("number");
+    expect(mockRoom.broadcast.mock.calls[0][0]).toContain(
+      '"type":"chat_update"'
+    );
+  });
+
+  it("should leave a tombstone when a message is deleted", async () => {
+    await server.onMessage(
+      JSON.stringify({ type: "delete_message", id }),
+      identifiedConnection("author") as any
+    );
+
+    const stored = storage.data.get(`msg:${id}`);
+    expect(stored).toMatchObject({ id, text: "" });
+    expect(stored.deletedAt).toBeTypeOf("number");
+  });
+
+  it("should reject changes by anyone but the author", async () => {
+    const other = identifiedConnection("someone-else");
+    await server.onMessage(
+      JSON.stringify({ type: "delete_message", id }),
+      other as any
+    );
+
+    expect(storage.data.get(`msg:${id}`).text).toBe("helo");
+    expect(mockRoom.broadcast).not.toHaveBeenCalled();
+    expect(other.send.mock.calls[0][0]).toContain('"code":"unauthorized"');
+  });
+
+  it("should rate limit edits like new messages", async () => {
+    const author = identifiedConnection("author");
+    for (let i = 0; i < 20; i++) {
+      await server.onMessage(
+        JSON.stringify({ type: "edit_message", id, text: `edit ${i}` }),
+        author as any
+      );
+    }
+    await server.onMessage(
+      JSON.stringify({ type: "edit_message", id, text: "one too many" }),
+      author as any
+    );
+
+    expect(storage.data.get(`msg:${id}`).text).toBe("edit 19");
+    expect(author.send.mock.calls.at(-1)![0]).toContain(
+      '"code":"rate_limited"'
+    );
+  });
+});
+
+describe("ChatServer chat history", () => {
+  let server: ChatServer;
+  let conn: ReturnType<typeof identifiedConnection>;
+
+  // The reply to the last frame sent to the connection
+  function lastReply() {
+    const calls = conn.send.mock.calls;
+    return JSON.parse(calls[calls.length - 1][0]);
+  }
+
+  beforeEach(() => {
+    const storage = createMockStorage(
+      Array.from({ length: 120 }, (_, i) => {
+        const msg = storedMessage(i);
+        return [`msg:${msg.id}`, msg];
+      })
+    );
+    server = new ChatServer(createRoom(storage) as any);
+    conn = identifiedConnection("u1");
+  });
+
+  it("should return the latest page oldest first", async () => {
+    await server.onMessage(JSON.stringify({ type: "history" }), conn as any);
+
+    const reply = lastReply();
+    expect(reply).toMatchObject({ direction: "older", hasMore: true });
+    expect(reply.messages).toHaveLength(50);
+    expect(reply.messages[0].timestamp).toBe(70);
+    expect(reply.messages[49].timestamp).toBe(119);
+  });
+
+  it("should page backwards from a cursor", async () => {
+    await server.onMessage(
+      JSON.stringify({ type: "history", before: storedMessage(50).id }),
+      conn as any
+    );
+
+    const reply = lastReply();
+    expect(reply.hasMore).toBe(false);
+    expect(reply.messages.map((m: any) => m.timestamp)).toEqual(
+      Array.from({ length: 50 }, (_, i) => i)
+    );
+  });
+
+  it("should only return messages since a timestamp", async () => {
+    await server.onMessage(
+      JSON.stringify({ type: "history", since: 115 }),
+      conn as any
+    );
+
+    const reply = lastReply();
+    expect(reply).toMatchObject({ direction: "newer", hasMore: false });
+    expect(reply.messages.map((m: any) => m.timestamp)).toEqual([
+      116, 117, 118, 119,
+    ]);
+  });
+
+  it("should send edits and deletes made since a timestamp", async () => {
+    for (const [type, id] of [
+      ["edit_message", storedMessage(10).id],
+      ["delete_message", storedMessage(20).id],
+      ["edit_message", storedMessage(117).id],
+    ]) {
+      await server.onMessage(
+        JSON.stringify({ type, id, text: "changed" }),
+        conn as any
+      );
+    }
+    conn.send.mockClear();
+
+    await server.onMessage(
+      JSON.stringify({ type: "history", since: 115 }),
+      conn as any
+    );
+
+    const [history, ...updates] = conn.send.mock.calls.map(([frame]) =>
+      JSON.parse(frame)
+    );
+    expect(history.messages[1]).toMatchObject({ text: "changed" });
+    // Messages from before the timestamp come as updates
+    expect(updates).toEqual([
+      {
+        type: "chat_update",
+        message: expect.objectContaining({ timestamp: 10, text: "changed" }),
+      },
+      {
+        type: "chat_update",
+        message: expect.objectContaining({ timestamp: 20, text: "" }),
+      },
+    ]);
+  });
+});
+
+describe("ChatServer per-message storage", () => {
+  it("should migrate the legacy messages array to per-message keys", async () => {
+    // Legacy layout: one array, newest first, messages without ids
+    const storage = createMockStorage([
+      [
+        "messages",
+        [
+          { type: "chat", from: "Bob", text: "second", timestamp: 2000 },
+          { type: "chat", from: "System", text: "first", timestamp: 1000 },
+        ],
+      ],
+    ]);
+    const server = new ChatServer(createRoom(storage) as any);
+    await server.onStart();
+
+    expect(storage.data.has("messages")).toBe(false);
+    const migrated = Array.from(
+      (await storage.list({ prefix: "msg:" })).values()
+    );
+    expect(migrated.map((m: any) => m.text)).toEqual(["first", "second"]);
+    expect(migrated[0].userId).toBe("system");
+    expect(migrated[1].id).toBeTruthy();
+  });
+
+  it("should store each message under its own key without rewriting others", async () => {
+    const storage = createMockStorage();
+    const server = new ChatServer(createRoom(storage) as any);
+
+    await server.onMessage(
+      JSON.stringify({ type: "chat", text: "hi" }),
+      identifiedConnection("u1") as any
+    );
+
+    // Other puts queue the sender's achievement stats
+    const messagePuts = storage.put.mock.calls.filter(([key]) =>
+      String(key).startsWith("msg:")
+    );
+    expect(messagePuts).toHaveLength(1);
+    const [key, value] = messagePuts[0];
+    expect(key).toBe(`msg:${value.id}`);
+    expect(value).toMatchObject({ userId: "u1", text: "hi" });
+  });
+
+  it("should not lose messages sent concurrently", async () => {
+    const storage = createMockStorage();
+    const server = new ChatServer(createRoom(storage) as any);
+
+    await Promise.all(
+      ["a", "b", "c", "d", "e"].map((userId) =>
+        server.onMessage(
+          JSON.stringify({ type: "chat", text: `from ${userId}` }),
+          identifiedConnection(userId) as any
+        )
+      )
+    );
+
+    const stored = await storage.list({ prefix: "msg:" });
+    expect(stored.size).toBe(5);
+  });
+
+  it("should prune the oldest messages in batches past the limit", async () => {
+    // 1000 is the server's MAX_MESSAGES, 50 the pruning slack
+    const storage = createMockStorage(
+      Array.from({ length: 1050 }, (_, i) => {
+        const msg = storedMessage(i);
+        return [`msg:${msg.id}`, msg];
+      })
+    );
+    const server = new ChatServer(createRoom(storage) as any);
+
+    await server.onMessage(
+      JSON.stringify({ type: "chat", text: "one too many" }),
+      identifiedConnection("u1") as any
+    );
+
+    const stored = await storage.list({ prefix: "msg:" });
+    expect(stored.size).toBe(1000);
+    // Only the oldest messages went, in a handful of delete calls
+    expect(storage.data.has(`msg:${storedMessage(50).id}`)).toBe(false);
+    expect(storage.data.has(`msg:${storedMessage(51).id}`)).toBe(true);
+    expect(storage.delete.mock.calls.length).toBeLessThanOrEqual(1);
+  });
+});
+
+describe("ChatServer score increments", () => {
+  let server: any;
+
+  // Every delta passed to increment_scores, summed per user
+  function flushedTotals() {
+    const totals: Record<string, number> = {};
+    for (const [fn, args] of mockDb.rpc.mock.calls) {
+      if (fn !== "increment_scores") continue;
+      for (const { user_id, delta } of args.p_updates) {
+        totals[user_id] = (totals[user_id] ?? 0) + delta;
+      }
+    }
+    return totals;
+  }
+
+  // Submits fresh blocks worth `delta` points
+  function sendDelta(userId: string, delta: number) {
+    return server.onMessage(
+      JSON.stringify({ type: "update_score", blocks: blocksWorth(delta) }),
+      identifiedConnection(userId)
+    );
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockDb.rpc.mockClear();
+    server = new ChatServer(createRoom(createMockStorage()) as any);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should sum deltas for the same user into one increment", async () => {
+    await sendDelta("u1", 5);
+    await sendDelta("u1", 3);
+    await sendDelta("u2", -2);
+    await server.processBatchScoreUpdates();
+
+    expect(mockDb.rpc).toHaveBeenCalledTimes(1);
+    const [fn, args] = mockDb.rpc.mock.calls[0];
+    expect(fn).toBe("increment_scores");
+    expect(args.p_updates).toEqual([
+      { user_id: "u1", user_name: "u1", delta: 8 },
+      { user_id: "u2", user_name: "u2", delta: -2 },
+    ]);
+  });
+
+  it("should keep deltas that arrive while a batch is being written", async () => {
+    let finishWrite: (value: any) => void = () => {};
+    mockDb.rpc.mockImplementationOnce(
+      () => new Promise((resolve) => (finishWrite = resolve))
+    );
+
+    await sendDelta("u1", 5);
+    const firstFlush = server.processBatchScoreUpdates();
+    await vi.waitFor(() => expect(mockDb.rpc).toHaveBeenCalledTimes(1));
+
+    // Sent while the first batch is still in flight
+    await sendDelta("u1", 7);
+    finishWrite({ data: null, error: null });
+    await firstFlush;
+    await server.processBatchScoreUpdates();
+
+    expect(flushedTotals()).toEqual({ u1: 12 });
+  });
+
+  it("should not send a batch twice when flushes overlap", async () => {
+    let finishWrite: (value: any) => void = () => {};
+    mockDb.rpc.mockImplementationOnce(
+      () => new Promise((resolve) => (finishWrite = resolve))
+    );
+
+    await sendDelta("u1", 5);
+    const firstFlush = server.processBatchScoreUpdates();
+    await vi.waitFor(() => expect(mockDb.rpc).toHaveBeenCalledTimes(1));
+
+    // An alarm or a disconnect flushes while the first batch is in flight
+    await sendDelta("u1", 2);
+    const secondFlush = server.processBatchScoreUpdates();
+    finishWrite({ data: null, error: null });
+    await Promise.all([firstFlush, secondFlush]);
+
+    expect(flushedTotals()).toEqual({ u1: 7 });
+  });
+
+  it("should retry deltas from a failed batch", async () => {
+    mockDb.rpc.mockResolvedValueOnce({
+      data: null,
+      error: { message: "connection reset" },
+    });
+
+    await sendDelta("u1", 4);
+    await server.processBatchScoreUpdates();
+    await sendDelta("u1", 1);
+    await server.processBatchScoreUpdates();
+
+    // The failed call carried 4, the retry carries 4 + 1
+    const retry = mockDb.rpc.mock.calls[1][1];
+    expect(retry.p_updates).toEqual([
+      { user_id: "u1", user_name: "u1", delta: 5 },
+    ]);
+  });
+
+  it("should flush deltas queued before the room was evicted", async () => {
+    const storage = createMockStorage();
+    server = new ChatServer(createRoom(storage) as any);
+    await sendDelta("u1", 6);
+    expect(storage.alarm).not.toBeNull();
+
+    // A fresh instance over the same storage, as after an eviction
+    server = new ChatServer(createRoom(storage) as any);
+    vi.setSystemTime(storage.alarm!);
+    await server.onAlarm();
+
+    expect(flushedTotals()).toEqual({ u1: 6 });
+    expect(storage.alarm).toBeNull();
+  });
+
+  it("should back off before retrying a failed batch", async () => {
+    const storage = createMockStorage();
+    server = new ChatServer(createRoom(storage) as any);
+    const failure = { data: null, error: { message: "connection reset" } };
+    mockDb.rpc
+      .mockResolvedValueOnce(failure)
+      .mockResolvedValueOnce(failure);
+
+    // The room alarm may be armed earlier for achievement stats
+    const retryAt = () => storage.data.get("alarm:flush_scores") - Date.now();
+    await sendDelta("u1", 2);
+    await server.processBatchScoreUpdates();
+    const firstRetry = retryAt();
+    await server.processBatchScoreUpdates();
+    const secondRetry = retryAt();
+
+    expect(secondRetry).toBeGreaterThan(firstRetry);
+  });
+});
+
+describe("ChatServer idempotent score submissions", () => {
+  let server: any;
+
+  function submit(connection: any, blocks: any[]) {
+    return server.onMessage(
+      JSON.stringify({ type: "update_score", blocks }),
+      connection
+    );
+  }
+
+  // Sum of every delta passed to increment_scores
+  function flushedDelta() {
+    return mockDb.rpc.mock.calls
+      .flatMap(([, args]) => args.p_updates)
+      .reduce((sum: number, update: any) => sum + update.delta, 0);
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockDb.rpc.mockClear();
+    server = new ChatServer(createRoom(createMockStorage()) as any);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should not credit a replayed submission twice", async () => {
+    const connection = identifiedConnection("u1");
+    const blocks = blocksWorth(3);
+
+    await submit(connection, blocks);
+    await submit(connection, blocks);
+    await server.processBatchScoreUpdates();
+
+    expect(flushedDelta()).toBe(3);
+    const error = JSON.parse(connection.send.mock.calls.at(-1)![0]);
+    expect(error).toMatchObject({
+      type: "error",
+      code: "duplicate_submission",
+    });
+  });
+
+  it("should credit only the new blocks of a partial replay", async () => {
+    const connection = identifiedConnection("u1");
+    const [first, second] = blocksWorth(2);
+
+    await submit(connection, [first]);
+    await submit(connection, [first, second]);
+    await server.processBatchScoreUpdates();
+
+    expect(flushedDelta()).toBe(2);
+    expect(connection.send).not.toHaveBeenCalled();
+  });
+
+  it("should keep credited blocks per user", async () => {
+    const blocks = blocksWorth(1);
+
+    await submit(identifiedConnection("u1"), blocks);
+    await submit(identifiedConnection("u2"), blocks);
+    await server.processBatchScoreUpdates();
+
+    expect(mockDb.rpc.mock.calls[0][1].p_updates).toEqual([
+      { user_id: "u1", user_name: "u1", delta: 1 },
+      { user_id: "u2", user_name: "u2", delta: 1 },
+    ]);
+  });
+
+  it("should refuse blocks older than the credit window", async () => {
+    const [block] = blocksWorth(1);
+    block.startTime = Date.now() - CREDIT_WINDOW_MS - 1;
+
+    await submit(identifiedConnection("u1"), [block]);
+    await server.processBatchScoreUpdates();
+
+    // Only the ledger hears about it
+    const [, args] = mockDb.rpc.mock.calls[0];
+    expect(args.p_updates).toEqual([]);
+    expect(args.p_events[0]).toMatchObject({ delta: 0, decision: "rejected" });
+  });
+});
+
+describe("ChatServer score anti-cheat", () => {
+  let server: any;
+  let recordViolations: ReturnType<typeof vi.spyOn>;
+
+  function submit(userId: string, blocks: any[]) {
+    const connection = identifiedConnection(userId);
+    return server
+      .onMessage(JSON.stringify({ type: "update_score", blocks }), connection)
+      .then(() => connection);
+  }
+
+  // Kinds of every violation recorded so far
+  function violationKinds() {
+    return recordViolations.mock.calls.flatMap(([, , violations]: any[]) =>
+      violations.map((violation: any) => violation.kind)
+    );
+  }
+
+  async function flushedDelta() {
+    await server.processBatchScoreUpdates();
+    return mockDb.rpc.mock.calls
+      .flatMap(([, args]) => args.p_updates)
+      .reduce((sum: number, update: any) => sum + update.delta, 0);
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockDb.rpc.mockClear();
+    mockDb.calls.length = 0;
+    server = new ChatServer(createRoom(createMockStorage()) as any);
+    recordViolations = vi.spyOn(server, "recordScoreViolations");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    mockDb.result = { data: null, error: null };
+  });
+
+  it("should cap points at the allowance and refill it with time", async () => {
+    await submit("u1", blocksWorth(MAX_ALLOWANCE + 5));
+    expect(await flushedDelta()).toBe(MAX_ALLOWANCE);
+    expect(violationKinds()).toEqual(["rate_exceeded"]);
+
+    // Two blocks of wall-clock time later, two more points are plausible
+    vi.advanceTimersByTime(2 * BLOCK_DURATION_MS);
+    mockDb.rpc.mockClear();
+    await submit("u1", blocksWorth(3));
+    expect(await flushedDelta()).toBe(2);
+  });
+
+  it("should credit blocks over the allowance once resubmitted", async () => {
+    const backlog = blocksWorth(MAX_ALLOWANCE + 5);
+    await submit("u1", backlog);
+    expect(await flushedDelta()).toBe(MAX_ALLOWANCE);
+
+    vi.advanceTimersByTime(5 * BLOCK_DURATION_MS);
+    mockDb.rpc.mockClear();
+    await submit("u1", backlog);
+    expect(await flushedDelta()).toBe(5);
+  });
+
+  it("should cap negative points as griefing", async () => {
+    await submit("u1", blocksWorth(-(MAX_ALLOWANCE + 3)));
+
+    expect(await flushedDelta()).toBe(-MAX_ALLOWANCE);
+    expect(violationKinds()).toEqual(["negative_flood"]);
+  });
+
+  it("should refuse a burst of submissions", async () => {
+    for (let i = 0; i < MAX_SUBMISSIONS_PER_WINDOW; i++) {
+      await submit("u1", blocksWorth(1));
+    }
+    const connection = await submit("u1", blocksWorth(1));
+
+    expect(await flushedDelta()).toBe(MAX_SUBMISSIONS_PER_WINDOW);
+    expect(violationKinds()).toEqual(["burst"]);
+    const error = JSON.parse(connection.send.mock.calls.at(-1)![0]);
+    expect(error).toMatchObject({ type: "error", code: "rate_limited" });
+  });
+
+  it("should refuse blocks covering the same time", async () => {
+    const [block] = blocksWorth(1);
+    const forged = { ...block, id: `${block.id}-copy` };
+
+    await submit("u1", [block, forged]);
+
+    expect(await flushedDelta()).toBe(1);
+    expect(violationKinds()).toEqual(["overlapping_blocks"]);
+  });
+
+  it("should ban repeat offenders from scoring", async () => {
+    // Supabase reports three recent violations for the user
+    mockDb.result = { data: null, error: null, count: 3 };
+
+    const [block] = blocksWorth(1);
+    await submit("u1", [block, { ...block, id: `${block.id}-copy` }]);
+
+    const inserted = mockDb.calls.find(([method]) => method === "insert");
+    expect(inserted?.[1][0]).toEqual([
+      expect.objectContaining({ user_id: "u1", kind: "overlapping_blocks" }),
+    ]);
+    const banned = mockDb.calls.find(([method]) => method === "upsert");
+    expect(banned?.[1][0]).toMatchObject({
+      user_id: "u1",
+      banned_score_reason: expect.any(String),
+    });
+  });
+
+  it("should not ban users catching up on a backlog", async () => {
+    mockDb.result = { data: null, error: null, count: 3 };
+
+    await submit("u1", blocksWorth(MAX_ALLOWANCE + 1));
+
+    const inserted = mockDb.calls.find(([method]) => method === "insert");
+    expect(inserted?.[1][0]).toEqual([
+      expect.objectContaining({ user_id: "u1", kind: "rate_exceeded" }),
+    ]);
+    const upserted = mockDb.calls
+      .filter(([method]) => method === "upsert")
+      .map(([, args]) => args[0]);
+    expect(upserted).not.toContainEqual(
+      expect.objectContaining({ banned_score_reason: expect.any(String) })
+    );
+  });
+});
+
+describe("ChatServer score ledger", () => {
+  let server: any;
+
+  function submit(userId: string, blocks: any[]) {
+    return server.onMessage(
+      JSON.stringify({ type: "update_score", blocks }),
+      identifiedConnection(userId)
+    );
+  }
+
+  // Every ledger event passed to increment_scores
+  async function flushedEvents() {
+    await server.processBatchScoreUpdates();
+    return mockDb.rpc.mock.calls.flatMap(([, args]) => args.p_events);
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockDb.rpc.mockClear();
+    server = new ChatServer(createRoom(createMockStorage()) as any);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    mockDb.result = { data: null, error: null };
+  });
+
+  it("should record an applied submission with its blocks", async () => {
+    const blocks = blocksWorth(2);
+    await submit("u1", blocks);
+
+    expect(await flushedEvents()).toEqual([
+      expect.objectContaining({
+        user_id: "u1",
+        delta: 2,
+        requested_delta: 2,
+        source: "ws",
+        block_ids: blocks.map((block) => block.id),
+        decision: "applied",
+        reason: null,
+      }),
+    ]);
+  });
+
+  it("should record a replay as rejected, without changing the score", async () => {
+    const blocks = blocksWorth(1);
+    await submit("u1", blocks);
+    await submit("u1", blocks);
+
+    const events = await flushedEvents();
+    expect(events[1]).toMatchObject({
+      delta: 0,
+      requested_delta: 1,
+      decision: "rejected",
+      reason: expect.stringContaining("1 already credited"),
+    });
+    expect(mockDb.rpc.mock.calls[0][1].p_updates).toEqual([
+      { user_id: "u1", user_name: "u1", delta: 1 },
+    ]);
+  });
+
+  it("should record a submission cut down by the anti-cheat as clamped", async () => {
+    await submit("u1", blocksWorth(MAX_ALLOWANCE + 2));
+
+    expect(await flushedEvents()).toEqual([
+      expect.objectContaining({
+        delta: MAX_ALLOWANCE,
+        requested_delta: MAX_ALLOWANCE + 2,
+        decision: "clamped",
+      }),
+    ]);
+  });
+
+  it("should reject the submissions of users banned from scoring", async () => {
+    await submit("u1", blocksWorth(1));
+    mockDb.result = {
+      data: [{ user_id: "u1", banned_score_reason: "Cheating" }],
+      error: null,
+    };
+
+    const events = await flushedEvents();
+    expect(events).toEqual([
+      expect.objectContaining({ delta: 0, decision: "rejected" }),
+    ]);
+    expect(mockDb.rpc.mock.calls[0][1].p_updates).toEqual([]);
+  });
+
+  it("should not count a banned user's blocks anywhere else", async () => {
+    const duels = vi.spyOn(server.duels, "credit");
+    const streaks = vi.spyOn(server.streaks, "credit");
+    const achievements = vi.spyOn(server, "trackAchievements");
+    mockDb.result = { data: { banned_score_reason: "Cheating" }, error: null };
+
+    await submit("u1", blocksWorth(1));
+
+    expect(duels).not.toHaveBeenCalled();
+    expect(streaks).not.toHaveBeenCalled();
+    expect(achievements).not.toHaveBeenCalled();
+  });
+
+  it("should date a cleared leaderboard in each user's timezone", async () => {
+    vi.setSystemTime(Date.UTC(2025, 2, 10, 20));
+    const room = createRoom(createMockStorage());
+    server = new ChatServer(room as any);
+    const admin = identifiedConnection("boss");
+    admin.state = { ...admin.state, accessRole: "admin" };
+    const al = identifiedConnection("u1");
+    al.state = { ...al.state, timezone: "Pacific/Auckland" };
+    room.getConnections.mockReturnValue([admin, al] as any);
+    mockDb.calls.length = 0;
+    mockDb.result = {
+      data: [
+        { user_id: "u1", user_name: "Al", score: 5 },
+        { user_id: "u2", user_name: "Bo", score: 3 },
+      ],
+      error: null,
+    };
+
+    await server.onMessage(
+      JSON.stringify({ type: "clear_leaderboard" }),
+      admin
+    );
+
+    const index = mockDb.calls.findIndex(
+      ([fn, args]) => fn === "from" && args[0] === "score_events"
+    );
+    expect(mockDb.calls[index + 1][1][0]).toEqual([
+      expect.objectContaining({ user_id: "u1", local_date: "2025-03-11" }),
+      // Not connected, so dated in the default timezone
+      expect.objectContaining({ user_id: "u2", local_date: "2025-03-10" }),
+    ]);
+  });
+});
+
+describe("ChatServer leaderboard periods", () => {
+  let server: any;
+  let connection: ReturnType<typeof identifiedConnection>;
+
+  // The last frame sent to the connection
+  function lastReply() {
+    const calls = connection.send.mock.calls;
+    return JSON.parse(calls[calls.length - 1][0]);
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // Monday 2025-03-10, 02:30 UTC: still Sunday in New York
+    vi.setSystemTime(Date.UTC(2025, 2, 10, 2, 30));
+    mockDb.rpc.mockClear();
+    server = new ChatServer(createRoom(createMockStorage()) as any);
+    connection = identifiedConnection("u1");
+    connection.state.timezone = "America/New_York";
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should send the weekly board of the user's local week", async () => {
+    mockDb.rpc.mockResolvedValueOnce({
+      data: [{ user_id: "u2", user_name: "Bea", score: 7 }],
+      error: null,
+    });
+
+    await server.onMessage(
+      JSON.stringify({ type: "subscribe_leaderboard", period: "weekly" }),
+      connection
+    );
+
+    expect(connection.state.leaderboard).toBe("weekly");
+    expect(mockDb.rpc).toHaveBeenCalledWith("period_leaderboard", {
+      p_from: "2025-03-03",
+      p_to: "2025-03-09",
+      p_user_ids: null,
+    });
+    expect(lastReply()).toEqual({
+      type: "scoreboard",
+      period: "weekly",
+      periodKey: "2025-W10",
+      region: "global",
+      ranks: { global: null, regional: null },
+      total: 1,
+      scoreboard: [
+        { rank: 1, userId: "u2", username: "Bea", score: 7, region: "global" },
+      ],
+    });
+  });
+
+  it("should send each connection the board it subscribed to", async () => {
+    const monthly = identifiedConnection("u2");
+    server.room.getConnections.mockReturnValue([connection, monthly]);
+    connection.state.leaderboard = "all_time";
+
+    await server.broadcastScoreboard();
+
+    expect(mockDb.rpc).toHaveBeenCalledWith("all_time_leaderboard", {
+      p_user_ids: null,
+    });
+    expect(lastReply()).toMatchObject({ period: "all_time", periodKey: "all" });
+    expect(JSON.parse(monthly.send.mock.calls[0][0])).toMatchObject({
+      period: "monthly",
+      periodKey: "2025-03",
+    });
+  });
+
+  it("should date ledger events in the submitter's timezone", async () => {
+    await server.onMessage(
+      JSON.stringify({ type: "update_score", blocks: blocksWorth(1) }),
+      connection
+    );
+    await server.processBatchScoreUpdates();
+
+    expect(mockDb.rpc.mock.calls[0][1].p_events).toEqual([
+      expect.objectContaining({ user_id: "u1", local_date: "2025-03-09" }),
+    ]);
+  });
+});
+
+describe("ChatServer regional leaderboards", () => {
+  let server: any;
+  let connection: ReturnType<typeof identifiedConnection>;
+
+  // The last frame sent to the connection
+  function lastReply() {
+    const calls = connection.send.mock.calls;
+    return JSON.parse(calls[calls.length - 1][0]);
+  }
+
+  beforeEach(() => {
+    mockDb.calls = [];
+    server = new ChatServer(createRoom(createMockStorage()) as any);
+    connection = identifiedConnection("u1");
+  });
+
+  afterEach(() => {
+    mockDb.result = { data: null, error: null };
+  });
+
+  it("should store the region picked on the profile", async () => {
+    await server.onMessage(
+      JSON.stringify({ type: "update_profile", region: "europe" }),
+      connection
+    );
+
+    expect(connection.state.region).toBe("europe");
+    expect(mockDb.calls).toContainEqual([
+      "upsert",
+      [expect.objectContaining({ user_id: "u1", region: "europe" })],
+    ]);
+    expect(mockDb.calls).toContainEqual(["update", [{ region: "europe" }]]);
+  });
+
+  it("should rank users globally and within their region", async () => {
+    connection.state.region = "europe";
+    mockDb.result = {
+      data: [
+        { user_id: "u2", user_name: "Bea", score: 9, region: "asia" },
+        { user_id: "u1", user_name: "u1", score: 5, region: "europe" },
+        { user_id: "u3", user_name: "Cy", score: 2, region: "europe" },
+      ],
+      error: null,
+    };
+
+    await server.onMessage(
+      JSON.stringify({
+        type: "subscribe_leaderboard",
+        period: "monthly",
+        region: "europe",
+      }),
+      connection
+    );
+
+    const reply = lastReply();
+    expect(reply.region).toBe("europe");
+    expect(reply.ranks).toEqual({ global: 2, regional: 1 });
+    expect(reply.scoreboard.map((row: any) => row.userId)).toEqual([
+      "u1",
+      "u3",
+    ]);
+  });
+});
+
+describe("ChatServer scoreboard deltas", () => {
+  let server: any;
+  let connection: ReturnType<typeof identifiedConnection>;
+
+  // The monthly board with `count` users, u0 on top
+  function boardOf(count: number, overrides: Record<string, number> = {}) {
+    return Array.from({ length: count }, (_, i) => ({
+      user_id: `u${i}`,
+      user_name: `u${i}`,
+      score: overrides[`u${i}`] ?? 1000 - i,
+      region: "global",
+    })).sort((a, b) => b.score - a.score);
+  }
+
+  function sent() {
+    return connection.send.mock.calls.map(([frame]) =>
+      JSON.parse(frame)
+    );
+  }
+
+  beforeEach(async () => {
+    server = new ChatServer(createRoom(createMockStorage()) as any);
+    connection = identifiedConnection("u50");
+    connection.state.protocolVersion = 4;
+    server.room.getConnections.mockReturnValue([connection]);
+
+    mockDb.result = { data: boardOf(100), error: null };
+    await server.onMessage(
+      JSON.stringify({ type: "subscribe_leaderboard", period: "monthly" }),
+      connection
+    );
+  });
+
+  afterEach(() => {
+    mockDb.result = { data: null, error: null };
+  });
+
+  it("should send the top of the board and the rows around the user", () => {
+    const [snapshot] = sent();
+
+    expect(snapshot.type).toBe("scoreboard");
+    expect(snapshot.total).toBe(100);
+    expect(snapshot.ranks.global).toBe(51);
+    const ranks = snapshot.scoreboard.map((row: any) => row.rank);
+    expect(ranks.slice(0, 3)).toEqual([1, 2, 3]);
+    expect(ranks).toContain(46);
+    expect(ranks).toContain(56);
+    expect(ranks).not.toContain(57);
+  });
+
+  it("should only send the rows that changed", async () => {
+    // u60 climbs past u55 to rank 56
+    server.scoreboardCache.clear();
+    mockDb.result = { data: boardOf(100, { u60: 946 }), error: null };
+    await server.broadcastScoreboard();
+
+    const delta = sent()[1];
+    expect(delta.type).toBe("scoreboard_delta");
+    expect(delta.rows).toEqual([
+      { rank: 56, userId: "u60", username: "u60", score: 946, region: "global" },
+    ]);
+    expect(delta.removed).toEqual(["u55"]);
+  });
+
+  it("should send nothing when the board didn't change", async () => {
+    server.scoreboardCache.clear();
+    await server.broadcastScoreboard();
+
+    expect(sent()).toHaveLength(1);
+  });
+
+  it("should load pages on demand and keep them up to date", async () => {
+    await server.onMessage(
+      JSON.stringify({ type: "load_scoreboard", offset: 20, limit: 10 }),
+      connection
+    );
+
+    const page = sent()[1];
+    expect(page.type).toBe("scoreboard_delta");
+    expect(page.rows.map((row: any) => row.rank)).toEqual([
+      21, 22, 23, 24, 25, 26, 27, 28, 29, 30,
+    ]);
+
+    server.scoreboardCache.clear();
+    mockDb.result = { data: boardOf(100, { u25: 977 }), error: null };
+    await server.broadcastScoreboard();
+
+    expect(sent()[2].rows.map((row: any) => row.userId)).toEqual([
+      "u25",
+      "u24",
+    ]);
+  });
+
+  it("should send older clients the whole board", async () => {
+    connection.state.protocolVersion = 3;
+    server.scoreboardCache.clear();
+    await server.broadcastScoreboard();
+
+    const snapshot = sent()[1];
+    expect(snapshot.type).toBe("scoreboard");
+    expect(snapshot.scoreboard).toHaveLength(100);
+  });
+});
+
+describe("ChatServer monthly rollover", () => {
+  let storage: ReturnType<typeof createMockStorage>;
+  let room: ReturnType<typeof createRoom>;
+  let server: any;
+
+  // The chat messages stored in the room
+  function storedTexts() {
+    return Array.from(storage.data.entries())
+      .filter(([key]) => key.startsWith("msg:"))
+      .map(([, message]) => message.text);
+  }
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.UTC(2025, 3, 1, 0, 0, 5));
+    mockDb.rpc.mockClear();
+    storage = createMockStorage();
+    room = createRoom(storage);
+    server = new ChatServer(room as any);
+    await server.onStart();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    mockDb.result = { data: null, error: null };
+  });
+
+  it("should schedule the rollover for the start of next month", async () => {
+    expect(storage.data.get("alarm:month_rollover")).toBe(
+      Date.UTC(2025, 4, 1)
+    );
+  });
+
+  it("should freeze the month that ended and announce its winners", async () => {
+    storage.data.set("alarm:month_rollover", Date.now() - 5000);
+    mockDb.rpc.mockResolvedValueOnce({ data: 3, error: null });
+    mockDb.result = {
+      data: [
+        { month: "2025-03", rank: 1, user_id: "u2", user_name: "Bea", score: 40 },
+        { month: "2025-03", rank: 2, user_id: "u1", user_name: "Al", score: 25 },
+        { month: "2025-03", rank: 3, user_id: "u3", user_name: "Cy", score: 9 },
+      ],
+      error: null,
+    };
+
+    await server.onAlarm();
+
+    expect(mockDb.rpc).toHaveBeenCalledWith("freeze_month", {
+      p_month: "2025-03",
+    });
+    expect(storedTexts()).toEqual([
+      "🏆 March 2025 is over! Bea won with 40 points out of 3 players. " +
+        "Runners-up: Al (25), Cy (9).",
+    ]);
+    expect(room.broadcast).toHaveBeenCalled();
+    expect(mockDb.calls).toContainEqual([
+      "update",
+      [{ announced_at: expect.any(String) }],
+    ]);
+    expect(storage.data.get("alarm:month_rollover")).toBe(
+      Date.UTC(2025, 4, 1)
+    );
+  });
+
+  it("should not announce a month that was already announced", async () => {
+    storage.data.set("alarm:month_rollover", Date.now() - 5000);
+    mockDb.rpc.mockResolvedValueOnce({ data: null, error: null });
+
+    await server.onAlarm();
+
+    expect(storedTexts()).toEqual([]);
+    expect(storage.data.get("alarm:month_rollover")).toBe(
+      Date.UTC(2025, 4, 1)
+    );
+  });
+
+  it("should retry a rollover that failed", async () => {
+    storage.data.set("alarm:month_rollover", Date.now() - 5000);
+    mockDb.rpc.mockResolvedValueOnce({
+      data: null,
+      error: { message: "connection reset" },
+    });
+
+    await server.onAlarm();
+
+    expect(storage.data.get("alarm:month_rollover")).toBeLessThan(
+      Date.UTC(2025, 3, 2)
+    );
+  });
+
+  it("should retry an announcement that wasn't recorded", async () => {
+    storage.data.set("alarm:month_rollover", Date.now() - 5000);
+    // Frozen, but recording the announcement fails
+    mockDb.rpc.mockResolvedValueOnce({ data: 1, error: null });
+    mockDb.result = { data: null, error: { message: "connection reset" } };
+    await server.onAlarm();
+    expect(storage.data.get("alarm:month_rollover")).toBeLessThan(
+      Date.UTC(2025, 3, 2)
+    );
+
+    // Already frozen, still not announced
+    vi.setSystemTime(storage.data.get("alarm:month_rollover"));
+    mockDb.rpc.mockResolvedValueOnce({ data: 1, error: null });
+    mockDb.result = {
+      data: [
+        { month: "2025-03", rank: 1, user_id: "u2", user_name: "Bea", score: 4 },
+      ],
+      error: null,
+    };
+    await server.onAlarm();
+
+    expect(storedTexts()).toEqual([
+      "🏆 March 2025 is over! Bea won with 4 points out of 1 player.",
+    ]);
+    expect(storage.data.get("alarm:month_rollover")).toBe(
+      Date.UTC(2025, 4, 1)
+    );
+  });
+});
+
+describe("ChatServer teams", () => {
+  const SECRET = "test-secret";
+  let server: any;
+  let connection: ReturnType<typeof identifiedConnection>;
+
+  async function post(body: Record<string, unknown>) {
+    const token = await signPartyToken("u1", "chat", SECRET);
+    return server.onRequest(
+      new Request("http://localhost/party/chat", {
+        method: "POST",
+        body: JSON.stringify({ ...body, token, username: "Al" }),
+      })
+    );
+  }
+
+  beforeEach(() => {
+    mockDb.rpc.mockClear();
+    const room = { ...createRoom(createMockStorage()), env: {} as any };
+    room.env.PARTYKIT_AUTH_SECRET = SECRET;
+    server = new ChatServer(room as any);
+    connection = identifiedConnection("u1");
+    server.room.getConnections.mockReturnValue([connection]);
+  });
+
+  afterEach(() => {
+    mockDb.result = { data: null, error: null };
+  });
+
+  it("should send the team leaderboard to subscribed connections", async () => {
+    mockDb.rpc.mockResolvedValueOnce({
+      data: [
+        {
+          team_id: "owls-1",
+          team_name: "Owls",
+          members: 4,
+          active_members: 2,
+          total_score: 90,
+          score: 45,
+        },
+        {
+          team_id: "larks-2",
+          team_name: "Larks",
+          members: 1,
+          active_members: 1,
+          total_score: 30,
+          score: 30,
+        },
+      ],
+      error: null,
+    });
+
+    await server.onMessage(
+      JSON.stringify({ type: "subscribe_teams" }),
+      connection
+    );
+
+    expect(mockDb.rpc).toHaveBeenCalledWith("team_leaderboard", {
+      p_month: expect.stringMatching(/^\d{4}-\d{2}$/),
+    });
+    const reply = JSON.parse(connection.send.mock.calls[0][0]);
+    expect(reply.type).toBe("team_scoreboard");
+    expect(reply.teams[0]).toEqual({
+      rank: 1,
+      teamId: "owls-1",
+      name: "Owls",
+      members: 4,
+      activeMembers: 2,
+      totalScore: 90,
+      score: 45,
+    });
+    expect(reply.teams[1].rank).toBe(2);
+
+    // Team subscribers get the team board on every broadcast
+    await server.broadcastScoreboard();
+    const next = JSON.parse(connection.send.mock.calls[1][0]);
+    expect(next.type).toBe("team_scoreboard");
+  });
+
+  it("should create a team with its creator as the first member", async () => {
+    mockDb.rpc.mockResolvedValueOnce({ data: true, error: null });
+
+    const response = await post({ type: "create_team", name: "Night Owls" });
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.team).toMatchObject({ name: "Night Owls", ownerId: "u1" });
+    expect(body.team.inviteCode).toHaveLength(8);
+    expect(mockDb.rpc).toHaveBeenCalledWith(
+      "create_team",
+      expect.objectContaining({
+        p_team_id: expect.stringMatching(/^night-owls-/),
+        p_user_id: "u1",
+        p_user_name: "Al",
+      })
+    );
+  });
+
+  it("should refuse a second team in the same month", async () => {
+    mockDb.rpc.mockResolvedValueOnce({ data: "month_taken", error: null });
+
+    const response = await post({ type: "join_team", inviteCode: "abc123" });
+
+    expect(response.status).toBe(409);
+  });
+
+  it("should refuse unknown invite codes", async () => {
+    mockDb.rpc.mockResolvedValueOnce({ data: "unknown_code", error: null });
+
+    const response = await post({ type: "join_team", inviteCode: "nope" });
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe("ChatServer focus duels", () => {
+  const start = Date.UTC(2025, 2, 10, 14);
+  const end = Date.UTC(2025, 2, 10, 17);
+  let storage: ReturnType<typeof createMockStorage>;
+  let server: any;
+  let al: ReturnType<typeof identifiedConnection>;
+  let bea: ReturnType<typeof identifiedConnection>;
+
+  function send(connection: any, message: Record<string, unknown>) {
+    return server.onMessage(JSON.stringify(message), connection);
+  }
+
+  // The messages of a type a connection was sent, oldest first
+  function sent(connection: any, type: string) {
+    return connection.send.mock.calls
+      .map(([frame]: any[]) => JSON.parse(frame))
+      .filter((message: any) => message.type === type);
+  }
+
+  function productiveBlock(startTime: number) {
+    return {
+      id: `block-${nextBlockId++}`,
+      startTime,
+      classification: "productive",
+    };
+  }
+
+  // Al challenges Bea, who accepts, and returns the duel id
+  async function startDuel() {
+    await send(al, {
+      type: "duel_challenge",
+      opponentId: "u2",
+      startsAt: start,
+      endsAt: end,
+    });
+    const [{ duel }] = sent(bea, "duel");
+    await send(bea, { type: "duel_accept", duelId: duel.id });
+    return duel.id as string;
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.UTC(2025, 2, 10, 13));
+    mockDb.rpc.mockClear();
+    mockDb.calls = [];
+    storage = createMockStorage();
+    server = new ChatServer(createRoom(storage) as any);
+    al = identifiedConnection("u1");
+    bea = identifiedConnection("u2");
+    server.room.getConnections.mockReturnValue([al, bea]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should negotiate a duel and settle it after the grace period", async () => {
+    await startDuel();
+
+    const [pending, accepted] = sent(al, "duel").map((m: any) => m.duel);
+    expect(pending).toMatchObject({
+      challengerId: "u1",
+      opponentId: "u2",
+      status: "pending",
+    });
+    expect(accepted.status).toBe("accepted");
+    expect(storage.data.get("alarm:duels")).toBe(end + DUEL_GRACE_MS);
+  });
+
+  it("should count the credited blocks that start in the window", async () => {
+    await startDuel();
+    vi.setSystemTime(Date.UTC(2025, 2, 10, 14, 30));
+
+    await send(al, {
+      type: "update_score",
+      blocks: [
+        productiveBlock(start - BLOCK_DURATION_MS),
+        productiveBlock(start),
+        productiveBlock(start + BLOCK_DURATION_MS),
+      ],
+    });
+    await send(bea, {
+      type: "update_score",
+      blocks: [productiveBlock(start + 2 * BLOCK_DURATION_MS)],
+    });
+
+    const latest = sent(bea, "duel").at(-1).duel;
+    expect(latest.challengerScore).toBe(2);
+    expect(latest.opponentScore).toBe(1);
+  });
+
+  it("should announce and save the winner", async () => {
+    await startDuel();
+    vi.setSystemTime(Date.UTC(2025, 2, 10, 15));
+    await send(bea, {
+      type: "update_score",
+      blocks: [productiveBlock(start)],
+    });
+
+    vi.setSystemTime(end + DUEL_GRACE_MS);
+    await server.onAlarm();
+
+    const upsert = mockDb.calls.findLast(([method]) => method === "upsert");
+    expect(upsert![1][0]).toMatchObject({
+      challenger_id: "u1",
+      opponent_id: "u2",
+      challenger_score: 0,
+      opponent_score: 1,
+      winner_id: "u2",
+    });
+    const texts = Array.from(storage.data.entries())
+      .filter(([key]) => key.startsWith("msg:"))
+      .map(([, message]) => message.text);
+    expect(texts).toEqual(["⚔️ u2 won the focus duel against u1, 1 to 0!"]);
+    expect(sent(al, "duel").at(-1).duel).toMatchObject({
+      status: "finished",
+      winnerId: "u2",
+    });
+    expect(storage.data.has("alarm:duels")).toBe(false);
+  });
+
+  it("should drop declined and unanswered duels without a result", async () => {
+    await send(al, {
+      type: "duel_challenge",
+      opponentId: "u2",
+      startsAt: start,
+      endsAt: end,
+    });
+    const [{ duel }] = sent(bea, "duel");
+    await send(bea, { type: "duel_decline", duelId: duel.id });
+    expect(sent(al, "duel").at(-1).duel.status).toBe("declined");
+
+    await send(bea, {
+      type: "duel_challenge",
+      opponentId: "u1",
+      startsAt: start,
+      endsAt: end,
+    });
+    vi.setSystemTime(end);
+    await server.onAlarm();
+
+    expect(sent(bea, "duel").at(-1).duel.status).toBe("expired");
+    expect(mockDb.calls.some(([method]) => method === "upsert")).toBe(false);
+  });
+
+  it("should refuse duels against yourself or someone offline", async () => {
+    await send(al, {
+      type: "duel_challenge",
+      opponentId: "u1",
+      startsAt: start,
+      endsAt: end,
+    });
+    await send(al, {
+      type: "duel_challenge",
+      opponentId: "u3",
+      startsAt: start,
+      endsAt: end,
+    });
+
+    expect(sent(al, "error").map((error: any) => error.code)).toEqual([
+      "invalid_duel",
+      "invalid_duel",
+    ]);
+    expect(sent(al, "duel")).toEqual([]);
+  });
+});
+
+describe("ChatServer group focus sessions", () => {
+  const MINUTE = 60 * 1000;
+  const start = Date.UTC(2025, 2, 10, 14);
+  let storage: ReturnType<typeof createMockStorage>;
+  let room: ReturnType<typeof createRoom>;
+  let server: any;
+  let al: ReturnType<typeof identifiedConnection>;
+  let bea: ReturnType<typeof identifiedConnection>;
+
+  function send(connection: any, message: Record<string, unknown>) {
+    return server.onMessage(JSON.stringify(message), connection);
+  }
+
+  // The focus session events broadcast to the room, oldest first
+  function broadcastEvents() {
+    return room.broadcast.mock.calls
+      .map(([frame]: any[]) => JSON.parse(frame))
+      .filter((message: any) => message.type === "focus_session")
+      .map((message: any) => message.event);
+  }
+
+  // Fires the alarm at the time it was set for
+  async function fireAlarm() {
+    vi.setSystemTime(storage.data.get("alarm:focus_session"));
+    await server.onAlarm();
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(start);
+    mockDb.rpc.mockClear();
+    storage = createMockStorage();
+    room = createRoom(storage);
+    server = new ChatServer(room as any);
+    al = identifiedConnection("u1");
+    bea = identifiedConnection("u2");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should run the phases on alarms and end after the last round", async () => {
+    await send(al, { type: "start_focus_session", rounds: 2 });
+    expect(storage.data.get("alarm:focus_session")).toBe(start + 25 * MINUTE);
+
+    await fireAlarm();
+    await fireAlarm();
+    await fireAlarm();
+
+    expect(broadcastEvents()).toEqual(["started", "break", "focus", "ended"]);
+    expect(storage.data.has("alarm:focus_session")).toBe(false);
+    expect(storage.data.has("focus-session:current")).toBe(false);
+  });
+
+  it("should refuse a second session while one is running", async () => {
+    await send(al, { type: "start_focus_session" });
+    await send(bea, { type: "start_focus_session" });
+
+    const error = JSON.parse(bea.send.mock.calls.at(-1)![0]);
+    expect(error.code).toBe("invalid_focus_session");
+  });
+
+  it("should mute chat for participants while they focus", async () => {
+    await send(al, { type: "start_focus_session" });
+    await send(al, { type: "chat", text: "anyone there?" });
+    await send(bea, { type: "chat", text: "hi!" });
+
+    const error = JSON.parse(al.send.mock.calls.at(-1)![0]);
+    expect(error.code).toBe("focus_muted");
+    expect(bea.send).not.toHaveBeenCalled();
+
+    await fireAlarm();
+    await send(al, { type: "chat", text: "break!" });
+    const texts = Array.from(storage.data.entries())
+      .filter(([key]) => key.startsWith("msg:"))
+      .map(([, message]) => message.text);
+    expect(texts).toContain("break!");
+    expect(texts).not.toContain("anyone there?");
+  });
+
+  it("should give participants a bonus for productive blocks", async () => {
+    await send(al, { type: "start_focus_session" });
+    vi.setSystemTime(start + 20 * MINUTE);
+
+    const blocks = [0, 1].map((i) => ({
+      id: `focus-block-${i}`,
+      startTime: start + i * BLOCK_DURATION_MS,
+      classification: "productive",
+    }));
+    await send(al, { type: "update_score", blocks });
+    await send(bea, {
+      type: "update_score",
+      blocks: blocks.map((block) => ({ ...block, id: `bea-${block.id}` })),
+    });
+    await server.processBatchScoreUpdates();
+
+    const [, args] = mockDb.rpc.mock.calls[0];
+    expect(args.p_updates).toEqual([
+      { user_id: "u1", user_name: "u1", delta: 3 },
+      { user_id: "u2", user_name: "u2", delta: 2 },
+    ]);
+    expect(args.p_events[0].reason).toBe("Focus session bonus: +1");
+  });
+});
+
+describe("ChatServer streaks", () => {
+  const start = Date.UTC(2025, 2, 10, 14);
+  let room: ReturnType<typeof createRoom>;
+  let server: any;
+  let al: ReturnType<typeof identifiedConnection>;
+
+  // Six back-to-back productive blocks, enough for the day to count
+  const blocks = Array.from({ length: 6 }, (_, i) => ({
+    id: `streak-block-${i}`,
+    startTime: start + i * BLOCK_DURATION_MS,
+    classification: "productive",
+  }));
+
+  function submit() {
+    return server.onMessage(
+      JSON.stringify({ type: "update_score", blocks }),
+      al
+    );
+  }
+
+  function broadcastStreaks() {
+    return room.broadcast.mock.calls
+      .map(([frame]: any[]) => JSON.parse(frame))
+      .filter((message: any) => message.type === "streak");
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(start + 6 * BLOCK_DURATION_MS);
+    mockDb.calls.length = 0;
+    room = createRoom(createMockStorage());
+    server = new ChatServer(room as any);
+    al = identifiedConnection("u1");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    mockDb.result = { data: null, error: null };
+  });
+
+  it("should broadcast and save streaks when credited blocks change them", async () => {
+    await submit();
+    // A replay credits nothing, so nothing changes
+    await submit();
+
+    const messages = broadcastStreaks();
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toMatchObject({
+      userId: "u1",
+      streaks: { daily: 1, bestDaily: 1, flow: 6, bestFlow: 6 },
+    });
+    const upsert = mockDb.calls.find(([method]) => method === "upsert");
+    expect(upsert![1][0]).toMatchObject({
+      user_id: "u1",
+      daily_to: "2025-03-10",
+      daily: 1,
+      flow: 6,
+    });
+  });
+
+  it("should show streaks next to names on the leaderboard", async () => {
+    await submit();
+
+    mockDb.result = {
+      data: [
+        { user_id: "u1", user_name: "u1", score: 6, region: "global" },
+        { user_id: "u2", user_name: "u2", score: 3, region: "global" },
+      ],
+      error: null,
+    };
+    await server.onMessage(
+      JSON.stringify({ type: "subscribe_leaderboard", period: "monthly" }),
+      al
+    );
+
+    const board = JSON.parse(al.send.mock.calls.at(-1)![0]);
+    expect(board.scoreboard[0]).toMatchObject({
+      userId: "u1",
+      dailyStreak: 1,
+      flowStreak: 6,
+    });
+    expect(board.scoreboard[1]).not.toHaveProperty("dailyStreak");
+  });
+});
+
+describe("ChatServer achievements", () => {
+  let room: ReturnType<typeof createRoom>;
+  let server: any;
+  let al: ReturnType<typeof identifiedConnection>;
+
+  // Flushes a queued delta, with increment_scores returning `score`
+  async function flushWithScore(score: number) {
+    await server.updateScore("u1", "u1", 1, {
+      delta: 1,
+      requestedDelta: 1,
+      source: "ws",
+      blockIds: [],
+      decision: "applied",
+      reason: null,
+      timestamp: Date.now(),
+    });
+    mockDb.rpc.mockResolvedValueOnce({
+      data: [{ user_id: "u1", score }],
+      error: null,
+    });
+    await server.processBatchScoreUpdates();
+  }
+
+  async function send(message: any) {
+    await server.onMessage(JSON.stringify(message), al as any);
+  }
+
+  function achievementsSent() {
+    return al.send.mock.calls
+      .map(([frame]) => JSON.parse(frame))
+      .filter((message) => message.type === "achievement")
+      .map((message) => message.achievement.id);
+  }
+
+  beforeEach(() => {
+    mockDb.calls.length = 0;
+    room = createRoom(createMockStorage());
+    server = new ChatServer(room as any);
+    al = identifiedConnection("u1");
+    room.getConnections.mockReturnValue([al] as any);
+  });
+
+  afterEach(() => {
+    mockDb.result = { data: null, error: null };
+  });
+
+  it("should record the flushed score and rank as achievement stats", async () => {
+    mockDb.result = {
+      data: [
+        { user_id: "u2", user_name: "u2", score: 90, region: "global" },
+        { user_id: "u1", user_name: "u1", score: 55, region: "global" },
+      ],
+      error: null,
+    };
+    await flushWithScore(55);
+    mockDb.rpc.mockResolvedValueOnce({ data: [], error: null });
+    await server.flushAchievements();
+
+    const [name, args] = mockDb.rpc.mock.calls.at(-1)!;
+    expect(name).toBe("record_achievement_progress");
+    expect(args.p_updates).toEqual([
+      {
+        user_id: "u1",
+        add: {},
+        max: { monthlyScore: 55 },
+        min: { monthlyRank: 2 },
+      },
+    ]);
+  });
+
+  it("should unlock and push what the saved progress earns", async () => {
+    await send({ type: "chat", text: "hi" });
+    mockDb.rpc
+      .mockResolvedValueOnce({
+        data: [
+          {
+            user_id: "u1",
+            progress: { monthlyScore: 55, chatMessages: 50 },
+            achievements: [{ id: "score-10", unlockedAt: 1 }],
+          },
+        ],
+        error: null,
+      })
+      .mockResolvedValueOnce({
+        data: [
+          {
+            user_id: "u1",
+            achievements: [
+              { id: "score-50", unlockedAt: 2 },
+              { id: "chat-50", unlockedAt: 2 },
+            ],
+          },
+        ],
+        error: null,
+      });
+    await server.flushAchievements();
+
+    const [, recorded] = mockDb.rpc.mock.calls.at(-2)!;
+    expect(recorded.p_updates[0].add).toEqual({ chatMessages: 1 });
+    const [name, unlocked] = mockDb.rpc.mock.calls.at(-1)!;
+    expect(name).toBe("unlock_achievements");
+    expect(
+      unlocked.p_unlocks[0].achievements.map((unlock: any) => unlock.id)
+    ).toEqual(["score-50", "chat-50"]);
+    expect(achievementsSent()).toEqual(["score-50", "chat-50"]);
+  });
+
+  it("should not unlock an achievement twice", async () => {
+    await send({ type: "chat", text: "hi" });
+    mockDb.rpc.mockResolvedValueOnce({
+      data: [
+        {
+          user_id: "u1",
+          progress: { monthlyScore: 12 },
+          achievements: [{ id: "score-10", unlockedAt: 1 }],
+        },
+      ],
+      error: null,
+    });
+    await server.flushAchievements();
+
+    expect(mockDb.rpc.mock.calls.at(-1)![0]).toBe(
+      "record_achievement_progress"
+    );
+    expect(achievementsSent()).toEqual([]);
+  });
+
+  it("should requeue stats that failed to be recorded", async () => {
+    await send({ type: "chat", text: "one" });
+    mockDb.rpc.mockResolvedValueOnce({ data: null, error: new Error("down") });
+    await server.flushAchievements();
+    await send({ type: "chat", text: "two" });
+
+    mockDb.rpc.mockResolvedValueOnce({ data: [], error: null });
+    await server.flushAchievements();
+    const [, args] = mockDb.rpc.mock.calls.at(-1)!;
+    expect(args.p_updates[0].add).toEqual({ chatMessages: 2 });
+  });
+
+  it("should import achievements kept in the local settings", async () => {
+    const SECRET = "test-secret";
+    server.room.env = { PARTYKIT_AUTH_SECRET: SECRET };
+    // The best monthly score saved for u1
+    mockDb.result = { data: { score: 72 }, error: null };
+    const response = await server.onRequest(
+      new Request("http://localhost/party/chat", {
+        method: "POST",
+        body: JSON.stringify({
+          type: "import_achievements",
+          token: await signPartyToken("u1", "chat", SECRET),
+          username: "Al",
+          achievementIds: ["score-10", "score-50", "score-100"],
+        }),
+      })
+    );
+    expect(response.status).toBe(200);
+
+    mockDb.rpc.mockResolvedValueOnce({ data: [], error: null });
+    await server.flushAchievements();
+    const [, args] = mockDb.rpc.mock.calls.at(-1)!;
+    expect(args.p_updates[0]).toMatchObject({
+      user_id: "u1",
+      max: { monthlyScore: 50 },
+    });
+  });
+});
+
+describe("ChatServer announcements", () => {
+  let room: ReturnType<typeof createRoom>;
+  let server: any;
+  let al: ReturnType<typeof identifiedConnection>;
+
+  // Flushes a queued delta, with u1 second on the monthly board
+  async function flushRankTwo() {
+    mockDb.result = {
+      data: [
+        { user_id: "u2", user_name: "u2", score: 90, region: "global" },
+        { user_id: "u1", user_name: "Al", score: 55, region: "global" },
+      ],
+      error: null,
+    };
+    await server.updateScore("u1", "Al", 1, {
+      delta: 1,
+      requestedDelta: 1,
+      source: "ws",
+      blockIds: [],
+      decision: "applied",
+      reason: null,
+      timestamp: Date.now(),
+    });
+    mockDb.rpc.mockResolvedValueOnce({
+      data: [{ user_id: "u1", score: 55 }],
+      error: null,
+    });
+    await server.processBatchScoreUpdates();
+  }
+
+  function announced() {
+    return room.broadcast.mock.calls
+      .map(([frame]) => JSON.parse(frame))
+      .filter((message) => message.type === "chat" && message.event)
+      .map((message) => message.event);
+  }
+
+  beforeEach(() => {
+    mockDb.calls.length = 0;
+    room = createRoom(createMockStorage());
+    server = new ChatServer(room as any);
+    al = identifiedConnection("u1");
+    room.getConnections.mockReturnValue([al] as any);
+  });
+
+  afterEach(() => {
+    mockDb.result = { data: null, error: null };
+  });
+
+  it("should announce unlocked achievements as chat events", async () => {
+    await server.onMessage(
+      JSON.stringify({ type: "chat", text: "hi" }),
+      al as any
+    );
+    mockDb.rpc
+      .mockResolvedValueOnce({
+        data: [
+          { user_id: "u1", progress: { duelWins: 1 }, achievements: [] },
+        ],
+        error: null,
+      })
+      .mockResolvedValueOnce({
+        data: [
+          {
+            user_id: "u1",
+            achievements: [{ id: "duel-win-1", unlockedAt: 1 }],
+          },
+        ],
+        error: null,
+      });
+    await server.flushAchievements();
+
+    const [chat] = room.broadcast.mock.calls
+      .map(([frame]) => JSON.parse(frame))
+      .filter((message) => message.event);
+    expect(chat).toMatchObject({
+      userId: "system",
+      text: "🏆 u1 unlocked Duelist!",
+      event: {
+        type: "achievement_unlocked",
+        userId: "u1",
+        username: "u1",
+        achievementId: "duel-win-1",
+      },
+    });
+  });
+
+  it("should announce a rank milestone once a month", async () => {
+    await flushRankTwo();
+    await flushRankTwo();
+
+    expect(announced()).toEqual([
+      {
+        type: "rank_up",
+        userId: "u1",
+        username: "Al",
+        rank: 2,
+        milestone: 3,
+        month: server.getCurrentMonth(),
+      },
+    ]);
+  });
+
+  it("should not announce users who opted out", async () => {
+    await server.onMessage(
+      JSON.stringify({ type: "update_profile", announcements: false }),
+      al as any
+    );
+    await flushRankTwo();
+
+    const saved = mockDb.calls.find(
+      ([method, args]) => method === "upsert" && "announcements" in args[0]
+    );
+    expect(saved![1][0]).toMatchObject({
+      user_id: "u1",
+      announcements: false,
+    });
+    expect(announced()).toEqual([]);
+  });
+});
+
+describe("ChatServer roles", () => {
+  const SECRET = "test-secret";
+  const id = storedMessage(1, "author").id;
+  let room: any;
+  let server: any;
+
+  // An identified connection holding an access role
+  function connectionWithRole(userId: string, accessRole: string) {
+    const connection = identifiedConnection(userId);
+    connection.state = { ...connection.state, accessRole };
+    return connection;
+  }
+
+  function auditEntries() {
+    return mockDb.calls
+      .filter(
+        ([fn], i) =>
+          fn === "insert" && mockDb.calls[i - 1]?.[1][0] === "audit_log"
+      )
+      .map(([, [entry]]) => entry);
+  }
+
+  beforeEach(() => {
+    mockDb.calls.length = 0;
+    room = {
+      ...createRoom(
+        createMockStorage([[`msg:${id}`, storedMessage(1, "author")]])
+      ),
+      env: { PARTYKIT_AUTH_SECRET: SECRET },
+    };
+    server = new ChatServer(room);
+  });
+
+  afterEach(() => {
+    mockDb.result = { data: null, error: null };
+  });
+
+  it("should look up the role on hello and send it in welcome", async () => {
+    const connection: any = {
+      id: "conn-u1",
+      state: undefined,
+      setState(state: any) {
+        this.state = state;
+      },
+      send: vi.fn(),
+    };
+    room.getConnections.mockReturnValue([connection]);
+    mockDb.result = { data: { role: "moderator" }, error: null };
+
+    await server.onMessage(
+      JSON.stringify({
+        type: "hello",
+        token: await signPartyToken("u1", "chat", SECRET),
+        protocolVersion: 4,
+      }),
+      connection
+    );
+
+    expect(mockDb.calls).toContainEqual(["from", ["user_roles"]]);
+    expect(connection.state.accessRole).toBe("moderator");
+    const welcome = connection.send.mock.calls
+      .map(([frame]: [string]) => JSON.parse(frame))
+      .find((message: any) => message.type === "welcome");
+    expect(welcome.accessRole).toBe("moderator");
+  });
+
+  it("should let moderators delete anyone's message and audit it", async () => {
+    const moderator = connectionWithRole("mod", "moderator");
+    await server.onMessage(
+      JSON.stringify({ type: "delete_message", id }),
+      moderator
+    );
+
+    expect(room.storage.data.get(`msg:${id}`).deletedAt).toBeTypeOf("number");
+    expect(auditEntries()).toEqual([
+      expect.objectContaining({
+        actor_id: "mod",
+        actor_role: "moderator",
+        action: "delete_any_message",
+        target_user_id: "author",
+        room_id: "chat",
+      }),
+    ]);
+  });
+
+  it("should refuse operations the role doesn't hold, without auditing", async () => {
+    const moderator = connectionWithRole("mod", "moderator");
+    await server.onMessage(
+      JSON.stringify({ type: "edit_message", id, text: "edited" }),
+      moderator
+    );
+    await server.onMessage(
+      JSON.stringify({ type: "clear_messages" }),
+      moderator
+    );
+    const member = identifiedConnection("u1");
+    await server.onMessage(
+      JSON.stringify({ type: "get_flagged_users" }),
+      member
+    );
+
+    expect(room.storage.data.get(`msg:${id}`).text).toBe("message 1");
+    for (const [frame] of [
+      ...moderator.send.mock.calls,
+      ...member.send.mock.calls,
+    ]) {
+      expect(JSON.parse(frame).code).toBe("unauthorized");
+    }
+    expect(moderator.send).toHaveBeenCalledTimes(2);
+    expect(member.send).toHaveBeenCalledTimes(1);
+    expect(auditEntries()).toEqual([]);
+  });
+
+  it("should ban users from chat on a moderator's behalf", async () => {
+    const moderator = connectionWithRole("mod", "moderator");
+    const spammer = identifiedConnection("spammer");
+    room.getConnections.mockReturnValue([moderator, spammer]);
+
+    await server.onMessage(
+      JSON.stringify({ type: "ban_user", userId: "spammer", reason: "Spam" }),
+      moderator
+    );
+
+    expect(mockDb.calls).toContainEqual([
+      "upsert",
+      [
+        {
+          user_id: "spammer",
+          banned_chat_reason: "Spam",
+          banned_chat_until: null,
+        },
+      ],
+    ]);
+    expect(JSON.parse(spammer.send.mock.calls[0][0]).code).toBe("banned");
+    expect(auditEntries()[0]).toMatchObject({
+      action: "ban_user",
+      target_user_id: "spammer",
+      details: { reason: "Spam" },
+    });
+
+    // The ban applies right away
+    await server.onMessage(
+      JSON.stringify({ type: "chat", text: "buy now" }),
+      spammer
+    );
+    expect(JSON.parse(spammer.send.mock.calls[1][0]).code).toBe("banned");
+  });
+
+  it("should let admins grant roles, applied to open connections", async () => {
+    const admin = connectionWithRole("boss", "admin");
+    const helper = identifiedConnection("helper");
+    room.getConnections.mockReturnValue([admin, helper]);
+
+    await server.onMessage(
+      JSON.stringify({ type: "set_role", userId: "helper", role: "moderator" }),
+      admin
+    );
+
+    expect(mockDb.calls).toContainEqual([
+      "upsert",
+      [expect.objectContaining({ user_id: "helper", role: "moderator" })],
+    ]);
+    expect(helper.state.accessRole).toBe("moderator");
+    expect(auditEntries()[0]).toMatchObject({
+      actor_role: "admin",
+      action: "set_role",
+      target_user_id: "helper",
+    });
+
+    // Moderators can't grant roles
+    await server.onMessage(
+      JSON.stringify({ type: "set_role", userId: "u2", role: "admin" }),
+      helper
+    );
+    expect(JSON.parse(helper.send.mock.calls[0][0]).code).toBe(
+      "unauthorized"
+    );
+  });
+
+  it("should not let moderators ban an admin or themselves", async () => {
+    const moderator = connectionWithRole("helper", "moderator");
+    room.getConnections.mockReturnValue([moderator]);
+    // The target's role in user_roles
+    mockDb.result = { data: { role: "admin" }, error: null };
+
+    await server.onMessage(
+      JSON.stringify({ type: "ban_user", userId: "boss", reason: "Coup" }),
+      moderator
+    );
+    mockDb.result = { data: null, error: null };
+    await server.onMessage(
+      JSON.stringify({ type: "ban_user", userId: "helper" }),
+      moderator
+    );
+
+    const codes = moderator.send.mock.calls.map(
+      ([frame]) => JSON.parse(frame).code
+    );
+    expect(codes).toEqual(["unauthorized", "unauthorized"]);
+    expect(mockDb.calls.some(([fn]) => fn === "upsert")).toBe(false);
+    expect(auditEntries()).toEqual([]);
+  });
+});
+
+describe("ChatServer moderation", () => {
+  const SECRET = "test-secret";
+  const HEADER = "X-Party-Room-Secret";
+  let room: any;
+  let server: any;
+  let moderator: ReturnType<typeof identifiedConnection>;
+  let spammer: ReturnType<typeof identifiedConnection> & { close: any };
+
+  async function send(connection: any, message: Record<string, unknown>) {
+    await server.onMessage(JSON.stringify(message), connection);
+  }
+
+  // Codes of the errors a connection was sent
+  function errorCodes(connection: any) {
+    return connection.send.mock.calls
+      .map(([frame]: [string]) => JSON.parse(frame))
+      .filter((message: any) => message.type === "error")
+      .map((message: any) => message.code);
+  }
+
+  function chatBroadcasts() {
+    return room.broadcast.mock.calls
+      .map(([frame]: [string]) => JSON.parse(frame))
+      .filter((message: any) => message.type === "chat");
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.UTC(2025, 2, 10, 12));
+    mockDb.calls.length = 0;
+    room = {
+      ...createRoom(createMockStorage()),
+      env: { PARTYKIT_AUTH_SECRET: SECRET },
+    };
+    server = new ChatServer(room);
+    moderator = identifiedConnection("mod");
+    moderator.state = { ...moderator.state, accessRole: "moderator" };
+    spammer = { ...identifiedConnection("spammer"), close: vi.fn() };
+    room.getConnections.mockReturnValue([moderator, spammer]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    mockDb.result = { data: null, error: null };
+  });
+
+  it("should mute users until the mute ends", async () => {
+    await send(moderator, {
+      type: "mute_user",
+      userId: "spammer",
+      minutes: 10,
+      reason: "Spam",
+    });
+
+    expect(mockDb.calls).toContainEqual([
+      "upsert",
+      [
+        {
+          user_id: "spammer",
+          banned_chat_reason: "Spam",
+          banned_chat_until: new Date(Date.now() + 10 * 60000).toISOString(),
+        },
+      ],
+    ]);
+    const [notice] = spammer.send.mock.calls.map(([frame]) =>
+      JSON.parse(frame)
+    );
+    expect(notice).toMatchObject({
+      code: "banned",
+      message: "You are muted for 10 more minutes: Spam",
+    });
+    const reply = JSON.parse(moderator.send.mock.calls[0][0]);
+    expect(reply.type).toBe("moderated_users");
+
+    await send(spammer, { type: "chat", text: "buy now" });
+    expect(chatBroadcasts()).toHaveLength(0);
+
+    vi.advanceTimersByTime(10 * 60000);
+    await send(spammer, { type: "chat", text: "sorry" });
+    expect(chatBroadcasts()).toHaveLength(1);
+  });
+
+  it("should refuse mutes outside 1 minute to a week", async () => {
+    await send(moderator, { type: "mute_user", userId: "spammer", minutes: 0 });
+    await send(moderator, {
+      type: "mute_user",
+      userId: "spammer",
+      minutes: 8 * 24 * 60,
+    });
+
+    expect(errorCodes(moderator)).toEqual([
+      "invalid_message",
+      "invalid_message",
+    ]);
+    expect(mockDb.calls.some(([fn]) => fn === "upsert")).toBe(false);
+  });
+
+  it("should kick users and keep them out for the cool-off", async () => {
+    await send(moderator, { type: "kick_user", userId: "spammer" });
+
+    expect(spammer.close).toHaveBeenCalled();
+    expect(errorCodes(spammer)).toEqual(["kicked"]);
+
+    const hello = async () => {
+      const connection: any = {
+        id: "conn-spammer-2",
+        state: undefined,
+        setState(state: any) {
+          this.state = state;
+        },
+        send: vi.fn(),
+        close: vi.fn(),
+      };
+      await send(connection, {
+        type: "hello",
+        token: await signPartyToken("spammer", "chat", SECRET),
+        protocolVersion: 4,
+      });
+      return connection;
+    };
+
+    const early = await hello();
+    expect(early.close).toHaveBeenCalled();
+    expect(errorCodes(early)).toEqual(["kicked"]);
+
+    vi.advanceTimersByTime(5 * 60000);
+    const later = await hello();
+    expect(later.close).not.toHaveBeenCalled();
+    expect(later.state.hasSetValidUserId).toBe(true);
+  });
+
+  it("should persist warnings, decay them and ban at the limit", async () => {
+    vi.mocked(moderateMessage).mockResolvedValue(true);
+    try {
+      // Two warnings, the latest a day and a half ago: one is forgiven
+      mockDb.result = {
+        data: {
+          warnings: 2,
+          last_warning_at: new Date(
+            Date.now() - 1.5 * WARNING_DECAY_MS
+          ).toISOString(),
+        },
+        error: null,
+      };
+      await send(spammer, { type: "chat", text: "rude" });
+      expect(mockDb.calls).toContainEqual([
+        "upsert",
+        [expect.objectContaining({ user_id: "spammer", warnings: 2 })],
+      ]);
+      expect(spammer.state.warningCount).toBe(2);
+
+      // Warned again right away: the third bans them
+      mockDb.result = {
+        data: { warnings: 2, last_warning_at: new Date().toISOString() },
+        error: null,
+      };
+      await send(spammer, { type: "chat", text: "ruder" });
+      expect(spammer.state.warningCount).toBe(3);
+      expect(mockDb.calls).toContainEqual([
+        "upsert",
+        [
+          {
+            user_id: "spammer",
+            banned_chat_reason: "Exceeded maximum warnings",
+            banned_chat_until: null,
+          },
+        ],
+      ]);
+    } finally {
+      vi.mocked(moderateMessage).mockResolvedValue(false);
+    }
+  });
+
+  it("should unban and reset warnings right away", async () => {
+    await send(moderator, { type: "ban_user", userId: "spammer" });
+    spammer.state = { ...spammer.state, warningCount: 3 };
+
+    await send(moderator, { type: "unban_user", userId: "spammer" });
+    expect(mockDb.calls).toContainEqual([
+      "update",
+      [{ banned_chat_reason: null, banned_chat_until: null }],
+    ]);
+    // The cache was updated, so chat opens without waiting for it
+    await send(spammer, { type: "chat", text: "thanks" });
+    expect(chatBroadcasts()).toHaveLength(1);
+
+    await send(moderator, { type: "reset_warnings", userId: "spammer" });
+    expect(mockDb.calls).toContainEqual(["from", ["user_warnings"]]);
+    expect(mockDb.calls.some(([fn]) => fn === "delete")).toBe(true);
+    expect(spammer.state.warningCount).toBe(0);
+  });
+
+  it("should only moderate users below the moderator's role", async () => {
+    // The target's role in user_roles
+    mockDb.result = { data: { role: "moderator" }, error: null };
+    await send(moderator, { type: "mute_user", userId: "mod2", minutes: 10 });
+    await send(moderator, { type: "unban_user", userId: "mod2" });
+    mockDb.result = { data: { role: "admin" }, error: null };
+    await send(moderator, { type: "kick_user", userId: "boss" });
+    await send(moderator, { type: "reset_warnings", userId: "boss" });
+
+    expect(errorCodes(moderator)).toEqual([
+      "unauthorized",
+      "unauthorized",
+      "unauthorized",
+      "unauthorized",
+    ]);
+    expect(
+      mockDb.calls.filter(([fn]) => fn === "upsert" || fn === "delete")
+    ).toEqual([]);
+    expect(await room.storage.get("kicked:boss")).toBeUndefined();
+  });
+
+  it("should only let moderators run moderation commands", async () => {
+    await send(spammer, { type: "unban_user", userId: "spammer" });
+    await send(spammer, { type: "get_moderated_users" });
+
+    expect(errorCodes(spammer)).toEqual(["unauthorized", "unauthorized"]);
+    expect(mockDb.calls).toEqual([]);
+  });
+
+  it("should audit who viewed the moderated users", async () => {
+    await send(moderator, { type: "get_moderated_users" });
+
+    expect(mockDb.calls).toContainEqual([
+      "insert",
+      [expect.objectContaining({ action: "view_moderated_users" })],
+    ]);
+  });
+});
+
+describe("ChatServer room-to-room requests", () => {
+  const SECRET = "test-secret";
+  const HEADER = "X-Party-Room-Secret";
+  let room: any;
+  let server: any;
+
+  function fromRoom(body: Record<string, unknown>) {
+    return server.onRequest(
+      new Request("http://localhost/party/chat", {
+        method: "POST",
+        headers: { [HEADER]: SECRET },
+        body: JSON.stringify(body),
+      })
+    );
+  }
+
+  function refresh(headers: Record<string, string> = {}) {
+    return server.onRequest(
+      new Request("http://localhost/party/chat", {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ type: "refresh_scoreboard" }),
+      })
+    );
+  }
+
+  beforeEach(() => {
+    room = {
+      ...createRoom(createMockStorage()),
+      env: { PARTYKIT_AUTH_SECRET: SECRET },
+    };
+    server = new ChatServer(room);
+  });
+
+  afterEach(() => {
+    mockDb.result = { data: null, error: null };
+  });
+
+  it("should only refresh scoreboards for other rooms", async () => {
+    const spy = vi.spyOn(server, "broadcastScoreboard");
+
+    expect((await refresh()).status).toBe(401);
+    expect((await refresh({ [HEADER]: "guess" })).status).toBe(401);
+    expect(spy).not.toHaveBeenCalled();
+
+    expect((await refresh({ [HEADER]: SECRET })).status).toBe(200);
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+
+  it("should forget a restriction changed in another room", async () => {
+    server.bannedChatCache.set("u1", { reason: "Spam", until: null });
+
+    const response = await fromRoom({
+      type: "refresh_restriction",
+      userId: "u1",
+    });
+
+    expect(response.status).toBe(200);
+    expect(server.bannedChatCache.get("u1")).toBeNull();
+  });
+
+  it("should close the connections of a user kicked elsewhere", async () => {
+    const connection = { ...identifiedConnection("u1"), close: vi.fn() };
+    room.getConnections.mockReturnValue([connection]);
+    const until = Date.now() + 60 * 1000;
+
+    await fromRoom({ type: "kick_user", userId: "u1", until, reason: "Spam" });
+
+    expect(connection.close).toHaveBeenCalled();
+    expect(room.storage.data.get("kicked:u1")).toBe(until);
+  });
+
+  it("should pass kicks on to the user's other rooms", async () => {
+    const fetch = vi.fn(async () => new Response("{}"));
+    const get = vi.fn((_roomId: string) => ({ fetch }));
+    room.name = "main";
+    room.context = { parties: { main: { get } } };
+    mockDb.result = { data: [{ room_id: "team-a" }], error: null };
+    const moderator = identifiedConnection("mod");
+    moderator.state.accessRole = "moderator";
+
+    await server.onMessage(
+      JSON.stringify({ type: "kick_user", userId: "u1" }),
+      moderator
+    );
+
+    expect(get.mock.calls.map(([roomId]) => roomId)).toEqual(["team-a"]);
+    const [request] = fetch.mock.calls[0] as any[];
+    expect(request.headers).toEqual({ [HEADER]: SECRET });
+    expect(JSON.parse(request.body)).toMatchObject({
+      type: "kick_user",
+      userId: "u1",
+    });
+  });
+});
+
+describe("ChatServer signed tokens", () => {
+  const SECRET = "test-secret";
+  let storage: ReturnType<typeof createMockStorage>;
+
+  function serverOver(storage: ReturnType<typeof createMockStorage>) {
+    const room = {
+      ...createRoom(storage),
+      env: { PARTYKIT_AUTH_SECRET: SECRET },
+    };
+    return new ChatServer(room as any) as any;
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    storage = createMockStorage();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should refuse a used token after the room was evicted", async () => {
+    const token = await signPartyToken("u1", "chat", SECRET);
+    expect(await serverOver(storage).authenticate(token)).toEqual({
+      ok: true,
+      userId: "u1",
+    });
+
+    // A new instance over the same storage
+    expect(await serverOver(storage).authenticate(token)).toEqual({
+      ok: false,
+      reason: "Token has already been used",
+    });
+  });
+
+  it("should forget nonces once their tokens expired", async () => {
+    const server = serverOver(storage);
+    await server.authenticate(await signPartyToken("u1", "chat", SECRET));
+    vi.advanceTimersByTime(60 * 1000);
+    await server.authenticate(await signPartyToken("u2", "chat", SECRET));
+    const nonceKeys = () =>
+      [...storage.data.keys()].filter((key) => key.startsWith("nonce:"));
+    expect(nonceKeys()).toHaveLength(2);
+
+    // The first nonce expires first, the alarm then waits for the second
+    vi.setSystemTime(storage.alarm!);
+    await server.onAlarm();
+    expect(nonceKeys()).toHaveLength(1);
+
+    vi.setSystemTime(storage.alarm!);
+    await server.onAlarm();
+    expect(nonceKeys()).toHaveLength(0);
+    expect(storage.alarm).toBeNull();
+  });
+});
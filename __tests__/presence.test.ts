@@ -0,0 +1,92 @@
+/**
+ * @file presence.test.ts
+ * @description
+ * Tests for the presence roster helpers in party-server/presence.ts.
+ *
+ * Key features tested:
+ * - Multiple connections of one user collapse into a single entry
+ * - Unidentified connections are left out
+ * - Join, leave and update diffs between two rosters
+ *
+ * @dependencies
+ * - vitest for the test runner
+ */
+
+import { describe, it, expect } from "vitest";
+import { buildPresence, diffPresence } from "@/party-server/presence";
+import type {
+  ConnectionState,
+  PresenceStatus,
+} from "@/lib/party-kit/protocol";
+
+function state(
+  userId: string,
+  status: PresenceStatus = "active",
+  overrides: Partial<ConnectionState> = {}
+): ConnectionState {
+  return {
+    userId,
+    username: userId,
+    task: "",
+    role: "",
+    status,
+    warningCount: 0,
+    hasSetValidUserId: true,
+    protocolVersion: 2,
+    timezone: "UTC",
+    region: "global",
+    leaderboard: "monthly",
+    leaderboardRegion: "global",
+    teamBoard: false,
+    accessRole: "member",
+    ...overrides,
+  };
+}
+
+describe("buildPresence", () => {
+  it("should collapse tabs of the same user and keep the most engaged status", () => {
+    const roster = buildPresence([
+      state("u1", "idle"),
+      state("u1", "focus", { task: "Writing docs" }),
+      state("u2"),
+    ]);
+
+    expect(roster.size).toBe(2);
+    expect(roster.get("u1")).toMatchObject({
+      status: "focus",
+      task: "Writing docs",
+      connections: 2,
+    });
+  });
+
+  it("should skip connections that haven't sent hello", () => {
+    const roster = buildPresence([
+      state("conn-1", "active", { hasSetValidUserId: false }),
+      null,
+    ]);
+    expect(roster.size).toBe(0);
+  });
+});
+
+describe("diffPresence", () => {
+  it("should report joins, leaves and updates", () => {
+    const before = buildPresence([state("u1"), state("u2")]);
+    const after = buildPresence([state("u2", "idle"), state("u3")]);
+
+    const events = diffPresence(before, after).map((e) => [
+      e.event,
+      e.user.userId,
+    ]);
+    expect(events).toEqual([
+      ["update", "u2"],
+      ["join", "u3"],
+      ["leave", "u1"],
+    ]);
+  });
+
+  it("should ignore a change in tab count alone", () => {
+    const before = buildPresence([state("u1")]);
+    const after = buildPresence([state("u1"), state("u1")]);
+    expect(diffPresence(before, after)).toEqual([]);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * @file protocol.test.ts
+ * @description
+ * Tests for the shared PartyKit wire protocol in lib/party-kit/protocol.ts.
+ *
+ * Key features tested:
+ * - Valid client messages are accepted and typed
+ * - Malformed JSON, unknown types and missing or mistyped fields are rejected
+ * - Arrays of objects (score submission blocks) are validated item by item
+ * - Protocol version negotiation in "hello"
+ *
+ * @dependencies
+ * - vitest for the test runner
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  MAX_CHAT_LENGTH,
+  MAX_SCORED_BLOCKS,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  negotiateProtocolVersion,
+  parseClientMessage,
+  parseServerMessage,
+} from "@/lib/party-kit/protocol";
+
+describe("parseClientMessage", () => {
+  it("should accept a valid hello message", () => {
+    const result = parseClientMessage(
+      JSON.stringify({
+        type: "hello",
+        protocolVersion: PROTOCOL_VERSION,
+        token: "signed-token",
+        nickname: "Tester",
+      })
+    );
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.message.type).toBe("hello");
+    }
+  });
+
+  it("should reject invalid JSON", () => {
+    const result = parseClientMessage("{not json");
+    expect(result).toMatchObject({ ok: false, code: "invalid_message" });
+  });
+
+  it("should reject unknown message types", () => {
+    const result = parseClientMessage(JSON.stringify({ type: "set_score" }));
+    expect(result).toMatchObject({ ok: false, code: "invalid_message" });
+  });
+
+  it("should reject missing and mistyped fields", () => {
+    expect(
+      parseClientMessage(JSON.stringify({ type: "update_score" })).ok
+    ).toBe(false);
+    expect(
+      parseClientMessage(JSON.stringify({ type: "update_score", blocks: "5" }))
+        .ok
+    ).toBe(false);
+  });
+
+  it("should validate each block of a score submission", () => {
+    const block = {
+      id: "block-2025-03-10T09:05",
+      startTime: 1,
+      classification: "productive",
+    };
+    expect(
+      parseClientMessage(
+        JSON.stringify({ type: "update_score", blocks: [block] })
+      ).ok
+    ).toBe(true);
+    expect(
+      parseClientMessage(
+        JSON.stringify({
+          type: "update_score",
+          blocks: [{ ...block, classification: "heroic" }],
+        })
+      )
+    ).toMatchObject({ ok: false, code: "invalid_message" });
+    expect(
+      parseClientMessage(
+        JSON.stringify({
+          type: "update_score",
+          blocks: Array(MAX_SCORED_BLOCKS + 1).fill(block),
+        })
+      ).ok
+    ).toBe(false);
+  });
+
+  it("should reject unknown presence statuses", () => {
+    const result = parseClientMessage(
+      JSON.stringify({ type: "update_profile", status: "away" })
+    );
+    expect(result).toMatchObject({ ok: false, code: "invalid_message" });
+  });
+
+  it("should only accept known leaderboard periods", () => {
+    const subscribe = (period: string) =>
+      parseClientMessage(
+        JSON.stringify({ type: "subscribe_leaderboard", period })
+      ).ok;
+    expect(subscribe("weekly")).toBe(true);
+    expect(subscribe("yearly")).toBe(false);
+  });
+
+  it("should only grant known access roles", () => {
+    const setRole = (role: string) =>
+      parseClientMessage(
+        JSON.stringify({ type: "set_role", userId: "u1", role })
+      ).ok;
+    expect(setRole("moderator")).toBe(true);
+    expect(setRole("owner")).toBe(false);
+  });
+
+  it("should reject chat messages over the max length", () => {
+    const result = parseClientMessage(
+      JSON.stringify({ type: "chat", text: "a".repeat(MAX_CHAT_LENGTH + 1) })
+    );
+    expect(result.ok).toBe(false);
+  });
+});
+
+describe("parseServerMessage", () => {
+  it("should accept structured errors", () => {
+    const result = parseServerMessage(
+      JSON.stringify({
+        type: "error",
+        code: "rate_limited",
+        message: "Slow down",
+        timestamp: 1,
+      })
+    );
+    expect(result.ok).toBe(true);
+  });
+});
+
+describe("negotiateProtocolVersion", () => {
+  it("should reject versions older than the minimum", () => {
+    expect(negotiateProtocolVersion(MIN_PROTOCOL_VERSION - 1)).toBeNull();
+  });
+
+  it("should downgrade newer clients to the server version", () => {
+    expect(negotiateProtocolVersion(PROTOCOL_VERSION + 1)).toBe(
+      PROTOCOL_VERSION
+    );
+  });
+});
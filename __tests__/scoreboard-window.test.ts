@@ -0,0 +1,104 @@
+/**
+ * @file scoreboard-window.test.ts
+ * @description
+ * Tests for the scoreboard windowing helpers in
+ * lib/party-kit/scoreboard-window.ts.
+ *
+ * Key features tested:
+ * - Clients get the top of the board, the rows around them and their pages
+ * - Loaded pages are capped, forgetting the oldest
+ * - Patches carry only new, changed and removed rows, and apply in rank order
+ *
+ * @dependencies
+ * - vitest for the test runner
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  SCOREBOARD_TOP_SIZE,
+  SCOREBOARD_WINDOW_SIZE,
+  addRange,
+  applyScoreboardDelta,
+  diffScoreboard,
+  visibleIndexes,
+} from "@/lib/party-kit/scoreboard-window";
+import type { ScoreboardRow } from "@/lib/party-kit/protocol";
+
+function row(rank: number, userId: string, score: number): ScoreboardRow {
+  return { rank, userId, username: userId, score, region: "global" };
+}
+
+function byUser(rows: ScoreboardRow[]) {
+  return new Map(rows.map((r) => [r.userId, r]));
+}
+
+describe("visibleIndexes", () => {
+  it("should send small boards whole", () => {
+    expect(visibleIndexes(3, 2, [])).toEqual([0, 1, 2]);
+  });
+
+  it("should add the rows around the user below the top", () => {
+    const indexes = visibleIndexes(1000, 100, []);
+
+    expect(indexes.length).toBe(
+      SCOREBOARD_TOP_SIZE + 2 * SCOREBOARD_WINDOW_SIZE + 1
+    );
+    expect(indexes[SCOREBOARD_TOP_SIZE]).toBe(100 - SCOREBOARD_WINDOW_SIZE);
+    expect(indexes[indexes.length - 1]).toBe(100 + SCOREBOARD_WINDOW_SIZE);
+  });
+
+  it("should add loaded pages, without going past the end", () => {
+    const indexes = visibleIndexes(45, null, [{ offset: 40, limit: 50 }]);
+
+    expect(indexes.slice(SCOREBOARD_TOP_SIZE)).toEqual([40, 41, 42, 43, 44]);
+  });
+});
+
+describe("addRange", () => {
+  it("should forget the oldest pages past the cap", () => {
+    let loaded = [{ offset: 20, limit: 100 }];
+    for (let offset = 120; offset <= 520; offset += 100) {
+      loaded = addRange(loaded, { offset, limit: 100 });
+    }
+
+    expect(loaded[0].offset).toBe(120);
+    expect(loaded).toHaveLength(5);
+  });
+});
+
+describe("diffScoreboard", () => {
+  it("should only carry rows that changed", () => {
+    const sent = byUser([row(1, "a", 10), row(2, "b", 8), row(3, "c", 5)]);
+    // c passes b
+    const next = [row(1, "a", 10), row(2, "c", 9), row(3, "b", 8)];
+
+    expect(diffScoreboard(sent, next)).toEqual({
+      rows: [row(2, "c", 9), row(3, "b", 8)],
+      removed: [],
+    });
+  });
+
+  it("should drop rows that moved out of view", () => {
+    const sent = byUser([row(1, "a", 10), row(2, "b", 8)]);
+    const next = [row(1, "d", 20), row(2, "a", 10)];
+
+    expect(diffScoreboard(sent, next)).toEqual({
+      rows: [row(1, "d", 20), row(2, "a", 10)],
+      removed: ["b"],
+    });
+  });
+});
+
+describe("applyScoreboardDelta", () => {
+  it("should bring the client's rows up to date", () => {
+    const rows = [row(1, "a", 10), row(2, "b", 8), row(7, "e", 2)];
+    const next = [row(1, "d", 20), row(2, "a", 10), row(7, "e", 2)];
+
+    const patched = applyScoreboardDelta(
+      rows,
+      diffScoreboard(byUser(rows), next)
+    );
+
+    expect(patched).toEqual(next);
+  });
+});
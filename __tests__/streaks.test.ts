@@ -0,0 +1,144 @@
+/**
+ * @file streaks.test.ts
+ * @description
+ * Tests for the productivity streak helpers in lib/party-kit/streaks.ts.
+ *
+ * Key features tested:
+ * - Days count once they reach DAILY_STREAK_MIN_BLOCKS productive blocks
+ * - Daily streaks hold through the next day, then break
+ * - Late days that border the streak still extend it
+ * - Flow runs break on gaps, unproductive blocks and midnight
+ *
+ * @dependencies
+ * - vitest for the test runner
+ */
+
+import { describe, it, expect } from "vitest";
+import { BLOCK_DURATION_MS } from "@/lib/party-kit/block-scoring";
+import {
+  DAILY_STREAK_MIN_BLOCKS,
+  addBlocks,
+  emptyStreakState,
+  streaksAt,
+} from "@/lib/party-kit/streaks";
+
+const DAY = 24 * 60 * 60 * 1000;
+// Monday 2025-03-10, 09:00 UTC
+const MONDAY = Date.UTC(2025, 2, 10, 9);
+
+// `count` back-to-back blocks from `start`
+function run(
+  start: number,
+  count: number,
+  classification: "productive" | "unproductive" = "productive"
+) {
+  return Array.from({ length: count }, (_, i) => ({
+    startTime: start + i * BLOCK_DURATION_MS,
+    classification,
+  }));
+}
+
+// A full day's worth of productive blocks
+function fullDay(start: number) {
+  return run(start, DAILY_STREAK_MIN_BLOCKS);
+}
+
+describe("daily streaks", () => {
+  it("should count a day once it has enough productive blocks", () => {
+    const short = addBlocks(
+      emptyStreakState("UTC"),
+      run(MONDAY, DAILY_STREAK_MIN_BLOCKS - 1),
+      "UTC"
+    );
+    expect(streaksAt(short, MONDAY).daily).toBe(0);
+
+    const counted = addBlocks(short, run(MONDAY + DAY / 2, 1), "UTC");
+    expect(streaksAt(counted, MONDAY + DAY / 2)).toMatchObject({
+      daily: 1,
+      bestDaily: 1,
+      lastDay: "2025-03-10",
+    });
+  });
+
+  it("should hold through the next day and break after it", () => {
+    let state = emptyStreakState("UTC");
+    for (let day = 0; day < 3; day++) {
+      state = addBlocks(state, fullDay(MONDAY + day * DAY), "UTC");
+    }
+
+    expect(streaksAt(state, MONDAY + 3 * DAY).daily).toBe(3);
+    expect(streaksAt(state, MONDAY + 4 * DAY)).toMatchObject({
+      daily: 0,
+      bestDaily: 3,
+    });
+
+    const restarted = addBlocks(state, fullDay(MONDAY + 4 * DAY), "UTC");
+    expect(streaksAt(restarted, MONDAY + 4 * DAY)).toMatchObject({
+      daily: 1,
+      bestDaily: 3,
+    });
+  });
+
+  it("should extend the streak with a day submitted late", () => {
+    let state = addBlocks(emptyStreakState("UTC"), fullDay(MONDAY), "UTC");
+    state = addBlocks(state, fullDay(MONDAY - DAY), "UTC");
+
+    expect(streaksAt(state, MONDAY).daily).toBe(2);
+  });
+
+  it("should date blocks in the user's timezone", () => {
+    // 22:00 in New York is already the next day in UTC
+    const evening = Date.UTC(2025, 2, 11, 2);
+    const state = addBlocks(
+      emptyStreakState("UTC"),
+      fullDay(evening),
+      "America/New_York"
+    );
+
+    expect(state.dailyTo).toBe("2025-03-10");
+  });
+});
+
+describe("flow streaks", () => {
+  it("should count consecutive productive blocks", () => {
+    const state = addBlocks(emptyStreakState("UTC"), run(MONDAY, 4), "UTC");
+    const more = addBlocks(
+      state,
+      run(MONDAY + 4 * BLOCK_DURATION_MS, 2),
+      "UTC"
+    );
+
+    expect(streaksAt(more, MONDAY)).toMatchObject({ flow: 6, bestFlow: 6 });
+  });
+
+  it("should start over after a gap or an unproductive block", () => {
+    const gap = addBlocks(
+      emptyStreakState("UTC"),
+      [...run(MONDAY, 3), ...run(MONDAY + 4 * BLOCK_DURATION_MS, 1)],
+      "UTC"
+    );
+    expect(streaksAt(gap, MONDAY)).toMatchObject({ flow: 1, bestFlow: 3 });
+
+    const broken = addBlocks(
+      gap,
+      run(MONDAY + 5 * BLOCK_DURATION_MS, 1, "unproductive"),
+      "UTC"
+    );
+    expect(streaksAt(broken, MONDAY).flow).toBe(0);
+  });
+
+  it("should end at midnight", () => {
+    const beforeMidnight = Date.UTC(2025, 2, 10, 23, 50);
+    const state = addBlocks(
+      emptyStreakState("UTC"),
+      run(beforeMidnight, 4),
+      "UTC"
+    );
+
+    expect(streaksAt(state, beforeMidnight + DAY / 2)).toMatchObject({
+      flow: 2,
+      bestFlow: 2,
+    });
+    expect(streaksAt(state, Date.UTC(2025, 2, 12)).flow).toBe(0);
+  });
+});
@@ -4,6 +4,14 @@ A client-side chat page that connects to a PartyKit server for real-time messagi
 </ai_context>
 <recent_changes>
 Fixed message duplication issue by adding message deduplication with a unique ID system and improved WebSocket connection handling with proper cleanup.
+Added the "Who's here" presence panel.
+Deduplicate by server-assigned message id; authors (and admins) can edit and delete messages.
+History arrives in pages: older messages load on scroll, reconnects only fetch what was missed.
+Added the focus duels panel in the global room.
+Added the group focus session panel; chat is muted for participants while they focus.
+Announced achievements, rank-ups and streak milestones render as cards.
+Moderators can delete and admins edit anyone's messages, per their access role.
+Bans, mutes and kicks are shown as toasts.
 </recent_changes>
 */
 
@@ -17,11 +25,25 @@ Fixed message duplication issue by adding message deduplication with a unique ID
  * - Nickname syncing with plugin settings (if the user set a nickname in profile).
  * - Real-time messages stored in local React state.
  * - Uses the "chat" message type from PartyKit (server code in party-server/server.ts).
+ * - Room switcher to move between the global room and team, project or private rooms.
+ * - "Who's here" panel with everyone's current task and active/idle/focus status.
+ * - Editing and deleting your own messages. Moderators can delete and
+ *   admins edit anyone's, as told by the access role in "welcome". Deleted
+ *   messages stay in place as tombstones.
+ * - Paginated history: the latest page arrives on connect, older pages load
+ *   when scrolling to the top, and reconnects ask for messages since the
+ *   newest one shown.
+ * - Focus duels (global room only): challenge someone in the room, answer
+ *   challenges and follow open duels live.
+ * - Group focus sessions (global room only): a shared Pomodoro with a
+ *   countdown and participants. Participants are notified when phases
+ *   change, and can't chat while focusing.
+ * - Announcements: system messages carrying an event (an unlocked
+ *   achievement, a rank-up or a streak milestone) show as cards.
  *
  * @dependencies
  * - React (client component).
  * - usePartyKitClient (from @/lib/party-kit/party-kit-client).
- * - usePipeSettings (from @/hooks/use-pipe-settings) to read plugin settings (e.g. nickname).
  *
  * @notes
  * - If the user is shadow banned, the server will only echo messages back to them.
@@ -32,12 +54,54 @@ Fixed message duplication issue by adding message deduplication with a unique ID
 
 "use client";
 
-import { useEffect, useState, FormEvent, useRef } from "react";
+import {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useState,
+  FormEvent,
+  useRef,
+  UIEvent,
+} from "react";
 import { usePartyKitClient } from "@/lib/party-kit/party-kit-client";
-import { usePipeSettings } from "@/hooks/use-pipe-settings";
+import { mergeMessages } from "@/lib/party-kit/chat-history";
+import { useActiveRoom } from "@/hooks/use-active-room";
+import { RoomSwitcher } from "@/components/rooms/room-switcher";
+import { WhosHerePanel } from "@/components/chat/whos-here-panel";
+import { ChatEventCard } from "@/components/chat/chat-event-card";
+import { DuelPanel } from "@/components/duels/duel-panel";
+import { FocusSessionPanel } from "@/components/focus-sessions/focus-session-panel";
+import { toast } from "@/hooks/use-toast";
+import { isFocusing } from "@/lib/party-kit/focus-session";
+import { hasPermission } from "@/lib/party-kit/permissions";
+import {
+  GLOBAL_ROOM_ID,
+  type PartyRoom,
+  type RoomMember,
+} from "@/lib/types/room-types";
+import type { Duel } from "@/lib/types/duel-types";
+import type { AccessRole } from "@/lib/types/role-types";
+import type {
+  FocusSession,
+  FocusSessionEvent,
+} from "@/lib/types/focus-session-types";
+import {
+  parseServerMessage,
+  type ChatMessage,
+  type PresenceUser,
+} from "@/lib/party-kit/protocol";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { MessageCircle, Send, User, Clock } from "lucide-react";
+import {
+  MessageCircle,
+  Send,
+  User,
+  Clock,
+  Pencil,
+  Trash2,
+  Check,
+  X,
+} from "lucide-react";
 import {
   Card,
   CardContent,
@@ -50,34 +114,66 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
 import PartySocket from "partysocket";
 
-interface ChatMessage {
-  type: string; // e.g. 'chat'
-  from: string; // nickname
-  text: string; // message body
-  timestamp: number; // ms since epoch
-}
-
 export default function ChatPage() {
-  // We can try loading a previously set nickname from plugin settings
-  // If the user never set one in the profile, we fallback to local default
-  const { settings } = usePipeSettings();
-
   // local states
   const [chatInput, setChatInput] = useState<string>("");
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isConnected, setIsConnected] = useState<boolean>(false);
+  const [room, setRoom] = useState<PartyRoom | null>(null);
+  const [members, setMembers] = useState<RoomMember[]>([]);
+  const [presence, setPresence] = useState<PresenceUser[]>([]);
+  const [selfUserId, setSelfUserId] = useState<string | null>(null);
+  const [accessRole, setAccessRole] = useState<AccessRole>("member");
+  const [duels, setDuels] = useState<Duel[]>([]);
+  const [duelError, setDuelError] = useState<string | null>(null);
+  const [focusSession, setFocusSession] = useState<FocusSession | null>(null);
+  const [focusError, setFocusError] = useState<string | null>(null);
+  // The latest focus session change, to notify participants
+  const [focusEvent, setFocusEvent] = useState<{
+    event: FocusSessionEvent;
+    session: FocusSession;
+  } | null>(null);
+
+  // The message being edited inline, if any
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState<string>("");
 
-  // Track processed message IDs to prevent duplicates
-  const processedMessageIds = useRef<Set<string>>(new Set());
+  // Paging state for older history
+  const [hasMoreOlder, setHasMoreOlder] = useState<boolean>(false);
+  const [loadingOlder, setLoadingOlder] = useState<boolean>(false);
+
+  // Timestamp of the newest message shown, sent when reconnecting
+  const latestTimestampRef = useRef<number | undefined>(undefined);
+  const getHistorySince = useCallback(() => latestTimestampRef.current, []);
 
   // PartySocket reference to prevent recreating connection
   const socketRef = useRef<PartySocket | null>(null);
 
-  // from usePartyKitClient
-  const { socket, sendChat } = usePartyKitClient();
+  // from usePartyKitClient, connected to the selected room
+  const { roomId, switchRoom } = useActiveRoom();
+  const {
+    socket,
+    sendChat,
+    editMessage,
+    deleteMessage,
+    requestHistory,
+    status,
+    setStatus,
+    challengeDuel,
+    acceptDuel,
+    declineDuel,
+    startFocusSession,
+    joinFocusSession,
+    leaveFocusSession,
+    endFocusSession,
+  } = usePartyKitClient(roomId, { getHistorySince });
 
   // Keep a scroll ref for chat history
   const chatEndRef = useRef<HTMLDivElement | null>(null);
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  // Scroll height before an older page was prepended, to keep the view still
+  const heightBeforePrependRef = useRef<number | null>(null);
+  const lastMessageIdRef = useRef<string | undefined>(undefined);
   const inputRef = useRef<HTMLInputElement | null>(null);
 
   /**
@@ -89,6 +185,19 @@ export default function ChatPage() {
 
     // Store socket reference
     socketRef.current = socket;
+
+    // A new socket means a new room, start with a clean history
+    setMessages([]);
+    setHasMoreOlder(false);
+    setLoadingOlder(false);
+    setEditingId(null);
+    setRoom(null);
+    setMembers([]);
+    setPresence([]);
+    setDuels([]);
+    setDuelError(null);
+    setFocusSession(null);
+    setFocusError(null);
     setIsConnected(socket.readyState === WebSocket.OPEN);
 
     function handleOpen() {
@@ -100,26 +209,69 @@ export default function ChatPage() {
     }
 
     function handleMessage(event: MessageEvent) {
-      try {
-        const data = JSON.parse(event.data);
-        if (data.type === "chat") {
-          // Create a unique ID for this message to prevent duplicates
-          const messageId = `${data.from}-${
-            data.timestamp
-          }-${data.text.substring(0, 10)}`;
-
-          // Only process this message if we haven't seen it before
-          if (!processedMessageIds.current.has(messageId)) {
-            processedMessageIds.current.add(messageId);
-
-            // Add to messages state and sort by timestamp
-            setMessages((prev) =>
-              [...prev, data].sort((a, b) => a.timestamp - b.timestamp)
-            );
+      const parsed = parseServerMessage(event.data);
+      if (!parsed.ok) {
+        console.warn("Received invalid message:", parsed.error);
+        return;
+      }
+
+      const data = parsed.message;
+      if (data.type === "chat") {
+        // Message ids are assigned by the server, skip ones we already have
+        setMessages((prev) => mergeMessages(prev, [data]));
+      } else if (data.type === "history") {
+        setMessages((prev) => mergeMessages(prev, data.messages));
+        if (data.direction === "older") {
+          setHasMoreOlder(data.hasMore);
+          setLoadingOlder(false);
+          if (data.messages.length === 0) {
+            heightBeforePrependRef.current = null;
           }
+        } else if (data.hasMore) {
+          // Missed more than a page while away, keep catching up
+          const newest = data.messages[data.messages.length - 1];
+          requestHistory({ since: newest.timestamp });
+        }
+      } else if (data.type === "chat_update") {
+        // An edit or delete, replace the message in place
+        setMessages((prev) =>
+          prev.map((msg) => (msg.id === data.message.id ? data.message : msg))
+        );
+      } else if (data.type === "room_info") {
+        setRoom(data.room);
+        setMembers(data.members);
+      } else if (data.type === "welcome") {
+        setSelfUserId(data.userId);
+        setAccessRole(data.accessRole);
+      } else if (data.type === "presence_snapshot") {
+        setPresence(data.users);
+      } else if (data.type === "presence") {
+        const { user } = data;
+        setPresence((prev) => {
+          const others = prev.filter((u) => u.userId !== user.userId);
+          return data.event === "leave" ? others : [...others, user];
+        });
+      } else if (data.type === "duel") {
+        const { duel } = data;
+        setDuels((prev) => [...prev.filter((d) => d.id !== duel.id), duel]);
+        setDuelError(null);
+      } else if (data.type === "focus_session") {
+        setFocusSession(data.event === "ended" ? null : data.session);
+        setFocusEvent({ event: data.event, session: data.session });
+        setFocusError(null);
+      } else if (data.type === "error") {
+        if (data.code === "invalid_duel") {
+          setDuelError(data.message);
+        } else if (data.code === "invalid_focus_session") {
+          setFocusError(data.message);
+        } else if (data.code === "banned" || data.code === "kicked") {
+          toast({
+            title: data.code === "banned" ? "Chat restricted" : "Kicked",
+            description: data.message,
+            variant: "destructive",
+          });
         }
-      } catch (err) {
-        console.warn("Received non-JSON or invalid message:", event.data);
+        console.warn(`PartyKit error (${data.code}):`, data.message);
       }
     }
 
@@ -135,17 +287,64 @@ export default function ChatPage() {
         socket.removeEventListener("close", handleClose);
       }
     };
-  }, [socket]);
+  }, [socket, requestHistory]);
 
   /**
-   * Scroll to the bottom of the chat whenever messages change
+   * Tell participants of a focus session when a phase starts or it ends
    */
   useEffect(() => {
-    if (chatEndRef.current) {
-      chatEndRef.current.scrollIntoView({ behavior: "smooth" });
+    if (!focusEvent || !selfUserId) return;
+    const { event, session } = focusEvent;
+    const participant = session.participants.find(
+      (p) => p.userId === selfUserId
+    );
+    if (!participant || participant.leftAt !== undefined) return;
+
+    if (event === "focus") {
+      toast({ title: "Focus time", description: "Back to work, together!" });
+    } else if (event === "break") {
+      toast({ title: "Break time", description: "Chat is open again." });
+    } else if (event === "ended") {
+      toast({
+        title: "Focus session over",
+        description: "Nice work, everyone!",
+      });
+    }
+  }, [focusEvent, selfUserId]);
+
+  /**
+   * Keep the view steady when older messages are prepended, and scroll to
+   * the bottom when a new message arrives at the end
+   */
+  useLayoutEffect(() => {
+    latestTimestampRef.current = messages[messages.length - 1]?.timestamp;
+
+    const container = scrollRef.current;
+    if (container && heightBeforePrependRef.current !== null) {
+      container.scrollTop +=
+        container.scrollHeight - heightBeforePrependRef.current;
+      heightBeforePrependRef.current = null;
+    }
+
+    const lastId = messages[messages.length - 1]?.id;
+    if (lastId !== lastMessageIdRef.current) {
+      lastMessageIdRef.current = lastId;
+      chatEndRef.current?.scrollIntoView({ behavior: "smooth" });
     }
   }, [messages]);
 
+  /**
+   * Load the previous page once the user scrolls near the top
+   */
+  function onScroll(e: UIEvent<HTMLDivElement>) {
+    if (e.currentTarget.scrollTop > 80) return;
+    if (!hasMoreOlder || loadingOlder || messages.length === 0) return;
+
+    setLoadingOlder(true);
+    heightBeforePrependRef.current = e.currentTarget.scrollHeight;
+    requestHistory({ before: messages[0].id });
+  }
+
   /**
    * onSend
    * Called when user hits "send" or form is submitted
@@ -164,6 +363,23 @@ export default function ChatPage() {
     }
   }
 
+  function startEditing(msg: ChatMessage) {
+    setEditingId(msg.id);
+    setEditText(msg.text);
+  }
+
+  function onSaveEdit(e: FormEvent) {
+    e.preventDefault();
+    if (!editingId || !editText.trim()) return;
+    editMessage(editingId, editText.trim());
+    setEditingId(null);
+  }
+
+  // Focus session participants can only chat during breaks. Phase changes
+  // arrive as "focus_session" messages, which re-render this.
+  const chatMuted =
+    selfUserId !== null && isFocusing(focusSession, selfUserId, Date.now());
+
   // Get initials for avatar
   const getInitials = (name: string) => {
     return name
@@ -188,7 +404,7 @@ export default function ChatPage() {
   );
 
   return (
-    <div className="container mx-auto py-8 px-4 max-w-4xl">
+    <div className="container mx-auto py-8 px-4 max-w-6xl">
       <div className="text-center mb-10">
         <h1 className="text-4xl font-bold tracking-tight mb-2 bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
           Group Chat
@@ -198,23 +414,39 @@ export default function ChatPage() {
         </p>
       </div>
 
-      <div className="">
+      <div className="grid gap-6 md:grid-cols-4">
         <Card className="md:col-span-3 shadow-md flex flex-col">
           <CardHeader className="pb-2">
-            <CardTitle className="flex items-center gap-2">
-              <MessageCircle className="h-5 w-5 text-blue-500" />
-              Chat Room
-            </CardTitle>
+            <div className="flex items-center justify-between gap-4">
+              <CardTitle className="flex items-center gap-2">
+                <MessageCircle className="h-5 w-5 text-blue-500" />
+                {room?.name ?? "Chat Room"}
+              </CardTitle>
+              <RoomSwitcher roomId={roomId} onRoomChange={switchRoom} />
+            </div>
             <CardDescription>
               {messages.length === 0
                 ? "No messages yet. Start the conversation!"
                 : `${messages.length} ${
                     messages.length === 1 ? "message" : "messages"
                   }`}
+              {members.length > 0 &&
+                ` · ${members.filter((m) => m.online).length} of ${
+                  members.length
+                } ${members.length === 1 ? "member" : "members"} online`}
             </CardDescription>
           </CardHeader>
           <CardContent className="flex-grow overflow-hidden">
-            <div className="h-[400px] overflow-y-auto pr-2 space-y-4">
+            <div
+              ref={scrollRef}
+              onScroll={onScroll}
+              className="h-[400px] overflow-y-auto pr-2 space-y-4"
+            >
+              {loadingOlder && (
+                <div className="text-center text-xs text-gray-400">
+                  Loading older messages...
+                </div>
+              )}
               {Object.entries(groupedMessages).map(([date, dateMessages]) => (
                 <div key={date} className="space-y-2">
                   <div className="flex items-center gap-2">
@@ -223,18 +455,34 @@ export default function ChatPage() {
                     <Separator className="flex-grow" />
                   </div>
 
-                  {dateMessages.map((msg, idx) => {
-                    // TODO: use better identifier
-                    const isCurrentUser = msg.from === settings?.nickname;
+                  {dateMessages.map((msg) => {
+                    if (msg.event && !msg.deletedAt) {
+                      return (
+                        <ChatEventCard
+                          key={msg.id}
+                          message={{ ...msg, event: msg.event }}
+                        />
+                      );
+                    }
+                    const isCurrentUser =
+                      selfUserId !== null && msg.userId === selfUserId;
+                    const canEdit =
+                      !msg.deletedAt &&
+                      (isCurrentUser ||
+                        hasPermission(accessRole, "edit_any_message"));
+                    const canDelete =
+                      !msg.deletedAt &&
+                      (isCurrentUser ||
+                        hasPermission(accessRole, "delete_any_message"));
                     return (
                       <div
-                        key={`${date}-${msg.timestamp}-${idx}`}
-                        className={`flex ${
+                        key={msg.id}
+                        className={`group flex ${
                           isCurrentUser ? "justify-end" : "justify-start"
                         }`}
                       >
                         <div
-                          className={`max-w-[80%] ${
+                          className={`relative max-w-[80%] ${
                             isCurrentUser
                               ? "bg-blue-100 dark:bg-blue-900/30"
                               : "bg-gray-100 dark:bg-gray-800/50"
@@ -252,15 +500,78 @@ export default function ChatPage() {
                               </span>
                             </div>
                           )}
-                          <p className="text-gray-800 dark:text-gray-200">
-                            {msg.text}
-                          </p>
+                          {editingId === msg.id ? (
+                            <form
+                              onSubmit={onSaveEdit}
+                              className="flex items-center gap-1"
+                            >
+                              <Input
+                                value={editText}
+                                onChange={(e) => setEditText(e.target.value)}
+                                className="h-8"
+                                autoFocus
+                              />
+                              <Button
+                                type="submit"
+                                size="icon"
+                                variant="ghost"
+                                className="h-8 w-8"
+                                disabled={!editText.trim()}
+                              >
+                                <Check className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                type="button"
+                                size="icon"
+                                variant="ghost"
+                                className="h-8 w-8"
+                                onClick={() => setEditingId(null)}
+                              >
+                                <X className="h-4 w-4" />
+                              </Button>
+                            </form>
+                          ) : msg.deletedAt ? (
+                            <p className="italic text-gray-400">
+                              This message was deleted.
+                            </p>
+                          ) : (
+                            <p className="text-gray-800 dark:text-gray-200">
+                              {msg.text}
+                            </p>
+                          )}
                           <div className="text-xs text-gray-400 mt-1 text-right">
+                            {msg.editedAt && !msg.deletedAt && "(edited) "}
                             {new Date(msg.timestamp).toLocaleTimeString([], {
                               hour: "2-digit",
                               minute: "2-digit",
                             })}
                           </div>
+                          {(canEdit || canDelete) && editingId !== msg.id && (
+                            <div className="absolute -top-3 right-2 hidden group-hover:flex gap-1 rounded-md border bg-white dark:bg-gray-900 shadow-sm">
+                              {canEdit && (
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  className="h-6 w-6"
+                                  title="Edit message"
+                                  onClick={() => startEditing(msg)}
+                                >
+                                  <Pencil className="h-3 w-3" />
+                                </Button>
+                              )}
+                              {canDelete && (
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  className="h-6 w-6"
+                                  title="Delete message"
+                                  onClick={() => deleteMessage(msg.id)}
+                                >
+                                  <Trash2 className="h-3 w-3" />
+                                </Button>
+                              )}
+                            </div>
+                          )}
                         </div>
                       </div>
                     );
@@ -278,7 +589,12 @@ export default function ChatPage() {
               <Input
                 ref={inputRef}
                 type="text"
-                placeholder="Type your message..."
+                placeholder={
+                  chatMuted
+                    ? "Chat is muted while you focus..."
+                    : "Type your message..."
+                }
+                disabled={chatMuted}
                 value={chatInput}
                 onChange={(e) => setChatInput(e.target.value)}
                 className="flex-grow"
@@ -286,7 +602,7 @@ export default function ChatPage() {
               <Button
                 type="submit"
                 className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
-                disabled={!isConnected || !chatInput.trim()}
+                disabled={!isConnected || chatMuted || !chatInput.trim()}
               >
                 <Send className="h-4 w-4 mr-2" />
                 Send
@@ -294,6 +610,37 @@ export default function ChatPage() {
             </form>
           </CardFooter>
         </Card>
+
+        <div className="space-y-6">
+          <WhosHerePanel
+            users={presence}
+            currentUserId={selfUserId}
+            status={status}
+            onStatusChange={setStatus}
+          />
+          {roomId === GLOBAL_ROOM_ID && (
+            <FocusSessionPanel
+              session={focusSession}
+              currentUserId={selfUserId}
+              error={focusError}
+              onStart={startFocusSession}
+              onJoin={joinFocusSession}
+              onLeave={leaveFocusSession}
+              onEnd={endFocusSession}
+            />
+          )}
+          {roomId === GLOBAL_ROOM_ID && (
+            <DuelPanel
+              duels={duels}
+              users={presence}
+              currentUserId={selfUserId}
+              error={duelError}
+              onChallenge={challengeDuel}
+              onAccept={acceptDuel}
+              onDecline={declineDuel}
+            />
+          )}
+        </div>
       </div>
     </div>
   );
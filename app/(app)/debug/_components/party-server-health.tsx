@@ -141,8 +141,6 @@ export function PartyServerHealth() {
                   <div className="grid grid-cols-2 gap-y-2">
                     <div>Scoreboard Cache</div>
                     <div>{health.memory.scoreboardCacheSize} items</div>
-                    <div>Message Queue</div>
-                    <div>{health.memory.messagesQueueSize} items</div>
                     <div>Rate Limiters</div>
                     <div>{health.memory.rateLimitersCount} active</div>
                   </div>
@@ -150,6 +148,38 @@ export function PartyServerHealth() {
               </div>
             )}
 
+            {health.scoreQueue && (
+              <div>
+                <h3 className="text-sm font-medium text-muted-foreground mb-2">
+                  Score Queue ({health.scoreQueue.room})
+                </h3>
+                <div className="bg-muted p-3 rounded-md text-sm">
+                  <div className="grid grid-cols-2 gap-y-2">
+                    <div>Pending Users</div>
+                    <div>{health.scoreQueue.depth}</div>
+                    <div>Failed Flushes</div>
+                    <div>
+                      {health.scoreQueue.failedAttempts > 0 ? (
+                        <Badge variant="destructive">
+                          {health.scoreQueue.failedAttempts} in a row
+                        </Badge>
+                      ) : (
+                        "None"
+                      )}
+                    </div>
+                    <div>Next Flush</div>
+                    <div>
+                      {health.scoreQueue.nextFlushAt
+                        ? new Date(
+                            health.scoreQueue.nextFlushAt
+                          ).toLocaleTimeString()
+                        : "Not scheduled"}
+                    </div>
+                  </div>
+                </div>
+              </div>
+            )}
+
             {health.database && (
               <div>
                 <h3 className="text-sm font-medium text-muted-foreground mb-2">
@@ -6,6 +6,8 @@ Debug page that displays user settings for troubleshooting.
 Created a new debug page that displays all user settings in a formatted JSON view.
 Fixed import path for the settings-display component.
 Added a new PartyKit tab to display real-time connection state information.
+Added a Flagged Users tab with the anti-cheat report.
+Added a Moderation tab for mutes, kicks, bans and warnings.
 </recent_changes>
 */
 
@@ -23,6 +25,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 // Client component for displaying settings
 import SettingsDisplay from "./_components/settings-display";
 import { DebugState } from "@/components/debug/debug-state";
+import { FlaggedUsers } from "@/components/debug/flagged-users";
+import { ModerationPanel } from "@/components/debug/moderation-panel";
 import { PartyServerHealth } from "./_components/party-server-health";
 import EnvironmentConfigDisplay from "./_components/environment-config-display";
 
@@ -45,6 +49,8 @@ export default async function DebugPage() {
           <TabsTrigger value="custom">Custom Settings</TabsTrigger>
           <TabsTrigger value="user">User Info</TabsTrigger>
           <TabsTrigger value="partykit">PartyKit</TabsTrigger>
+          <TabsTrigger value="flagged">Flagged Users</TabsTrigger>
+          <TabsTrigger value="moderation">Moderation</TabsTrigger>
           <TabsTrigger value="health">Server Health</TabsTrigger>
           <TabsTrigger value="config">Environment & Config</TabsTrigger>
         </TabsList>
@@ -109,6 +115,18 @@ export default async function DebugPage() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="flagged" className="mt-4">
+          <Suspense fallback={<div>Loading flagged users...</div>}>
+            <FlaggedUsers />
+          </Suspense>
+        </TabsContent>
+
+        <TabsContent value="moderation" className="mt-4">
+          <Suspense fallback={<div>Loading moderation...</div>}>
+            <ModerationPanel />
+          </Suspense>
+        </TabsContent>
+
         <TabsContent value="health" className="mt-4">
           <Suspense fallback={<div>Loading health information...</div>}>
             <PartyServerHealth />
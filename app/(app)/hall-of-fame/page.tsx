@@ -0,0 +1,174 @@
+/**
+ * @file page.tsx
+ * @description
+ * The Hall of Fame: the champions of every past month. When a month ends the
+ * party server freezes its final standings and announces the winners in
+ * chat; this page lists them, newest month first.
+ *
+ * Key features:
+ * - A card per month with its champion and the rest of the podium
+ * - Shows how many users competed and each winner's region, if they picked one
+ * - Older months are loaded on demand
+ *
+ * @notes
+ * - Months come from the getMonthArchive server action. The current month
+ *   isn't archived until it ends; it is on the leaderboard page instead.
+ */
+
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Crown, Medal, Trophy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { getMonthArchive } from "@/app/actions/partykit-actions";
+import { GLOBAL_REGION, REGION_LABELS } from "@/lib/types/region-types";
+import type {
+  ArchivedStanding,
+  MonthArchive,
+} from "@/lib/types/scoreboard-types";
+
+// How many places of each month are shown
+const PODIUM_SIZE = 3;
+
+function formatMonth(month: string) {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1, 1)).toLocaleString([], {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+// Render medal for top 3 positions
+function renderRankIndicator(rank: number) {
+  if (rank === 1) return <Trophy className="h-5 w-5 text-yellow-500" />;
+  if (rank === 2) return <Medal className="h-5 w-5 text-gray-400" />;
+  return <Medal className="h-5 w-5 text-amber-700" />;
+}
+
+function StandingRow({ standing }: { standing: ArchivedStanding }) {
+  return (
+    <li className="flex items-center justify-between gap-4 p-2 rounded-lg bg-gray-50">
+      <div className="flex items-center gap-3 min-w-0">
+        {renderRankIndicator(standing.rank)}
+        <span className="truncate">{standing.username || "Anonymous"}</span>
+        {standing.region !== GLOBAL_REGION && (
+          <span className="text-xs text-gray-400">
+            {REGION_LABELS[standing.region]}
+          </span>
+        )}
+      </div>
+      <span className="font-mono font-medium">
+        {standing.score.toLocaleString()}
+      </span>
+    </li>
+  );
+}
+
+export default function HallOfFamePage() {
+  const [months, setMonths] = useState<MonthArchive[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const loadPage = useCallback(async (before?: string) => {
+    setLoading(true);
+    try {
+      const page = await getMonthArchive(before);
+      setMonths((current) =>
+        before ? [...current, ...page.months] : page.months
+      );
+      setHasMore(page.hasMore);
+    } catch (err) {
+      console.error("Failed to fetch month archive:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPage();
+  }, [loadPage]);
+
+  const oldest = months[months.length - 1];
+
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-4xl">
+      <div className="text-center mb-10">
+        <h1 className="text-4xl font-bold tracking-tight mb-2 bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+          Hall of Fame
+        </h1>
+        <p className="text-gray-500 max-w-xl mx-auto">
+          The champions of every past month. Standings are frozen when the
+          month ends.
+        </p>
+      </div>
+
+      {months.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <Crown className="h-12 w-12 mx-auto mb-3 opacity-20" />
+          <p>
+            {loading
+              ? "Loading..."
+              : "No month has ended yet. Will you be the first champion?"}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {months.map((archive) => {
+            const [champion] = archive.standings;
+            const podium = archive.standings.filter(
+              (standing) => standing.rank <= PODIUM_SIZE
+            );
+            return (
+              <Card key={archive.month} className="shadow-md">
+                <CardHeader className="pb-2">
+                  <CardTitle className="flex items-center gap-2">
+                    <Crown className="h-5 w-5 text-yellow-500" />
+                    {formatMonth(archive.month)}
+                  </CardTitle>
+                  <CardDescription>
+                    {champion
+                      ? `${champion.username || "Anonymous"} won out of ${
+                          archive.players
+                        } ${archive.players === 1 ? "player" : "players"}`
+                      : "No one scored this month"}
+                  </CardDescription>
+                </CardHeader>
+                {podium.length > 0 && (
+                  <CardContent>
+                    <ul className="space-y-2">
+                      {podium.map((standing) => (
+                        <StandingRow
+                          key={standing.userId}
+                          standing={standing}
+                        />
+                      ))}
+                    </ul>
+                  </CardContent>
+                )}
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {hasMore && oldest && (
+        <Button
+          variant="outline"
+          className="w-full mt-6"
+          disabled={loading}
+          onClick={() => loadPage(oldest.month)}
+        >
+          {loading ? "Loading..." : "Load older months"}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -9,6 +9,20 @@
  * - Maintains local state: scoreboard (array), userScore
  * - The user can set their own score by calling setScore() from the party-kit client
  * - Renders the scoreboard in descending order (the server already sorted it)
+ * - Room switcher: named rooms show a leaderboard scoped to their members
+ * - Period tabs: today (in the user's timezone), this ISO week, this month
+ *   and all time. The tab is a subscription on the socket, renewed after
+ *   every "welcome" since the server forgets it on reconnect.
+ * - Global or regional rankings, for users who picked a region on their
+ *   profile. The server reports the user's rank on both.
+ * - Only the top of the board and the rows around the user arrive at first,
+ *   then patches with the rows that changed. "Show more" loads the next
+ *   page below the rows shown; skipped ranks are marked with a gap.
+ * - Daily and flow streaks next to names. They arrive with the rows, and
+ *   "streak" messages update them as soon as they change.
+ * - Clicking a name shows the achievements that user unlocked
+ * - Teams tab: this month's team leaderboard, and the user's own team (see
+ *   TeamBoard). It is a subscription too, replacing the user leaderboard.
  *
  * @notes
  * - In a real scenario, each user would have a stable user ID and set their score
@@ -18,11 +32,12 @@
 
 "use client";
 
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { usePartyKitClient } from "@/lib/party-kit/party-kit-client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Trophy, Medal, Award } from "lucide-react";
+import { Trophy, Medal, Award, Flame, Zap } from "lucide-react";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Card,
   CardContent,
@@ -31,23 +46,79 @@ import {
   CardDescription,
 } from "@/components/ui/card";
 import { usePipeSettings } from "@/hooks/use-pipe-settings";
-// Basic scoreboard entry shape
-interface ScoreboardEntry {
-  userId: string;
-  username: string;
-  score: number;
-}
+import { useActiveRoom } from "@/hooks/use-active-room";
+import { RoomSwitcher } from "@/components/rooms/room-switcher";
+import { TeamBoard } from "@/components/teams/team-board";
+import { AchievementsPopover } from "@/components/achievements/achievements-popover";
+import type { TeamStanding } from "@/lib/types/team-types";
+import type { PartyRoom } from "@/lib/types/room-types";
+import {
+  GLOBAL_REGION,
+  REGION_LABELS,
+  type Region,
+} from "@/lib/types/region-types";
+import { applyScoreboardDelta } from "@/lib/party-kit/scoreboard-window";
+import {
+  LEADERBOARD_PERIODS,
+  parseServerMessage,
+  type LeaderboardPeriod,
+  type LeaderboardRanks,
+  type ScoreboardRow,
+} from "@/lib/party-kit/protocol";
+
+const PERIOD_LABELS: Record<LeaderboardPeriod, string> = {
+  daily: "Today",
+  weekly: "This Week",
+  monthly: "This Month",
+  all_time: "All Time",
+};
+
+// The value of the Teams tab, next to the periods
+const TEAMS_TAB = "teams";
+
+const TEAM_RESETS = "Team scores reset at the beginning of each month.";
+
+// When each board starts over
+const PERIOD_RESETS: Record<LeaderboardPeriod, string> = {
+  daily: "The daily board resets at midnight in your timezone.",
+  weekly: "The weekly board resets every Monday.",
+  monthly: "The monthly board resets at the beginning of each month.",
+  all_time: "The all-time board never resets.",
+};
 
 export default function LeaderboardPage() {
   const { settings } = usePipeSettings();
 
   // local scoreboard
-  const [scoreboard, setScoreboard] = useState<ScoreboardEntry[]>([]);
+  const [scoreboard, setScoreboard] = useState<ScoreboardRow[]>([]);
   // Current user ID (would normally come from auth)
   const [currentUserId, setCurrentUserId] = useState<string>("");
+  const [room, setRoom] = useState<PartyRoom | null>(null);
+  const [period, setPeriod] = useState<LeaderboardPeriod>("monthly");
+  // Whether the Teams tab is shown instead of a period
+  const [showTeams, setShowTeams] = useState(false);
+  const [teamStandings, setTeamStandings] = useState<TeamStanding[]>([]);
+  // Whose rankings are shown, GLOBAL_REGION for everyone
+  const [scope, setScope] = useState<Region>(GLOBAL_REGION);
+  // e.g. "2025-W11" for the week shown
+  const [periodKey, setPeriodKey] = useState("");
+  // How many users the whole board has, most of them not loaded
+  const [total, setTotal] = useState(0);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [ranks, setRanks] = useState<LeaderboardRanks>({
+    global: null,
+    regional: null,
+  });
+  // Read by the socket listener, which outlives a render
+  const boardRef = useRef({ period, scope, showTeams });
+  boardRef.current = { period, scope, showTeams };
+
+  const userRegion = settings?.region || GLOBAL_REGION;
 
   // We use a custom hook that returns the PartySocket instance or something similar
-  const { socket } = usePartyKitClient();
+  const { roomId, switchRoom } = useActiveRoom();
+  const { socket, subscribeLeaderboard, loadScoreboard, subscribeTeams } =
+    usePartyKitClient(roomId);
 
   // TODO: load user score from server
 
@@ -63,14 +134,66 @@ export default function LeaderboardPage() {
   useEffect(() => {
     if (!socket) return;
 
+    // A new socket means a new room, clear the previous room's rankings
+    setScoreboard([]);
+    setTotal(0);
+    setRanks({ global: null, regional: null });
+    setRoom(null);
+
     function handleMessage(event: MessageEvent) {
-      try {
-        const msg = JSON.parse(event.data);
+      const parsed = parseServerMessage(event.data);
+      // ignore invalid frames
+      if (!parsed.ok) return;
+
+      const msg = parsed.message;
+      if (msg.type === "welcome") {
+        // Subscriptions don't survive a reconnect
+        if (boardRef.current.showTeams) {
+          subscribeTeams();
+        } else {
+          subscribeLeaderboard(
+            boardRef.current.period,
+            boardRef.current.scope
+          );
+        }
+      } else if (msg.type === "team_scoreboard") {
+        setTeamStandings(msg.teams);
+      } else if (
+        msg.type === "scoreboard" ||
+        msg.type === "scoreboard_delta"
+      ) {
+        // Skip boards for a tab the user already left
+        if (
+          boardRef.current.showTeams ||
+          msg.period !== boardRef.current.period ||
+          msg.region !== boardRef.current.scope
+        ) {
+          return;
+        }
         if (msg.type === "scoreboard") {
-          setScoreboard(msg.scoreboard || []);
+          setScoreboard(msg.scoreboard);
+        } else {
+          setScoreboard((rows) => applyScoreboardDelta(rows, msg));
         }
-      } catch (err) {
-        // ignore parse errors
+        setPeriodKey(msg.periodKey);
+        setRanks(msg.ranks);
+        setTotal(msg.total);
+        setLoadingMore(false);
+      } else if (msg.type === "streak") {
+        const { userId, streaks } = msg;
+        setScoreboard((rows) =>
+          rows.map((row) =>
+            row.userId === userId
+              ? {
+                  ...row,
+                  dailyStreak: streaks.daily || undefined,
+                  flowStreak: streaks.flow || undefined,
+                }
+              : row
+          )
+        );
+      } else if (msg.type === "room_info") {
+        setRoom(msg.room);
       }
     }
 
@@ -80,11 +203,40 @@ export default function LeaderboardPage() {
     return () => {
       socket.removeEventListener("message", handleMessage);
     };
-  }, [socket]);
+  }, [socket, subscribeLeaderboard, subscribeTeams]);
 
-  // Get user's current rank
+  // Switches the leaderboard. The old rows are cleared, they would be
+  // mislabeled until the new ones arrive.
+  const showBoard = (nextPeriod: LeaderboardPeriod, nextScope: Region) => {
+    setShowTeams(false);
+    setPeriod(nextPeriod);
+    setScope(nextScope);
+    setScoreboard([]);
+    setPeriodKey("");
+    setTotal(0);
+    setRanks({ global: null, regional: null });
+    subscribeLeaderboard(nextPeriod, nextScope);
+  };
+
+  const showTeamBoard = () => {
+    setShowTeams(true);
+    subscribeTeams();
+  };
+
+  // The first rank missing below the top, i.e. where the next page starts
+  const firstGap = scoreboard.findIndex(
+    (entry, index) => entry.rank !== index + 1
+  );
+  const nextOffset = firstGap === -1 ? scoreboard.length : firstGap;
+
+  const showMore = () => {
+    setLoadingMore(true);
+    loadScoreboard(nextOffset);
+  };
+
+  // Get user's current rank on the board shown
   const userRank =
-    scoreboard.findIndex((entry) => entry.userId === currentUserId) + 1;
+    (scope === GLOBAL_REGION ? ranks.global : ranks.regional) ?? 0;
 
   // Render medal for top 3 positions
   const renderRankIndicator = (rank: number) => {
@@ -98,112 +250,215 @@ export default function LeaderboardPage() {
     <div className="container mx-auto py-8 px-4 max-w-4xl">
       <div className="text-center mb-10">
         <h1 className="text-4xl font-bold tracking-tight mb-2 bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
-          Global Leaderboard
+          {room && room.kind !== "public"
+            ? `${room.name} Leaderboard`
+            : "Global Leaderboard"}
         </h1>
         <p className="text-gray-500 max-w-xl mx-auto">
           Compete with others and climb the ranks! Update your score to see
-          where you stand. The scoreboard resets at the beginning of each month.
+          where you stand.{" "}
+          {showTeams ? TEAM_RESETS : PERIOD_RESETS[period]}
         </p>
       </div>
 
       <Card className="mb-8 shadow-md">
         <CardHeader className="pb-2">
-          <CardTitle className="flex items-center gap-2">
-            <Award className="h-5 w-5 text-blue-500" />
-            Rankings
-          </CardTitle>
+          <div className="flex items-center justify-between gap-4">
+            <CardTitle className="flex items-center gap-2">
+              <Award className="h-5 w-5 text-blue-500" />
+              Rankings
+            </CardTitle>
+            <RoomSwitcher roomId={roomId} onRoomChange={switchRoom} />
+          </div>
+          <div className="flex flex-wrap items-center justify-between gap-2 mt-2">
+            <Tabs
+              value={showTeams ? TEAMS_TAB : period}
+              onValueChange={(value) =>
+                value === TEAMS_TAB
+                  ? showTeamBoard()
+                  : showBoard(value as LeaderboardPeriod, scope)
+              }
+            >
+              <TabsList>
+                {LEADERBOARD_PERIODS.map((value) => (
+                  <TabsTrigger key={value} value={value}>
+                    {PERIOD_LABELS[value]}
+                  </TabsTrigger>
+                ))}
+                <TabsTrigger value={TEAMS_TAB}>Teams</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            {!showTeams && userRegion !== GLOBAL_REGION && (
+              <Tabs
+                value={scope}
+                onValueChange={(value) => showBoard(period, value as Region)}
+              >
+                <TabsList>
+                  <TabsTrigger value={GLOBAL_REGION}>Global</TabsTrigger>
+                  <TabsTrigger value={userRegion}>
+                    {REGION_LABELS[userRegion]}
+                  </TabsTrigger>
+                </TabsList>
+              </Tabs>
+            )}
+          </div>
           <CardDescription>
-            {scoreboard.length === 0
+            {showTeams
+              ? `${teamStandings.length} ${
+                  teamStandings.length === 1 ? "team" : "teams"
+                } this month`
+              : scoreboard.length === 0
               ? "No scores yet. Be the first to join the leaderboard!"
-              : `Showing ${scoreboard.length} ${
-                  scoreboard.length === 1 ? "player" : "players"
+              : `Showing ${scoreboard.length} of ${total} ${
+                  total === 1 ? "player" : "players"
                 }`}
+            {!showTeams &&
+              periodKey &&
+              period !== "all_time" &&
+              ` · ${periodKey}`}
           </CardDescription>
         </CardHeader>
         <CardContent>
-          {userRank > 0 && (
-            <div className="mb-6 p-4 bg-gradient-to-r from-blue-50 to-purple-50 dark:from-blue-950/30 dark:to-purple-950/30 rounded-lg border border-blue-100 dark:border-blue-900">
-              <div className="flex items-center justify-between">
-                <div>
-                  <div className="text-sm font-medium text-gray-500 dark:text-gray-400">
-                    Your Current Rank
-                  </div>
-                  <div className="text-2xl font-bold text-gray-900 dark:text-gray-100">
-                    #{userRank} {userRank <= 3 && "🏆"}
+          {showTeams ? (
+            <TeamBoard standings={teamStandings} />
+          ) : (
+            <>
+              {userRank > 0 && (
+                <div className="mb-6 p-4 bg-gradient-to-r from-blue-50 to-purple-50 dark:from-blue-950/30 dark:to-purple-950/30 rounded-lg border border-blue-100 dark:border-blue-900">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="text-sm font-medium text-gray-500 dark:text-gray-400">
+                        Your Current Rank
+                      </div>
+                      <div className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+                        #{userRank} {userRank <= 3 && "🏆"}
+                      </div>
+                      {ranks.regional !== null && ranks.global !== null && (
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {scope === GLOBAL_REGION
+                            ? `#${ranks.regional} in ${REGION_LABELS[userRegion]}`
+                            : `#${ranks.global} globally`}
+                        </div>
+                      )}
+                    </div>
+                    <div className="text-right">
+                      <div className="text-sm font-medium text-gray-500 dark:text-gray-400">
+                        Your Score
+                      </div>
+                      <div className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+                        {scoreboard
+                          .find((entry) => entry.userId === currentUserId)
+                          ?.score.toLocaleString() || 0}
+                      </div>
+                    </div>
                   </div>
                 </div>
-                <div className="text-right">
-                  <div className="text-sm font-medium text-gray-500 dark:text-gray-400">
-                    Your Score
-                  </div>
-                  <div className="text-2xl font-bold text-gray-900 dark:text-gray-100">
-                    {scoreboard
-                      .find((entry) => entry.userId === currentUserId)
-                      ?.score.toLocaleString() || 0}
-                  </div>
+              )}
+              {scoreboard.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  <Trophy className="h-12 w-12 mx-auto mb-3 opacity-20" />
+                  <p>No one has a score yet. Be the first!</p>
                 </div>
-              </div>
-            </div>
-          )}
-          {scoreboard.length === 0 ? (
-            <div className="text-center py-8 text-gray-500">
-              <Trophy className="h-12 w-12 mx-auto mb-3 opacity-20" />
-              <p>No one has a score yet. Be the first!</p>
-            </div>
-          ) : (
-            <div className="rounded-md border overflow-hidden">
-              <table className="w-full">
-                <thead className="bg-muted/50">
-                  <tr>
-                    <th className="py-3 px-4 text-left font-medium text-sm">
-                      Rank
-                    </th>
-                    <th className="py-3 px-4 text-left font-medium text-sm">
-                      Nickname
-                    </th>
-                    <th className="py-3 px-4 text-right font-medium text-sm">
-                      Score
-                    </th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {scoreboard.map((entry, index) => {
-                    const isCurrentUser = entry.userId === currentUserId;
-                    return (
-                      <tr
-                        key={entry.userId}
-                        className={`border-b last:border-0 transition-colors ${
-                          isCurrentUser
-                            ? "bg-blue-50 dark:bg-blue-950/30"
-                            : "hover:bg-muted/50"
-                        }`}
-                      >
-                        <td className="py-3 px-4 flex items-center">
-                          {renderRankIndicator(index + 1)}
-                        </td>
-                        <td className="py-3 px-4">
-                          <div className="flex items-center gap-2">
-                            <span
-                              className={isCurrentUser ? "font-medium" : ""}
-                            >
-                              {entry.username || "Anonymous"}
-                              {isCurrentUser && (
-                                <span className="ml-2 text-xs text-blue-500">
-                                  (You)
-                                </span>
-                              )}
-                            </span>
-                          </div>
-                        </td>
-                        <td className="py-3 px-4 text-right font-mono font-medium">
-                          {entry.score.toLocaleString()}
-                        </td>
+              ) : (
+                <div className="rounded-md border overflow-hidden">
+                  <table className="w-full">
+                    <thead className="bg-muted/50">
+                      <tr>
+                        <th className="py-3 px-4 text-left font-medium text-sm">
+                          Rank
+                        </th>
+                        <th className="py-3 px-4 text-left font-medium text-sm">
+                          Nickname
+                        </th>
+                        <th className="py-3 px-4 text-right font-medium text-sm">
+                          Score
+                        </th>
                       </tr>
-                    );
-                  })}
-                </tbody>
-              </table>
-            </div>
+                    </thead>
+                    <tbody>
+                      {scoreboard.map((entry, index) => {
+                        const isCurrentUser = entry.userId === currentUserId;
+                        const previousRank =
+                          index > 0 ? scoreboard[index - 1].rank : 0;
+                        return (
+                          <React.Fragment key={entry.userId}>
+                            {entry.rank > previousRank + 1 && (
+                              <tr className="border-b">
+                                <td
+                                  colSpan={3}
+                                  className="py-1 px-4 text-center text-gray-400"
+                                >
+                                  ⋯
+                                </td>
+                              </tr>
+                            )}
+                            <tr
+                              className={`border-b last:border-0 transition-colors ${
+                                isCurrentUser
+                                  ? "bg-blue-50 dark:bg-blue-950/30"
+                                  : "hover:bg-muted/50"
+                              }`}
+                            >
+                              <td className="py-3 px-4 flex items-center">
+                                {renderRankIndicator(entry.rank)}
+                              </td>
+                              <td className="py-3 px-4">
+                                <div className="flex items-center gap-2">
+                                  <AchievementsPopover userId={entry.userId}>
+                                    <span
+                                      className={isCurrentUser ? "font-medium" : ""}
+                                    >
+                                      {entry.username || "Anonymous"}
+                                      {isCurrentUser && (
+                                        <span className="ml-2 text-xs text-blue-500">
+                                          (You)
+                                        </span>
+                                      )}
+                                    </span>
+                                  </AchievementsPopover>
+                                  {!!entry.dailyStreak && (
+                                    <span
+                                      className="flex items-center text-xs text-orange-500"
+                                      title={`${entry.dailyStreak}-day streak`}
+                                    >
+                                      <Flame className="h-3 w-3" />
+                                      {entry.dailyStreak}
+                                    </span>
+                                  )}
+                                  {!!entry.flowStreak && (
+                                    <span
+                                      className="flex items-center text-xs text-blue-500"
+                                      title={`${entry.flowStreak} productive blocks in a row today`}
+                                    >
+                                      <Zap className="h-3 w-3" />
+                                      {entry.flowStreak}
+                                    </span>
+                                  )}
+                                </div>
+                              </td>
+                              <td className="py-3 px-4 text-right font-mono font-medium">
+                                {entry.score.toLocaleString()}
+                              </td>
+                            </tr>
+                          </React.Fragment>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              {nextOffset < total && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full mt-4"
+                  disabled={loadingMore}
+                  onClick={showMore}
+                >
+                  {loadingMore ? "Loading..." : "Show more"}
+                </Button>
+              )}
+            </>
           )}
         </CardContent>
       </Card>
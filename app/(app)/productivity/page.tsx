@@ -34,12 +34,20 @@ import {
 import { usePipeSettings } from "@/hooks/use-pipe-settings";
 import { isDevelopment, PRODUCTIVITY_SCORE_UPDATE_INTERVAL } from "@/config";
 import { getUserScore } from "@/app/actions/partykit-actions";
+import { getUserAchievements } from "@/app/actions/achievement-actions";
 import { usePartyKitClient } from "@/lib/party-kit/party-kit-client";
+import { parseServerMessage } from "@/lib/party-kit/protocol";
 import { PipeSettings } from "@/lib/types/settings-types";
+import { ScoreHistory } from "@/components/productivity/score-history";
+import { StreakCard } from "@/components/productivity/streak-card";
+import { AchievementsCard } from "@/components/achievements/achievements-card";
+import { toast } from "@/hooks/use-toast";
+import type { Streaks } from "@/lib/types/streak-types";
+import type { AchievementProgress } from "@/lib/types/achievement-types";
 
 export default function ProductivityPage() {
   const { settings, updateSettings } = usePipeSettings();
-  const { updateProfile } = usePartyKitClient();
+  const { socket, updateProfile } = usePartyKitClient();
   const {
     blocks,
     score: localScore,
@@ -54,6 +62,11 @@ export default function ProductivityPage() {
   const [saving, setSaving] = useState(false);
   const [message, setMessage] = useState("");
   const [showSuccess, setShowSuccess] = useState(false);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const [streaks, setStreaks] = useState<Streaks | null>(null);
+  const [achievements, setAchievements] = useState<
+    AchievementProgress[] | null
+  >(null);
 
   // Use server score if available, otherwise fall back to local score
   const displayScore = serverScore !== null ? serverScore : localScore;
@@ -85,6 +98,41 @@ export default function ProductivityPage() {
     return () => clearInterval(timer);
   }, [settings]);
 
+  useEffect(() => {
+    getUserAchievements().then(setAchievements);
+  }, []);
+
+  // The server sends the user's streaks after "hello" and broadcasts
+  // everyone's when they change, so keep only the user's own. New
+  // achievements are only sent to the user who unlocked them, and reload
+  // the progress towards the rest.
+  useEffect(() => {
+    if (!socket) return;
+    let userId: string | null = null;
+
+    function handleMessage(event: MessageEvent) {
+      const parsed = parseServerMessage(event.data);
+      if (!parsed.ok) return;
+
+      const msg = parsed.message;
+      if (msg.type === "welcome") {
+        userId = msg.userId;
+      } else if (msg.type === "streak" && msg.userId === userId) {
+        setStreaks(msg.streaks);
+      } else if (msg.type === "achievement") {
+        const { achievement } = msg;
+        getUserAchievements().then(setAchievements);
+        toast({
+          title: `🏆 ${achievement.name}`,
+          description: achievement.description,
+        });
+      }
+    }
+
+    socket.addEventListener("message", handleMessage);
+    return () => socket.removeEventListener("message", handleMessage);
+  }, [socket]);
+
   /**
    * onSaveTask
    * @description Handles form submission to save user's current task
@@ -149,6 +197,7 @@ export default function ProductivityPage() {
   const handleRefresh = () => {
     refreshProductivityData();
     fetchUserScore(); // Also refresh the server score
+    setHistoryRefreshKey((key) => key + 1);
   };
 
   return (
@@ -332,6 +381,15 @@ export default function ProductivityPage() {
         </Card>
       </div>
 
+      {/* Streaks */}
+      <StreakCard streaks={streaks} />
+
+      {/* Achievements */}
+      <AchievementsCard achievements={achievements} />
+
+      {/* Score History */}
+      <ScoreHistory refreshKey={historyRefreshKey} />
+
       {/* How It Works */}
       <Card className="shadow-md transition-all hover:shadow-lg mb-6">
         <CardHeader>
@@ -359,8 +417,9 @@ export default function ProductivityPage() {
               <h3 className="font-semibold mb-2">🔒 Privacy First</h3>
               <p className="text-sm text-gray-600">
                 All screen data and activity details stay on your device. Only
-                your numeric score is shared with the leaderboard. We never see
-                or store your actual screen content.
+                the time and classification of each 5-minute block are shared,
+                so the leaderboard can score them. We never see or store your
+                actual screen content.
               </p>
             </div>
             <div className="rounded-lg bg-gray-50 p-4">
@@ -2,7 +2,7 @@
  * @file page.tsx
  * @description
  * This file implements the user profile settings page, where the user
- * can edit their "nickname", "role", and "current task." It utilizes our existing
+ * can edit their "nickname", "role", "region" and "current task." It utilizes our existing
  * hook `usePipeSettings` to persist these values in `pipe.settings`.
  *
  * @notes
@@ -14,9 +14,14 @@
  *   plugin's custom settings object (under `pipe` namespace).
  *
  * Key features:
- * - Displays form fields: Nickname, Role, Current Task.
+ * - Displays form fields: Nickname, Role, Region, Current Task.
+ * - The region is sent to the party server, which ranks the user on that
+ *   region's leaderboard.
+ * - A privacy switch turns off chat announcements of the user's
+ *   achievements, rank-ups and streak milestones.
  * - Loads existing values from user settings if present.
  * - Offers a "Save Settings" button to update the plugin settings.
+ * - Shows the user's focus duel record.
  * - Provides inline error or success messaging (optional).
  *
  * @dependencies
@@ -47,7 +52,22 @@ import {
 } from "@/components/ui/card";
 import { User, Briefcase, Save, CheckCircle, UserCircle2 } from "lucide-react";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { PipeSettings } from "@/lib/types/settings-types";
+import { DuelRecordCard } from "@/components/duels/duel-record";
+import {
+  GLOBAL_REGION,
+  REGIONS,
+  REGION_LABELS,
+  type Region,
+} from "@/lib/types/region-types";
 
 /**
  * ProfilePage
@@ -60,6 +80,8 @@ export default function ProfilePage() {
   const { updateProfile } = usePartyKitClient();
   const [nickname, setNickname] = useState("");
   const [role, setRole] = useState("");
+  const [region, setRegion] = useState<Region>(GLOBAL_REGION);
+  const [announcements, setAnnouncements] = useState(true);
   const [saving, setSaving] = useState(false);
   const [message, setMessage] = useState("");
   const [showSuccess, setShowSuccess] = useState(false);
@@ -74,6 +96,8 @@ export default function ProfilePage() {
 
       setNickname(storedNickname);
       setRole(storedRole);
+      setRegion(pipeSettings.region || GLOBAL_REGION);
+      setAnnouncements(pipeSettings.announcements ?? true);
     }
   }, [loading, settings]);
 
@@ -94,6 +118,8 @@ export default function ProfilePage() {
         ...settings,
         nickname,
         role,
+        region,
+        announcements,
       };
 
       const success = await updateSettings(updated);
@@ -101,7 +127,13 @@ export default function ProfilePage() {
         // Also update the party server state
         // Get current task from settings since we no longer track it on this page
         const pipeSettings = settings as PipeSettings;
-        updateProfile(nickname, pipeSettings.currentTask || "", role);
+        updateProfile(
+          nickname,
+          pipeSettings.currentTask || "",
+          role,
+          region,
+          announcements
+        );
 
         setMessage("Profile updated successfully!");
         setShowSuccess(true);
@@ -179,6 +211,11 @@ export default function ProfilePage() {
             <div className="text-center">
               <h3 className="text-xl font-medium">{nickname || "Anonymous"}</h3>
               <p className="text-sm text-gray-500">{role || "No role set"}</p>
+              {region !== GLOBAL_REGION && (
+                <p className="text-xs text-gray-400">
+                  {REGION_LABELS[region]}
+                </p>
+              )}
               <p className="text-xs text-gray-400 mt-1">
                 {settings && (settings as PipeSettings).currentTask
                   ? (settings as PipeSettings).currentTask
@@ -232,6 +269,53 @@ export default function ProfilePage() {
                   Your professional role or title
                 </p>
               </div>
+
+              {/* Region */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">
+                  Region
+                </label>
+                <Select
+                  value={region}
+                  onValueChange={(value) => setRegion(value as Region)}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REGIONS.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {REGION_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500">
+                  Compete on your region&apos;s leaderboard as well as the
+                  global one
+                </p>
+              </div>
+
+              {/* Privacy */}
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <label
+                    htmlFor="announcements"
+                    className="text-sm font-medium text-gray-700"
+                  >
+                    Announce my milestones
+                  </label>
+                  <p className="text-xs text-gray-500">
+                    Post your achievements, rank-ups and streak milestones in
+                    chat for everyone to see
+                  </p>
+                </div>
+                <Switch
+                  id="announcements"
+                  checked={announcements}
+                  onCheckedChange={setAnnouncements}
+                />
+              </div>
             </CardContent>
 
             <CardFooter className="flex justify-between items-center border-t pt-4">
@@ -285,6 +369,10 @@ export default function ProfilePage() {
             </CardFooter>
           </form>
         </Card>
+
+        <div className="md:col-span-3">
+          <DuelRecordCard />
+        </div>
       </div>
     </div>
   );
@@ -1,145 +1,77 @@
 /**
  * @file achievement-actions.ts
  * @description
- * Provides server actions for awarding achievements when a user’s productivity
- * score crosses certain thresholds. Achievements are stored in `pipe.settings`
- * under the `customSettings.achievements` array.
+ * Provides server actions for reading achievements. The party server
+ * unlocks them by the rules in lib/party-kit/achievements.ts and keeps
+ * them, with the user's progress towards the rest, in the Supabase
+ * `achievements` table, so they follow the user to any machine and
+ * everyone can see them.
  *
  * Exports:
- * 1. checkAndUnlockAchievements(newScore: number) => Promise<Achievement[]>
- *    - Compares newScore to known thresholds
- *    - If the user crosses a threshold for the first time, we store the new
- *      achievement in settings
- *    - Returns an array of newly unlocked achievements
- *
- * 2. getUserAchievements() => Promise<Achievement[]>
- *    - Returns the user’s currently unlocked achievements
+ * 1. getUserAchievements(userId?: string) => Promise<AchievementProgress[]>
+ *    - Returns every achievement with the user's progress towards it, in
+ *      definition order. Defaults to the current user
  *
  * Key Implementation Details:
- * - Achievements are identified by an `id` (string)
- * - The user’s achievements are stored in `customSettings.achievements`
- *   as an array of strings (the 'id's). We then cross-reference them with
- *   a local `ACHIEVEMENT_DEFINITIONS` object to get full details.
- * - You can tweak thresholds or add more achievements as needed.
+ * - Achievements are read with `GET ?type=get_achievements` from the global
+ *   room. They are public, so no token is needed.
+ * - The definitions live in lib/party-kit/achievements.ts, shared with the
+ *   party server.
  *
  * @notes
- * - Achievements are purely for demonstration. You might want to localize text
- *   or store them in a more robust data store if needed.
- * - If you have partial or advanced scoring, adjust thresholds accordingly.
+ * - New unlocks are also pushed over the socket as "achievement" messages,
+ *   so pages don't need to poll.
+ * - Achievements used to be kept in `customSettings.achievements` of the
+ *   local pipe settings. Those are no longer read here;
+ *   importLocalAchievements() in partykit-actions.ts moves them to the
+ *   server when the app first connects.
  */
 
 "use server";
 
 import { pipe } from "@screenpipe/js";
+import { PARTYKIT_SERVER_URL } from "@/config";
+import { GLOBAL_ROOM_ID } from "@/lib/types/room-types";
+import type { AchievementProgress } from "@/lib/types/achievement-types";
 
 /**
- * An interface describing a single Achievement object
- */
-export interface Achievement {
-  id: string;
-  name: string;
-  description: string;
-  threshold: number; // The minimum score at which this achievement unlocks
-}
-
-/**
- * A static list of achievements we can unlock, keyed by ID.
- * You can add more or adjust thresholds.
- */
-const ACHIEVEMENT_DEFINITIONS: Record<string, Achievement> = {
-  "score-10": {
-    id: "score-10",
-    name: "Rookie Achiever",
-    description: "Reached a score of 10! Keep going!",
-    threshold: 10,
-  },
-  "score-50": {
-    id: "score-50",
-    name: "Productive Pro",
-    description: "Reached a score of 50! You’re on a roll!",
-    threshold: 50,
-  },
-  "score-100": {
-    id: "score-100",
-    name: "Master of Productivity",
-    description: "Score of 100? Incredible dedication!",
-    threshold: 100,
-  },
-};
-
-/**
- * Checks if the given score passes any new thresholds (achievements)
- * that the user doesn't already have, and unlocks them.
+ * Retrieves every achievement with a user's progress towards it
  *
- * @param newScore The user's new total score
- * @returns An array of newly unlocked achievements
+ * @param userId Whose achievements to read, the current user's by default
+ * @returns An array of AchievementProgress objects, empty on error
  */
-export async function checkAndUnlockAchievements(
-  newScore: number
-): Promise<Achievement[]> {
+export async function getUserAchievements(
+  userId?: string
+): Promise<AchievementProgress[]> {
   try {
-    // 1. Load user settings
-    const settings = await pipe.settings.getAll();
-
-    // 2. Get current achievements from user settings. If none, empty array
-    const userAchievements: string[] =
-      (settings.customSettings?.achievements as string[]) || [];
-
-    // 3. Figure out which achievements are newly unlocked
-    const newlyUnlocked: Achievement[] = [];
-    for (const achId in ACHIEVEMENT_DEFINITIONS) {
-      const ach = ACHIEVEMENT_DEFINITIONS[achId];
-      // If user score is >= threshold and they don't have it yet
-      if (newScore >= ach.threshold && !userAchievements.includes(achId)) {
-        newlyUnlocked.push(ach);
-      }
+    if (!userId) {
+      const settings = await pipe.settings.getAll();
+      userId = settings.customSettings?.userId || settings.user?.id;
     }
-
-    // If no new achievements, return early
-    if (newlyUnlocked.length === 0) {
+    if (!userId) {
+      console.error("No user ID found in settings");
       return [];
     }
 
-    // 4. Add the newly unlocked achievements' IDs to user settings
-    const updatedAchievements = [...userAchievements];
-    for (const ach of newlyUnlocked) {
-      updatedAchievements.push(ach.id);
-    }
+    const url = new URL(`${PARTYKIT_SERVER_URL}/party/${GLOBAL_ROOM_ID}`);
+    url.searchParams.append("type", "get_achievements");
+    url.searchParams.append("userId", userId);
 
-    // 5. Save them
-    await pipe.settings.update({
-      customSettings: {
-        ...settings.customSettings,
-        achievements: updatedAchievements,
+    const response = await fetch(url.toString(), {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-cache",
       },
     });
 
-    // 6. Return newly unlocked achievements
-    return newlyUnlocked;
-  } catch (error) {
-    console.error("checkAndUnlockAchievements() failed:", error);
-    // On error, we’ll assume none unlocked
-    return [];
-  }
-}
-
-/**
- * Retrieves the user's currently unlocked achievements from settings
- *
- * @returns An array of Achievement objects
- */
-export async function getUserAchievements(): Promise<Achievement[]> {
-  try {
-    const settings = await pipe.settings.getAll();
-    const userAchievements = (settings.customSettings?.achievements ||
-      []) as string[];
-
-    // Map IDs to full Achievement details
-    const result: Achievement[] = userAchievements
-      .map((id) => ACHIEVEMENT_DEFINITIONS[id])
-      .filter((ach) => ach !== undefined);
+    if (!response.ok) {
+      console.error("Failed to fetch achievements:", await response.text());
+      return [];
+    }
 
-    return result;
+    const data = await response.json();
+    return data.achievements || [];
   } catch (error) {
     console.error("getUserAchievements() failed:", error);
     return [];
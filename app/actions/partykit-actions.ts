@@ -6,6 +6,16 @@ Contains server actions for interacting with the PartyKit server.
 Created updatePartyKitScore function to update the user's productivity score in the PartyKit server.
 Added getUserScore function to fetch the user's current score from the PartyKit server.
 Added getPartyServerHealth function to check the health of the PartyKit server.
+Added listRooms, createRoom and joinRoomWithInvite for the room directory.
+Added getPartyKitToken; score posts and room requests now carry a signed token instead of a userId.
+Health is read from the global room and reports its durable score queue.
+updatePartyKitScore submits classified blocks instead of a delta; replays are not double-counted.
+Added getScoreHistory to page through the user's score ledger.
+updatePartyKitScore sends the local timezone, which dates blocks for the daily and weekly leaderboards.
+Added getMonthArchive for the Hall of Fame.
+Added getMyTeam, createTeam and joinTeam for teams.
+Added getDuelRecord for the duel record on the profile page.
+Added importLocalAchievements to move locally kept achievements to the server.
 </recent_changes>
 */
 
@@ -13,36 +23,105 @@ Added getPartyServerHealth function to check the health of the PartyKit server.
 
 import { pipe } from "@screenpipe/js";
 import { PARTYKIT_SERVER_URL } from "@/config";
+import { signPartyToken } from "@/lib/party-kit/auth-token";
+import type { ScoredBlock } from "@/lib/party-kit/protocol";
+import type {
+  MonthArchive,
+  ScoreEvent,
+} from "@/lib/types/scoreboard-types";
+import {
+  GLOBAL_ROOM_ID,
+  type PartyRoom,
+  type RoomKind,
+} from "@/lib/types/room-types";
+import type { Team, TeamMember } from "@/lib/types/team-types";
+import type { DuelRecord } from "@/lib/types/duel-types";
+
+/**
+ * Issues a signed token for the current user, or null if there is no user or
+ * the shared secret is missing
+ */
+async function issueToken(roomId: string): Promise<string | null> {
+  const secret = process.env.PARTYKIT_AUTH_SECRET;
+  if (!secret) {
+    console.error("PARTYKIT_AUTH_SECRET is not set");
+    return null;
+  }
+
+  const settings = await pipe.settings.getAll();
+  const userId = settings.customSettings?.userId || settings.user?.id;
+
+  if (!userId) {
+    console.error("No user ID found in settings");
+    return null;
+  }
+
+  return signPartyToken(userId, roomId, secret);
+}
+
+/**
+ * @function getPartyKitToken
+ * @description
+ * Server action that issues a short-lived token proving who the current user
+ * is. The client sends it in its "hello" message; the party server only
+ * accepts it once, in the room it was issued for.
+ *
+ * @param roomId The room the client is about to join
+ * @returns Promise<string | null> The token, or null if none can be issued
+ *
+ * @example
+ * const token = await getPartyKitToken("chat");
+ */
+export async function getPartyKitToken(
+  roomId: string
+): Promise<string | null> {
+  try {
+    return await issueToken(roomId);
+  } catch (error) {
+    console.error("Error issuing PartyKit token:", error);
+    return null;
+  }
+}
 
 /**
  * @function updatePartyKitScore
  * @description
- * Server action that updates the user's score in the PartyKit server.
+ * Server action that submits classified productivity blocks to the PartyKit
+ * server, which credits each block id once and updates the user's score.
  * This keeps the leaderboard in sync with the user's productivity score.
  *
- * @param delta The score delta to apply (will be added to current score)
- * @returns Promise<boolean> indicating success or failure
+ * Submitting blocks that were already credited is safe: the server skips
+ * them, so a retried call can't double-count. Blocks over the user's time
+ * allowance aren't credited yet and should be submitted again later.
+ *
+ * The pipe runs on the user's machine, so its timezone is the user's. The
+ * server uses it to count the blocks towards the right day and week.
+ *
+ * @param blocks The classified blocks to credit
+ * @returns Promise<string[] | null> The ids of the blocks the server is done
+ * with, credited now or before or refused for good, or null on failure
  *
  * @example
- * const success = await updatePartyKitScore(5); // Add 5 points to user's score
+ * const settled = await updatePartyKitScore([
+ *   { id: "block-2025-03-10T09:05", startTime, classification: "productive" },
+ * ]);
  */
-export async function updatePartyKitScore(delta: number): Promise<boolean> {
+export async function updatePartyKitScore(
+  blocks: ScoredBlock[]
+): Promise<string[] | null> {
   try {
     // Get the PartyKit server URL from config
     const partyKitUrl = PARTYKIT_SERVER_URL;
 
-    // Get the user's settings to retrieve their user ID
-    const settings = await pipe.settings.getAll();
-    const userId = settings.customSettings?.userId || settings.user?.id;
-
-    if (!userId) {
-      console.error("No user ID found in settings");
-      return false;
+    // Sign the request so the server knows whose score to update
+    const token = await issueToken(GLOBAL_ROOM_ID);
+    if (!token) {
+      return null;
     }
 
     // Construct the URL for the PartyKit server
     // The URL in config already includes the protocol
-    const url = `${partyKitUrl}/party/chat`;
+    const url = `${partyKitUrl}/party/${GLOBAL_ROOM_ID}`;
 
     // Send a POST request to the PartyKit server
     const response = await fetch(url, {
@@ -52,20 +131,40 @@ export async function updatePartyKitScore(delta: number): Promise<boolean> {
       },
       body: JSON.stringify({
         type: "update_score",
-        userId,
-        delta,
+        token,
+        blocks,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
       }),
     });
 
-    if (!response.ok) {
-      console.error("Failed to update PartyKit score:", await response.text());
-      return false;
+    // Submissions the server decided on are answered with the outcome of
+    // every block, even if none was credited (e.g. 409 when all of them
+    // were before). Anything else is a failure.
+    const body = await response.text();
+    if (!body.startsWith("{")) {
+      console.error("Failed to update PartyKit score:", body);
+      return null;
     }
+    const result = JSON.parse(body) as {
+      credited: string[];
+      duplicates: string[];
+      expired: string[];
+      refused: { kind: string; blockIds: string[] }[];
+    };
 
-    return true;
+    // Blocks over the allowance and bursts are left out, to be submitted
+    // again
+    return [
+      ...result.credited,
+      ...result.duplicates,
+      ...result.expired,
+      ...result.refused
+        .filter((violation) => violation.kind === "overlapping_blocks")
+        .flatMap((violation) => violation.blockIds),
+    ];
   } catch (error) {
     console.error("Error updating PartyKit score:", error);
-    return false;
+    return null;
   }
 }
 
@@ -94,7 +193,7 @@ export async function getUserScore(): Promise<number> {
     }
 
     // Construct the URL for the PartyKit server with query parameters
-    const url = new URL(`${partyKitUrl}/party/chat`);
+    const url = new URL(`${partyKitUrl}/party/${GLOBAL_ROOM_ID}`);
     url.searchParams.append("type", "get_user_score");
     url.searchParams.append("userId", userId);
 
@@ -120,6 +219,139 @@ export async function getUserScore(): Promise<number> {
   }
 }
 
+/**
+ * @function getScoreHistory
+ * @description
+ * Server action that fetches a page of the current user's score ledger:
+ * every submission the server handled, what it was worth, and what was
+ * actually credited.
+ *
+ * @param before Only return events older than this timestamp (ms)
+ * @returns Promise<{ events, hasMore }> Events newest first
+ */
+export async function getScoreHistory(
+  before?: number
+): Promise<{ events: ScoreEvent[]; hasMore: boolean }> {
+  try {
+    const token = await issueToken(GLOBAL_ROOM_ID);
+    if (!token) {
+      return { events: [], hasMore: false };
+    }
+
+    const url = new URL(`${PARTYKIT_SERVER_URL}/party/${GLOBAL_ROOM_ID}`);
+    url.searchParams.append("type", "get_score_history");
+    url.searchParams.append("token", token);
+    if (before) {
+      url.searchParams.append("before", String(before));
+    }
+
+    const response = await fetch(url.toString(), {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-cache",
+      },
+    });
+
+    if (!response.ok) {
+      console.error("Failed to fetch score history:", await response.text());
+      return { events: [], hasMore: false };
+    }
+
+    const data = await response.json();
+    return { events: data.events || [], hasMore: !!data.hasMore };
+  } catch (error) {
+    console.error("Error fetching score history:", error);
+    return { events: [], hasMore: false };
+  }
+}
+
+/**
+ * @function getMonthArchive
+ * @description
+ * Server action that fetches a page of past months with their final
+ * standings, frozen by the party server when each month ended.
+ *
+ * @param before Only return months older than this one ("YYYY-MM")
+ * @returns Promise<{ months, hasMore }> Months newest first
+ */
+export async function getMonthArchive(
+  before?: string
+): Promise<{ months: MonthArchive[]; hasMore: boolean }> {
+  try {
+    const url = new URL(`${PARTYKIT_SERVER_URL}/party/${GLOBAL_ROOM_ID}`);
+    url.searchParams.append("type", "get_month_archive");
+    if (before) {
+      url.searchParams.append("before", before);
+    }
+
+    const response = await fetch(url.toString(), {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-cache",
+      },
+    });
+
+    if (!response.ok) {
+      console.error("Failed to fetch month archive:", await response.text());
+      return { months: [], hasMore: false };
+    }
+
+    const data = await response.json();
+    return { months: data.months || [], hasMore: !!data.hasMore };
+  } catch (error) {
+    console.error("Error fetching month archive:", error);
+    return { months: [], hasMore: false };
+  }
+}
+
+/**
+ * @function getDuelRecord
+ * @description
+ * Server action that fetches the current user's duel record: how many
+ * focus duels they won, lost and tied, and their latest finished duels.
+ *
+ * @returns Promise<DuelRecord> The record, or an empty one on error
+ */
+export async function getDuelRecord(): Promise<DuelRecord> {
+  const noRecord: DuelRecord = { wins: 0, losses: 0, ties: 0, recent: [] };
+  try {
+    const token = await issueToken(GLOBAL_ROOM_ID);
+    if (!token) {
+      return noRecord;
+    }
+
+    const url = new URL(`${PARTYKIT_SERVER_URL}/party/${GLOBAL_ROOM_ID}`);
+    url.searchParams.append("type", "get_duel_record");
+    url.searchParams.append("token", token);
+
+    const response = await fetch(url.toString(), {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-cache",
+      },
+    });
+
+    if (!response.ok) {
+      console.error("Failed to fetch duel record:", await response.text());
+      return noRecord;
+    }
+
+    const data = await response.json();
+    return {
+      wins: data.wins ?? 0,
+      losses: data.losses ?? 0,
+      ties: data.ties ?? 0,
+      recent: data.recent || [],
+    };
+  } catch (error) {
+    console.error("Error fetching duel record:", error);
+    return noRecord;
+  }
+}
+
 /**
  * Interface for PartyKit server health response
  */
@@ -129,9 +361,14 @@ export interface PartyServerHealth {
   connections: number;
   memory?: {
     scoreboardCacheSize: number;
-    messagesQueueSize: number;
     rateLimitersCount: number;
   };
+  scoreQueue?: {
+    room: string;
+    depth: number; // users with score deltas not yet written to Supabase
+    failedAttempts: number; // flushes failed in a row, drives the backoff
+    nextFlushAt: number | null;
+  };
   database?: {
     status: string;
     error: string | null;
@@ -158,8 +395,9 @@ export async function getPartyServerHealth(): Promise<PartyServerHealth> {
     // Get the PartyKit server URL from config
     const partyKitUrl = PARTYKIT_SERVER_URL;
 
-    // Construct the URL for the health endpoint
-    const url = `${partyKitUrl}/party/health`;
+    // Construct the URL for the health endpoint. Score updates are queued
+    // in the global room, so ask it for its queue depth.
+    const url = `${partyKitUrl}/party/${GLOBAL_ROOM_ID}/health`;
 
     console.log("Checking PartyKit server health at:", url);
     // Send a GET request to the health endpoint
@@ -195,3 +433,295 @@ export async function getPartyServerHealth(): Promise<PartyServerHealth> {
     };
   }
 }
+
+/**
+ * @function listRooms
+ * @description
+ * Server action that fetches the room directory from the PartyKit server.
+ * Team and project rooms are listed for everyone, private rooms only for
+ * their members.
+ *
+ * @returns Promise<PartyRoom[]> The rooms this user can join, or [] on error
+ */
+export async function listRooms(): Promise<PartyRoom[]> {
+  try {
+    const token = await issueToken(GLOBAL_ROOM_ID);
+    if (!token) {
+      return [];
+    }
+
+    const url = new URL(`${PARTYKIT_SERVER_URL}/party/${GLOBAL_ROOM_ID}`);
+    url.searchParams.append("type", "list_rooms");
+    url.searchParams.append("token", token);
+
+    const response = await fetch(url.toString(), {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-cache",
+      },
+    });
+
+    if (!response.ok) {
+      console.error("Failed to list rooms:", await response.text());
+      return [];
+    }
+
+    const data = await response.json();
+    return data.rooms || [];
+  } catch (error) {
+    console.error("Error listing rooms:", error);
+    return [];
+  }
+}
+
+/**
+ * @function createRoom
+ * @description
+ * Server action that creates a named room. The creator becomes its first
+ * member. Private rooms come back with an invite code to share.
+ *
+ * @param name Display name of the room
+ * @param kind "team", "project" or "private"
+ * @returns Promise<PartyRoom | null> The created room, or null on error
+ */
+export async function createRoom(
+  name: string,
+  kind: Exclude<RoomKind, "public">
+): Promise<PartyRoom | null> {
+  return postRoomRequest({ type: "create_room", name, kind });
+}
+
+/**
+ * @function joinRoomWithInvite
+ * @description
+ * Server action that joins a private room using its invite code.
+ *
+ * @param inviteCode The code shared by a room member
+ * @returns Promise<PartyRoom | null> The joined room, or null if the code is unknown
+ */
+export async function joinRoomWithInvite(
+  inviteCode: string
+): Promise<PartyRoom | null> {
+  return postRoomRequest({ type: "join_room", inviteCode });
+}
+
+/**
+ * Sends a room directory request on behalf of the current user
+ */
+async function postRoomRequest(
+  body: Record<string, string>
+): Promise<PartyRoom | null> {
+  try {
+    const token = await issueToken(GLOBAL_ROOM_ID);
+    if (!token) {
+      return null;
+    }
+
+    const settings = await pipe.settings.getAll();
+    const username = settings.customSettings?.pipe?.nickname;
+
+    const response = await fetch(
+      `${PARTYKIT_SERVER_URL}/party/${GLOBAL_ROOM_ID}`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ ...body, token, username }),
+      }
+    );
+
+    if (!response.ok) {
+      console.error(`Failed to ${body.type}:`, await response.text());
+      return null;
+    }
+
+    const data = await response.json();
+    return data.room || null;
+  } catch (error) {
+    console.error(`Error during ${body.type}:`, error);
+    return null;
+  }
+}
+
+/**
+ * The current user's team this month, as returned by getMyTeam
+ */
+export interface MyTeam {
+  team: Team | null;
+  members: TeamMember[];
+  /** Whether the user may still join another team this month */
+  canSwitch: boolean;
+}
+
+/**
+ * @function getMyTeam
+ * @description
+ * Server action that fetches the current user's team this month with its
+ * members and their monthly scores.
+ *
+ * @returns Promise<MyTeam> The user's team, or no team on error
+ */
+export async function getMyTeam(): Promise<MyTeam> {
+  const noTeam: MyTeam = { team: null, members: [], canSwitch: true };
+  try {
+    const token = await issueToken(GLOBAL_ROOM_ID);
+    if (!token) {
+      return noTeam;
+    }
+
+    const url = new URL(`${PARTYKIT_SERVER_URL}/party/${GLOBAL_ROOM_ID}`);
+    url.searchParams.append("type", "get_team");
+    url.searchParams.append("token", token);
+
+    const response = await fetch(url.toString(), {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-cache",
+      },
+    });
+
+    if (!response.ok) {
+      console.error("Failed to fetch team:", await response.text());
+      return noTeam;
+    }
+
+    const data = await response.json();
+    return {
+      team: data.team || null,
+      members: data.members || [],
+      canSwitch: data.canSwitch !== false,
+    };
+  } catch (error) {
+    console.error("Error fetching team:", error);
+    return noTeam;
+  }
+}
+
+/**
+ * @function createTeam
+ * @description
+ * Server action that creates a team with the current user as its first
+ * member. Users can only join one team per month.
+ *
+ * @param name Display name of the team
+ * @returns Promise<{ team, error? }> The created team, or why it failed
+ */
+export async function createTeam(
+  name: string
+): Promise<{ team: Team | null; error?: string }> {
+  return postTeamRequest({ type: "create_team", name });
+}
+
+/**
+ * @function joinTeam
+ * @description
+ * Server action that joins a team using its invite code. Users can only
+ * join one team per month.
+ *
+ * @param inviteCode The code shared by a team member
+ * @returns Promise<{ team, error? }> The joined team, or why it failed
+ */
+export async function joinTeam(
+  inviteCode: string
+): Promise<{ team: Team | null; error?: string }> {
+  return postTeamRequest({ type: "join_team", inviteCode });
+}
+
+/**
+ * Sends a team request on behalf of the current user. Unlike room
+ * requests, refusals are passed on so the user can see why.
+ */
+async function postTeamRequest(
+  body: Record<string, string>
+): Promise<{ team: Team | null; error?: string }> {
+  try {
+    const token = await issueToken(GLOBAL_ROOM_ID);
+    if (!token) {
+      return { team: null, error: "Not signed in" };
+    }
+
+    const settings = await pipe.settings.getAll();
+    const username = settings.customSettings?.pipe?.nickname;
+
+    const response = await fetch(
+      `${PARTYKIT_SERVER_URL}/party/${GLOBAL_ROOM_ID}`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ ...body, token, username }),
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error(`Failed to ${body.type}:`, error);
+      return { team: null, error };
+    }
+
+    const data = await response.json();
+    return { team: data.team || null };
+  } catch (error) {
+    console.error(`Error during ${body.type}:`, error);
+    return { team: null, error: "Could not reach the server" };
+  }
+}
+
+/**
+ * @function importLocalAchievements
+ * @description
+ * Server action that moves the achievements the app used to keep in
+ * `customSettings.achievements` of the local pipe settings to the PartyKit
+ * server, which unlocks them in Supabase. The local list is removed once
+ * the server has them, so this does nothing after the first success.
+ *
+ * @returns Promise<boolean> true if nothing is left to import
+ */
+export async function importLocalAchievements(): Promise<boolean> {
+  try {
+    const settings = await pipe.settings.getAll();
+    const achievementIds = settings.customSettings?.achievements;
+    if (!Array.isArray(achievementIds)) {
+      return true;
+    }
+
+    const token = await issueToken(GLOBAL_ROOM_ID);
+    if (!token) {
+      return false;
+    }
+
+    const response = await fetch(
+      `${PARTYKIT_SERVER_URL}/party/${GLOBAL_ROOM_ID}`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          type: "import_achievements",
+          token,
+          username: settings.customSettings?.pipe?.nickname,
+          achievementIds,
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      console.error("Failed to import achievements:", await response.text());
+      return false;
+    }
+
+    // The server has them now
+    const { achievements: _imported, ...customSettings } =
+      settings.customSettings ?? {};
+    await pipe.settings.update({ customSettings });
+    return true;
+  } catch (error) {
+    console.error("Error importing achievements:", error);
+    return false;
+  }
+}
@@ -9,6 +9,11 @@ import {
   chunkTextForLLM,
 } from "@/lib/utilities/classification-utils";
 import { updatePartyKitScore } from "./partykit-actions";
+import { scoreBlocks } from "@/lib/party-kit/block-scoring";
+import {
+  MAX_SCORED_BLOCKS,
+  type ScoredBlock,
+} from "@/lib/party-kit/protocol";
 import { appendToLog } from "@/lib/utilities/log-utils";
 import {
   getPipeSetting,
@@ -378,34 +383,42 @@ function mergeProductivityBlocks(
 export async function aggregateProductivityBlocks(
   blocks: ProductivityBlock[]
 ): Promise<number> {
-  let scoreDelta = 0;
-
-  for (const block of blocks) {
-    const ratio = block.activeRatio ?? 1;
-
-    switch (block.classification.classification) {
-      case "productive":
-        scoreDelta += ratio;
-        break;
-      case "unproductive":
-        scoreDelta -= ratio;
-        break;
-      case "break":
-      default:
-        // no-op
-        break;
-    }
-  }
+  // Same rule the PartyKit server uses to credit submitted blocks
+  return scoreBlocks(
+    blocks.map((block) => ({
+      classification: block.classification.classification,
+      activeRatio: block.activeRatio,
+    }))
+  );
+}
 
-  // Round if partial
-  return Math.round(scoreDelta);
+/**
+ * Maps classified blocks to what the PartyKit server expects in a score
+ * submission. Blocks without an id can't be deduplicated and are left out.
+ */
+function toScoredBlocks(blocks: ProductivityBlock[]): ScoredBlock[] {
+  return blocks
+    .filter((block) => !!block.id)
+    .map((block) => ({
+      id: block.id!,
+      startTime: new Date(block.startTime).getTime(),
+      classification: block.classification.classification,
+      activeRatio: block.activeRatio,
+    }));
 }
 
 /**
  * @function updateUserScore
  * @description
- * Server action that updates the user's productivity score by sending a delta to the PartyKit server.
- * Still maintains processed blocks in local settings for deduplication.
+ * Server action that submits newly classified blocks to the PartyKit server,
+ * which credits each block id once and works out the delta itself. Blocks
+ * are sent in submissions of at most MAX_SCORED_BLOCKS, and only those the
+ * server is done with are kept in local settings as processed; the rest,
+ * such as blocks over the user's time allowance, are classified and
+ * submitted again next time. If saving them fails, resubmitting them is
+ * harmless.
+ *
+ * @param scoreDelta The delta the blocks are expected to earn, for logging
  */
 export async function updateUserScore(
   scoreDelta: number,
@@ -413,20 +426,39 @@ export async function updateUserScore(
   processedBlocks: ProductivityBlock[] = []
 ): Promise<void> {
   if (persist) {
-    // Store newly processed blocks for deduplication purposes
-    if (processedBlocks.length > 0) {
+    // Submit the blocks first, so they are credited even if saving the
+    // processed blocks below fails
+    const scoredBlocks = toScoredBlocks(processedBlocks);
+    const submittedIds = new Set<string>();
+    for (let i = 0; i < scoredBlocks.length; i += MAX_SCORED_BLOCKS) {
+      const chunk = scoredBlocks.slice(i, i + MAX_SCORED_BLOCKS);
+      const settledIds = await updatePartyKitScore(chunk);
+      if (!settledIds) {
+        // Later submissions would most likely fail the same way
+        console.error(
+          `Failed to update PartyKit score (delta ${scoreDelta}), ` +
+            `${scoredBlocks.length - i} blocks left for the next update`
+        );
+        break;
+      }
+      settledIds.forEach((id) => submittedIds.add(id));
+    }
+
+    // Store newly processed blocks so they aren't classified again
+    const submittedBlocks = processedBlocks.filter(
+      (block) => !!block.id && submittedIds.has(block.id)
+    );
+    if (submittedBlocks.length > 0) {
       const oldProcessedBlocks = await getPipeSetting("processedBlocks", []);
-      const newProcessedBlocks = processedBlocks
-        .filter((block) => !!block.id)
-        .map((block) => ({
-          id: block.id,
-          startTime: block.startTime,
-          endTime: block.endTime,
-          classification: block.classification,
-          activeRatio: block.activeRatio,
-          processed: true,
-          // Important: Do NOT store contentSummary in settings
-        }));
+      const newProcessedBlocks = submittedBlocks.map((block) => ({
+        id: block.id,
+        startTime: block.startTime,
+        endTime: block.endTime,
+        classification: block.classification,
+        activeRatio: block.activeRatio,
+        processed: true,
+        // Important: Do NOT store contentSummary in settings
+      }));
 
       // Merge them and de-duplicate by block.id
       const combined = [...oldProcessedBlocks, ...newProcessedBlocks];
@@ -453,12 +485,5 @@ export async function updateUserScore(
         processedBlocks: processedBlocksToStore,
       });
     }
-
-    // Send only the delta to PartyKit server
-    try {
-      await updatePartyKitScore(scoreDelta);
-    } catch (error) {
-      console.error("Failed to update PartyKit score:", error);
-    }
   }
 }
@@ -0,0 +1,71 @@
+/**
+ * @file achievements-card.tsx
+ * @description
+ * Productivity page card listing every achievement as a badge: the ones
+ * the user unlocked first, then the locked ones with their progress.
+ *
+ * Props:
+ * - achievements: Every achievement with the user's progress, or null
+ *   while they load
+ *
+ * @notes
+ * - The page loads them with the getUserAchievements server action and
+ *   reloads them when an "achievement" message arrives.
+ */
+
+"use client";
+
+import { Trophy } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { AchievementBadge } from "@/components/ui/achievement-badge";
+import type { AchievementProgress } from "@/lib/types/achievement-types";
+
+interface AchievementsCardProps {
+  achievements: AchievementProgress[] | null;
+}
+
+export function AchievementsCard({ achievements }: AchievementsCardProps) {
+  const unlocked = (achievements ?? []).filter((a) => a.unlockedAt !== null);
+  const locked = (achievements ?? []).filter((a) => a.unlockedAt === null);
+
+  return (
+    <Card className="shadow-md transition-all hover:shadow-lg mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Trophy className="h-5 w-5 text-amber-500" />
+          Achievements
+        </CardTitle>
+        <CardDescription>
+          {achievements
+            ? `${unlocked.length} of ${achievements.length} unlocked. `
+            : ""}
+          Unlocked ones are visible on the leaderboard
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {achievements === null ? (
+          <div className="text-center text-gray-500">Loading...</div>
+        ) : achievements.length === 0 ? (
+          <div className="text-center text-gray-500">
+            Achievements couldn&apos;t be loaded.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {[...unlocked, ...locked].map((achievement) => (
+              <AchievementBadge
+                key={achievement.id}
+                achievement={achievement}
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,68 @@
+/**
+ * @file achievements-popover.tsx
+ * @description
+ * Wraps a user's name on the leaderboard so clicking it shows the
+ * achievements they unlocked.
+ *
+ * Props:
+ * - userId: Whose achievements to show
+ * - children: The name, used as the trigger
+ *
+ * @notes
+ * - Achievements are read with the getUserAchievements server action the
+ *   first time the popover opens. Only unlocked ones are shown.
+ */
+
+"use client";
+
+import { ReactNode, useState } from "react";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { AchievementBadge } from "@/components/ui/achievement-badge";
+import { getUserAchievements } from "@/app/actions/achievement-actions";
+import type { AchievementProgress } from "@/lib/types/achievement-types";
+
+interface AchievementsPopoverProps {
+  userId: string;
+  children: ReactNode;
+}
+
+export function AchievementsPopover({
+  userId,
+  children,
+}: AchievementsPopoverProps) {
+  const [achievements, setAchievements] = useState<
+    AchievementProgress[] | null
+  >(null);
+
+  function onOpenChange(open: boolean) {
+    if (open && achievements === null) {
+      getUserAchievements(userId).then((list) =>
+        setAchievements(list.filter((a) => a.unlockedAt !== null))
+      );
+    }
+  }
+
+  return (
+    <Popover onOpenChange={onOpenChange}>
+      <PopoverTrigger className="text-left hover:underline">
+        {children}
+      </PopoverTrigger>
+      <PopoverContent className="space-y-2">
+        <div className="text-sm font-semibold">Achievements</div>
+        {achievements === null ? (
+          <div className="text-xs text-gray-500">Loading...</div>
+        ) : achievements.length === 0 ? (
+          <div className="text-xs text-gray-500">None unlocked yet.</div>
+        ) : (
+          achievements.map((achievement) => (
+            <AchievementBadge key={achievement.id} achievement={achievement} />
+          ))
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,69 @@
+/**
+ * @file chat-event-card.tsx
+ * @description
+ * Renders an announcement in the chat stream as a card instead of a chat
+ * bubble: an unlocked achievement with its badge, a rank-up or a streak
+ * milestone.
+ *
+ * Props:
+ * - message: A system chat message carrying an event
+ *
+ * @notes
+ * - The server posts these unless the user opted out on the profile page
+ *   (see lib/party-kit/chat-events.ts). Achievements that no longer exist
+ *   fall back to the message's plain text.
+ */
+
+"use client";
+
+import { Flame, TrendingUp, Trophy, Zap } from "lucide-react";
+import { AchievementBadge } from "@/components/ui/achievement-badge";
+import { ACHIEVEMENT_DEFINITIONS } from "@/lib/party-kit/achievements";
+import type { ChatEvent, ChatMessage } from "@/lib/party-kit/protocol";
+
+interface ChatEventCardProps {
+  message: ChatMessage & { event: ChatEvent };
+}
+
+function EventIcon({ event }: { event: ChatEvent }) {
+  switch (event.type) {
+    case "achievement_unlocked":
+      return <Trophy className="h-4 w-4 text-amber-500" />;
+    case "rank_up":
+      return <TrendingUp className="h-4 w-4 text-green-500" />;
+    case "streak_milestone":
+      return event.streak === "daily" ? (
+        <Flame className="h-4 w-4 text-orange-500" />
+      ) : (
+        <Zap className="h-4 w-4 text-blue-500" />
+      );
+  }
+}
+
+export function ChatEventCard({ message }: ChatEventCardProps) {
+  const { event } = message;
+  const achievement =
+    event.type === "achievement_unlocked"
+      ? ACHIEVEMENT_DEFINITIONS[event.achievementId]
+      : undefined;
+
+  return (
+    <div className="flex justify-center">
+      <div className="w-full max-w-md rounded-lg border bg-white dark:bg-gray-900 shadow-sm px-4 py-3 space-y-2">
+        <div className="flex items-center gap-2 text-sm">
+          <EventIcon event={event} />
+          <span className="font-medium text-gray-800 dark:text-gray-200">
+            {message.text}
+          </span>
+        </div>
+        {achievement && <AchievementBadge achievement={achievement} />}
+        <div className="text-xs text-gray-400 text-right">
+          {new Date(message.timestamp).toLocaleTimeString([], {
+            hour: "2-digit",
+            minute: "2-digit",
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
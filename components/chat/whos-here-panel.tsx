@@ -0,0 +1,130 @@
+/**
+ * @file whos-here-panel.tsx
+ * @description
+ * Sidebar for the chat page listing everyone currently in the room, what
+ * they're working on and whether they're active, idle or focusing.
+ *
+ * Props:
+ * - users: The presence roster, one entry per user
+ * - currentUserId: The signed-in user's id, to mark and sort them first
+ * - status: The signed-in user's own presence status
+ * - onStatusChange: Called when the user toggles focus mode
+ *
+ * @notes
+ * - The roster is kept up to date by the chat page from "presence_snapshot"
+ *   and "presence" messages (see lib/party-kit/protocol.ts).
+ */
+
+"use client";
+
+import { Users, Target } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import type { PresenceStatus, PresenceUser } from "@/lib/party-kit/protocol";
+
+interface WhosHerePanelProps {
+  users: PresenceUser[];
+  currentUserId: string | null;
+  status: PresenceStatus;
+  onStatusChange: (status: PresenceStatus) => void;
+}
+
+const STATUS_STYLES: Record<PresenceStatus, { label: string; dot: string }> =
+  {
+    focus: { label: "Focusing", dot: "bg-purple-500" },
+    active: { label: "Active", dot: "bg-green-500" },
+    idle: { label: "Idle", dot: "bg-gray-400" },
+  };
+
+// Focused users first, then active, then idle
+const STATUS_ORDER: PresenceStatus[] = ["focus", "active", "idle"];
+
+function getInitials(name: string) {
+  return name
+    .split(" ")
+    .map((part) => part[0])
+    .join("")
+    .toUpperCase()
+    .substring(0, 2);
+}
+
+export function WhosHerePanel({
+  users,
+  currentUserId,
+  status,
+  onStatusChange,
+}: WhosHerePanelProps) {
+  const sortedUsers = [...users].sort((a, b) => {
+    if (a.userId === currentUserId) return -1;
+    if (b.userId === currentUserId) return 1;
+    const byStatus =
+      STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status);
+    return byStatus || a.username.localeCompare(b.username);
+  });
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Users className="h-4 w-4 text-blue-500" />
+          Who&apos;s here
+        </CardTitle>
+        <CardDescription>
+          {users.length === 0
+            ? "Nobody else is here yet."
+            : `${users.length} ${users.length === 1 ? "person" : "people"}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Button
+          variant={status === "focus" ? "default" : "outline"}
+          size="sm"
+          className="w-full"
+          onClick={() => onStatusChange(status === "focus" ? "active" : "focus")}
+        >
+          <Target className="h-4 w-4 mr-2" />
+          {status === "focus" ? "Leave focus mode" : "Enter focus mode"}
+        </Button>
+
+        <ul className="space-y-3 max-h-[340px] overflow-y-auto">
+          {sortedUsers.map((user) => {
+            const style = STATUS_STYLES[user.status];
+            return (
+              <li key={user.userId} className="flex items-start gap-2">
+                <div className="relative">
+                  <Avatar className="h-8 w-8">
+                    <AvatarFallback className="text-xs">
+                      {getInitials(user.username)}
+                    </AvatarFallback>
+                  </Avatar>
+                  <span
+                    className={`absolute -bottom-0.5 -right-0.5 h-3 w-3 rounded-full border-2 border-white dark:border-gray-900 ${style.dot}`}
+                    title={style.label}
+                  />
+                </div>
+                <div className="min-w-0">
+                  <div className="text-sm font-medium truncate">
+                    {user.username}
+                    {user.userId === currentUserId && (
+                      <span className="text-gray-400 font-normal"> (you)</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500 truncate">
+                    {user.task || style.label}
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,6 +4,7 @@ A debug component that displays user state information from the PartyKit server.
 </ai_context>
 <recent_changes>
 Added clear messages and clear leaderboard buttons to the debug state component.
+Admin actions are authorized by the user's access role instead of a debug key.
 </recent_changes>
 */
 
@@ -33,30 +34,11 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { usePipeSettings } from "@/hooks/use-pipe-settings";
-
-// User state in the PartyKit server
-interface ConnectionState {
-  userId: string;
-  username: string;
-  score: number;
-  task: string;
-  warningCount: number;
-  shadowBanned: boolean;
-}
-
-// Debug state message from server
-interface DebugStateMessage {
-  type: "debug_state";
-  requesterId: string;
-  userState: ConnectionState;
-  userConnectionId: string;
-  allUsers: {
-    id: string;
-    state: ConnectionState;
-    connectionId: string;
-  }[];
-  timestamp: number;
-}
+import { ACCESS_ROLE_LABELS } from "@/lib/types/role-types";
+import {
+  parseServerMessage,
+  type DebugStateMessage,
+} from "@/lib/party-kit/protocol";
 
 export function DebugState() {
   const [userId, setUserId] = useState<string>("");
@@ -101,14 +83,18 @@ export function DebugState() {
     if (!socket) return;
 
     const handleMessage = (event: MessageEvent) => {
-      try {
-        const data = JSON.parse(event.data);
-        if (data.type === "debug_state") {
-          setDebugState(data);
-          setLoading(false);
-        }
-      } catch (error) {
-        console.error("Error parsing message:", error);
+      const parsed = parseServerMessage(event.data);
+      if (!parsed.ok) {
+        console.error("Error parsing message:", parsed.error);
+        return;
+      }
+
+      const data = parsed.message;
+      if (data.type === "debug_state") {
+        setDebugState(data);
+        setLoading(false);
+      } else if (data.type === "error" && data.code === "unauthorized") {
+        setLoading(false);
       }
     };
 
@@ -160,14 +146,6 @@ export function DebugState() {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold">PartyKit Debug State</h2>
-        <input
-          className="border border-gray-300 rounded-md p-2"
-          type="text"
-          value={settings?.debugKey}
-          onChange={(e) =>
-            updateSettings({ ...settings, debugKey: e.target.value })
-          }
-        />
         <Button onClick={handleRequestDebugState} disabled={!socket || loading}>
           {loading ? "Loading..." : "Request Debug State"}
         </Button>
@@ -270,8 +248,13 @@ export function DebugState() {
                 <div className="font-semibold">Username:</div>
                 <div>{debugState.userState.username}</div>
 
-                <div className="font-semibold">Score:</div>
-                <div>{debugState.userState.score}</div>
+                <div className="font-semibold">Role:</div>
+                <div>{debugState.userState.role}</div>
+
+                <div className="font-semibold">Access Role:</div>
+                <div>
+                  {ACCESS_ROLE_LABELS[debugState.userState.accessRole]}
+                </div>
 
                 <div className="font-semibold">Task:</div>
                 <div>{debugState.userState.task}</div>
@@ -279,12 +262,15 @@ export function DebugState() {
                 <div className="font-semibold">Warning Count:</div>
                 <div>{debugState.userState.warningCount}</div>
 
-                <div className="font-semibold">Shadow Banned:</div>
+                <div className="font-semibold">Protocol Version:</div>
+                <div>{debugState.userState.protocolVersion}</div>
+
+                <div className="font-semibold">Identified:</div>
                 <div>
-                  {debugState.userState.shadowBanned ? (
-                    <Badge variant="destructive">Yes</Badge>
+                  {debugState.userState.hasSetValidUserId ? (
+                    <Badge variant="outline">Yes</Badge>
                   ) : (
-                    <Badge variant="outline">No</Badge>
+                    <Badge variant="destructive">No</Badge>
                   )}
                 </div>
               </div>
@@ -327,8 +313,11 @@ export function DebugState() {
                         <div className="font-semibold">Connection ID:</div>
                         <div className="truncate">{user.connectionId}</div>
 
-                        <div className="font-semibold">Score:</div>
-                        <div>{user.state.score}</div>
+                        <div className="font-semibold">Role:</div>
+                        <div>{user.state.role}</div>
+
+                        <div className="font-semibold">Access Role:</div>
+                        <div>{ACCESS_ROLE_LABELS[user.state.accessRole]}</div>
 
                         <div className="font-semibold">Task:</div>
                         <div>{user.state.task}</div>
@@ -336,14 +325,14 @@ export function DebugState() {
                         <div className="font-semibold">Warnings:</div>
                         <div>{user.state.warningCount}</div>
 
-                        <div className="font-semibold">Shadow Banned:</div>
+                        <div className="font-semibold">Identified:</div>
                         <div>
-                          {user.state.shadowBanned ? (
-                            <Badge variant="destructive" className="text-xs">
+                          {user.state.hasSetValidUserId ? (
+                            <Badge variant="outline" className="text-xs">
                               Yes
                             </Badge>
                           ) : (
-                            <Badge variant="outline" className="text-xs">
+                            <Badge variant="destructive" className="text-xs">
                               No
                             </Badge>
                           )}
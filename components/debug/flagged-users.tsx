@@ -0,0 +1,145 @@
+/*
+<ai_context>
+Admin report of users whose score submissions were flagged by the party
+server's anti-cheat checks.
+</ai_context>
+<recent_changes>
+Created the flagged users report for the debug page.
+Open to moderators and admins, per their access role.
+</recent_changes>
+*/
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { usePartyKitClient } from "@/lib/party-kit/party-kit-client";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  parseServerMessage,
+  type FlaggedUsersMessage,
+} from "@/lib/party-kit/protocol";
+
+const KIND_LABELS: Record<string, string> = {
+  burst: "Burst",
+  rate_exceeded: "Too fast",
+  negative_flood: "Negative flood",
+  overlapping_blocks: "Overlapping blocks",
+};
+
+export function FlaggedUsers() {
+  const [report, setReport] = useState<FlaggedUsersMessage | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { socket, getFlaggedUsers } = usePartyKitClient();
+
+  // Listen for the report
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      const parsed = parseServerMessage(event.data);
+      if (!parsed.ok) return;
+
+      const data = parsed.message;
+      if (data.type === "flagged_users") {
+        setReport(data);
+        setLoading(false);
+      } else if (data.type === "error" && data.code === "unauthorized") {
+        setLoading(false);
+      }
+    };
+
+    socket.addEventListener("message", handleMessage);
+    return () => {
+      socket.removeEventListener("message", handleMessage);
+    };
+  }, [socket]);
+
+  const handleRequestReport = () => {
+    setLoading(true);
+    getFlaggedUsers();
+    // Clear the loading state if no response arrives
+    setTimeout(() => setLoading(false), 5000);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle>Flagged Users</CardTitle>
+          <CardDescription>
+            Users whose score submissions failed the anti-cheat checks
+            {report &&
+              ` since ${new Date(report.since).toLocaleDateString()}`}
+            . Moderators and admins only.
+          </CardDescription>
+        </div>
+        <Button onClick={handleRequestReport} disabled={!socket || loading}>
+          {loading ? "Loading..." : "Load Report"}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {!report ? (
+          <p className="text-sm text-muted-foreground">
+            Load the report to see flagged users.
+          </p>
+        ) : report.users.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No violations recorded.
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b">
+                <th className="py-2 font-medium">User</th>
+                <th className="py-2 font-medium">Violations</th>
+                <th className="py-2 font-medium">Kinds</th>
+                <th className="py-2 font-medium">Last</th>
+                <th className="py-2 font-medium">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.users.map((user) => (
+                <tr key={user.userId} className="border-b last:border-0">
+                  <td className="py-2">
+                    <div className="font-medium">{user.username}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {user.userId}
+                    </div>
+                  </td>
+                  <td className="py-2">{user.violations}</td>
+                  <td className="py-2">
+                    <div className="flex flex-wrap gap-1">
+                      {Object.entries(user.kinds).map(([kind, count]) => (
+                        <Badge key={kind} variant="outline">
+                          {KIND_LABELS[kind] ?? kind} × {count}
+                        </Badge>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="py-2">
+                    {new Date(user.lastViolationAt).toLocaleString()}
+                  </td>
+                  <td className="py-2">
+                    {user.scoreBanned ? (
+                      <Badge variant="destructive">Score banned</Badge>
+                    ) : (
+                      <Badge variant="secondary">Flagged</Badge>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,251 @@
+/*
+<ai_context>
+Moderation panel for the debug page: mute, kick, ban and unban users and
+reset their warnings, and list who is currently restricted or warned.
+</ai_context>
+<recent_changes>
+Created the moderation panel for moderators and admins.
+</recent_changes>
+*/
+
+"use client";
+
+import { FormEvent, useEffect, useState } from "react";
+import { usePartyKitClient } from "@/lib/party-kit/party-kit-client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { MAX_WARNINGS } from "@/lib/party-kit/moderation";
+import {
+  parseServerMessage,
+  type ModeratedUsersMessage,
+} from "@/lib/party-kit/protocol";
+
+// Mute durations offered, in minutes
+const MUTE_OPTIONS = [
+  { minutes: 15, label: "15 minutes" },
+  { minutes: 60, label: "1 hour" },
+  { minutes: 24 * 60, label: "1 day" },
+  { minutes: 7 * 24 * 60, label: "1 week" },
+];
+
+export function ModerationPanel() {
+  const [report, setReport] = useState<ModeratedUsersMessage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [userId, setUserId] = useState("");
+  const [reason, setReason] = useState("");
+  const [muteMinutes, setMuteMinutes] = useState(
+    String(MUTE_OPTIONS[0].minutes)
+  );
+  const {
+    socket,
+    getModeratedUsers,
+    muteUser,
+    kickUser,
+    banUser,
+    unbanUser,
+    resetWarnings,
+  } = usePartyKitClient();
+
+  // Every command is answered with the updated list
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      const parsed = parseServerMessage(event.data);
+      if (!parsed.ok) return;
+
+      const data = parsed.message;
+      if (data.type === "moderated_users") {
+        setReport(data);
+        setError(null);
+      } else if (
+        data.type === "error" &&
+        (data.code === "unauthorized" || data.code === "invalid_message")
+      ) {
+        setError(data.message);
+      }
+    };
+
+    socket.addEventListener("message", handleMessage);
+    return () => {
+      socket.removeEventListener("message", handleMessage);
+    };
+  }, [socket]);
+
+  const target = userId.trim();
+  const targetReason = reason.trim() || undefined;
+
+  const handleMute = (e: FormEvent) => {
+    e.preventDefault();
+    if (!target) return;
+    muteUser(target, Number(muteMinutes), targetReason);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle>Moderation</CardTitle>
+          <CardDescription>
+            Mute, kick or ban users from chat. Users are banned automatically
+            after {MAX_WARNINGS} warnings; one is forgiven per day without
+            new ones. Moderators and admins only.
+          </CardDescription>
+        </div>
+        <Button onClick={getModeratedUsers} disabled={!socket}>
+          Load Users
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleMute} className="flex flex-wrap gap-2">
+          <Input
+            className="w-56"
+            placeholder="User ID"
+            value={userId}
+            onChange={(e) => setUserId(e.target.value)}
+          />
+          <Input
+            className="w-56"
+            placeholder="Reason (optional)"
+            maxLength={200}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+          <Select value={muteMinutes} onValueChange={setMuteMinutes}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MUTE_OPTIONS.map((option) => (
+                <SelectItem key={option.minutes} value={String(option.minutes)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" disabled={!socket || !target}>
+            Mute
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            disabled={!socket || !target}
+            onClick={() => kickUser(target, targetReason)}
+          >
+            Kick
+          </Button>
+          <Button
+            type="button"
+            variant="destructive"
+            disabled={!socket || !target}
+            onClick={() => banUser(target, targetReason)}
+          >
+            Ban
+          </Button>
+        </form>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {!report ? (
+          <p className="text-sm text-muted-foreground">
+            Load the users who are restricted or warned.
+          </p>
+        ) : report.users.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nobody is restricted or warned.
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b">
+                <th className="py-2 font-medium">User</th>
+                <th className="py-2 font-medium">Warnings</th>
+                <th className="py-2 font-medium">Status</th>
+                <th className="py-2 font-medium" />
+              </tr>
+            </thead>
+            <tbody>
+              {report.users.map((user) => (
+                <tr key={user.userId} className="border-b last:border-0">
+                  <td className="py-2">
+                    <div className="font-medium">
+                      {user.username ?? "Unknown"}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {user.userId}
+                    </div>
+                  </td>
+                  <td className="py-2">
+                    {user.warnings} / {MAX_WARNINGS}
+                  </td>
+                  <td className="py-2">
+                    {!user.restriction ? (
+                      <Badge variant="secondary">Warned</Badge>
+                    ) : (
+                      <div className="space-y-1">
+                        <Badge variant="destructive">
+                          {user.restriction.until === null
+                            ? "Banned"
+                            : `Muted until ${new Date(
+                                user.restriction.until
+                              ).toLocaleString()}`}
+                        </Badge>
+                        <div className="text-xs text-muted-foreground">
+                          {user.restriction.reason}
+                        </div>
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-2">
+                    <div className="flex justify-end gap-2">
+                      {user.restriction && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => unbanUser(user.userId)}
+                        >
+                          {user.restriction.until === null ? "Unban" : "Unmute"}
+                        </Button>
+                      )}
+                      {user.warnings > 0 && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => resetWarnings(user.userId)}
+                        >
+                          Reset Warnings
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setUserId(user.userId)}
+                      >
+                        Select
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,249 @@
+/**
+ * @file duel-panel.tsx
+ * @description
+ * Chat page sidebar card for focus duels: challenge someone in the room to
+ * a duel over a time window, answer challenges, and follow the score of
+ * open duels live.
+ *
+ * Props:
+ * - duels: The user's duels from "duel" messages, newest state of each
+ * - users: The presence roster, to pick an opponent from
+ * - currentUserId: The signed-in user's id
+ * - error: Why the last challenge or answer was refused, if it was
+ * - onChallenge / onAccept / onDecline: Send the matching protocol message
+ *
+ * @notes
+ * - The window is picked as two times of day. A start that has already
+ *   passed means tomorrow, and an end before the start the day after it.
+ * - Settled duels stay listed until the page is left; the duel record on
+ *   the profile page keeps the finished ones.
+ */
+
+"use client";
+
+import { FormEvent, useState } from "react";
+import { Check, Swords, X } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { PresenceUser } from "@/lib/party-kit/protocol";
+import type { Duel } from "@/lib/types/duel-types";
+
+interface DuelPanelProps {
+  duels: Duel[];
+  users: PresenceUser[];
+  currentUserId: string | null;
+  error: string | null;
+  onChallenge: (opponentId: string, startsAt: number, endsAt: number) => void;
+  onAccept: (duelId: string) => void;
+  onDecline: (duelId: string) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A start this recent still counts as today
+const START_GRACE_MS = 5 * 60 * 1000;
+
+/**
+ * Turns two "HH:MM" times of day into a duel window, see the notes above
+ */
+function toWindow(start: string, end: string, now: number) {
+  const at = (time: string) => {
+    const [hours, minutes] = time.split(":").map(Number);
+    const date = new Date(now);
+    date.setHours(hours, minutes, 0, 0);
+    return date.getTime();
+  };
+
+  let startsAt = at(start);
+  let endsAt = at(end);
+  if (startsAt < now - START_GRACE_MS) {
+    startsAt += DAY_MS;
+    endsAt += DAY_MS;
+  }
+  if (endsAt <= startsAt) {
+    endsAt += DAY_MS;
+  }
+  return { startsAt, endsAt };
+}
+
+function formatTime(timestamp: number) {
+  return new Date(timestamp).toLocaleTimeString([], {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+// What a duel is waiting for, or how it ended, from the user's side
+function describeDuel(duel: Duel, userId: string | null, now: number) {
+  const isChallenger = duel.challengerId === userId;
+  const opponentName = isChallenger ? duel.opponentName : duel.challengerName;
+  switch (duel.status) {
+    case "pending":
+      return isChallenger
+        ? `Waiting for ${opponentName} to accept`
+        : `${opponentName} challenged you`;
+    case "accepted":
+      if (now < duel.startsAt) return `Starts at ${formatTime(duel.startsAt)}`;
+      if (now < duel.endsAt) return `Live until ${formatTime(duel.endsAt)}`;
+      return "Counting the last blocks...";
+    case "declined":
+      return "Declined";
+    case "expired":
+      return "Expired without an answer";
+    case "finished":
+      if (duel.winnerId === null) return "Tie";
+      return duel.winnerId === userId ? "You won!" : `${opponentName} won`;
+  }
+}
+
+export function DuelPanel({
+  duels,
+  users,
+  currentUserId,
+  error,
+  onChallenge,
+  onAccept,
+  onDecline,
+}: DuelPanelProps) {
+  const [opponentId, setOpponentId] = useState("");
+  const [start, setStart] = useState("14:00");
+  const [end, setEnd] = useState("17:00");
+
+  const opponents = users.filter((user) => user.userId !== currentUserId);
+  const now = Date.now();
+  const duelWindow = start && end ? toWindow(start, end, now) : null;
+  const startsTomorrow =
+    duelWindow !== null &&
+    new Date(duelWindow.startsAt).toDateString() !==
+      new Date(now).toDateString();
+
+  function onSubmit(e: FormEvent) {
+    e.preventDefault();
+    if (!opponentId || !duelWindow) return;
+    onChallenge(opponentId, duelWindow.startsAt, duelWindow.endsAt);
+  }
+
+  const sortedDuels = [...duels].sort((a, b) => b.createdAt - a.createdAt);
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Swords className="h-4 w-4 text-blue-500" />
+          Focus duels
+        </CardTitle>
+        <CardDescription>
+          Whoever earns the most points in the window wins
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {sortedDuels.length > 0 && (
+          <ul className="space-y-3">
+            {sortedDuels.map((duel) => {
+              const isChallenger = duel.challengerId === currentUserId;
+              const [myScore, theirScore] = isChallenger
+                ? [duel.challengerScore, duel.opponentScore]
+                : [duel.opponentScore, duel.challengerScore];
+              const canAnswer = duel.status === "pending";
+              return (
+                <li
+                  key={duel.id}
+                  className="p-2 rounded-lg bg-gray-50 text-sm"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium truncate">
+                      vs{" "}
+                      {isChallenger ? duel.opponentName : duel.challengerName}
+                    </span>
+                    <span className="font-mono">
+                      {myScore} – {theirScore}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {formatTime(duel.startsAt)} – {formatTime(duel.endsAt)}
+                    {" · "}
+                    {describeDuel(duel, currentUserId, now)}
+                  </div>
+                  {canAnswer && (
+                    <div className="flex gap-2 mt-2">
+                      {!isChallenger && (
+                        <Button size="sm" onClick={() => onAccept(duel.id)}>
+                          <Check className="h-4 w-4 mr-1" />
+                          Accept
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => onDecline(duel.id)}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        {isChallenger ? "Withdraw" : "Decline"}
+                      </Button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <form onSubmit={onSubmit} className="space-y-2">
+          <Select value={opponentId} onValueChange={setOpponentId}>
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Pick an opponent" />
+            </SelectTrigger>
+            <SelectContent>
+              {opponents.map((user) => (
+                <SelectItem key={user.userId} value={user.userId}>
+                  {user.username}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Input
+              type="time"
+              value={start}
+              onChange={(e) => setStart(e.target.value)}
+              aria-label="Start"
+            />
+            <span className="text-gray-400">–</span>
+            <Input
+              type="time"
+              value={end}
+              onChange={(e) => setEnd(e.target.value)}
+              aria-label="End"
+            />
+          </div>
+          {startsTomorrow && (
+            <p className="text-xs text-gray-500">Starts tomorrow</p>
+          )}
+          <Button
+            type="submit"
+            size="sm"
+            className="w-full"
+            disabled={!opponentId || !duelWindow}
+          >
+            <Swords className="h-4 w-4 mr-2" />
+            Challenge
+          </Button>
+          {error && <p className="text-xs text-red-500">{error}</p>}
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
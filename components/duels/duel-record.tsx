@@ -0,0 +1,118 @@
+/**
+ * @file duel-record.tsx
+ * @description
+ * Profile page card with the user's focus duel record: how many duels they
+ * won, lost and tied, and the scores of their latest ones.
+ *
+ * @notes
+ * - The record comes from the getDuelRecord server action. Only finished
+ *   duels count; open ones are shown on the chat page.
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { Swords } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { getDuelRecord } from "@/app/actions/partykit-actions";
+import type { Duel, DuelRecord } from "@/lib/types/duel-types";
+
+function formatWindow(duel: Duel) {
+  const time = { hour: "numeric", minute: "2-digit" } as const;
+  const start = new Date(duel.startsAt);
+  return `${start.toLocaleDateString([], {
+    month: "short",
+    day: "numeric",
+  })}, ${start.toLocaleTimeString([], time)} – ${new Date(
+    duel.endsAt
+  ).toLocaleTimeString([], time)}`;
+}
+
+// A side of a duel, in bold if it won
+function Side({ name, won }: { name: string; won: boolean }) {
+  return (
+    <span className={won ? "font-semibold" : "text-gray-500"}>{name}</span>
+  );
+}
+
+export function DuelRecordCard() {
+  const [record, setRecord] = useState<DuelRecord | null>(null);
+
+  useEffect(() => {
+    getDuelRecord().then(setRecord);
+  }, []);
+
+  const played = record ? record.wins + record.losses + record.ties : 0;
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Swords className="h-5 w-5 text-blue-500" />
+          Duel Record
+        </CardTitle>
+        <CardDescription>
+          Challenge someone in the chat to see who focuses best
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-4 text-center">
+          {(
+            [
+              ["Wins", record?.wins, "text-green-600"],
+              ["Losses", record?.losses, "text-red-500"],
+              ["Ties", record?.ties, "text-gray-500"],
+            ] as const
+          ).map(([label, count, color]) => (
+            <div key={label} className="p-3 rounded-lg bg-gray-50">
+              <div className={`text-2xl font-bold ${color}`}>
+                {count ?? "–"}
+              </div>
+              <div className="text-xs text-gray-500">{label}</div>
+            </div>
+          ))}
+        </div>
+
+        {record && played === 0 && (
+          <p className="text-sm text-center text-gray-500">
+            No duels yet.
+          </p>
+        )}
+        {record && record.recent.length > 0 && (
+          <ul className="space-y-2 text-sm">
+            {record.recent.map((duel) => (
+              <li
+                key={duel.id}
+                className="flex items-center justify-between gap-4"
+              >
+                <span className="truncate">
+                  <Side
+                    name={duel.challengerName}
+                    won={duel.winnerId === duel.challengerId}
+                  />{" "}
+                  vs{" "}
+                  <Side
+                    name={duel.opponentName}
+                    won={duel.winnerId === duel.opponentId}
+                  />
+                  <span className="ml-2 text-xs text-gray-400">
+                    {formatWindow(duel)}
+                  </span>
+                </span>
+                <span className="font-mono whitespace-nowrap">
+                  {duel.challengerScore} – {duel.opponentScore}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,218 @@
+/**
+ * @file focus-session-panel.tsx
+ * @description
+ * Chat page sidebar card for group focus sessions: start a shared Pomodoro
+ * with 25/5 or custom intervals, or follow the running one with its
+ * countdown and participants, and join or leave it.
+ *
+ * Props:
+ * - session: The running session from "focus_session" messages, or null
+ * - currentUserId: The signed-in user's id
+ * - error: Why the last request was refused, if it was
+ * - onStart / onJoin / onLeave / onEnd: Send the matching protocol message
+ *
+ * @notes
+ * - The party server holds the timer and announces phase changes. The
+ *   countdown is worked out locally from the session with phaseAt(), so it
+ *   ticks without any traffic.
+ */
+
+"use client";
+
+import { FormEvent, useEffect, useState } from "react";
+import { Coffee, LogIn, LogOut, Square, Timer } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DEFAULT_BREAK_MINUTES,
+  DEFAULT_FOCUS_MINUTES,
+  DEFAULT_ROUNDS,
+  FOCUS_SESSION_BONUS,
+  MAX_BREAK_MINUTES,
+  MAX_FOCUS_MINUTES,
+  MAX_ROUNDS,
+  phaseAt,
+} from "@/lib/party-kit/focus-session";
+import type { FocusSession } from "@/lib/types/focus-session-types";
+
+interface FocusSessionPanelProps {
+  session: FocusSession | null;
+  currentUserId: string | null;
+  error: string | null;
+  onStart: (intervals: {
+    focusMinutes: number;
+    breakMinutes: number;
+    rounds: number;
+  }) => void;
+  onJoin: () => void;
+  onLeave: () => void;
+  onEnd: () => void;
+}
+
+// How often the countdown ticks
+const TICK_MS = 1000;
+
+function formatCountdown(ms: number) {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+export function FocusSessionPanel({
+  session,
+  currentUserId,
+  error,
+  onStart,
+  onJoin,
+  onLeave,
+  onEnd,
+}: FocusSessionPanelProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const [focusMinutes, setFocusMinutes] = useState(DEFAULT_FOCUS_MINUTES);
+  const [breakMinutes, setBreakMinutes] = useState(DEFAULT_BREAK_MINUTES);
+  const [rounds, setRounds] = useState(DEFAULT_ROUNDS);
+
+  useEffect(() => {
+    if (!session) return;
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, [session]);
+
+  function onSubmit(e: FormEvent) {
+    e.preventDefault();
+    onStart({ focusMinutes, breakMinutes, rounds });
+  }
+
+  const phase = session ? phaseAt(session, now) : null;
+  const participants =
+    session?.participants.filter((p) => p.leftAt === undefined) ?? [];
+  const isParticipant = participants.some((p) => p.userId === currentUserId);
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Timer className="h-4 w-4 text-blue-500" />
+          Group focus
+        </CardTitle>
+        <CardDescription>
+          Focus together for {FOCUS_SESSION_BONUS}× points on productive time
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {session ? (
+          <>
+            <div className="text-center">
+              <div className="flex items-center justify-center gap-2 text-sm text-gray-500">
+                {phase?.phase === "break" ? (
+                  <Coffee className="h-4 w-4" />
+                ) : (
+                  <Timer className="h-4 w-4" />
+                )}
+                {phase
+                  ? `${phase.phase === "focus" ? "Focus" : "Break"} · round ${
+                      phase.round
+                    } of ${session.rounds}`
+                  : "Wrapping up..."}
+              </div>
+              <div className="text-4xl font-mono font-bold">
+                {formatCountdown(phase ? phase.endsAt - now : 0)}
+              </div>
+              <div className="text-xs text-gray-400">
+                Hosted by {session.hostName}
+              </div>
+            </div>
+
+            <ul className="space-y-1 text-sm">
+              {participants.map((p) => (
+                <li key={p.userId} className="truncate">
+                  {p.username}
+                  {p.userId === currentUserId && (
+                    <span className="text-gray-400"> (you)</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex gap-2">
+              {isParticipant ? (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="flex-1"
+                  onClick={onLeave}
+                >
+                  <LogOut className="h-4 w-4 mr-2" />
+                  Leave
+                </Button>
+              ) : (
+                <Button size="sm" className="flex-1" onClick={onJoin}>
+                  <LogIn className="h-4 w-4 mr-2" />
+                  Join
+                </Button>
+              )}
+              {session.hostId === currentUserId && (
+                <Button size="sm" variant="outline" onClick={onEnd}>
+                  <Square className="h-4 w-4 mr-2" />
+                  End
+                </Button>
+              )}
+            </div>
+            {isParticipant && (
+              <p className="text-xs text-gray-500">
+                Chat is muted for you during focus phases.
+              </p>
+            )}
+          </>
+        ) : (
+          <form onSubmit={onSubmit} className="space-y-2">
+            <div className="grid grid-cols-3 gap-2 text-xs text-gray-500">
+              <label className="space-y-1">
+                <span>Focus (min)</span>
+                <Input
+                  type="number"
+                  min={1}
+                  max={MAX_FOCUS_MINUTES}
+                  value={focusMinutes}
+                  onChange={(e) => setFocusMinutes(Number(e.target.value))}
+                />
+              </label>
+              <label className="space-y-1">
+                <span>Break (min)</span>
+                <Input
+                  type="number"
+                  min={1}
+                  max={MAX_BREAK_MINUTES}
+                  value={breakMinutes}
+                  onChange={(e) => setBreakMinutes(Number(e.target.value))}
+                />
+              </label>
+              <label className="space-y-1">
+                <span>Rounds</span>
+                <Input
+                  type="number"
+                  min={1}
+                  max={MAX_ROUNDS}
+                  value={rounds}
+                  onChange={(e) => setRounds(Number(e.target.value))}
+                />
+              </label>
+            </div>
+            <Button type="submit" size="sm" className="w-full">
+              <Timer className="h-4 w-4 mr-2" />
+              Start a session
+            </Button>
+          </form>
+        )}
+        {error && <p className="text-xs text-red-500">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,163 @@
+/**
+ * @file score-history.tsx
+ * @description
+ * Card for the productivity page listing the user's score ledger: every
+ * submission the server handled, what it was worth, and what was actually
+ * credited. Useful for explaining a score that looks off.
+ *
+ * Props:
+ * - refreshKey: Changing it reloads the newest page, e.g. after a refresh
+ *
+ * @notes
+ * - Events come from the getScoreHistory server action, newest first, and
+ *   older pages are loaded on demand.
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { History } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { getScoreHistory } from "@/app/actions/partykit-actions";
+import type {
+  ScoreDecision,
+  ScoreEvent,
+  ScoreEventSource,
+} from "@/lib/types/scoreboard-types";
+
+interface ScoreHistoryProps {
+  refreshKey?: number;
+}
+
+const DECISION_VARIANTS: Record<
+  ScoreDecision,
+  "default" | "secondary" | "destructive"
+> = {
+  applied: "default",
+  clamped: "secondary",
+  rejected: "destructive",
+};
+
+const SOURCE_LABELS: Record<ScoreEventSource, string> = {
+  ws: "Live",
+  http: "Tracker",
+  admin: "Admin",
+};
+
+function formatDelta(delta: number) {
+  return delta > 0 ? `+${delta}` : String(delta);
+}
+
+export function ScoreHistory({ refreshKey }: ScoreHistoryProps) {
+  const [events, setEvents] = useState<ScoreEvent[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const loadPage = useCallback(async (before?: number) => {
+    setLoading(true);
+    try {
+      const page = await getScoreHistory(before);
+      setEvents((current) =>
+        before ? [...current, ...page.events] : page.events
+      );
+      setHasMore(page.hasMore);
+    } catch (err) {
+      console.error("Failed to fetch score history:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPage();
+  }, [loadPage, refreshKey]);
+
+  const oldest = events[events.length - 1];
+
+  return (
+    <Card className="shadow-md transition-all hover:shadow-lg mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5 text-blue-500" />
+          Score History
+        </CardTitle>
+        <CardDescription>
+          Every score update this month and how the server handled it
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {events.length === 0 ? (
+          <div className="text-center text-gray-500">
+            {loading ? "Loading..." : "No score updates recorded yet"}
+          </div>
+        ) : (
+          <ul className="space-y-2 max-h-[400px] overflow-y-auto">
+            {events.map((event, i) => (
+              <li
+                key={`${event.timestamp}-${i}`}
+                className="flex items-start justify-between gap-4 p-2 rounded-lg bg-gray-50"
+              >
+                <div className="min-w-0">
+                  <div className="text-sm text-gray-600">
+                    {new Date(event.timestamp).toLocaleString([], {
+                      month: "short",
+                      day: "numeric",
+                      hour: "2-digit",
+                      minute: "2-digit",
+                    })}
+                    <span className="text-gray-400">
+                      {" "}
+                      · {SOURCE_LABELS[event.source]}
+                      {event.blockIds.length > 0 &&
+                        ` · ${event.blockIds.length} ${
+                          event.blockIds.length === 1 ? "block" : "blocks"
+                        }`}
+                    </span>
+                  </div>
+                  {event.reason && (
+                    <p className="text-xs text-gray-700 mt-1 italic">
+                      {event.reason}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <span className="font-semibold tabular-nums">
+                    {formatDelta(event.delta)}
+                    {event.delta !== event.requestedDelta && (
+                      <span className="text-xs text-gray-400 font-normal">
+                        {" "}
+                        of {formatDelta(event.requestedDelta)}
+                      </span>
+                    )}
+                  </span>
+                  <Badge variant={DECISION_VARIANTS[event.decision]}>
+                    {event.decision}
+                  </Badge>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        {hasMore && oldest && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full mt-4"
+            disabled={loading}
+            onClick={() => loadPage(oldest.timestamp)}
+          >
+            {loading ? "Loading..." : "Load older"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
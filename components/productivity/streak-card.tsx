@@ -0,0 +1,81 @@
+/**
+ * @file streak-card.tsx
+ * @description
+ * Productivity page card with the user's streaks: days in a row with at
+ * least DAILY_STREAK_MIN_BLOCKS productive blocks, and the longest run of
+ * consecutive productive blocks today, each next to the user's best.
+ *
+ * Props:
+ * - streaks: The user's streaks from "streak" messages, or null before the
+ *   first one arrives
+ *
+ * @notes
+ * - The party server works streaks out from credited blocks and keeps
+ *   them, so they follow the user across devices. It sends them after
+ *   "hello" and whenever they change.
+ */
+
+"use client";
+
+import { Flame, Zap } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { BLOCK_DURATION_MS } from "@/lib/party-kit/block-scoring";
+import { DAILY_STREAK_MIN_BLOCKS } from "@/lib/party-kit/streaks";
+import type { Streaks } from "@/lib/types/streak-types";
+
+interface StreakCardProps {
+  streaks: Streaks | null;
+}
+
+const BLOCK_MINUTES = BLOCK_DURATION_MS / 60_000;
+
+function plural(count: number, word: string) {
+  return `${count} ${word}${count === 1 ? "" : "s"}`;
+}
+
+export function StreakCard({ streaks }: StreakCardProps) {
+  return (
+    <Card className="shadow-md transition-all hover:shadow-lg mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Flame className="h-5 w-5 text-orange-500" />
+          Streaks
+        </CardTitle>
+        <CardDescription>
+          A day counts with {DAILY_STREAK_MIN_BLOCKS * BLOCK_MINUTES} minutes
+          of productive time; flow is productive blocks in a row today
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 gap-4 text-center">
+          <div className="p-3 rounded-lg bg-gray-50">
+            <div className="flex items-center justify-center gap-1 text-2xl font-bold text-orange-500">
+              <Flame className="h-5 w-5" />
+              {streaks ? plural(streaks.daily, "day") : "–"}
+            </div>
+            <div className="text-xs text-gray-500">
+              Daily streak
+              {streaks && ` · best ${plural(streaks.bestDaily, "day")}`}
+            </div>
+          </div>
+          <div className="p-3 rounded-lg bg-gray-50">
+            <div className="flex items-center justify-center gap-1 text-2xl font-bold text-blue-500">
+              <Zap className="h-5 w-5" />
+              {streaks ? plural(streaks.flow, "block") : "–"}
+            </div>
+            <div className="text-xs text-gray-500">
+              Flow
+              {streaks && ` · best ${plural(streaks.bestFlow, "block")}`}
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
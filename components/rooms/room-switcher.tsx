@@ -0,0 +1,211 @@
+/**
+ * @file room-switcher.tsx
+ * @description
+ * Lets the user pick which party room they're in, create a new team, project
+ * or private room, or join a private room with an invite code.
+ *
+ * Props:
+ * - roomId: The currently selected room id
+ * - onRoomChange: Called with the new room id when the user switches rooms
+ *
+ * @notes
+ * - Used by the chat and leaderboard pages. The page owns the selected room
+ *   and passes it to usePartyKitClient(roomId).
+ * - The room directory is loaded through the server actions in
+ *   partykit-actions.ts.
+ */
+
+"use client";
+
+import { useEffect, useState, FormEvent } from "react";
+import { Users, Plus, KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  createRoom,
+  joinRoomWithInvite,
+  listRooms,
+} from "@/app/actions/partykit-actions";
+import {
+  GLOBAL_ROOM_ID,
+  type PartyRoom,
+  type RoomKind,
+} from "@/lib/types/room-types";
+
+interface RoomSwitcherProps {
+  roomId: string;
+  onRoomChange: (roomId: string) => void;
+}
+
+const ROOM_KIND_LABELS: Record<Exclude<RoomKind, "public">, string> = {
+  team: "Team rooms",
+  project: "Project rooms",
+  private: "Private rooms",
+};
+
+export function RoomSwitcher({ roomId, onRoomChange }: RoomSwitcherProps) {
+  const [rooms, setRooms] = useState<PartyRoom[]>([]);
+  const [newRoomName, setNewRoomName] = useState("");
+  const [newRoomKind, setNewRoomKind] =
+    useState<Exclude<RoomKind, "public">>("team");
+  const [inviteCode, setInviteCode] = useState("");
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    listRooms().then(setRooms);
+  }, []);
+
+  const currentRoom = rooms.find((room) => room.id === roomId);
+
+  async function onCreate(e: FormEvent) {
+    e.preventDefault();
+    if (!newRoomName.trim()) return;
+
+    setBusy(true);
+    setError("");
+    const room = await createRoom(newRoomName.trim(), newRoomKind);
+    setBusy(false);
+
+    if (!room) {
+      setError("Could not create the room.");
+      return;
+    }
+    setRooms((prev) => [...prev, room]);
+    setNewRoomName("");
+    onRoomChange(room.id);
+  }
+
+  async function onJoin(e: FormEvent) {
+    e.preventDefault();
+    if (!inviteCode.trim()) return;
+
+    setBusy(true);
+    setError("");
+    const room = await joinRoomWithInvite(inviteCode.trim());
+    setBusy(false);
+
+    if (!room) {
+      setError("That invite code doesn't match any room.");
+      return;
+    }
+    setRooms((prev) =>
+      prev.some((r) => r.id === room.id) ? prev : [...prev, room]
+    );
+    setInviteCode("");
+    onRoomChange(room.id);
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={roomId} onValueChange={onRoomChange}>
+        <SelectTrigger className="w-[220px]">
+          <SelectValue placeholder="Select a room" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={GLOBAL_ROOM_ID}>Global</SelectItem>
+          {(Object.keys(ROOM_KIND_LABELS) as (keyof typeof ROOM_KIND_LABELS)[])
+            .map((kind) => ({
+              kind,
+              kindRooms: rooms.filter((room) => room.kind === kind),
+            }))
+            .filter(({ kindRooms }) => kindRooms.length > 0)
+            .map(({ kind, kindRooms }) => (
+              <SelectGroup key={kind}>
+                <SelectLabel>{ROOM_KIND_LABELS[kind]}</SelectLabel>
+                {kindRooms.map((room) => (
+                  <SelectItem key={room.id} value={room.id}>
+                    {room.name}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            ))}
+        </SelectContent>
+      </Select>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="icon" title="Create or join a room">
+            <Plus className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-80 space-y-4">
+          <form onSubmit={onCreate} className="space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <Users className="h-4 w-4 text-blue-500" />
+              New room
+            </div>
+            <Input
+              value={newRoomName}
+              onChange={(e) => setNewRoomName(e.target.value)}
+              placeholder="Room name"
+              maxLength={40}
+            />
+            <div className="flex gap-2">
+              <Select
+                value={newRoomKind}
+                onValueChange={(value) =>
+                  setNewRoomKind(value as Exclude<RoomKind, "public">)
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="team">Team</SelectItem>
+                  <SelectItem value="project">Project</SelectItem>
+                  <SelectItem value="private">Private (invite only)</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button type="submit" disabled={busy || !newRoomName.trim()}>
+                Create
+              </Button>
+            </div>
+          </form>
+
+          <form onSubmit={onJoin} className="space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <KeyRound className="h-4 w-4 text-blue-500" />
+              Join with invite code
+            </div>
+            <div className="flex gap-2">
+              <Input
+                value={inviteCode}
+                onChange={(e) => setInviteCode(e.target.value)}
+                placeholder="Invite code"
+              />
+              <Button type="submit" disabled={busy || !inviteCode.trim()}>
+                Join
+              </Button>
+            </div>
+          </form>
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+        </PopoverContent>
+      </Popover>
+
+      {currentRoom?.inviteCode && (
+        <span className="text-xs text-gray-500">
+          Invite code:{" "}
+          <span className="font-mono text-gray-700">
+            {currentRoom.inviteCode}
+          </span>
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+/**
+ * @file team-board.tsx
+ * @description
+ * The Teams tab of the leaderboard page: this month's team rankings, the
+ * user's own team with its invite code and members, and forms to create or
+ * join a team.
+ *
+ * Props:
+ * - standings: The team leaderboard from the latest "team_scoreboard"
+ *
+ * @notes
+ * - The page subscribes to the team leaderboard on the socket and passes
+ *   the standings down. The user's own team comes from the getMyTeam server
+ *   action and is reloaded after creating or joining one.
+ * - Users can join one team per month. Once they did, the forms are hidden
+ *   until next month.
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState, FormEvent } from "react";
+import { KeyRound, Trophy, Medal, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  createTeam,
+  getMyTeam,
+  joinTeam,
+  type MyTeam,
+} from "@/app/actions/partykit-actions";
+import type { TeamStanding } from "@/lib/types/team-types";
+
+interface TeamBoardProps {
+  standings: TeamStanding[];
+}
+
+// Render medal for top 3 positions
+function renderRankIndicator(rank: number) {
+  if (rank === 1) return <Trophy className="h-5 w-5 text-yellow-500" />;
+  if (rank === 2) return <Medal className="h-5 w-5 text-gray-400" />;
+  if (rank === 3) return <Medal className="h-5 w-5 text-amber-700" />;
+  return <span className="font-mono text-sm px-2">{rank}</span>;
+}
+
+export function TeamBoard({ standings }: TeamBoardProps) {
+  const [myTeam, setMyTeam] = useState<MyTeam | null>(null);
+  const [newTeamName, setNewTeamName] = useState("");
+  const [inviteCode, setInviteCode] = useState("");
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const loadMyTeam = useCallback(async () => {
+    setMyTeam(await getMyTeam());
+  }, []);
+
+  useEffect(() => {
+    loadMyTeam();
+  }, [loadMyTeam]);
+
+  async function onCreate(e: FormEvent) {
+    e.preventDefault();
+    if (!newTeamName.trim()) return;
+
+    setBusy(true);
+    setError("");
+    const result = await createTeam(newTeamName.trim());
+    setBusy(false);
+
+    if (!result.team) {
+      setError(result.error || "Could not create the team.");
+      return;
+    }
+    setNewTeamName("");
+    await loadMyTeam();
+  }
+
+  async function onJoin(e: FormEvent) {
+    e.preventDefault();
+    if (!inviteCode.trim()) return;
+
+    setBusy(true);
+    setError("");
+    const result = await joinTeam(inviteCode.trim());
+    setBusy(false);
+
+    if (!result.team) {
+      setError(result.error || "Could not join the team.");
+      return;
+    }
+    setInviteCode("");
+    await loadMyTeam();
+  }
+
+  const team = myTeam?.team;
+
+  return (
+    <div className="space-y-6">
+      {team && (
+        <div className="p-4 bg-gradient-to-r from-blue-50 to-purple-50 dark:from-blue-950/30 dark:to-purple-950/30 rounded-lg border border-blue-100 dark:border-blue-900">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <div className="text-sm font-medium text-gray-500 dark:text-gray-400">
+                Your Team
+              </div>
+              <div className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+                {team.name}
+              </div>
+            </div>
+            <div className="text-right">
+              <div className="text-sm font-medium text-gray-500 dark:text-gray-400">
+                Invite Code
+              </div>
+              <div className="font-mono text-lg select-all">
+                {team.inviteCode}
+              </div>
+            </div>
+          </div>
+          {myTeam.members.length > 0 && (
+            <ul className="mt-4 space-y-1 text-sm">
+              {myTeam.members.map((member) => (
+                <li
+                  key={member.userId}
+                  className="flex items-center justify-between"
+                >
+                  <span>{member.username || "Anonymous"}</span>
+                  <span className="font-mono">
+                    {member.score.toLocaleString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {myTeam?.canSwitch && (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <form onSubmit={onCreate} className="space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <Users className="h-4 w-4 text-blue-500" />
+              {team ? "Start a new team" : "Create a team"}
+            </div>
+            <div className="flex gap-2">
+              <Input
+                value={newTeamName}
+                onChange={(e) => setNewTeamName(e.target.value)}
+                placeholder="Team name"
+                maxLength={40}
+              />
+              <Button type="submit" disabled={busy || !newTeamName.trim()}>
+                Create
+              </Button>
+            </div>
+          </form>
+          <form onSubmit={onJoin} className="space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <KeyRound className="h-4 w-4 text-blue-500" />
+              {team ? "Switch with an invite code" : "Join with an invite code"}
+            </div>
+            <div className="flex gap-2">
+              <Input
+                value={inviteCode}
+                onChange={(e) => setInviteCode(e.target.value)}
+                placeholder="Invite code"
+              />
+              <Button type="submit" disabled={busy || !inviteCode.trim()}>
+                Join
+              </Button>
+            </div>
+          </form>
+          <p className="text-xs text-gray-500 sm:col-span-2">
+            You can join one team per month. You stay in it until you join
+            another one.
+          </p>
+          {error && <p className="text-sm text-red-500">{error}</p>}
+        </div>
+      )}
+
+      {standings.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <Users className="h-12 w-12 mx-auto mb-3 opacity-20" />
+          <p>No teams yet. Start one and invite your colleagues!</p>
+        </div>
+      ) : (
+        <div className="rounded-md border overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-muted/50">
+              <tr>
+                <th className="py-3 px-4 text-left font-medium text-sm">
+                  Rank
+                </th>
+                <th className="py-3 px-4 text-left font-medium text-sm">
+                  Team
+                </th>
+                <th className="py-3 px-4 text-right font-medium text-sm">
+                  Active
+                </th>
+                <th className="py-3 px-4 text-right font-medium text-sm">
+                  Score
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {standings.map((standing) => {
+                const isMyTeam = standing.teamId === team?.id;
+                return (
+                  <tr
+                    key={standing.teamId}
+                    className={`border-b last:border-0 transition-colors ${
+                      isMyTeam
+                        ? "bg-blue-50 dark:bg-blue-950/30"
+                        : "hover:bg-muted/50"
+                    }`}
+                  >
+                    <td className="py-3 px-4 flex items-center">
+                      {renderRankIndicator(standing.rank)}
+                    </td>
+                    <td className="py-3 px-4">
+                      <span className={isMyTeam ? "font-medium" : ""}>
+                        {standing.name}
+                        {isMyTeam && (
+                          <span className="ml-2 text-xs text-blue-500">
+                            (Your team)
+                          </span>
+                        )}
+                      </span>
+                    </td>
+                    <td className="py-3 px-4 text-right text-sm text-gray-500">
+                      {standing.activeMembers} / {standing.members}
+                    </td>
+                    <td
+                      className="py-3 px-4 text-right font-mono font-medium"
+                      title={`${standing.totalScore.toLocaleString()} total`}
+                    >
+                      {standing.score.toLocaleString()}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
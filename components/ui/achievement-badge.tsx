@@ -5,9 +5,16 @@
  * including an icon, the achievement’s name, and description.
  *
  * Props:
- * - achievement: { name: string; description: string; }
+ * - achievement: An Achievement, optionally with the user's progress
+ *   (current, target, unlockedAt) from getUserAchievements
  * - optional className or styling props
  *
+ * States:
+ * - Unlocked: unlockedAt is set, or left out entirely
+ * - In progress: locked with some progress, shown as a bar with
+ *   e.g. "7/10 toward Rookie Achiever"
+ * - Locked: no progress yet, greyed out with a lock
+ *
  * @notes
  * - This component is purely for display. You can place it in your
  *   user profile page, scoreboard page, or a “toast” message.
@@ -18,12 +25,17 @@
 "use client";
 
 import * as React from "react";
+import { Lock } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { type Achievement } from "@/app/actions/achievement-actions";
-// import { Trophy } from "lucide-react";  // or any icon you like from icons.tsx
+import { Progress } from "@/components/ui/progress";
+import type {
+  Achievement,
+  AchievementProgress,
+} from "@/lib/types/achievement-types";
 
 interface AchievementBadgeProps {
-  achievement: Achievement;
+  achievement: Achievement &
+    Partial<Pick<AchievementProgress, "current" | "target" | "unlockedAt">>;
   className?: string;
 }
 
@@ -31,20 +43,56 @@ export function AchievementBadge({
   achievement,
   className,
 }: AchievementBadgeProps) {
+  const { current = 0, target = 0, unlockedAt } = achievement;
+
+  if (unlockedAt !== null) {
+    return (
+      <div
+        className={cn(
+          "flex items-start border border-amber-500 bg-amber-50 rounded-md p-3 gap-3",
+          className
+        )}
+      >
+        <div className="h-5 w-5 mt-0.5 rounded-full bg-amber-400" />
+
+        <div className="text-sm text-amber-900">
+          <div className="font-semibold">{achievement.name}</div>
+          <div className="text-xs">{achievement.description}</div>
+        </div>
+      </div>
+    );
+  }
+
+  // Ranks count down to the target, everything else up
+  const isRank = achievement.rule.stat === "monthlyRank";
+  const inProgress = current > 0;
+  let label: string | null = null;
+  if (isRank) {
+    label = inProgress ? `Best rank #${current}, top ${target} needed` : null;
+  } else if (inProgress) {
+    label = `${current}/${target} toward ${achievement.name}`;
+  }
+
   return (
     <div
       className={cn(
-        "flex items-start border border-amber-500 bg-amber-50 rounded-md p-3 gap-3",
+        "flex items-start border border-gray-200 bg-gray-50 rounded-md p-3 gap-3",
         className
       )}
     >
-      {/* Replace with any icon you prefer. For example: */}
-      {/* <Trophy className="h-5 w-5 text-amber-500 mt-0.5" /> */}
-      <div className="h-5 w-5 mt-0.5 rounded-full bg-amber-400" />
+      <Lock className="h-5 w-5 mt-0.5 text-gray-400 shrink-0" />
 
-      <div className="text-sm text-amber-900">
+      <div className="text-sm text-gray-600 flex-1 space-y-1">
         <div className="font-semibold">{achievement.name}</div>
         <div className="text-xs">{achievement.description}</div>
+        {label && (
+          <>
+            {!isRank && target > 0 && (
+              <Progress value={(current / target) * 100} className="h-1.5" />
+            )}
+            <div className="text-xs text-gray-500">{label}</div>
+          </>
+        )}
       </div>
     </div>
   );
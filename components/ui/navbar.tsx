@@ -2,7 +2,7 @@
  * @file navbar.tsx
  * @description
  * Provides a simple top navigation bar for the application. It includes links
- * to the "Home," "Profile," "Leaderboard," and "Chat" pages.
+ * to the "Home," "Profile," "Leaderboard," "Hall of Fame," and "Chat" pages.
  *
  * Key Features:
  * - Uses Next.js <Link> components for client-side transitions
@@ -41,6 +41,7 @@ const NAV_ITEMS: NavItem[] = [
   { label: "Profile", href: "/profile" },
   { label: "Productivity", href: "/productivity" },
   { label: "Leaderboard", href: "/leaderboard" },
+  { label: "Hall of Fame", href: "/hall-of-fame" },
   { label: "Chat", href: "/chat" },
 ];
 
@@ -0,0 +1,37 @@
+/**
+ * @file use-active-room.ts
+ * @description
+ * Tracks which party room the user has selected. The selection is restored
+ * from plugin settings on load and saved back whenever the user switches
+ * rooms, so chat and leaderboard open in the same room.
+ *
+ * Key Exports:
+ * - useActiveRoom(): Returns { roomId, switchRoom }
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { usePipeSettings } from "@/hooks/use-pipe-settings";
+import { GLOBAL_ROOM_ID } from "@/lib/types/room-types";
+
+export function useActiveRoom() {
+  const { settings, updateSettings } = usePipeSettings();
+  const [roomId, setRoomId] = useState<string>(GLOBAL_ROOM_ID);
+
+  // Restore the last selected room once settings are loaded
+  useEffect(() => {
+    if (settings?.activeRoomId) {
+      setRoomId(settings.activeRoomId);
+    }
+  }, [settings?.activeRoomId]);
+
+  function switchRoom(nextRoomId: string) {
+    setRoomId(nextRoomId);
+    if (settings) {
+      updateSettings({ ...settings, activeRoomId: nextRoomId });
+    }
+  }
+
+  return { roomId, switchRoom };
+}
@@ -0,0 +1,294 @@
+/**
+ * @file achievements.ts
+ * @description
+ * The achievements users can unlock and the rules deciding when they do.
+ * The party server tracks the numbers the rules read (see
+ * AchievementStats) and unlocks achievements as they change, the app shows
+ * them along with the progress towards each.
+ *
+ * Key Exports:
+ * - ACHIEVEMENT_DEFINITIONS: Every achievement, keyed by id
+ * - ruleProgress(): How far a user's stats are towards a rule
+ * - newlyUnlocked(): The achievements the stats unlock that a user lacks
+ * - achievementProgress(): Every achievement with a user's progress
+ * - toUserAchievements(): Stored unlocks with their achievement's details
+ * - hourStat() / productiveHours(): Counting productive blocks per hour
+ * - mergeStatUpdates(): Two stat updates combined into one
+ * - legacyAchievementStats(): The stats for achievements unlocked locally
+ *
+ * @notes
+ * - Unlocks are stored by id, so renaming an achievement or changing its
+ *   description shows up for everyone who has it. Unlocks of achievements
+ *   that were removed are left out.
+ * - Rules only read stats, so a new achievement can be added here without
+ *   touching the party server, as long as it uses a stat already tracked.
+ *   Users who already qualify get it the next time their stats change.
+ */
+
+import type {
+  Achievement,
+  AchievementProgress,
+  AchievementRule,
+  AchievementStat,
+  AchievementStats,
+  AchievementStatUpdate,
+  AchievementUnlock,
+  UserAchievement,
+} from "@/lib/types/achievement-types";
+import type { ScoredBlock } from "./protocol";
+import { localHour } from "./leaderboard-periods";
+
+export const ACHIEVEMENT_DEFINITIONS: Record<string, Achievement> = {
+  "score-10": {
+    id: "score-10",
+    name: "Rookie Achiever",
+    description: "Reached a score of 10! Keep going!",
+    rule: { stat: "monthlyScore", atLeast: 10 },
+  },
+  "score-50": {
+    id: "score-50",
+    name: "Productive Pro",
+    description: "Reached a score of 50! You’re on a roll!",
+    rule: { stat: "monthlyScore", atLeast: 50 },
+  },
+  "score-100": {
+    id: "score-100",
+    name: "Master of Productivity",
+    description: "Score of 100? Incredible dedication!",
+    rule: { stat: "monthlyScore", atLeast: 100 },
+  },
+  "streak-3": {
+    id: "streak-3",
+    name: "Hat Trick",
+    description: "Kept a daily streak for 3 days.",
+    rule: { stat: "dailyStreak", atLeast: 3 },
+  },
+  "streak-7": {
+    id: "streak-7",
+    name: "Week Warrior",
+    description: "Kept a daily streak for a whole week!",
+    rule: { stat: "dailyStreak", atLeast: 7 },
+  },
+  "flow-12": {
+    id: "flow-12",
+    name: "In the Zone",
+    description: "An hour of productive blocks in a row.",
+    rule: { stat: "flowStreak", atLeast: 12 },
+  },
+  "early-bird": {
+    id: "early-bird",
+    name: "Early Bird",
+    description: "Had a productive block before 8am.",
+    rule: { stat: "productiveBlocks", fromHour: 4, toHour: 8, atLeast: 1 },
+  },
+  "focus-session-1": {
+    id: "focus-session-1",
+    name: "Team Player",
+    description: "Joined a group focus session.",
+    rule: { stat: "focusSessions", atLeast: 1 },
+  },
+  "focus-session-10": {
+    id: "focus-session-10",
+    name: "Focus Regular",
+    description: "Joined 10 group focus sessions.",
+    rule: { stat: "focusSessions", atLeast: 10 },
+  },
+  "duel-win-1": {
+    id: "duel-win-1",
+    name: "Duelist",
+    description: "Won a focus duel.",
+    rule: { stat: "duelWins", atLeast: 1 },
+  },
+  "duel-win-5": {
+    id: "duel-win-5",
+    name: "Duel Champion",
+    description: "Won 5 focus duels!",
+    rule: { stat: "duelWins", atLeast: 5 },
+  },
+  "chat-50": {
+    id: "chat-50",
+    name: "Social Butterfly",
+    description: "Sent 50 chat messages.",
+    rule: { stat: "chatMessages", atLeast: 50 },
+  },
+  "top-10": {
+    id: "top-10",
+    name: "Top Ten",
+    description: "Made the top 10 of a monthly leaderboard.",
+    rule: { stat: "monthlyRank", atMost: 10 },
+  },
+};
+
+/**
+ * Achievements the app used to unlock itself and keep in the local pipe
+ * settings (customSettings.achievements), before the party server kept
+ * them. All were score thresholds.
+ */
+const LEGACY_ACHIEVEMENT_IDS = ["score-10", "score-50", "score-100"];
+
+/**
+ * The stat update that unlocks achievements kept in the local settings:
+ * the best monthly score the highest of them needed. Ids of any other
+ * achievement are ignored, so only what the app could unlock itself
+ * carries over, and so are those needing more than `bestScore`, the best
+ * monthly score the server has for the user. Null if there is nothing to
+ * import.
+ */
+export function legacyAchievementStats(
+  ids: readonly string[],
+  bestScore: number
+): AchievementStatUpdate | null {
+  const scores = ids
+    .filter((id) => LEGACY_ACHIEVEMENT_IDS.includes(id))
+    .flatMap((id) => {
+      const rule = ACHIEVEMENT_DEFINITIONS[id].rule;
+      return rule.stat === "monthlyScore" && rule.atLeast <= bestScore
+        ? [rule.atLeast]
+        : [];
+    });
+  return scores.length > 0
+    ? { max: { monthlyScore: Math.max(...scores) } }
+    : null;
+}
+
+/**
+ * The stat counting productive blocks started in a local hour (0-23)
+ */
+export function hourStat(hour: number): AchievementStat {
+  return `hour:${String(hour).padStart(2, "0")}`;
+}
+
+/**
+ * Counts productive blocks by the hour they started in, in the user's
+ * timezone, as stats to add
+ */
+export function productiveHours(
+  blocks: Pick<ScoredBlock, "startTime" | "classification">[],
+  timeZone: string
+): AchievementStats {
+  const counts: AchievementStats = {};
+  for (const block of blocks) {
+    if (block.classification !== "productive") continue;
+    const stat = hourStat(localHour(block.startTime, timeZone));
+    counts[stat] = (counts[stat] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * How far a user's stats are towards a rule. For rank rules `current` is
+ * the best rank so far, 0 if the user was never ranked.
+ */
+export function ruleProgress(
+  rule: AchievementRule,
+  stats: AchievementStats
+): { current: number; target: number; met: boolean } {
+  if (rule.stat === "monthlyRank") {
+    const rank = stats.monthlyRank ?? 0;
+    return {
+      current: rank,
+      target: rule.atMost,
+      met: rank > 0 && rank <= rule.atMost,
+    };
+  }
+
+  let value: number;
+  if (rule.stat === "productiveBlocks") {
+    value = 0;
+    for (let hour = rule.fromHour; hour < rule.toHour; hour++) {
+      value += stats[hourStat(hour)] ?? 0;
+    }
+  } else {
+    value = stats[rule.stat] ?? 0;
+  }
+  return {
+    current: Math.min(value, rule.atLeast),
+    target: rule.atLeast,
+    met: value >= rule.atLeast,
+  };
+}
+
+/**
+ * The achievements a user's stats unlock that aren't unlocked yet
+ */
+export function newlyUnlocked(
+  stats: AchievementStats,
+  unlocked: AchievementUnlock[]
+): Achievement[] {
+  const has = new Set(unlocked.map((unlock) => unlock.id));
+  return Object.values(ACHIEVEMENT_DEFINITIONS).filter(
+    (achievement) =>
+      !has.has(achievement.id) && ruleProgress(achievement.rule, stats).met
+  );
+}
+
+/**
+ * Every achievement with how far the user is towards it, in definition
+ * order. Unlocked ones count as complete even if the rule changed since.
+ */
+export function achievementProgress(
+  stats: AchievementStats,
+  unlocks: AchievementUnlock[]
+): AchievementProgress[] {
+  const unlockedAt = new Map(
+    unlocks.map((unlock) => [unlock.id, unlock.unlockedAt])
+  );
+  return Object.values(ACHIEVEMENT_DEFINITIONS).map((achievement) => {
+    const { current, target } = ruleProgress(achievement.rule, stats);
+    const at = unlockedAt.get(achievement.id) ?? null;
+    return {
+      ...achievement,
+      current:
+        at === null || achievement.rule.stat === "monthlyRank"
+          ? current
+          : target,
+      target,
+      unlockedAt: at,
+    };
+  });
+}
+
+/**
+ * Stored unlocks with their achievement's details, in the order they were
+ * unlocked
+ */
+export function toUserAchievements(
+  unlocks: AchievementUnlock[]
+): UserAchievement[] {
+  return unlocks.flatMap((unlock) => {
+    const achievement = ACHIEVEMENT_DEFINITIONS[unlock.id];
+    return achievement
+      ? [{ ...achievement, unlockedAt: unlock.unlockedAt }]
+      : [];
+  });
+}
+
+/**
+ * Two stat updates combined into one: counts are summed, bests kept
+ */
+export function mergeStatUpdates(
+  a: AchievementStatUpdate,
+  b: AchievementStatUpdate
+): AchievementStatUpdate {
+  const merge = (
+    x: AchievementStats | undefined,
+    y: AchievementStats | undefined,
+    combine: (x: number, y: number) => number
+  ): AchievementStats | undefined => {
+    if (!x || !y) return x ?? y;
+    const merged: AchievementStats = { ...x };
+    for (const [stat, value] of Object.entries(y) as [
+      AchievementStat,
+      number,
+    ][]) {
+      const earlier = merged[stat];
+      merged[stat] = earlier === undefined ? value : combine(earlier, value);
+    }
+    return merged;
+  };
+  return {
+    add: merge(a.add, b.add, (x, y) => x + y),
+    max: merge(a.max, b.max, Math.max),
+    min: merge(a.min, b.min, Math.min),
+  };
+}
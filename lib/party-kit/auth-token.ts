@@ -0,0 +1,165 @@
+/**
+ * @file auth-token.ts
+ * @description
+ * Short-lived HMAC tokens proving which user a PartyKit connection or HTTP
+ * request belongs to. Tokens are issued by the Next.js server actions and
+ * verified by the party server, both holding the same shared secret
+ * (PARTYKIT_AUTH_SECRET).
+ *
+ * Key Exports:
+ * - signPartyToken(): Issues a token for a user and room
+ * - verifyPartyToken(): Checks signature, audience and expiry of a token
+ * - PARTY_TOKEN_TTL_MS: How long a token is valid after issue
+ *
+ * Token format:
+ *   base64url(JSON payload) + "." + base64url(HMAC-SHA256(payload part))
+ *
+ * @notes
+ * - Uses the Web Crypto API so the same code runs in Node and in workerd.
+ * - Every token carries a random nonce. Verifying the nonce hasn't been seen
+ *   before (replay protection) is the caller's job, since it needs state.
+ */
+
+/**
+ * How long a token is accepted after being issued
+ */
+export const PARTY_TOKEN_TTL_MS = 2 * 60 * 1000;
+
+/**
+ * Allowed clock drift between the issuing machine and the party server
+ */
+const CLOCK_SKEW_MS = 30 * 1000;
+
+export interface PartyTokenPayload {
+  /** The user id the token was issued to */
+  sub: string;
+  /** The room the token may be used in */
+  aud: string;
+  /** Issued at, ms since epoch */
+  iat: number;
+  /** Expires at, ms since epoch */
+  exp: number;
+  /** Random value, each token may only be used once */
+  nonce: string;
+}
+
+export type VerifyTokenResult =
+  | { ok: true; payload: PartyTokenPayload }
+  | { ok: false; reason: string };
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padding = (4 - (base64.length % 4)) % 4;
+  const binary = atob(base64 + "=".repeat(padding));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function importKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+/**
+ * Issues a signed token for a user, valid in a single room
+ *
+ * @param userId The user the token identifies
+ * @param roomId The room the token may be used in
+ * @param secret The shared secret (PARTYKIT_AUTH_SECRET)
+ */
+export async function signPartyToken(
+  userId: string,
+  roomId: string,
+  secret: string,
+  now: number = Date.now()
+): Promise<string> {
+  const payload: PartyTokenPayload = {
+    sub: userId,
+    aud: roomId,
+    iat: now,
+    exp: now + PARTY_TOKEN_TTL_MS,
+    nonce: crypto.randomUUID(),
+  };
+
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const key = await importKey(secret);
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(body)
+  );
+
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verifies a token's signature, audience and expiry
+ *
+ * @param token The token sent by the client
+ * @param roomId The room the token is being used in
+ * @param secret The shared secret (PARTYKIT_AUTH_SECRET)
+ */
+export async function verifyPartyToken(
+  token: string,
+  roomId: string,
+  secret: string,
+  now: number = Date.now()
+): Promise<VerifyTokenResult> {
+  const [body, signature, ...rest] = token.split(".");
+  if (!body || !signature || rest.length > 0) {
+    return { ok: false, reason: "Malformed token" };
+  }
+
+  let payload: PartyTokenPayload;
+  try {
+    const key = await importKey(secret);
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      key,
+      fromBase64Url(signature),
+      encoder.encode(body)
+    );
+    if (!valid) {
+      return { ok: false, reason: "Invalid token signature" };
+    }
+    payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body)));
+  } catch {
+    return { ok: false, reason: "Malformed token" };
+  }
+
+  if (typeof payload.sub !== "string" || !payload.sub) {
+    return { ok: false, reason: "Token has no subject" };
+  }
+  if (payload.aud !== roomId) {
+    return { ok: false, reason: "Token was issued for another room" };
+  }
+  if (payload.iat > now + CLOCK_SKEW_MS) {
+    return { ok: false, reason: "Token was issued in the future" };
+  }
+  if (payload.exp < now - CLOCK_SKEW_MS) {
+    return { ok: false, reason: "Token has expired" };
+  }
+
+  return { ok: true, payload };
+}
@@ -0,0 +1,59 @@
+/**
+ * @file block-scoring.ts
+ * @description
+ * The rule turning classified productivity blocks into a score delta. The
+ * app uses it to show what a run earned and the party server uses it to
+ * credit submissions, so the two always agree.
+ *
+ * Key Exports:
+ * - BLOCK_DURATION_MS: How much time one block covers
+ * - blockScore(): What a single block is worth
+ * - scoreBlocks(): The rounded delta for a set of blocks
+ *
+ * @notes
+ * - Productive blocks add +1, unproductive blocks subtract 1, breaks are
+ *   neutral. Partial blocks are weighted by their activeRatio.
+ */
+
+import type { BlockClassification } from "./protocol";
+
+/**
+ * How much time one block covers. A block is worth at most one point, so
+ * this also bounds how fast a score can plausibly change.
+ */
+export const BLOCK_DURATION_MS = 5 * 60 * 1000;
+
+interface ClassifiedBlock {
+  classification: BlockClassification;
+  activeRatio?: number;
+}
+
+/**
+ * What a single block is worth, before rounding. The active ratio is
+ * clamped to 0-1 so a block can never count for more than itself.
+ */
+export function blockScore({
+  classification,
+  activeRatio,
+}: ClassifiedBlock): number {
+  const ratio = Math.min(1, Math.max(0, activeRatio ?? 1));
+
+  switch (classification) {
+    case "productive":
+      return ratio;
+    case "unproductive":
+      return -ratio;
+    case "break":
+    default:
+      return 0;
+  }
+}
+
+/**
+ * The score delta for a set of blocks, rounded to a whole number
+ */
+export function scoreBlocks(blocks: ClassifiedBlock[]): number {
+  const total = blocks.reduce((sum, block) => sum + blockScore(block), 0);
+  // Avoid -0 when partial blocks cancel out
+  return Math.round(total) || 0;
+}
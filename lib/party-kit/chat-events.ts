@@ -0,0 +1,76 @@
+/**
+ * @file chat-events.ts
+ * @description
+ * The milestones the party server announces in chat, and the plain text
+ * of each announcement. The server uses it to decide what to announce,
+ * the chat page to render announcements it can't show as a card.
+ *
+ * Key Exports:
+ * - RANK_MILESTONES: Monthly ranks announced when a user reaches them
+ * - STREAK_MILESTONES: Streak lengths announced when a user reaches them
+ * - rankMilestone(): The best milestone a rank is within
+ * - streakMilestone(): The milestone a streak just passed
+ * - describeChatEvent(): An announcement as plain text
+ *
+ * @notes
+ * - Each rank milestone is announced once per user and month, each streak
+ *   milestone whenever a streak passes it.
+ */
+
+import type { ChatEvent } from "./protocol";
+import { ACHIEVEMENT_DEFINITIONS } from "./achievements";
+
+/** Best first: the top spot, the podium, the top 10 */
+export const RANK_MILESTONES = [1, 3, 10] as const;
+
+export const STREAK_MILESTONES: Record<"daily" | "flow", readonly number[]> = {
+  /** Days */
+  daily: [3, 7, 14, 30, 60, 100],
+  /** Blocks, i.e. 1, 2 and 4 hours */
+  flow: [12, 24, 48],
+};
+
+/**
+ * The best rank milestone a monthly rank is within, e.g. 3 for rank 2, or
+ * null outside the top 10
+ */
+export function rankMilestone(rank: number): number | null {
+  return RANK_MILESTONES.find((milestone) => rank <= milestone) ?? null;
+}
+
+/**
+ * The longest milestone a streak passed going from `before` to `after`,
+ * or null if it passed none
+ */
+export function streakMilestone(
+  streak: "daily" | "flow",
+  before: number,
+  after: number
+): number | null {
+  const passed = STREAK_MILESTONES[streak].filter(
+    (milestone) => before < milestone && milestone <= after
+  );
+  return passed.length > 0 ? passed[passed.length - 1] : null;
+}
+
+/**
+ * An announcement as plain text, for the "text" of its chat message
+ */
+export function describeChatEvent(event: ChatEvent): string {
+  switch (event.type) {
+    case "achievement_unlocked": {
+      const achievement = ACHIEVEMENT_DEFINITIONS[event.achievementId];
+      return `🏆 ${event.username} unlocked ${
+        achievement?.name ?? "an achievement"
+      }!`;
+    }
+    case "rank_up":
+      return event.rank === 1
+        ? `👑 ${event.username} took the top spot on the monthly leaderboard!`
+        : `📈 ${event.username} climbed to #${event.rank} on the monthly leaderboard!`;
+    case "streak_milestone":
+      return event.streak === "daily"
+        ? `🔥 ${event.username} kept a ${event.length}-day streak!`
+        : `⚡ ${event.username} had ${event.length} productive blocks in a row!`;
+  }
+}
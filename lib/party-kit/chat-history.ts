@@ -0,0 +1,59 @@
+/**
+ * @file chat-history.ts
+ * @description
+ * Client-side helpers for keeping a list of chat messages in order while
+ * live messages and history pages arrive in any order.
+ *
+ * Key Exports:
+ * - mergeMessages(): Merges new messages into an ordered, de-duplicated list
+ *
+ * @notes
+ * - Messages are identified by their server-assigned id. A message that is
+ *   received twice keeps the newer copy, so edits made while a page was in
+ *   flight aren't lost.
+ */
+
+import type { ChatMessage } from "./protocol";
+
+function compareMessages(a: ChatMessage, b: ChatMessage): number {
+  return a.timestamp - b.timestamp || a.id.localeCompare(b.id);
+}
+
+/**
+ * Merges incoming messages into an existing list sorted oldest first.
+ * The common cases, a live message at the end or an older page at the
+ * start, don't re-sort the list.
+ *
+ * @param existing The current list, sorted oldest first
+ * @param incoming New messages, in any order
+ * @returns A new sorted list without duplicate ids
+ */
+export function mergeMessages(
+  existing: ChatMessage[],
+  incoming: ChatMessage[]
+): ChatMessage[] {
+  if (incoming.length === 0) return existing;
+
+  const knownIds = new Set(existing.map((msg) => msg.id));
+  const fresh = incoming.filter((msg) => !knownIds.has(msg.id));
+  const replaced = incoming.length !== fresh.length;
+
+  let merged = existing;
+  if (replaced) {
+    const updates = new Map(incoming.map((msg) => [msg.id, msg]));
+    merged = existing.map((msg) => updates.get(msg.id) ?? msg);
+  }
+  if (fresh.length === 0) return merged;
+
+  const sortedFresh = [...fresh].sort(compareMessages);
+  const first = merged[0];
+  const last = merged[merged.length - 1];
+
+  if (!last || compareMessages(sortedFresh[0], last) > 0) {
+    return [...merged, ...sortedFresh];
+  }
+  if (compareMessages(sortedFresh[sortedFresh.length - 1], first) < 0) {
+    return [...sortedFresh, ...merged];
+  }
+  return [...merged, ...sortedFresh].sort(compareMessages);
+}
@@ -0,0 +1,123 @@
+/**
+ * @file focus-session.ts
+ * @description
+ * Works out the phases of a group focus session from its start time and
+ * intervals. The party server uses it to schedule phase changes and award
+ * the focus bonus, the session panel to show its countdown, so the two
+ * always agree.
+ *
+ * Key Exports:
+ * - DEFAULT_FOCUS_MINUTES / DEFAULT_BREAK_MINUTES / DEFAULT_ROUNDS: 25/5 x 4
+ * - MAX_FOCUS_MINUTES / MAX_BREAK_MINUTES / MAX_ROUNDS: Custom interval caps
+ * - FOCUS_SESSION_BONUS: Score multiplier for productive blocks in a session
+ * - sessionEnd(): When a session ends
+ * - phaseAt(): The phase a session is in at a given time
+ * - focusWindows(): The focus phases of a session
+ * - isFocusing(): Whether a participant is in a focus phase right now
+ *
+ * @notes
+ * - Phases run focus, break, focus, ... focus. A session ended early by its
+ *   host stops at endedAt.
+ */
+
+import type {
+  FocusPhase,
+  FocusSession,
+} from "@/lib/types/focus-session-types";
+
+export const DEFAULT_FOCUS_MINUTES = 25;
+export const DEFAULT_BREAK_MINUTES = 5;
+export const DEFAULT_ROUNDS = 4;
+
+export const MAX_FOCUS_MINUTES = 120;
+export const MAX_BREAK_MINUTES = 60;
+export const MAX_ROUNDS = 8;
+
+/**
+ * Productive blocks overlapping a focus phase a user took part in are worth
+ * this many times their usual score
+ */
+export const FOCUS_SESSION_BONUS = 1.5;
+
+type SessionTimer = Pick<
+  FocusSession,
+  "focusMs" | "breakMs" | "rounds" | "startedAt" | "endedAt"
+>;
+
+export interface PhaseInfo {
+  phase: FocusPhase;
+  /** 1 for the first focus phase and the break after it */
+  round: number;
+  startsAt: number;
+  endsAt: number;
+}
+
+/**
+ * When a session ends: after its last focus phase, or when it was ended
+ */
+export function sessionEnd(session: SessionTimer): number {
+  const scheduled =
+    session.startedAt +
+    session.rounds * session.focusMs +
+    (session.rounds - 1) * session.breakMs;
+  return session.endedAt === null
+    ? scheduled
+    : Math.min(scheduled, session.endedAt);
+}
+
+/**
+ * The phase a session is in at `now`, or null before it starts and once it
+ * ended. A phase covers [startsAt, endsAt).
+ */
+export function phaseAt(session: SessionTimer, now: number): PhaseInfo | null {
+  if (now < session.startedAt || now >= sessionEnd(session)) {
+    return null;
+  }
+
+  const cycle = session.focusMs + session.breakMs;
+  const round = Math.floor((now - session.startedAt) / cycle) + 1;
+  const roundStart = session.startedAt + (round - 1) * cycle;
+  const focusEnd = roundStart + session.focusMs;
+  if (now < focusEnd) {
+    return { phase: "focus", round, startsAt: roundStart, endsAt: focusEnd };
+  }
+  return {
+    phase: "break",
+    round,
+    startsAt: focusEnd,
+    endsAt: focusEnd + session.breakMs,
+  };
+}
+
+/**
+ * The focus phases of a session as [start, end) pairs, cut short at
+ * endedAt
+ */
+export function focusWindows(session: SessionTimer): [number, number][] {
+  const end = sessionEnd(session);
+  const cycle = session.focusMs + session.breakMs;
+  const windows: [number, number][] = [];
+  for (let round = 0; round < session.rounds; round++) {
+    const start = session.startedAt + round * cycle;
+    if (start >= end) break;
+    windows.push([start, Math.min(start + session.focusMs, end)]);
+  }
+  return windows;
+}
+
+/**
+ * Whether a user is taking part in a session and it is in a focus phase
+ */
+export function isFocusing(
+  session: FocusSession | null,
+  userId: string,
+  now: number
+): boolean {
+  if (!session) return false;
+  const participant = session.participants.find((p) => p.userId === userId);
+  return (
+    participant !== undefined &&
+    participant.leftAt === undefined &&
+    phaseAt(session, now)?.phase === "focus"
+  );
+}
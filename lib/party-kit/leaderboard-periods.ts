@@ -0,0 +1,171 @@
+/**
+ * @file leaderboard-periods.ts
+ * @description
+ * Works out which day, week or month a leaderboard covers. The party server
+ * uses it to date score events and to pick the rows of each leaderboard.
+ *
+ * Key Exports:
+ * - DEFAULT_TIME_ZONE: Used when a client sends no (or an unknown) timezone
+ * - resolveTimeZone(): A usable IANA timezone for whatever a client sent
+ * - localDate(): The calendar date of a moment in a timezone
+ * - localHour(): The hour of the day (0-23) of a moment in a timezone
+ * - addDays(): The date a number of days after (or before) another
+ * - isoWeek() / isoWeekDays(): The ISO week of a date and its first/last day
+ * - periodWindow(): The key and date range of a leaderboard period
+ * - addMonths() / monthStart(): Month arithmetic for the monthly rollover
+ *
+ * @notes
+ * - Dates are "YYYY-MM-DD" strings and weeks "YYYY-Www", so they sort and
+ *   compare as plain strings.
+ * - Months stay in UTC, matching the month column of the scoreboard table.
+ *   Only the daily and weekly boards follow the user's timezone.
+ */
+
+import type { LeaderboardPeriod } from "./protocol";
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+// The key of the all-time leaderboard, which has a single period
+export const ALL_TIME_KEY = "all";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PeriodWindow {
+  /** Identifies the period, e.g. "2025-03-10", "2025-W11", "2025-03" */
+  key: string;
+  /** First and last local dates covered by daily and weekly periods */
+  firstDay?: string;
+  lastDay?: string;
+}
+
+/**
+ * Returns the timezone if the runtime knows it, DEFAULT_TIME_ZONE otherwise
+ */
+export function resolveTimeZone(timeZone: string | undefined): string {
+  if (!timeZone) return DEFAULT_TIME_ZONE;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return timeZone;
+  } catch {
+    return DEFAULT_TIME_ZONE;
+  }
+}
+
+/**
+ * The calendar date ("YYYY-MM-DD") of a moment in the given timezone
+ */
+export function localDate(timestamp: number, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: resolveTimeZone(timeZone),
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(new Date(timestamp));
+  const part = (type: string) =>
+    parts.find((p) => p.type === type)?.value ?? "";
+  return `${part("year")}-${part("month")}-${part("day")}`;
+}
+
+/**
+ * The hour of the day (0-23) of a moment in the given timezone
+ */
+export function localHour(timestamp: number, timeZone: string): number {
+  const hour = new Intl.DateTimeFormat("en-US", {
+    timeZone: resolveTimeZone(timeZone),
+    hour: "numeric",
+    hourCycle: "h23",
+  })
+    .formatToParts(new Date(timestamp))
+    .find((p) => p.type === "hour")?.value;
+  return Number(hour ?? 0);
+}
+
+// Midnight UTC of a "YYYY-MM-DD" date, ms since epoch
+function dateToUtc(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+function utcToDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * The date ("YYYY-MM-DD") a number of days after (or before) another
+ */
+export function addDays(date: string, days: number): string {
+  return utcToDate(dateToUtc(date) + days * DAY_MS);
+}
+
+// The Monday starting the ISO week of a date, as midnight UTC
+function weekStart(date: string): number {
+  const time = dateToUtc(date);
+  const weekday = (new Date(time).getUTCDay() + 6) % 7; // Monday = 0
+  return time - weekday * DAY_MS;
+}
+
+/**
+ * The ISO week ("YYYY-Www") of a date. Weeks start on Monday, and the first
+ * week of a year is the one holding its first Thursday.
+ */
+export function isoWeek(date: string): string {
+  const thursday = new Date(weekStart(date) + 3 * DAY_MS);
+  const year = thursday.getUTCFullYear();
+  const week =
+    Math.floor((thursday.getTime() - Date.UTC(year, 0, 1)) / (7 * DAY_MS)) +
+    1;
+  return `${year}-W${String(week).padStart(2, "0")}`;
+}
+
+/**
+ * The Monday and Sunday of a date's ISO week
+ */
+export function isoWeekDays(date: string): [string, string] {
+  const monday = weekStart(date);
+  return [utcToDate(monday), utcToDate(monday + 6 * DAY_MS)];
+}
+
+/**
+ * The period of a leaderboard that a moment falls in, for a user in the
+ * given timezone
+ */
+export function periodWindow(
+  period: LeaderboardPeriod,
+  timestamp: number,
+  timeZone: string
+): PeriodWindow {
+  switch (period) {
+    case "daily": {
+      const day = localDate(timestamp, timeZone);
+      return { key: day, firstDay: day, lastDay: day };
+    }
+    case "weekly": {
+      const day = localDate(timestamp, timeZone);
+      const [firstDay, lastDay] = isoWeekDays(day);
+      return { key: isoWeek(day), firstDay, lastDay };
+    }
+    case "monthly":
+      return { key: new Date(timestamp).toISOString().slice(0, 7) };
+    case "all_time":
+    default:
+      return { key: ALL_TIME_KEY };
+  }
+}
+
+/**
+ * The month ("YYYY-MM") a number of months after (or before) another
+ */
+export function addMonths(month: string, months: number): string {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1 + months, 1))
+    .toISOString()
+    .slice(0, 7);
+}
+
+/**
+ * When a month ("YYYY-MM") starts, ms since epoch. Months are in UTC.
+ */
+export function monthStart(month: string): number {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return Date.UTC(year, monthIndex - 1, 1);
+}
@@ -0,0 +1,74 @@
+/**
+ * @file moderation.ts
+ * @description
+ * How chat warnings decay and chat restrictions expire. The party server
+ * applies them when users chat, the moderation panel when listing users.
+ *
+ * Key Exports:
+ * - MAX_WARNINGS: Warnings that get a user banned from chat
+ * - WARNING_DECAY_MS: How long without a new warning forgives one
+ * - MAX_MUTE_MINUTES: The longest a mute can be
+ * - decayedWarnings(): A user's warnings after decay
+ * - isRestricted(): Whether a restriction still applies
+ * - describeRestriction(): A restriction as told to the user
+ *
+ * @notes
+ * - Warnings are stored as a count and the time of the latest one. Each
+ *   WARNING_DECAY_MS since then forgives one, so a new warning restarts
+ *   the clock.
+ */
+
+import type { ChatRestriction } from "@/lib/types/moderation-types";
+
+export const MAX_WARNINGS = 3;
+
+export const WARNING_DECAY_MS = 24 * 60 * 60 * 1000;
+
+/** A week */
+export const MAX_MUTE_MINUTES = 7 * 24 * 60;
+
+/**
+ * A user's warnings at `now`, one forgiven per WARNING_DECAY_MS since the
+ * latest
+ */
+export function decayedWarnings(
+  count: number,
+  lastWarningAt: number,
+  now: number
+): number {
+  const forgiven = Math.floor(
+    Math.max(0, now - lastWarningAt) / WARNING_DECAY_MS
+  );
+  return Math.max(0, count - forgiven);
+}
+
+/**
+ * Whether a restriction keeps the user out of chat at `now`. Bans always
+ * do, mutes until they end.
+ */
+export function isRestricted(
+  restriction: ChatRestriction | null,
+  now: number
+): restriction is ChatRestriction {
+  return (
+    !!restriction && (restriction.until === null || restriction.until > now)
+  );
+}
+
+/**
+ * A restriction as told to the user, e.g. "You are muted for 10 more
+ * minutes: Spam"
+ */
+export function describeRestriction(
+  restriction: ChatRestriction,
+  now: number
+): string {
+  if (restriction.until === null) {
+    return `You are banned from chat: ${restriction.reason}`;
+  }
+  const minutes = Math.max(1, Math.ceil((restriction.until - now) / 60000));
+  return (
+    `You are muted for ${minutes} more ` +
+    `${minutes === 1 ? "minute" : "minutes"}: ${restriction.reason}`
+  );
+}
@@ -1,18 +1,48 @@
 /**
  * @file party-kit-client.ts
  * @description
- * Provides a React hook to connect to the PartyKit "chat" room.
- * It exposes methods for chat and scoreboard (like setScore).
+ * Provides a React hook to connect to a PartyKit room (the global "chat" room
+ * by default). It exposes methods for chat and scoreboard (like setScore).
  *
  * Key Exports:
- * - usePartyKitClient(): Returns { socket, setName, sendChat, setScore, getDebugState }
+ * - usePartyKitClient(roomId?, options?): Returns { socket, roomId, status, setStatus, updateProfile, sendChat, requestHistory, getDebugState, ... }
  *   for usage in any client component, including our new leaderboard page.
  *
  * Implementation:
  * - We create a single WebSocket-like connection to the PartyKit server at
- *   "chat-app.youruser.partykit.dev" room "chat" (example).
+ *   "chat-app.youruser.partykit.dev" for the given room id. Switching rooms
+ *   closes the old connection and opens a new one.
  * - The user can setName, sendChat, setScore, or getDebugState.
+ * - Privileged calls (getDebugState, banUser, setRole, ...) are checked
+ *   against the user's access role on the server, announced in "welcome".
+ * - A kicked user's socket is closed instead of reconnecting.
+ * - After the first "hello" in the global room, achievements kept in the
+ *   local settings by older versions are imported on the server.
  * - We do not handle message events here; that remains up to each consumer.
+ *   Consumers should read frames with parseServerMessage from ./protocol.
+ * - Outgoing frames are typed as ClientMessage, and "hello" carries the
+ *   protocol version so outdated clients are rejected with a clear error.
+ * - "hello" identifies the user with a signed, single-use token from the
+ *   getPartyKitToken server action. A fresh token is fetched on every
+ *   (re)connect, since the server rejects reused tokens.
+ * - Presence: the hook reports "idle" after IDLE_AFTER_MS without input and
+ *   "active" again on the next input. "focus" is set by the user through
+ *   setStatus and is never overridden automatically.
+ * - Chat history arrives in pages after "hello". Pass options.getHistorySince
+ *   so a reconnect only fetches the messages that were missed.
+ * - "hello" carries the browser's timezone, which the daily leaderboard
+ *   follows, the region picked on the profile page and whether the user's
+ *   milestones may be announced in chat. Leaderboard
+ *   subscriptions are per connection, so consumers renew them after every
+ *   "welcome".
+ * - A leaderboard arrives as a "scoreboard" snapshot of its top and the rows
+ *   around the user, then "scoreboard_delta" patches (see
+ *   scoreboard-window.ts). loadScoreboard asks for more rows.
+ * - Focus duels are negotiated with challengeDuel, acceptDuel and
+ *   declineDuel, and arrive (and change) in "duel" messages.
+ * - Group focus sessions are run with startFocusSession, joinFocusSession,
+ *   leaveFocusSession and endFocusSession, and broadcast in
+ *   "focus_session" messages.
  *
  * @notes
  * - This is purely an example. In a real deployment, you'd handle your domain more robustly.
@@ -20,86 +50,206 @@
 
 "use client";
 
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import PartySocket from "partysocket";
 import { usePipeSettings } from "@/hooks/use-pipe-settings";
 import { PARTYKIT_SERVER_URL } from "@/config";
+import { GLOBAL_ROOM_ID } from "@/lib/types/room-types";
+import {
+  getPartyKitToken,
+  importLocalAchievements,
+} from "@/app/actions/partykit-actions";
+import type { Region } from "@/lib/types/region-types";
+import type { AccessRole } from "@/lib/types/role-types";
+import {
+  PROTOCOL_VERSION,
+  parseServerMessage,
+  type ClientMessage,
+  type HistoryRequestMessage,
+  type LeaderboardPeriod,
+  type PresenceStatus,
+} from "./protocol";
 
 const HOST = PARTYKIT_SERVER_URL;
 
+// How long without keyboard or mouse input before a user counts as idle
+const IDLE_AFTER_MS = 5 * 60 * 1000;
+// How often to check for idleness
+const IDLE_CHECK_INTERVAL_MS = 30 * 1000;
+// DOM events that count as user activity
+const ACTIVITY_EVENTS = ["mousemove", "mousedown", "keydown", "scroll"];
+
 if (!HOST) {
   throw new Error("PARTYKIT_SERVER_URL is not set");
 }
 
-// User state in the PartyKit server
-interface ConnectionState {
-  userId: string;
-  username: string;
-  score: number;
-  task: string;
-  warningCount: number;
-  shadowBanned: boolean;
+interface PartyKitClientOptions {
+  /**
+   * Called on every (re)connect. Return the timestamp of the newest chat
+   * message already shown, or undefined to receive the latest page.
+   */
+  getHistorySince?: () => number | undefined;
 }
 
-// Debug state message from server
-interface DebugStateMessage {
-  type: "debug_state";
-  requesterId: string;
-  userState: ConnectionState;
-  allUsers: {
-    id: string;
-    state: ConnectionState;
-  }[];
-  timestamp: number;
+/**
+ * Serializes a typed protocol message onto the socket
+ */
+function sendMessage(socket: PartySocket, message: ClientMessage) {
+  socket.send(JSON.stringify(message));
 }
 
 /**
  * Our custom hook to unify the PartyKit connection
+ * @param roomId The PartyKit room to join, defaults to the global room
+ * @param options See PartyKitClientOptions
  */
-export function usePartyKitClient() {
+export function usePartyKitClient(
+  roomId: string = GLOBAL_ROOM_ID,
+  options: PartyKitClientOptions = {}
+) {
   const { settings } = usePipeSettings();
   const [socket, setSocket] = useState<PartySocket | null>(null);
+  const [status, setStatusState] = useState<PresenceStatus>("active");
+  // Read by the "open" handler so reconnects keep the current status
+  const statusRef = useRef<PresenceStatus>("active");
+  // Kept in a ref so a new callback each render doesn't reconnect
+  const getHistorySinceRef = useRef(options.getHistorySince);
+  getHistorySinceRef.current = options.getHistorySince;
 
-  // Connect once on mount
+  // Connect on mount and whenever the room changes
   useEffect(() => {
     if (!settings) return;
     const userId = settings.screenpipeAppSettings?.user?.id;
     if (!userId) throw new Error("No user ID found");
+    let cancelled = false;
+    let importedAchievements = false;
 
     // adjust host or config as needed for local dev vs production
     const ws = new PartySocket({
       host: HOST!, // replace with your actual PartyKit dev host if needed
-      room: "chat",
+      room: roomId,
     });
 
-    ws.addEventListener("open", () => {
-      // As soon as the socket opens, send the user ID to the PartyKit server
-      ws.send(
-        JSON.stringify({
-          type: "hello",
-          userId,
-          role: settings.role,
-          nickname: settings.nickname,
-          currentTask: settings.currentTask,
-        })
-      );
+    ws.addEventListener("open", async () => {
+      // As soon as the socket opens, prove who we are to the PartyKit server
+      const token = await getPartyKitToken(roomId);
+      if (cancelled) return;
+      if (!token) {
+        console.error("Could not get a PartyKit token, staying anonymous");
+        return;
+      }
+
+      sendMessage(ws, {
+        type: "hello",
+        protocolVersion: PROTOCOL_VERSION,
+        token,
+        role: settings.role,
+        nickname: settings.nickname,
+        currentTask: settings.currentTask,
+        status: statusRef.current,
+        historySince: getHistorySinceRef.current?.(),
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        region: settings.region,
+        announcements: settings.announcements,
+      });
+
+      // Retried on reconnects until it succeeds, then a no-op for good
+      if (roomId === GLOBAL_ROOM_ID && !importedAchievements) {
+        importedAchievements = await importLocalAchievements();
+      }
+    });
+
+    // Don't reconnect into a kick's cool-off; switching rooms or reopening
+    // the page tries again
+    ws.addEventListener("message", (event) => {
+      const parsed = parseServerMessage(event.data);
+      if (
+        parsed.ok &&
+        parsed.message.type === "error" &&
+        parsed.message.code === "kicked"
+      ) {
+        ws.close();
+      }
     });
 
     setSocket(ws);
 
     // Cleanup on unmount
     return () => {
+      cancelled = true;
       ws.close();
     };
-  }, [settings]);
+  }, [settings, roomId]);
+
+  /**
+   * setStatus
+   * Changes the presence status shown to others in the room
+   */
+  const setStatus = useCallback(
+    (next: PresenceStatus) => {
+      statusRef.current = next;
+      setStatusState(next);
+      if (socket?.readyState === WebSocket.OPEN) {
+        sendMessage(socket, { type: "update_profile", status: next });
+      }
+    },
+    [socket]
+  );
+
+  // Switch between "active" and "idle" based on user input
+  useEffect(() => {
+    let lastActivity = Date.now();
+
+    function onActivity() {
+      lastActivity = Date.now();
+      if (statusRef.current === "idle") {
+        setStatus("active");
+      }
+    }
+
+    const interval = setInterval(() => {
+      if (
+        statusRef.current === "active" &&
+        Date.now() - lastActivity > IDLE_AFTER_MS
+      ) {
+        setStatus("idle");
+      }
+    }, IDLE_CHECK_INTERVAL_MS);
+
+    for (const event of ACTIVITY_EVENTS) {
+      window.addEventListener(event, onActivity, { passive: true });
+    }
+
+    return () => {
+      clearInterval(interval);
+      for (const event of ACTIVITY_EVENTS) {
+        window.removeEventListener(event, onActivity);
+      }
+    };
+  }, [setStatus]);
 
   /**
    * updateProfile
-   * Tells the server to update ephemeral profile info for this connection
+   * Tells the server to update ephemeral profile info for this connection.
+   * The region is stored by the server for regional leaderboards, and
+   * the announcements choice for chat announcements.
    */
-  function updateProfile(name: string, task: string, role: string) {
+  function updateProfile(
+    name: string,
+    task: string,
+    role: string,
+    region?: Region,
+    announcements?: boolean
+  ) {
     if (!socket) return;
-    socket.send(JSON.stringify({ type: "update_profile", name, task, role }));
+    sendMessage(socket, {
+      type: "update_profile",
+      name,
+      task,
+      role,
+      region,
+      announcements,
+    });
   }
 
   /**
@@ -108,9 +258,153 @@ export function usePartyKitClient() {
    */
   function sendChat(text: string) {
     if (!socket) return;
-    socket.send(JSON.stringify({ type: "chat", text }));
+    sendMessage(socket, { type: "chat", text });
   }
 
+  /**
+   * requestHistory
+   * Asks for a page of chat history, answered with a "history" message
+   */
+  const requestHistory = useCallback(
+    (request: Omit<HistoryRequestMessage, "type">) => {
+      if (!socket) return;
+      sendMessage(socket, { type: "history", ...request });
+    },
+    [socket]
+  );
+
+  /**
+   * editMessage
+   * Replaces the text of a message. The server only allows this for the
+   * author, or for admins.
+   */
+  function editMessage(id: string, text: string) {
+    if (!socket) return;
+    sendMessage(socket, { type: "edit_message", id, text });
+  }
+
+  /**
+   * deleteMessage
+   * Deletes a message, leaving a tombstone. The server only allows this for
+   * the author, or for moderators and admins.
+   */
+  function deleteMessage(id: string) {
+    if (!socket) return;
+    sendMessage(socket, { type: "delete_message", id });
+  }
+
+  /**
+   * subscribeLeaderboard
+   * Switches the leaderboard sent in "scoreboard" messages, answered with
+   * the new board right away. Pass a region to only rank its users.
+   */
+  const subscribeLeaderboard = useCallback(
+    (period: LeaderboardPeriod, region?: Region) => {
+      if (socket?.readyState !== WebSocket.OPEN) return;
+      sendMessage(socket, { type: "subscribe_leaderboard", period, region });
+    },
+    [socket]
+  );
+
+  /**
+   * loadScoreboard
+   * Asks for more rows of the subscribed leaderboard, starting at `offset`
+   * (0 being the top). They arrive in a "scoreboard_delta" and are kept up
+   * to date from then on.
+   */
+  const loadScoreboard = useCallback(
+    (offset: number, limit?: number) => {
+      if (socket?.readyState !== WebSocket.OPEN) return;
+      sendMessage(socket, { type: "load_scoreboard", offset, limit });
+    },
+    [socket]
+  );
+
+  /**
+   * subscribeTeams
+   * Switches to the team leaderboard, sent in "team_scoreboard" messages
+   * until subscribeLeaderboard is called again
+   */
+  const subscribeTeams = useCallback(() => {
+    if (socket?.readyState !== WebSocket.OPEN) return;
+    sendMessage(socket, { type: "subscribe_teams" });
+  }, [socket]);
+
+  /**
+   * challengeDuel
+   * Challenges a user in the room to a focus duel over [startsAt, endsAt).
+   * The new duel arrives in a "duel" message, a refusal as an
+   * "invalid_duel" error.
+   */
+  const challengeDuel = useCallback(
+    (opponentId: string, startsAt: number, endsAt: number) => {
+      if (socket?.readyState !== WebSocket.OPEN) return;
+      sendMessage(socket, {
+        type: "duel_challenge",
+        opponentId,
+        startsAt,
+        endsAt,
+      });
+    },
+    [socket]
+  );
+
+  /**
+   * acceptDuel / declineDuel
+   * Answers a duel challenge. Declining also withdraws one the user sent.
+   */
+  const acceptDuel = useCallback(
+    (duelId: string) => {
+      if (socket?.readyState !== WebSocket.OPEN) return;
+      sendMessage(socket, { type: "duel_accept", duelId });
+    },
+    [socket]
+  );
+
+  const declineDuel = useCallback(
+    (duelId: string) => {
+      if (socket?.readyState !== WebSocket.OPEN) return;
+      sendMessage(socket, { type: "duel_decline", duelId });
+    },
+    [socket]
+  );
+
+  /**
+   * startFocusSession
+   * Starts a group focus session with the user as host. Intervals default
+   * to 25/5 x 4. The session arrives in a "focus_session" message.
+   */
+  const startFocusSession = useCallback(
+    (intervals: {
+      focusMinutes?: number;
+      breakMinutes?: number;
+      rounds?: number;
+    } = {}) => {
+      if (socket?.readyState !== WebSocket.OPEN) return;
+      sendMessage(socket, { type: "start_focus_session", ...intervals });
+    },
+    [socket]
+  );
+
+  /**
+   * joinFocusSession / leaveFocusSession / endFocusSession
+   * Joins or leaves the running focus session, or ends it (host only)
+   */
+  const joinFocusSession = useCallback(() => {
+    if (socket?.readyState !== WebSocket.OPEN) return;
+    sendMessage(socket, { type: "join_focus_session" });
+  }, [socket]);
+
+  const leaveFocusSession = useCallback(() => {
+    if (socket?.readyState !== WebSocket.OPEN) return;
+    sendMessage(socket, { type: "leave_focus_session" });
+  }, [socket]);
+
+  const endFocusSession = useCallback(() => {
+    if (socket?.readyState !== WebSocket.OPEN) return;
+    sendMessage(socket, { type: "end_focus_session" });
+  }, [socket]);
+
   /**
    * getDebugState
    * Requests debug state information from the server
@@ -118,12 +412,7 @@ export function usePartyKitClient() {
    */
   function getDebugState() {
     if (!socket) return;
-    socket.send(
-      JSON.stringify({
-        type: "get_debug_state",
-        debugKey: settings?.debugKey,
-      })
-    );
+    sendMessage(socket, { type: "get_debug_state" });
   }
 
   /**
@@ -132,12 +421,7 @@ export function usePartyKitClient() {
    */
   function clearMessages() {
     if (!socket) return;
-    socket.send(
-      JSON.stringify({
-        type: "clear_messages",
-        debugKey: settings?.debugKey,
-      })
-    );
+    sendMessage(socket, { type: "clear_messages" });
   }
 
   /**
@@ -146,20 +430,115 @@ export function usePartyKitClient() {
    */
   function clearLeaderboard() {
     if (!socket) return;
-    socket.send(
-      JSON.stringify({
-        type: "clear_leaderboard",
-        debugKey: settings?.debugKey,
-      })
-    );
+    sendMessage(socket, { type: "clear_leaderboard" });
+  }
+
+  /**
+   * getFlaggedUsers
+   * Requests the report of users flagged by the anti-cheat checks
+   * The response will come as a message with type="flagged_users"
+   */
+  function getFlaggedUsers() {
+    if (!socket) return;
+    sendMessage(socket, { type: "get_flagged_users" });
+  }
+
+  /**
+   * banUser
+   * Bans a user from chat until unbanned. Moderators and admins only.
+   * Moderation commands are answered with a "moderated_users" message.
+   */
+  function banUser(userId: string, reason?: string) {
+    if (!socket) return;
+    sendMessage(socket, { type: "ban_user", userId, reason });
+  }
+
+  /**
+   * muteUser
+   * Keeps a user out of chat for `minutes`. Moderators and admins only.
+   */
+  function muteUser(userId: string, minutes: number, reason?: string) {
+    if (!socket) return;
+    sendMessage(socket, { type: "mute_user", userId, minutes, reason });
+  }
+
+  /**
+   * kickUser
+   * Disconnects a user from the room for a short cool-off. Moderators and
+   * admins only.
+   */
+  function kickUser(userId: string, reason?: string) {
+    if (!socket) return;
+    sendMessage(socket, { type: "kick_user", userId, reason });
+  }
+
+  /**
+   * unbanUser
+   * Lifts a user's chat ban or mute. Moderators and admins only.
+   */
+  function unbanUser(userId: string) {
+    if (!socket) return;
+    sendMessage(socket, { type: "unban_user", userId });
+  }
+
+  /**
+   * resetWarnings
+   * Forgives all of a user's warnings. Moderators and admins only.
+   */
+  function resetWarnings(userId: string) {
+    if (!socket) return;
+    sendMessage(socket, { type: "reset_warnings", userId });
+  }
+
+  /**
+   * getModeratedUsers
+   * Requests the users who are banned, muted or warned
+   * The response will come as a message with type="moderated_users"
+   */
+  function getModeratedUsers() {
+    if (!socket) return;
+    sendMessage(socket, { type: "get_moderated_users" });
+  }
+
+  /**
+   * setRole
+   * Grants a user an access role. Admins only.
+   */
+  function setRole(userId: string, role: AccessRole) {
+    if (!socket) return;
+    sendMessage(socket, { type: "set_role", userId, role });
   }
 
   return {
     socket,
+    roomId,
+    status,
+    setStatus,
     updateProfile,
     sendChat,
+    requestHistory,
+    editMessage,
+    deleteMessage,
+    subscribeLeaderboard,
+    loadScoreboard,
+    subscribeTeams,
+    challengeDuel,
+    acceptDuel,
+    declineDuel,
+    startFocusSession,
+    joinFocusSession,
+    leaveFocusSession,
+    endFocusSession,
     getDebugState,
     clearMessages,
     clearLeaderboard,
+    getFlaggedUsers,
+    banUser,
+    muteUser,
+    kickUser,
+    unbanUser,
+    resetWarnings,
+    getModeratedUsers,
+    setRole,
   };
 }
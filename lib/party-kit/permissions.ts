@@ -0,0 +1,69 @@
+/**
+ * @file permissions.ts
+ * @description
+ * Which access roles may perform which privileged operations. The party
+ * server checks every privileged message against it, and pages use it to
+ * only offer the controls a user may use.
+ *
+ * Key Exports:
+ * - ROLE_PERMISSIONS: The permissions of each access role
+ * - hasPermission(): Whether a role holds a permission
+ * - outranks(): Whether a role ranks above another
+ *
+ * @notes
+ * - Moderators keep the chat in order. Admins can also inspect and reset
+ *   the server, and grant roles.
+ * - Moderation commands only reach users of a lower role, so moderators
+ *   can't ban each other or an admin.
+ */
+
+import { ACCESS_ROLES } from "@/lib/types/role-types";
+import type { AccessRole, Permission } from "@/lib/types/role-types";
+
+const MODERATOR_PERMISSIONS: readonly Permission[] = [
+  "view_flagged_users",
+  "delete_any_message",
+  "ban_user",
+  "mute_user",
+  "kick_user",
+  "unban_user",
+  "reset_warnings",
+  "view_moderated_users",
+];
+
+export const ROLE_PERMISSIONS: Record<AccessRole, readonly Permission[]> = {
+  admin: [
+    ...MODERATOR_PERMISSIONS,
+    "view_debug_state",
+    "edit_any_message",
+    "set_role",
+    "clear_messages",
+    "clear_leaderboard",
+  ],
+  moderator: MODERATOR_PERMISSIONS,
+  member: [],
+};
+
+/**
+ * Whether a role holds a permission. Unknown roles hold none.
+ */
+export function hasPermission(
+  role: AccessRole | undefined,
+  permission: Permission
+): boolean {
+  return !!role && !!ROLE_PERMISSIONS[role]?.includes(permission);
+}
+
+/**
+ * Whether a role ranks above another. Unknown roles rank below every role.
+ */
+export function outranks(
+  role: AccessRole | undefined,
+  other: AccessRole | undefined
+): boolean {
+  const rank = (r: AccessRole | undefined) => {
+    const index = r ? ACCESS_ROLES.indexOf(r) : -1;
+    return index === -1 ? ACCESS_ROLES.length : index;
+  };
+  return rank(role) < rank(other);
+}
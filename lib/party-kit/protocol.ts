@@ -0,0 +1,1183 @@
+/**
+ * @file protocol.ts
+ * @description
+ * The wire protocol spoken between the PartyKit server (party-server/server.ts)
+ * and its clients (party-kit-client.ts and the pages consuming its socket).
+ * Both sides import their message types and validators from here, so the
+ * shapes can't drift apart.
+ *
+ * Key Exports:
+ * - PROTOCOL_VERSION / MIN_PROTOCOL_VERSION: Versions negotiated in "hello"
+ * - ClientMessage: Discriminated union of every client => server message
+ * - ServerMessage: Discriminated union of every server => client message
+ * - ErrorCode: Machine readable codes carried by "error" messages
+ * - ChatEvent: A user's achievement or milestone announced in chat
+ * - ScoredBlock: A classified productivity block submitted for scoring
+ * - LeaderboardPeriod: The leaderboards a connection can subscribe to
+ * - parseClientMessage / parseServerMessage: Runtime validation of raw frames
+ * - validateClientMessage: Validation of an already parsed client message
+ * - negotiateProtocolVersion: Picks the version both sides speak
+ *
+ * @notes
+ * - Validation is schema driven: every message type has an entry in
+ *   CLIENT_MESSAGE_SCHEMAS or SERVER_MESSAGE_SCHEMAS. Adding a message means
+ *   adding it to the union and to the matching schema table.
+ * - Unknown fields are ignored, missing or mistyped fields are rejected.
+ */
+
+import type { PartyRoom, RoomMember } from "@/lib/types/room-types";
+import type { TeamStanding } from "@/lib/types/team-types";
+import type { Duel } from "@/lib/types/duel-types";
+import type {
+  FocusSession,
+  FocusSessionEvent,
+} from "@/lib/types/focus-session-types";
+import type { Streaks } from "@/lib/types/streak-types";
+import type { UserAchievement } from "@/lib/types/achievement-types";
+import { REGIONS, type Region } from "@/lib/types/region-types";
+import { ACCESS_ROLES, type AccessRole } from "@/lib/types/role-types";
+import type { ModeratedUser } from "@/lib/types/moderation-types";
+
+/**
+ * The protocol version this build speaks. Bump when a change would break
+ * older clients, and raise MIN_PROTOCOL_VERSION once they must be rejected.
+ */
+export const PROTOCOL_VERSION = 4;
+
+/**
+ * The oldest client protocol version the server still accepts.
+ * Version 2 replaced the plain userId in "hello" with a signed token.
+ * Version 3 replaced the delta in "update_score" with the blocks it covers.
+ * Version 4 sends the top of the scoreboard and the rows around the user,
+ * then "scoreboard_delta" patches. Older clients get the whole board.
+ */
+export const MIN_PROTOCOL_VERSION = 2;
+
+/**
+ * Max length of a single chat message
+ */
+export const MAX_CHAT_LENGTH = 1000;
+
+/**
+ * Default and max number of messages in one page of chat history
+ */
+export const HISTORY_PAGE_SIZE = 50;
+export const MAX_HISTORY_PAGE_SIZE = 100;
+
+/**
+ * Max number of blocks in one score submission
+ */
+export const MAX_SCORED_BLOCKS = 100;
+
+/**
+ * Machine readable error codes sent in "error" messages
+ */
+export type ErrorCode =
+  | "invalid_message"
+  | "unsupported_protocol"
+  | "not_identified"
+  | "invalid_token"
+  | "room_not_found"
+  | "room_forbidden"
+  | "message_not_found"
+  | "banned"
+  | "kicked"
+  | "rate_limited"
+  | "unauthorized"
+  | "duplicate_submission"
+  | "invalid_duel"
+  | "invalid_focus_session"
+  | "focus_muted";
+
+/**
+ * The leaderboards a connection can subscribe to. "daily" follows the
+ * user's timezone and "weekly" the ISO week of their local date, see
+ * leaderboard-periods.ts.
+ */
+export type LeaderboardPeriod = "daily" | "weekly" | "monthly" | "all_time";
+
+export const LEADERBOARD_PERIODS: readonly LeaderboardPeriod[] = [
+  "daily",
+  "weekly",
+  "monthly",
+  "all_time",
+];
+
+/**
+ * What a user is up to, shown in the "Who's here" roster.
+ * "focus" is chosen by the user, "active" and "idle" follow their input.
+ */
+export type PresenceStatus = "active" | "idle" | "focus";
+
+export const PRESENCE_STATUSES: readonly PresenceStatus[] = [
+  "active",
+  "idle",
+  "focus",
+];
+
+/**
+ * The ephemeral user state the server keeps on each connection
+ */
+export interface ConnectionState {
+  userId: string;
+  username: string;
+  task: string;
+  role: string;
+  status: PresenceStatus;
+  warningCount: number; // flagged messages after decay, see user_warnings
+  hasSetValidUserId: boolean; // flag to track if a valid userId has been set via hello message
+  protocolVersion: number; // negotiated in the hello message
+  timezone: string; // IANA timezone from hello, e.g. "Europe/Paris"
+  region: Region; // picked on the profile page
+  leaderboard: LeaderboardPeriod; // the scoreboard this connection is sent
+  leaderboardRegion: Region; // whose rankings it holds, GLOBAL_REGION for all
+  teamBoard: boolean; // sent the team leaderboard instead of the user one
+  accessRole: AccessRole; // looked up in user_roles on every hello
+}
+
+/**
+ * The userId the server uses for its own messages
+ */
+export const SYSTEM_USER_ID = "system";
+
+/**
+ * A single chat message as stored and broadcast by the server.
+ * Deleted messages are kept as tombstones: the text is cleared and
+ * deletedAt is set, so clients can replace what they already show.
+ */
+export interface ChatMessage {
+  type: "chat";
+  /** Server-assigned, sorts by creation time */
+  id: string;
+  /** The author's userId, or SYSTEM_USER_ID */
+  userId: string;
+  from: string;
+  /** For events, a plain text version for clients that don't know them */
+  text: string;
+  timestamp: number;
+  editedAt?: number;
+  deletedAt?: number;
+  /** Set on system messages announcing something a user did */
+  event?: ChatEvent;
+}
+
+/**
+ * Something a user did, announced in chat by the server unless they opted
+ * out of announcements (see "announcements" in "hello")
+ */
+export type ChatEvent =
+  | {
+      type: "achievement_unlocked";
+      userId: string;
+      username: string;
+      /** Key of ACHIEVEMENT_DEFINITIONS */
+      achievementId: string;
+    }
+  | {
+      type: "rank_up";
+      userId: string;
+      username: string;
+      /** The rank reached on the monthly leaderboard, 1 being the top */
+      rank: number;
+      /** The milestone passed, e.g. 10 for the top 10 (see RANK_MILESTONES) */
+      milestone: number;
+      /** "YYYY-MM" */
+      month: string;
+    }
+  | {
+      type: "streak_milestone";
+      userId: string;
+      username: string;
+      streak: "daily" | "flow";
+      /** Days for daily streaks, blocks for flow (see STREAK_MILESTONES) */
+      length: number;
+    };
+
+export type ChatEventType = ChatEvent["type"];
+
+/**
+ * A scoreboard row as sent to clients. The period it covers is on the
+ * "scoreboard" message.
+ */
+export interface ScoreboardRow {
+  /** 1 being the top. Rows sent to a client may skip ranks. */
+  rank: number;
+  userId: string;
+  username: string;
+  score: number;
+  region: Region;
+  /** The user's daily and flow streaks, when they have one going */
+  dailyStreak?: number;
+  flowStreak?: number;
+}
+
+/**
+ * Where the recipient of a "scoreboard" message stands, 1 being the top.
+ * Null when they have no score, or (for "regional") no region.
+ */
+export interface LeaderboardRanks {
+  global: number | null;
+  /** Among the users of the recipient's own region */
+  regional: number | null;
+}
+
+/**
+ * How a productivity block was classified
+ */
+export type BlockClassification = "productive" | "unproductive" | "break";
+
+export const BLOCK_CLASSIFICATIONS: readonly BlockClassification[] = [
+  "productive",
+  "unproductive",
+  "break",
+];
+
+/**
+ * A classified productivity block, as submitted for scoring. The server
+ * credits each block id at most once per user and works out the score
+ * delta from the classifications itself (see block-scoring.ts).
+ */
+export interface ScoredBlock {
+  /** The ProductivityBlock id, e.g. "block-2025-03-10T09:05" */
+  id: string;
+  /** Start of the block, ms since epoch */
+  startTime: number;
+  classification: BlockClassification;
+  /** Share of the block the user was active, 0 to 1. Defaults to 1. */
+  activeRatio?: number;
+}
+
+/**
+ * A user whose score submissions were flagged as implausible, as listed in
+ * the admin report. Counts cover the report's time window.
+ */
+export interface FlaggedUser {
+  userId: string;
+  username: string;
+  violations: number;
+  /** Violation count per kind, e.g. { burst: 2, rate_exceeded: 1 } */
+  kinds: Record<string, number>;
+  lastViolationAt: number;
+  /** Whether the user has been banned from scoring */
+  scoreBanned: boolean;
+}
+
+/**
+ * One user in the presence roster. A user with several tabs open is listed
+ * once, with the most engaged status among their connections.
+ */
+export interface PresenceUser {
+  userId: string;
+  username: string;
+  task: string;
+  role: string;
+  status: PresenceStatus;
+  connections: number;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                           Client => server messages                         */
+/* -------------------------------------------------------------------------- */
+
+export interface HelloMessage {
+  type: "hello";
+  protocolVersion: number;
+  /** Signed token from getPartyKitToken(), identifies the user */
+  token: string;
+  nickname?: string;
+  currentTask?: string;
+  role?: string;
+  status?: PresenceStatus;
+  /**
+   * Set when reconnecting: the timestamp of the newest message the client
+   * already has. The server then sends what was missed instead of the
+   * latest page of history, and the older messages edited or deleted
+   * since as chat_update.
+   */
+  historySince?: number;
+  /** IANA timezone, used for the daily leaderboard. Defaults to UTC. */
+  timezone?: string;
+  /** The user's region, stored by the server for regional leaderboards */
+  region?: Region;
+  /**
+   * Whether the user's achievements, rank-ups and streak milestones are
+   * announced in chat, stored by the server. Defaults to true.
+   */
+  announcements?: boolean;
+}
+
+export interface UpdateProfileMessage {
+  type: "update_profile";
+  name?: string;
+  task?: string;
+  role?: string;
+  status?: PresenceStatus;
+  region?: Region;
+  announcements?: boolean;
+}
+
+export interface SendChatMessage {
+  type: "chat";
+  text: string;
+}
+
+/**
+ * Requests a page of chat history. With `before` (a message id) the page
+ * holds older messages, with `since` (a timestamp) newer ones, followed by
+ * a chat_update for each older message edited or deleted since. With
+ * neither it holds the latest messages.
+ */
+export interface HistoryRequestMessage {
+  type: "history";
+  before?: string;
+  since?: number;
+  limit?: number;
+}
+
+/**
+ * Edits a message. Only its author or an admin may do this.
+ */
+export interface EditMessageMessage {
+  type: "edit_message";
+  id: string;
+  text: string;
+}
+
+/**
+ * Deletes a message, leaving a tombstone. Only its author, a moderator or
+ * an admin may do this.
+ */
+export interface DeleteMessageMessage {
+  type: "delete_message";
+  id: string;
+}
+
+/**
+ * Submits classified blocks for scoring. Blocks already credited to the
+ * user are skipped; if none are new the server answers with a
+ * "duplicate_submission" error.
+ */
+export interface UpdateScoreMessage {
+  type: "update_score";
+  blocks: ScoredBlock[];
+}
+
+/**
+ * Asks for more rows of the subscribed leaderboard, e.g. the next page
+ * below the top. The server answers with a "scoreboard_delta" holding them
+ * and keeps them up to date afterwards.
+ */
+export interface LoadScoreboardMessage {
+  type: "load_scoreboard";
+  /** Index of the first row, 0 being the top */
+  offset: number;
+  limit?: number;
+}
+
+/**
+ * Picks the leaderboard the server sends in "scoreboard" messages. New
+ * connections get the global monthly one.
+ */
+export interface SubscribeLeaderboardMessage {
+  type: "subscribe_leaderboard";
+  period: LeaderboardPeriod;
+  /** Only rank the users of this region. Defaults to everyone. */
+  region?: Region;
+}
+
+/**
+ * Switches the connection to the team leaderboard, sent in
+ * "team_scoreboard" messages until it subscribes to a user leaderboard
+ * again
+ */
+export interface SubscribeTeamsMessage {
+  type: "subscribe_teams";
+}
+
+/**
+ * Challenges another user in the room to a focus duel: whoever earns the
+ * better score from blocks starting in [startsAt, endsAt) wins. Both users
+ * are sent the new duel in a "duel" message. Global room only.
+ */
+export interface DuelChallengeMessage {
+  type: "duel_challenge";
+  opponentId: string;
+  /** ms since epoch */
+  startsAt: number;
+  endsAt: number;
+}
+
+/**
+ * Accepts a duel the user was challenged to
+ */
+export interface DuelAcceptMessage {
+  type: "duel_accept";
+  duelId: string;
+}
+
+/**
+ * Declines a duel the user was challenged to, or withdraws one they sent
+ */
+export interface DuelDeclineMessage {
+  type: "duel_decline";
+  duelId: string;
+}
+
+/**
+ * Starts a group focus session in the global room, with the sender as its
+ * host and first participant. Intervals default to 25/5 x 4 (see
+ * focus-session.ts). Only one session runs at a time.
+ */
+export interface StartFocusSessionMessage {
+  type: "start_focus_session";
+  focusMinutes?: number;
+  breakMinutes?: number;
+  rounds?: number;
+}
+
+/**
+ * Joins (or rejoins) the running focus session. Participants can't chat
+ * during focus phases.
+ */
+export interface JoinFocusSessionMessage {
+  type: "join_focus_session";
+}
+
+export interface LeaveFocusSessionMessage {
+  type: "leave_focus_session";
+}
+
+/**
+ * Ends the running focus session early. Its host only.
+ */
+export interface EndFocusSessionMessage {
+  type: "end_focus_session";
+}
+
+/**
+ * Asks for every connection's state. Admins only.
+ */
+export interface GetDebugStateMessage {
+  type: "get_debug_state";
+}
+
+/**
+ * Deletes every chat message of the room. Admins only.
+ */
+export interface ClearMessagesMessage {
+  type: "clear_messages";
+}
+
+/**
+ * Resets this month's leaderboard. Admins only.
+ */
+export interface ClearLeaderboardMessage {
+  type: "clear_leaderboard";
+}
+
+/**
+ * Asks for the flagged users report. Moderators and admins.
+ */
+export interface GetFlaggedUsersMessage {
+  type: "get_flagged_users";
+}
+
+/**
+ * Bans a user from chat until unbanned. Moderators and admins.
+ */
+export interface BanUserMessage {
+  type: "ban_user";
+  userId: string;
+  reason?: string;
+}
+
+/**
+ * Keeps a user out of chat for a while, at most MAX_MUTE_MINUTES.
+ * Moderators and admins.
+ */
+export interface MuteUserMessage {
+  type: "mute_user";
+  userId: string;
+  minutes: number;
+  reason?: string;
+}
+
+/**
+ * Closes a user's connections to the room. They can reconnect.
+ * Moderators and admins.
+ */
+export interface KickUserMessage {
+  type: "kick_user";
+  userId: string;
+  reason?: string;
+}
+
+/**
+ * Lifts a user's chat ban or mute. Moderators and admins.
+ */
+export interface UnbanUserMessage {
+  type: "unban_user";
+  userId: string;
+}
+
+/**
+ * Forgives all of a user's warnings. Moderators and admins.
+ */
+export interface ResetWarningsMessage {
+  type: "reset_warnings";
+  userId: string;
+}
+
+/**
+ * Asks for the users who are banned, muted or warned. Moderators and
+ * admins; also sent after each of their moderation commands.
+ */
+export interface GetModeratedUsersMessage {
+  type: "get_moderated_users";
+}
+
+/**
+ * Grants a user an access role. Admins only.
+ */
+export interface SetRoleMessage {
+  type: "set_role";
+  userId: string;
+  role: AccessRole;
+}
+
+export type ClientMessage =
+  | HelloMessage
+  | UpdateProfileMessage
+  | SendChatMessage
+  | HistoryRequestMessage
+  | EditMessageMessage
+  | DeleteMessageMessage
+  | UpdateScoreMessage
+  | SubscribeLeaderboardMessage
+  | LoadScoreboardMessage
+  | SubscribeTeamsMessage
+  | DuelChallengeMessage
+  | DuelAcceptMessage
+  | DuelDeclineMessage
+  | StartFocusSessionMessage
+  | JoinFocusSessionMessage
+  | LeaveFocusSessionMessage
+  | EndFocusSessionMessage
+  | GetDebugStateMessage
+  | ClearMessagesMessage
+  | ClearLeaderboardMessage
+  | GetFlaggedUsersMessage
+  | BanUserMessage
+  | MuteUserMessage
+  | KickUserMessage
+  | UnbanUserMessage
+  | ResetWarningsMessage
+  | GetModeratedUsersMessage
+  | SetRoleMessage;
+
+/* -------------------------------------------------------------------------- */
+/*                           Server => client messages                         */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Sent in reply to a successful "hello"
+ */
+export interface WelcomeMessage {
+  type: "welcome";
+  protocolVersion: number;
+  connectionId: string;
+  /** The user the token identified, so clients can recognize themselves */
+  userId: string;
+  /** What the user may do beyond chatting, see lib/party-kit/permissions.ts */
+  accessRole: AccessRole;
+}
+
+/**
+ * A page of chat history, oldest message first.
+ * "older" pages answer `before` and latest-page requests, and hasMore tells
+ * whether even older messages exist. "newer" pages answer `since`, and
+ * hasMore tells whether to ask again from the last message's timestamp.
+ */
+export interface HistoryMessage {
+  type: "history";
+  direction: "older" | "newer";
+  messages: ChatMessage[];
+  hasMore: boolean;
+}
+
+/**
+ * Replaces an already delivered message after an edit or delete
+ */
+export interface ChatUpdateMessage {
+  type: "chat_update";
+  message: ChatMessage;
+}
+
+/**
+ * The rankings for the leaderboard the connection subscribed to, highest
+ * score first. Replaces whatever rows the client had: the top of the board
+ * and the rows around the recipient, or (before protocol version 4) every
+ * row.
+ */
+export interface ScoreboardMessage {
+  type: "scoreboard";
+  period: LeaderboardPeriod;
+  /** Which day, week or month, e.g. "2025-03-10", "2025-W11", "2025-03" */
+  periodKey: string;
+  /** Whose rankings these are, GLOBAL_REGION for everyone */
+  region: Region;
+  ranks: LeaderboardRanks;
+  /** How many users are on the board */
+  total: number;
+  scoreboard: ScoreboardRow[];
+}
+
+/**
+ * Patches the rows a client got from "scoreboard": rows that are new or
+ * whose rank or score changed, and the users whose rows it should drop.
+ * Applied with applyScoreboardDelta().
+ */
+export interface ScoreboardDeltaMessage {
+  type: "scoreboard_delta";
+  period: LeaderboardPeriod;
+  periodKey: string;
+  region: Region;
+  ranks: LeaderboardRanks;
+  total: number;
+  rows: ScoreboardRow[];
+  /** userIds of rows that moved out of view or left the board */
+  removed: string[];
+}
+
+/**
+ * This month's team leaderboard, best team first
+ */
+export interface TeamScoreboardMessage {
+  type: "team_scoreboard";
+  /** "YYYY-MM" */
+  month: string;
+  teams: TeamStanding[];
+}
+
+/**
+ * A duel the recipient is in, sent to both users whenever it changes:
+ * when it is created, answered, scored and settled. Open duels are also
+ * sent after "hello".
+ */
+export interface DuelMessage {
+  type: "duel";
+  duel: Duel;
+}
+
+/**
+ * The room's focus session, broadcast when it starts, changes phase, ends
+ * or someone joins or leaves. The running session is also sent after
+ * "hello".
+ */
+export interface FocusSessionMessage {
+  type: "focus_session";
+  event: FocusSessionEvent;
+  session: FocusSession;
+}
+
+/**
+ * A user's productivity streaks, broadcast to the global room whenever
+ * credited blocks change them. A user's own streaks are also sent after
+ * "hello".
+ */
+export interface StreakMessage {
+  type: "streak";
+  userId: string;
+  username: string;
+  streaks: Streaks;
+}
+
+/**
+ * An achievement the recipient just unlocked, sent to each of their
+ * connections to the global room
+ */
+export interface AchievementMessage {
+  type: "achievement";
+  achievement: UserAchievement;
+}
+
+export interface RoomInfoMessage {
+  type: "room_info";
+  room: PartyRoom;
+  members: RoomMember[];
+}
+
+/**
+ * The full roster, sent once a connection may see the room
+ */
+export interface PresenceSnapshotMessage {
+  type: "presence_snapshot";
+  users: PresenceUser[];
+}
+
+/**
+ * A change to the roster. "leave" carries the user's last known entry.
+ */
+export interface PresenceMessage {
+  type: "presence";
+  event: "join" | "leave" | "update";
+  user: PresenceUser;
+}
+
+export interface DebugStateMessage {
+  type: "debug_state";
+  requesterId: string;
+  userState: ConnectionState;
+  userConnectionId: string;
+  allUsers: {
+    id: string;
+    state: ConnectionState;
+    connectionId: string;
+  }[];
+  timestamp: number;
+}
+
+export interface FlaggedUsersMessage {
+  type: "flagged_users";
+  users: FlaggedUser[];
+  /** Start of the report's time window, ms since epoch */
+  since: number;
+}
+
+export interface ModeratedUsersMessage {
+  type: "moderated_users";
+  users: ModeratedUser[];
+}
+
+export interface ErrorMessage {
+  type: "error";
+  code: ErrorCode;
+  message: string;
+  timestamp: number;
+}
+
+export type ServerMessage =
+  | WelcomeMessage
+  | ChatMessage
+  | HistoryMessage
+  | ChatUpdateMessage
+  | ScoreboardMessage
+  | ScoreboardDeltaMessage
+  | TeamScoreboardMessage
+  | DuelMessage
+  | FocusSessionMessage
+  | StreakMessage
+  | AchievementMessage
+  | RoomInfoMessage
+  | PresenceSnapshotMessage
+  | PresenceMessage
+  | DebugStateMessage
+  | FlaggedUsersMessage
+  | ModeratedUsersMessage
+  | ErrorMessage;
+
+/* -------------------------------------------------------------------------- */
+/*                                 Validation                                  */
+/* -------------------------------------------------------------------------- */
+
+type FieldType = "string" | "number" | "boolean" | "array" | "object";
+
+interface FieldSchema {
+  type: FieldType;
+  optional?: boolean;
+  maxLength?: number; // strings only
+  oneOf?: readonly string[]; // strings only
+  maxItems?: number; // arrays only
+  items?: MessageSchema; // arrays of objects only
+}
+
+type MessageSchema = Record<string, FieldSchema>;
+
+/**
+ * Schema table keyed by message type. The mapped type ensures every member
+ * of the union has a schema.
+ */
+type SchemaTable<T extends { type: string }> = {
+  [K in T["type"]]: MessageSchema;
+};
+
+const optionalString: FieldSchema = { type: "string", optional: true };
+const optionalStatus: FieldSchema = {
+  type: "string",
+  optional: true,
+  oneOf: PRESENCE_STATUSES,
+};
+const optionalRegion: FieldSchema = {
+  type: "string",
+  optional: true,
+  oneOf: REGIONS,
+};
+
+const SCORED_BLOCK_SCHEMA: MessageSchema = {
+  id: { type: "string", maxLength: 64 },
+  startTime: { type: "number" },
+  classification: { type: "string", oneOf: BLOCK_CLASSIFICATIONS },
+  activeRatio: { type: "number", optional: true },
+};
+
+const CLIENT_MESSAGE_SCHEMAS: SchemaTable<ClientMessage> = {
+  hello: {
+    protocolVersion: { type: "number" },
+    token: { type: "string", maxLength: 1024 },
+    nickname: { type: "string", optional: true, maxLength: 64 },
+    currentTask: { type: "string", optional: true, maxLength: 256 },
+    role: { type: "string", optional: true, maxLength: 128 },
+    status: optionalStatus,
+    historySince: { type: "number", optional: true },
+    timezone: { type: "string", optional: true, maxLength: 64 },
+    region: optionalRegion,
+    announcements: { type: "boolean", optional: true },
+  },
+  update_profile: {
+    name: { type: "string", optional: true, maxLength: 64 },
+    task: { type: "string", optional: true, maxLength: 256 },
+    role: { type: "string", optional: true, maxLength: 128 },
+    status: optionalStatus,
+    region: optionalRegion,
+    announcements: { type: "boolean", optional: true },
+  },
+  chat: {
+    text: { type: "string", maxLength: MAX_CHAT_LENGTH },
+  },
+  history: {
+    before: { type: "string", optional: true, maxLength: 64 },
+    since: { type: "number", optional: true },
+    limit: { type: "number", optional: true },
+  },
+  edit_message: {
+    id: { type: "string", maxLength: 64 },
+    text: { type: "string", maxLength: MAX_CHAT_LENGTH },
+  },
+  delete_message: {
+    id: { type: "string", maxLength: 64 },
+  },
+  update_score: {
+    blocks: {
+      type: "array",
+      maxItems: MAX_SCORED_BLOCKS,
+      items: SCORED_BLOCK_SCHEMA,
+    },
+  },
+  subscribe_leaderboard: {
+    period: { type: "string", oneOf: LEADERBOARD_PERIODS },
+    region: optionalRegion,
+  },
+  load_scoreboard: {
+    offset: { type: "number" },
+    limit: { type: "number", optional: true },
+  },
+  subscribe_teams: {},
+  duel_challenge: {
+    opponentId: { type: "string", maxLength: 128 },
+    startsAt: { type: "number" },
+    endsAt: { type: "number" },
+  },
+  duel_accept: {
+    duelId: { type: "string", maxLength: 64 },
+  },
+  duel_decline: {
+    duelId: { type: "string", maxLength: 64 },
+  },
+  start_focus_session: {
+    focusMinutes: { type: "number", optional: true },
+    breakMinutes: { type: "number", optional: true },
+    rounds: { type: "number", optional: true },
+  },
+  join_focus_session: {},
+  leave_focus_session: {},
+  end_focus_session: {},
+  get_debug_state: {},
+  clear_messages: {},
+  clear_leaderboard: {},
+  get_flagged_users: {},
+  ban_user: {
+    userId: { type: "string", maxLength: 128 },
+    reason: { type: "string", optional: true, maxLength: 200 },
+  },
+  mute_user: {
+    userId: { type: "string", maxLength: 128 },
+    minutes: { type: "number" },
+    reason: { type: "string", optional: true, maxLength: 200 },
+  },
+  kick_user: {
+    userId: { type: "string", maxLength: 128 },
+    reason: { type: "string", optional: true, maxLength: 200 },
+  },
+  unban_user: {
+    userId: { type: "string", maxLength: 128 },
+  },
+  reset_warnings: {
+    userId: { type: "string", maxLength: 128 },
+  },
+  get_moderated_users: {},
+  set_role: {
+    userId: { type: "string", maxLength: 128 },
+    role: { type: "string", oneOf: ACCESS_ROLES },
+  },
+};
+
+const SERVER_MESSAGE_SCHEMAS: SchemaTable<ServerMessage> = {
+  welcome: {
+    protocolVersion: { type: "number" },
+    connectionId: { type: "string" },
+    userId: { type: "string" },
+    accessRole: { type: "string", oneOf: ACCESS_ROLES },
+  },
+  chat: {
+    id: { type: "string" },
+    userId: { type: "string" },
+    from: { type: "string" },
+    text: { type: "string" },
+    timestamp: { type: "number" },
+    editedAt: { type: "number", optional: true },
+    deletedAt: { type: "number", optional: true },
+    event: { type: "object", optional: true },
+  },
+  history: {
+    direction: { type: "string", oneOf: ["older", "newer"] },
+    messages: { type: "array" },
+    hasMore: { type: "boolean" },
+  },
+  chat_update: {
+    message: { type: "object" },
+  },
+  scoreboard: {
+    period: { type: "string", oneOf: LEADERBOARD_PERIODS },
+    periodKey: { type: "string" },
+    region: { type: "string", oneOf: REGIONS },
+    ranks: { type: "object" },
+    total: { type: "number" },
+    scoreboard: { type: "array" },
+  },
+  scoreboard_delta: {
+    period: { type: "string", oneOf: LEADERBOARD_PERIODS },
+    periodKey: { type: "string" },
+    region: { type: "string", oneOf: REGIONS },
+    ranks: { type: "object" },
+    total: { type: "number" },
+    rows: { type: "array" },
+    removed: { type: "array" },
+  },
+  team_scoreboard: {
+    month: { type: "string" },
+    teams: { type: "array" },
+  },
+  duel: {
+    duel: { type: "object" },
+  },
+  focus_session: {
+    event: {
+      type: "string",
+      oneOf: ["started", "focus", "break", "ended", "updated"],
+    },
+    session: { type: "object" },
+  },
+  streak: {
+    userId: { type: "string" },
+    username: { type: "string" },
+    streaks: { type: "object" },
+  },
+  achievement: {
+    achievement: { type: "object" },
+  },
+  room_info: {
+    room: { type: "object" },
+    members: { type: "array" },
+  },
+  presence_snapshot: {
+    users: { type: "array" },
+  },
+  presence: {
+    event: { type: "string", oneOf: ["join", "leave", "update"] },
+    user: { type: "object" },
+  },
+  debug_state: {
+    requesterId: { type: "string" },
+    userState: { type: "object" },
+    userConnectionId: { type: "string" },
+    allUsers: { type: "array" },
+    timestamp: { type: "number" },
+  },
+  flagged_users: {
+    users: { type: "array" },
+    since: { type: "number" },
+  },
+  moderated_users: {
+    users: { type: "array" },
+  },
+  error: {
+    code: { type: "string" },
+    message: { type: "string" },
+    timestamp: { type: "number" },
+  },
+};
+
+export type ParseResult<T> =
+  | { ok: true; message: T }
+  | { ok: false; code: ErrorCode; error: string };
+
+function matchesType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return (
+        typeof value === "object" && value !== null && !Array.isArray(value)
+      );
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Checks a record's fields against a schema, returning an error describing
+ * the first problem found, or null if it is valid. Arrays with an `items`
+ * schema have each of their elements checked too.
+ */
+function validateFields(
+  record: Record<string, unknown>,
+  schema: MessageSchema,
+  path: string
+): string | null {
+  for (const [field, spec] of Object.entries(schema)) {
+    const value = record[field];
+    if (value === undefined || value === null) {
+      if (spec.optional) continue;
+      return `"${path}" is missing required field "${field}"`;
+    }
+    if (!matchesType(value, spec.type)) {
+      return `"${path}.${field}" must be of type ${spec.type}`;
+    }
+    if (
+      spec.maxLength !== undefined &&
+      typeof value === "string" &&
+      value.length > spec.maxLength
+    ) {
+      return `"${path}.${field}" exceeds ${spec.maxLength} characters`;
+    }
+    if (spec.oneOf && !spec.oneOf.includes(value as string)) {
+      return `"${path}.${field}" must be one of ${spec.oneOf.join(", ")}`;
+    }
+    if (Array.isArray(value)) {
+      if (spec.maxItems !== undefined && value.length > spec.maxItems) {
+        return `"${path}.${field}" exceeds ${spec.maxItems} items`;
+      }
+      if (spec.items) {
+        for (let i = 0; i < value.length; i++) {
+          const item = value[i];
+          const itemPath = `${path}.${field}[${i}]`;
+          if (!matchesType(item, "object")) {
+            return `"${itemPath}" must be of type object`;
+          }
+          const error = validateFields(
+            item as Record<string, unknown>,
+            spec.items,
+            itemPath
+          );
+          if (error) return error;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Validates an already parsed message against a schema table
+ */
+function validateMessage<T extends { type: string }>(
+  data: unknown,
+  schemas: SchemaTable<T>
+): ParseResult<T> {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return {
+      ok: false,
+      code: "invalid_message",
+      error: "Message must be an object",
+    };
+  }
+
+  const record = data as Record<string, unknown>;
+  const type = record.type;
+  if (typeof type !== "string" || !Object.hasOwn(schemas, type)) {
+    return {
+      ok: false,
+      code: "invalid_message",
+      error: `Unknown message type: ${String(type)}`,
+    };
+  }
+
+  const error = validateFields(record, schemas[type as T["type"]], type);
+  if (error) {
+    return { ok: false, code: "invalid_message", error };
+  }
+
+  return { ok: true, message: record as unknown as T };
+}
+
+/**
+ * Validates a raw frame against a schema table
+ */
+function parseMessage<T extends { type: string }>(
+  raw: string,
+  schemas: SchemaTable<T>
+): ParseResult<T> {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return {
+      ok: false,
+      code: "invalid_message",
+      error: "Message is not valid JSON",
+    };
+  }
+  return validateMessage(data, schemas);
+}
+
+/**
+ * Parses and validates a frame received by the server
+ */
+export function parseClientMessage(raw: string): ParseResult<ClientMessage> {
+  return parseMessage(raw, CLIENT_MESSAGE_SCHEMAS);
+}
+
+/**
+ * Validates a client message that arrived some other way than a socket
+ * frame, such as the JSON body of an HTTP request
+ */
+export function validateClientMessage(
+  data: unknown
+): ParseResult<ClientMessage> {
+  return validateMessage(data, CLIENT_MESSAGE_SCHEMAS);
+}
+
+/**
+ * Parses and validates a frame received by a client
+ */
+export function parseServerMessage(raw: string): ParseResult<ServerMessage> {
+  return parseMessage(raw, SERVER_MESSAGE_SCHEMAS);
+}
+
+/**
+ * Picks the protocol version to use with a client, or null if the client
+ * is too old (or too new) to be served.
+ */
+export function negotiateProtocolVersion(
+  clientVersion: number
+): number | null {
+  if (
+    !Number.isInteger(clientVersion) ||
+    clientVersion < MIN_PROTOCOL_VERSION
+  ) {
+    return null;
+  }
+  return Math.min(clientVersion, PROTOCOL_VERSION);
+}
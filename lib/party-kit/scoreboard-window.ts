@@ -0,0 +1,141 @@
+/**
+ * @file scoreboard-window.ts
+ * @description
+ * Works out which rows of a leaderboard a client is sent, and how to patch
+ * them as the board changes. The party server sends each client the top of
+ * the board, the rows around the client's own rank and any pages it loaded,
+ * then only the rows that changed in "scoreboard_delta" messages.
+ *
+ * Key Exports:
+ * - SCOREBOARD_TOP_SIZE / SCOREBOARD_WINDOW_SIZE: The rows every client gets
+ * - SCOREBOARD_PAGE_SIZE / MAX_SCOREBOARD_PAGE_SIZE: Rows per loaded page
+ * - RowRange: A page of rows loaded with "load_scoreboard"
+ * - visibleIndexes(): The rows of a board a client should have
+ * - addRange(): Remembers a loaded page, forgetting the oldest ones
+ * - diffScoreboard(): The patch from the rows a client has to the ones it
+ *   should have
+ * - applyScoreboardDelta(): Applies a patch on the client
+ *
+ * @notes
+ * - Rows are identified by userId. A patch carries every row whose rank
+ *   changed, so a user climbing a place also moves the user they passed.
+ */
+
+import type { ScoreboardDeltaMessage, ScoreboardRow } from "./protocol";
+
+// Rows at the top of the board every client is sent
+export const SCOREBOARD_TOP_SIZE = 20;
+
+// Rows above and below the client's own rank it is sent
+export const SCOREBOARD_WINDOW_SIZE = 5;
+
+// Default and max number of rows in one loaded page
+export const SCOREBOARD_PAGE_SIZE = 50;
+export const MAX_SCOREBOARD_PAGE_SIZE = 100;
+
+// Loaded pages beyond this many rows forget the oldest ones
+const MAX_LOADED_ROWS = 500;
+
+export interface RowRange {
+  /** Index of the first row, 0 being the top */
+  offset: number;
+  limit: number;
+}
+
+/**
+ * The indexes of the rows a client should have, in order: the top of the
+ * board, the rows around its user (if they are on the board) and its
+ * loaded pages
+ *
+ * @param total How many rows the board has
+ * @param userIndex Where the client's user is on the board, or null
+ * @param loaded Pages the client loaded
+ */
+export function visibleIndexes(
+  total: number,
+  userIndex: number | null,
+  loaded: RowRange[]
+): number[] {
+  const indexes = new Set<number>();
+  const addRows = (from: number, to: number) => {
+    for (let i = Math.max(0, from); i < Math.min(total, to); i++) {
+      indexes.add(i);
+    }
+  };
+
+  addRows(0, SCOREBOARD_TOP_SIZE);
+  if (userIndex !== null) {
+    addRows(
+      userIndex - SCOREBOARD_WINDOW_SIZE,
+      userIndex + SCOREBOARD_WINDOW_SIZE + 1
+    );
+  }
+  for (const range of loaded) {
+    addRows(range.offset, range.offset + range.limit);
+  }
+
+  return Array.from(indexes).sort((a, b) => a - b);
+}
+
+/**
+ * Adds a page to the ones a client loaded. Once they add up to more than
+ * MAX_LOADED_ROWS rows the oldest pages are forgotten, and their rows
+ * dropped from the client with the next patch.
+ */
+export function addRange(loaded: RowRange[], range: RowRange): RowRange[] {
+  const next = [...loaded, range];
+  let rows = next.reduce((sum, { limit }) => sum + limit, 0);
+  while (rows > MAX_LOADED_ROWS && next.length > 1) {
+    rows -= next.shift()!.limit;
+  }
+  return next;
+}
+
+/**
+ * The patch that turns the rows a client has into the ones it should have
+ *
+ * @param sent The rows the client has, by userId
+ * @param next The rows it should have
+ * @returns Rows that are new or changed, and userIds of rows to drop
+ */
+export function diffScoreboard(
+  sent: ReadonlyMap<string, ScoreboardRow>,
+  next: ScoreboardRow[]
+): { rows: ScoreboardRow[]; removed: string[] } {
+  const nextIds = new Set(next.map((row) => row.userId));
+
+  const rows = next.filter((row) => {
+    const previous = sent.get(row.userId);
+    return (
+      !previous ||
+      previous.rank !== row.rank ||
+      previous.score !== row.score ||
+      previous.username !== row.username ||
+      previous.region !== row.region ||
+      previous.dailyStreak !== row.dailyStreak ||
+      previous.flowStreak !== row.flowStreak
+    );
+  });
+  const removed = Array.from(sent.keys()).filter((id) => !nextIds.has(id));
+
+  return { rows, removed };
+}
+
+/**
+ * Applies a "scoreboard_delta" to the rows a client has
+ *
+ * @returns A new list of rows, sorted by rank
+ */
+export function applyScoreboardDelta(
+  rows: ScoreboardRow[],
+  delta: Pick<ScoreboardDeltaMessage, "rows" | "removed">
+): ScoreboardRow[] {
+  const byUser = new Map(rows.map((row) => [row.userId, row]));
+  for (const userId of delta.removed) {
+    byUser.delete(userId);
+  }
+  for (const row of delta.rows) {
+    byUser.set(row.userId, row);
+  }
+  return Array.from(byUser.values()).sort((a, b) => a.rank - b.rank);
+}
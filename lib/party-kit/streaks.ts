@@ -0,0 +1,170 @@
+/**
+ * @file streaks.ts
+ * @description
+ * Works out productivity streaks from credited blocks. The party server
+ * keeps a StreakState per user and folds every credited submission into
+ * it; streaksAt() turns it into the numbers shown to users.
+ *
+ * Key Exports:
+ * - DAILY_STREAK_MIN_BLOCKS: Productive blocks a day needs to count
+ * - FLOW_GAP_MS: Slack between blocks that still counts as consecutive
+ * - StreakState: What the server stores per user
+ * - StreakRecord: The part of it saved to Supabase for every room to read
+ * - emptyStreakState(): The state of a user without streaks
+ * - addBlocks(): Folds credited blocks into a state
+ * - streaksAt(): A user's streaks at a given moment
+ *
+ * @notes
+ * - Days are local dates in the user's timezone, like the daily
+ *   leaderboard. A flow run ends at midnight.
+ * - Blocks often arrive late, and out of order across submissions. A day
+ *   that reaches DAILY_STREAK_MIN_BLOCKS late still extends the streak
+ *   when it borders it, but blocks older than the latest flow run are left
+ *   out of flow streaks.
+ */
+
+import type { BlockClassification } from "./protocol";
+import { BLOCK_DURATION_MS } from "./block-scoring";
+import { addDays, localDate } from "./leaderboard-periods";
+import type { Streaks } from "@/lib/types/streak-types";
+
+/**
+ * Productive blocks (30 minutes) a day needs to count towards the daily
+ * streak
+ */
+export const DAILY_STREAK_MIN_BLOCKS = 6;
+
+/**
+ * A block starting this long after the previous one ended still continues
+ * a flow run, to allow for clock jitter
+ */
+export const FLOW_GAP_MS = 60 * 1000;
+
+// Productive blocks are counted for the newest day and this many before
+// it, which covers the credit window
+const COUNTED_DAYS = 3;
+
+interface StreakBlock {
+  startTime: number;
+  classification: BlockClassification;
+}
+
+export interface StreakState {
+  /** The user's timezone when they last scored */
+  timeZone: string;
+  /** Productive blocks credited per local date, for the last few days */
+  dayBlocks: Record<string, number>;
+  /** The latest run of days that counted: its last day and its length */
+  dailyTo: string | null;
+  daily: number;
+  bestDaily: number;
+  /** The latest flow run: its day, when its last block ended, its length */
+  flowDate: string | null;
+  flowEndsAt: number;
+  flow: number;
+  bestFlow: number;
+}
+
+export type StreakRecord = Omit<StreakState, "dayBlocks" | "flowEndsAt">;
+
+export function emptyStreakState(timeZone: string): StreakState {
+  return {
+    timeZone,
+    dayBlocks: {},
+    dailyTo: null,
+    daily: 0,
+    bestDaily: 0,
+    flowDate: null,
+    flowEndsAt: 0,
+    flow: 0,
+    bestFlow: 0,
+  };
+}
+
+// Adds a day that just reached DAILY_STREAK_MIN_BLOCKS to the daily run
+function countDay(state: StreakState, day: string) {
+  if (state.dailyTo === null || day > addDays(state.dailyTo, 1)) {
+    state.dailyTo = day;
+    state.daily = 1;
+  } else if (day === addDays(state.dailyTo, 1)) {
+    state.dailyTo = day;
+    state.daily += 1;
+  } else if (day === addDays(state.dailyTo, -state.daily)) {
+    // The day before the run started, submitted late
+    state.daily += 1;
+  }
+  // Otherwise the day is older than the run and doesn't border it
+  state.bestDaily = Math.max(state.bestDaily, state.daily);
+}
+
+/**
+ * Folds newly credited blocks into a user's streaks. Blocks are dated in
+ * the given timezone.
+ *
+ * @returns The new state; the one passed in is left as it was
+ */
+export function addBlocks(
+  state: StreakState,
+  blocks: StreakBlock[],
+  timeZone: string
+): StreakState {
+  const next: StreakState = {
+    ...state,
+    timeZone,
+    dayBlocks: { ...state.dayBlocks },
+  };
+
+  const sorted = [...blocks].sort((a, b) => a.startTime - b.startTime);
+  for (const block of sorted) {
+    const day = localDate(block.startTime, timeZone);
+    const productive = block.classification === "productive";
+
+    if (productive) {
+      const count = (next.dayBlocks[day] ?? 0) + 1;
+      next.dayBlocks[day] = count;
+      if (count === DAILY_STREAK_MIN_BLOCKS) {
+        countDay(next, day);
+      }
+    }
+
+    // Only blocks after the latest flow run can extend or break it
+    if (block.startTime < next.flowEndsAt) continue;
+    const continues =
+      day === next.flowDate &&
+      block.startTime - next.flowEndsAt <= FLOW_GAP_MS;
+    next.flow = productive ? (continues ? next.flow + 1 : 1) : 0;
+    next.flowDate = day;
+    next.flowEndsAt = block.startTime + BLOCK_DURATION_MS;
+    next.bestFlow = Math.max(next.bestFlow, next.flow);
+  }
+
+  // Forget the counts of days too old to be credited any more
+  const days = Object.keys(next.dayBlocks).sort();
+  if (days.length > 0) {
+    const oldest = addDays(days[days.length - 1], -COUNTED_DAYS);
+    for (const day of days) {
+      if (day < oldest) delete next.dayBlocks[day];
+    }
+  }
+
+  return next;
+}
+
+/**
+ * A user's streaks at `now` in their timezone. The daily streak holds
+ * until the end of the day after its last day, the flow streak until
+ * midnight.
+ */
+export function streaksAt(state: StreakRecord, now: number): Streaks {
+  const today = localDate(now, state.timeZone);
+  return {
+    daily:
+      state.dailyTo !== null && state.dailyTo >= addDays(today, -1)
+        ? state.daily
+        : 0,
+    bestDaily: state.bestDaily,
+    flow: state.flowDate === today ? state.flow : 0,
+    bestFlow: state.bestFlow,
+    lastDay: state.dailyTo,
+  };
+}
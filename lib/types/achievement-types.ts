@@ -0,0 +1,125 @@
+/**
+ * @file achievement-types.ts
+ * @description
+ * Declares the shapes used for achievements: badges users unlock by
+ * scoring, keeping streaks, joining focus sessions, winning duels, chatting
+ * and climbing the monthly leaderboard, shown on the productivity page and
+ * the leaderboard.
+ *
+ * Key Exports:
+ * - AchievementStat: A number the party server tracks per user
+ * - AchievementRule: When an achievement unlocks
+ * - Achievement: An achievement users can unlock
+ * - AchievementStats: A user's tracked numbers
+ * - AchievementStatUpdate: A change to a user's tracked numbers
+ * - AchievementUnlock: An unlock as stored in the achievements table
+ * - UserAchievement: An achievement a user unlocked, with when
+ * - AchievementProgress: How far a user is towards an achievement
+ *
+ * @notes
+ * - The party server unlocks achievements and stores them in Supabase, so
+ *   they follow users across machines. The definitions live in
+ *   lib/party-kit/achievements.ts.
+ */
+
+/**
+ * A number the party server tracks per user to decide unlocks:
+ * - monthlyScore: Best monthly score
+ * - monthlyRank: Best rank on a monthly leaderboard (lower is better)
+ * - dailyStreak / flowStreak: Longest daily and flow streak
+ * - focusSessions: Group focus sessions joined
+ * - duelWins: Focus duels won
+ * - chatMessages: Chat messages sent
+ * - "hour:HH": Productive blocks credited in that local hour ("hour:07")
+ */
+export type AchievementStat =
+  | "monthlyScore"
+  | "monthlyRank"
+  | "dailyStreak"
+  | "flowStreak"
+  | "focusSessions"
+  | "duelWins"
+  | "chatMessages"
+  | `hour:${string}`;
+
+/**
+ * When an achievement unlocks
+ */
+export type AchievementRule =
+  | {
+      /** Unlocks once the stat reaches `atLeast` */
+      stat: Exclude<AchievementStat, "monthlyRank" | `hour:${string}`>;
+      atLeast: number;
+    }
+  | {
+      /** Unlocks with a monthly rank of `atMost` or better */
+      stat: "monthlyRank";
+      atMost: number;
+    }
+  | {
+      /**
+       * Unlocks after `atLeast` productive blocks starting from `fromHour`
+       * up to (not including) `toHour`, in the user's timezone
+       */
+      stat: "productiveBlocks";
+      fromHour: number;
+      toHour: number;
+      atLeast: number;
+    };
+
+/**
+ * An achievement users can unlock
+ */
+export interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  rule: AchievementRule;
+}
+
+/**
+ * A user's tracked numbers, as stored in the "progress" column of their
+ * row. Stats they never had are missing.
+ */
+export type AchievementStats = Partial<Record<AchievementStat, number>>;
+
+/**
+ * A change to a user's tracked numbers: counts to add, and values that
+ * only count if they are a new best (highest, or lowest for ranks)
+ */
+export interface AchievementStatUpdate {
+  add?: AchievementStats;
+  max?: AchievementStats;
+  min?: AchievementStats;
+}
+
+/**
+ * An unlock as stored in the "achievements" column of a user's row
+ */
+export interface AchievementUnlock {
+  id: string;
+  /** ms since epoch */
+  unlockedAt: number;
+}
+
+/**
+ * An achievement a user unlocked
+ */
+export interface UserAchievement extends Achievement {
+  unlockedAt: number;
+}
+
+/**
+ * How far a user is towards an achievement, e.g. 7 of 10 for a score of 7
+ * towards Rookie Achiever
+ */
+export interface AchievementProgress extends Achievement {
+  /**
+   * The user's stat, capped at `target`. For rank rules it is the best
+   * rank so far (0 for never ranked), and `target` the rank needed.
+   */
+  current: number;
+  target: number;
+  /** ms since epoch, null while locked */
+  unlockedAt: number | null;
+}
@@ -0,0 +1,70 @@
+/**
+ * @file duel-types.ts
+ * @description
+ * Declares the shapes used for focus duels: two users racing for the best
+ * score over a time window they agreed on, e.g. from 2pm to 5pm.
+ *
+ * Key Exports:
+ * - DuelStatus: Where a duel stands
+ * - Duel: A duel as sent to its two users
+ * - DuelRecord: A user's duel results, shown on the profile page
+ *
+ * @notes
+ * - Duels are negotiated over the party protocol ("duel_challenge",
+ *   "duel_accept", "duel_decline") and kept up to date with "duel"
+ *   messages. Finished duels are stored in Supabase for the duel record.
+ */
+
+/**
+ * Where a duel stands. "pending" until the opponent answers, and
+ * "expired" if they never did before the window ended.
+ */
+export type DuelStatus =
+  | "pending"
+  | "accepted"
+  | "declined"
+  | "expired"
+  | "finished";
+
+/**
+ * A duel as sent to its two users
+ */
+export interface Duel {
+  id: string;
+  challengerId: string;
+  challengerName: string;
+  opponentId: string;
+  opponentName: string;
+
+  /**
+   * The window in which credited blocks count, ms since epoch. A block
+   * counts if it starts in [startsAt, endsAt).
+   */
+  startsAt: number;
+  endsAt: number;
+
+  status: DuelStatus;
+
+  /**
+   * Score each user earned during the window so far.
+   */
+  challengerScore: number;
+  opponentScore: number;
+
+  /**
+   * Set once the duel is finished. Null for a tie.
+   */
+  winnerId: string | null;
+
+  createdAt: number;
+}
+
+/**
+ * A user's finished duels, newest first, with their overall record
+ */
+export interface DuelRecord {
+  wins: number;
+  losses: number;
+  ties: number;
+  recent: Duel[];
+}
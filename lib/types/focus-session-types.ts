@@ -0,0 +1,74 @@
+/**
+ * @file focus-session-types.ts
+ * @description
+ * Declares the shapes used for group focus sessions: a shared Pomodoro
+ * timer that everyone in the global room can join.
+ *
+ * Key Exports:
+ * - FocusPhase: Whether a session is focusing or on a break
+ * - FocusSessionParticipant: Someone who joined a session
+ * - FocusSession: A session as sent to clients
+ * - FocusSessionEvent: What changed, carried by "focus_session" messages
+ *
+ * @notes
+ * - The party server holds the timer. Phases follow from the start time and
+ *   the intervals, see lib/party-kit/focus-session.ts.
+ */
+
+/**
+ * Whether a session is focusing or on a break
+ */
+export type FocusPhase = "focus" | "break";
+
+/**
+ * Someone who joined a session
+ */
+export interface FocusSessionParticipant {
+  userId: string;
+  username: string;
+  /** When they (last) joined, ms since epoch */
+  joinedAt: number;
+  /** Set when they left before the end */
+  leftAt?: number;
+}
+
+/**
+ * A group focus session as sent to clients
+ */
+export interface FocusSession {
+  id: string;
+  hostId: string;
+  hostName: string;
+
+  /**
+   * Length of each focus phase and each break, in ms.
+   */
+  focusMs: number;
+  breakMs: number;
+
+  /**
+   * How many focus phases the session has. There's a break between each
+   * of them but none after the last.
+   */
+  rounds: number;
+
+  startedAt: number;
+
+  /**
+   * Set when the session ended, on schedule or because the host ended it.
+   */
+  endedAt: number | null;
+
+  participants: FocusSessionParticipant[];
+}
+
+/**
+ * What changed about a session: it "started", a "focus" or "break" phase
+ * began, it "ended", or someone joined or left ("updated")
+ */
+export type FocusSessionEvent =
+  | "started"
+  | "focus"
+  | "break"
+  | "ended"
+  | "updated";
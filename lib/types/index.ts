@@ -11,3 +11,12 @@ export * from "./user-types";
 export * from "./scoreboard-types";
 export * from "./productivity-types";
 export * from "./settings-types";
+export * from "./room-types";
+export * from "./region-types";
+export * from "./team-types";
+export * from "./duel-types";
+export * from "./focus-session-types";
+export * from "./streak-types";
+export * from "./achievement-types";
+export * from "./role-types";
+export * from "./moderation-types";
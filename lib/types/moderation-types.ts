@@ -0,0 +1,29 @@
+/**
+ * @file moderation-types.ts
+ * @description
+ * Declares the chat restrictions and warnings moderators manage from the
+ * debug page's moderation panel.
+ *
+ * Key Exports:
+ * - ChatRestriction: A ban or timed mute keeping a user out of chat
+ * - ModeratedUser: A user with a chat restriction or warnings
+ *
+ * @notes
+ * - Restrictions live in the Supabase banned table, warnings in
+ *   user_warnings. See lib/party-kit/moderation.ts for how they expire.
+ */
+
+export interface ChatRestriction {
+  reason: string;
+  /** When a mute ends, ms since epoch. null for a ban, which never ends. */
+  until: number | null;
+}
+
+export interface ModeratedUser {
+  userId: string;
+  /** Known if the user has been warned or is connected to the room */
+  username: string | null;
+  /** Flagged messages, after decay */
+  warnings: number;
+  restriction: ChatRestriction | null;
+}
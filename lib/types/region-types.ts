@@ -0,0 +1,53 @@
+/**
+ * @file region-types.ts
+ * @description
+ * Declares the regions users can pick on their profile. The party server
+ * stores each user's region and ranks them on a regional leaderboard next
+ * to the global one.
+ *
+ * Key Exports:
+ * - GLOBAL_REGION: The region of users who haven't picked one
+ * - Region: The regions a user can pick
+ * - REGIONS: Every region, in the order they are offered
+ * - REGION_LABELS: Display names of the regions
+ *
+ * @notes
+ * - Users in GLOBAL_REGION only appear on the global leaderboard.
+ */
+
+/**
+ * The region of users who haven't picked one
+ */
+export const GLOBAL_REGION = "global";
+
+export type Region =
+  | typeof GLOBAL_REGION
+  | "north_america"
+  | "south_america"
+  | "europe"
+  | "africa"
+  | "middle_east"
+  | "asia"
+  | "oceania";
+
+export const REGIONS: readonly Region[] = [
+  GLOBAL_REGION,
+  "north_america",
+  "south_america",
+  "europe",
+  "africa",
+  "middle_east",
+  "asia",
+  "oceania",
+];
+
+export const REGION_LABELS: Record<Region, string> = {
+  global: "No region",
+  north_america: "North America",
+  south_america: "South America",
+  europe: "Europe",
+  africa: "Africa",
+  middle_east: "Middle East",
+  asia: "Asia",
+  oceania: "Oceania",
+};
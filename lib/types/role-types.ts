@@ -0,0 +1,47 @@
+/**
+ * @file role-types.ts
+ * @description
+ * Declares the access roles users can hold on the party server, and the
+ * privileged operations each role may perform. Not to be confused with the
+ * job role users describe on their profile.
+ *
+ * Key Exports:
+ * - AccessRole: What a user may do beyond chatting and scoring
+ * - ACCESS_ROLES: Every access role, most powerful first
+ * - ACCESS_ROLE_LABELS: Display names of the access roles
+ * - Permission: A privileged operation
+ *
+ * @notes
+ * - Roles are granted in the Supabase user_roles table, or by an admin
+ *   with "set_role". Users without a row are members.
+ * - Which roles hold which permissions is in lib/party-kit/permissions.ts.
+ */
+
+export type AccessRole = "admin" | "moderator" | "member";
+
+export const ACCESS_ROLES: readonly AccessRole[] = [
+  "admin",
+  "moderator",
+  "member",
+];
+
+export const ACCESS_ROLE_LABELS: Record<AccessRole, string> = {
+  admin: "Admin",
+  moderator: "Moderator",
+  member: "Member",
+};
+
+export type Permission =
+  | "view_debug_state"
+  | "view_flagged_users"
+  | "edit_any_message"
+  | "delete_any_message"
+  | "ban_user"
+  | "mute_user"
+  | "kick_user"
+  | "unban_user"
+  | "reset_warnings"
+  | "view_moderated_users"
+  | "set_role"
+  | "clear_messages"
+  | "clear_leaderboard";
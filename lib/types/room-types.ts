@@ -0,0 +1,68 @@
+/**
+ * @file room-types.ts
+ * @description
+ * Declares the shapes used for named party rooms. Each room maps 1:1 to a
+ * PartyKit room id, so chat history, connected members and the scoped
+ * leaderboard all live with that room.
+ *
+ * Key Exports:
+ * - GLOBAL_ROOM_ID: The id of the public room everyone joins by default
+ * - RoomKind: The kinds of rooms a user can create
+ * - PartyRoom: A room as listed in the room directory
+ * - RoomMember: A member of a room as sent to clients
+ *
+ * @notes
+ * - The global room is implicit, it has no row in the `rooms` table.
+ */
+
+/**
+ * The public room every client connects to unless another room is selected.
+ * Score updates over HTTP are also posted to this room.
+ */
+export const GLOBAL_ROOM_ID = "chat";
+
+/**
+ * "team" and "project" rooms are listed in the directory and open to anyone,
+ * "private" rooms are only visible to members and require an invite code.
+ */
+export type RoomKind = "public" | "team" | "project" | "private";
+
+/**
+ * A room as listed in the room directory.
+ */
+export interface PartyRoom {
+  /**
+   * The PartyKit room id.
+   */
+  id: string;
+
+  /**
+   * Display name chosen by the creator.
+   */
+  name: string;
+
+  kind: RoomKind;
+
+  /**
+   * The user who created the room.
+   */
+  ownerId: string;
+
+  /**
+   * Only sent to members of private rooms, so they can invite others.
+   */
+  inviteCode?: string;
+}
+
+/**
+ * A member of a room, as included in "room_info" messages.
+ */
+export interface RoomMember {
+  userId: string;
+  username: string;
+
+  /**
+   * Whether the member currently has an open connection to the room.
+   */
+  online: boolean;
+}
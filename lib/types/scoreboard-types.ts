@@ -5,12 +5,16 @@
  *
  * Key Exports:
  * - ScoreboardEntry: Basic structure for a row in a global leaderboard
+ * - ScoreEvent: One entry in a user's score ledger
+ * - MonthArchive: A past month's frozen final standings
  *
  * @notes
  * - This can be stored in ephemeral memory, local storage, or parted out
  *   to a real database in future expansions.
  */
 
+import type { Region } from "./region-types";
+
 /**
  * Represents a single entry on a leaderboard, storing the user's nickname,
  * current score, rank, and an ID if needed.
@@ -37,3 +41,74 @@ export interface ScoreboardEntry {
    */
   rank: number;
 }
+
+/**
+ * Where a score change came from: a WebSocket "update_score", an HTTP
+ * submission from the app's server actions, or an administrator
+ */
+export type ScoreEventSource = "ws" | "http" | "admin";
+
+/**
+ * What the server did with a submission: credited it in full, cut it down
+ * in the anti-cheat checks, or refused it
+ */
+export type ScoreDecision = "applied" | "clamped" | "rejected";
+
+/**
+ * One entry in a user's score ledger (the score_events table). Every
+ * submission gets one, so the monthly total can be explained.
+ */
+export interface ScoreEvent {
+  /** What was actually added to the score */
+  delta: number;
+
+  /** What the submitted blocks were worth */
+  requestedDelta: number;
+
+  source: ScoreEventSource;
+
+  /** The productivity blocks the submission covered */
+  blockIds: string[];
+
+  decision: ScoreDecision;
+
+  /** Why part or all of the submission wasn't credited, if it wasn't */
+  reason: string | null;
+
+  /** When the server handled the submission, ms since epoch */
+  timestamp: number;
+
+  /**
+   * The user's calendar date at that moment ("YYYY-MM-DD"), which decides
+   * the day and week the event counts towards
+   */
+  localDate: string;
+}
+
+/**
+ * A user's final place in a past month. Tied scores share a rank.
+ */
+export interface ArchivedStanding {
+  rank: number;
+  userId: string;
+  username: string;
+  score: number;
+  region: Region;
+}
+
+/**
+ * A past month's final standings, frozen when the month rolled over
+ */
+export interface MonthArchive {
+  /** "YYYY-MM" */
+  month: string;
+
+  /** When the standings were frozen, ms since epoch */
+  frozenAt: number;
+
+  /** How many users scored that month */
+  players: number;
+
+  /** The top of the standings, best first */
+  standings: ArchivedStanding[];
+}
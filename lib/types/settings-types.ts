@@ -4,10 +4,14 @@ Type definitions for plugin settings.
 </ai_context>
 <recent_changes>
 Created PipeSettings interface to define the structure of our plugin settings.
+Added the region picked on the profile page.
+Added the choice to announce the user's milestones in chat.
+Removed the debug key; admin access now comes from the user's access role.
 </recent_changes>
 */
 
 import { ProductivityBlock } from "./productivity-types";
+import type { Region } from "./region-types";
 
 /**
  * Represents the structure of settings stored under customSettings.pipe
@@ -21,6 +25,13 @@ export interface PipeSettings {
   nickname?: string;
   currentTask?: string;
   role?: string;
+  region?: Region;
+  // Whether achievements, rank-ups and streak milestones are announced in
+  // chat. Defaults to true.
+  announcements?: boolean;
+
+  // The party room last selected in chat or leaderboard
+  activeRoomId?: string;
 
   // App configuration
   prompt?: string;
@@ -32,9 +43,6 @@ export interface PipeSettings {
   analysisTimeWindow?: number;
   deduplicationEnabled?: boolean;
 
-  // Debug settings
-  debugKey?: string;
-
   // Any other plugin-specific settings
   [key: string]: any;
 }
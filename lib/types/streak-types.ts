@@ -0,0 +1,30 @@
+/**
+ * @file streak-types.ts
+ * @description
+ * Declares the productivity streaks the party server keeps for each user:
+ * days in a row with enough productive time, and runs of consecutive
+ * productive blocks within a day ("flow").
+ *
+ * Key Exports:
+ * - Streaks: A user's streaks as shown on the leaderboard and the
+ *   productivity page
+ *
+ * @notes
+ * - Streaks are worked out from credited blocks only, by the global room
+ *   (see lib/party-kit/streaks.ts), and sent in "streak" messages.
+ */
+
+/**
+ * A user's streaks at a given moment. Current streaks that were broken
+ * are 0, the best ones never go down.
+ */
+export interface Streaks {
+  /** Days in a row, ending today or yesterday, with enough productive time */
+  daily: number;
+  bestDaily: number;
+  /** Consecutive productive blocks in today's latest run */
+  flow: number;
+  bestFlow: number;
+  /** The last day ("YYYY-MM-DD") that counted towards the daily streak */
+  lastDay: string | null;
+}
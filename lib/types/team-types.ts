@@ -0,0 +1,63 @@
+/**
+ * @file team-types.ts
+ * @description
+ * Declares the shapes used for teams. Teams compete on their own monthly
+ * leaderboard, scored from the monthly scores of their members.
+ *
+ * Key Exports:
+ * - Team: A team as sent to its members
+ * - TeamMember: A member of a team and their score this month
+ * - TeamStanding: A row of the team leaderboard
+ *
+ * @notes
+ * - A user is in at most one team per month. They stay in it in later
+ *   months until they join another one.
+ */
+
+/**
+ * A team as sent to its members
+ */
+export interface Team {
+  id: string;
+
+  /**
+   * Display name chosen by the creator.
+   */
+  name: string;
+
+  /**
+   * The user who created the team.
+   */
+  ownerId: string;
+
+  /**
+   * Shared by members to invite others.
+   */
+  inviteCode: string;
+}
+
+/**
+ * A member of a team and their score this month
+ */
+export interface TeamMember {
+  userId: string;
+  username: string;
+  score: number;
+}
+
+/**
+ * A row of the team leaderboard. A team's score is its members' total
+ * divided by how many of them scored this month, so idle members don't
+ * count against it and size alone doesn't win.
+ */
+export interface TeamStanding {
+  /** 1 being the top */
+  rank: number;
+  teamId: string;
+  name: string;
+  members: number;
+  /** Members who scored this month */
+  activeMembers: number;
+  totalScore: number;
+  score: number;
+}
@@ -0,0 +1,76 @@
+/*
+<ai_context>
+Keeps pending achievement stat updates in room storage until they are
+written to Supabase, so they survive the room being hibernated or evicted.
+</ai_context>
+<recent_changes>
+Created AchievementQueue for rule-based achievements.
+Pending updates carry the username, for announcing unlocks in chat.
+</recent_changes>
+*/
+
+import type * as Party from "partykit/server";
+import type { AchievementStatUpdate } from "@/lib/types/achievement-types";
+import { mergeStatUpdates } from "@/lib/party-kit/achievements";
+
+export interface PendingStatUpdate {
+  username: string; // as of the latest update
+  update: AchievementStatUpdate;
+}
+
+// Pending updates, one key per user: "achievement:<userId>"
+const KEY_PREFIX = "achievement:";
+
+export class AchievementQueue {
+  constructor(private storage: Party.Storage) {}
+
+  /**
+   * Merges an update into the user's pending one
+   */
+  async add(
+    userId: string,
+    username: string,
+    update: AchievementStatUpdate
+  ): Promise<void> {
+    const key = `${KEY_PREFIX}${userId}`;
+    const pending = await this.storage.get<PendingStatUpdate>(key);
+    await this.storage.put(key, {
+      username,
+      update: pending ? mergeStatUpdates(pending.update, update) : update,
+    });
+  }
+
+  /**
+   * Removes every pending update and returns them by user. Updates queued
+   * from now on wait for the next flush.
+   */
+  async take(): Promise<Map<string, PendingStatUpdate>> {
+    const pending = await this.storage.list<PendingStatUpdate>({
+      prefix: KEY_PREFIX,
+    });
+    if (pending.size > 0) {
+      await this.storage.delete(Array.from(pending.keys()));
+    }
+    return new Map(
+      Array.from(pending, ([key, update]) => [
+        key.slice(KEY_PREFIX.length),
+        update,
+      ])
+    );
+  }
+
+  /**
+   * Puts updates that failed to be written back in the queue, merged with
+   * anything queued since
+   */
+  async restore(updates: Map<string, PendingStatUpdate>): Promise<void> {
+    for (const [userId, { username, update }] of updates) {
+      const key = `${KEY_PREFIX}${userId}`;
+      const pending = await this.storage.get<PendingStatUpdate>(key);
+      await this.storage.put(key, {
+        username: pending?.username ?? username,
+        update: pending ? mergeStatUpdates(update, pending.update) : update,
+      });
+    }
+  }
+}
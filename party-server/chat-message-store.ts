@@ -0,0 +1,257 @@
+/*
+<ai_context>
+Persists a room's chat history in Durable Object storage, one key per
+message, so writes don't rewrite the whole history.
+</ai_context>
+<recent_changes>
+Created ChatMessageStore, replacing the single "messages" array key.
+Edits and deletes are indexed by time, so reconnecting clients get them.
+</recent_changes>
+*/
+
+import type * as Party from "partykit/server";
+import {
+  SYSTEM_USER_ID,
+  type ChatMessage,
+  type HistoryMessage,
+} from "@/lib/party-kit/protocol";
+import { createMessageId, messageIdTimePrefix } from "./utils/message-id";
+
+// Every message lives under "msg:<id>". Ids sort by creation time, so the
+// storage key order is the chat order.
+const MESSAGE_KEY_PREFIX = "msg:";
+// Every edit or delete is indexed under "msg-change:<time>-<id>" => id, so
+// the messages changed since a time can be read without a full scan
+const CHANGE_KEY_PREFIX = "msg-change:";
+// Where older versions kept the whole history as one array, newest first
+const LEGACY_MESSAGES_KEY = "messages";
+// Durable Object storage accepts at most 128 keys per put or delete call
+const MAX_KEYS_PER_CALL = 128;
+// Let this many messages beyond the limit pile up before pruning, so old
+// messages are deleted in batches instead of one per new message
+const PRUNE_SLACK = 50;
+
+function messageKey(id: string): string {
+  return `${MESSAGE_KEY_PREFIX}${id}`;
+}
+
+function changeKey(changedAt: number, id: string): string {
+  return `${CHANGE_KEY_PREFIX}${messageIdTimePrefix(changedAt)}-${id}`;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+export class ChatMessageStore {
+  private count: number | null = null;
+  private ready: Promise<void> | null = null;
+
+  /**
+   * @param storage The room's Durable Object storage
+   * @param maxMessages How many messages to keep, older ones are pruned
+   */
+  constructor(
+    private storage: Party.Storage,
+    private maxMessages: number
+  ) {}
+
+  /**
+   * Migrates any legacy history and counts the stored messages. Runs once;
+   * every public method waits for it.
+   */
+  init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.migrateLegacyMessages().then(async () => {
+        const keys = await this.storage.list({ prefix: MESSAGE_KEY_PREFIX });
+        this.count = keys.size;
+      });
+      // Let a failed init be retried by the next caller
+      this.ready.catch(() => {
+        this.ready = null;
+      });
+    }
+    return this.ready;
+  }
+
+  /**
+   * Moves messages from the old single "messages" array into per-message
+   * keys. Messages stored before messages had ids are given one.
+   */
+  private async migrateLegacyMessages() {
+    const legacy =
+      await this.storage.get<ChatMessage[]>(LEGACY_MESSAGES_KEY);
+    if (!legacy) return;
+
+    const entries: Record<string, ChatMessage> = {};
+    for (const msg of legacy.slice(0, this.maxMessages)) {
+      const migrated: ChatMessage = msg.id
+        ? msg
+        : {
+            ...msg,
+            id: createMessageId(msg.timestamp),
+            // The author of a legacy message is unknown, only admins may
+            // change it
+            userId: msg.from === "System" ? SYSTEM_USER_ID : "",
+          };
+      entries[messageKey(migrated.id)] = migrated;
+    }
+
+    for (const keys of chunk(Object.keys(entries), MAX_KEYS_PER_CALL)) {
+      await this.storage.put(
+        Object.fromEntries(keys.map((key) => [key, entries[key]]))
+      );
+    }
+    await this.storage.delete(LEGACY_MESSAGES_KEY);
+  }
+
+  /**
+   * Stores a new message and prunes the oldest ones past the limit
+   */
+  async add(message: ChatMessage): Promise<void> {
+    await this.init();
+    await this.storage.put(messageKey(message.id), message);
+    this.count = (this.count ?? 0) + 1;
+
+    if (this.count > this.maxMessages + PRUNE_SLACK) {
+      await this.prune();
+    }
+  }
+
+  /**
+   * Looks up a single message
+   */
+  async get(id: string): Promise<ChatMessage | undefined> {
+    await this.init();
+    return this.storage.get<ChatMessage>(messageKey(id));
+  }
+
+  /**
+   * Overwrites a stored message, e.g. after an edit or delete
+   */
+  async update(message: ChatMessage): Promise<void> {
+    await this.init();
+    const changedAt = message.deletedAt ?? message.editedAt;
+    await this.storage.put({
+      [messageKey(message.id)]: message,
+      ...(changedAt !== undefined
+        ? { [changeKey(changedAt, message.id)]: message.id }
+        : {}),
+    });
+  }
+
+  /**
+   * The messages created up to `since` that were edited or deleted after
+   * it, oldest first. Newer messages are read with page() as they are now.
+   */
+  async changedSince(since: number): Promise<ChatMessage[]> {
+    await this.init();
+    const changes = await this.storage.list<string>({
+      prefix: CHANGE_KEY_PREFIX,
+      start: `${CHANGE_KEY_PREFIX}${messageIdTimePrefix(since + 1)}`,
+    });
+
+    const changed: ChatMessage[] = [];
+    for (const id of new Set(changes.values())) {
+      const message = await this.storage.get<ChatMessage>(messageKey(id));
+      if (message && message.timestamp <= since) {
+        changed.push(message);
+      }
+    }
+    return changed.sort((a, b) => (a.id < b.id ? -1 : 1));
+  }
+
+  /**
+   * Deletes every stored message
+   */
+  async clear(): Promise<void> {
+    await this.init();
+    for (const prefix of [MESSAGE_KEY_PREFIX, CHANGE_KEY_PREFIX]) {
+      const keys = await this.storage.list({ prefix });
+      for (const batch of chunk(Array.from(keys.keys()), MAX_KEYS_PER_CALL)) {
+        await this.storage.delete(batch);
+      }
+    }
+    this.count = 0;
+  }
+
+  /**
+   * Deletes the oldest messages until only maxMessages remain, along with
+   * the changes of messages older than the oldest one left
+   */
+  private async prune() {
+    const excess = (this.count ?? 0) - this.maxMessages;
+    if (excess <= 0) return;
+
+    const oldest = await this.storage.list({
+      prefix: MESSAGE_KEY_PREFIX,
+      limit: excess,
+    });
+    for (const batch of chunk(Array.from(oldest.keys()), MAX_KEYS_PER_CALL)) {
+      this.count = (this.count ?? 0) - (await this.storage.delete(batch));
+    }
+
+    const remaining = await this.storage.list<ChatMessage>({
+      prefix: MESSAGE_KEY_PREFIX,
+      limit: 1,
+    });
+    const [first] = remaining.values();
+    if (!first) return;
+    const stale = await this.storage.list({
+      prefix: CHANGE_KEY_PREFIX,
+      end: `${CHANGE_KEY_PREFIX}${messageIdTimePrefix(first.timestamp)}`,
+    });
+    for (const batch of chunk(Array.from(stale.keys()), MAX_KEYS_PER_CALL)) {
+      await this.storage.delete(batch);
+    }
+  }
+
+  /**
+   * Reads one page of history, oldest message first.
+   * - before: messages older than the message with this id
+   * - since: messages created after this timestamp
+   * - neither: the latest messages
+   */
+  async page(options: {
+    before?: string;
+    since?: number;
+    limit: number;
+  }): Promise<HistoryMessage> {
+    await this.init();
+    const { before, since, limit } = options;
+
+    if (since !== undefined) {
+      // Read one extra message to know whether there are more
+      const newer = await this.storage.list<ChatMessage>({
+        prefix: MESSAGE_KEY_PREFIX,
+        start: messageKey(messageIdTimePrefix(since + 1)),
+        limit: limit + 1,
+      });
+      const messages = Array.from(newer.values());
+      return {
+        type: "history",
+        direction: "newer",
+        messages: messages.slice(0, limit),
+        hasMore: messages.length > limit,
+      };
+    }
+
+    const older = await this.storage.list<ChatMessage>({
+      prefix: MESSAGE_KEY_PREFIX,
+      end: before !== undefined ? messageKey(before) : undefined,
+      reverse: true,
+      limit: limit + 1,
+    });
+    const messages = Array.from(older.values());
+    return {
+      type: "history",
+      direction: "older",
+      messages: messages.slice(0, limit).reverse(),
+      hasMore: messages.length > limit,
+    };
+  }
+}
@@ -0,0 +1,124 @@
+/*
+<ai_context>
+Remembers which productivity blocks have already been credited to each user,
+so a retried or replayed score submission can't be counted twice.
+</ai_context>
+<recent_changes>
+Created CreditedBlocks for idempotent score submissions.
+Blocks overlapping the time slot of another credited block are refused.
+Added check, so blocks can be vetted before any of them are claimed.
+</recent_changes>
+*/
+
+import type * as Party from "partykit/server";
+import type { ScoredBlock } from "@/lib/party-kit/protocol";
+import { BLOCK_DURATION_MS } from "@/lib/party-kit/block-scoring";
+
+// Credited block ids per user: "credited:<userId>" => { blockId: startTime }
+const KEY_PREFIX = "credited:";
+
+/**
+ * How far back a block may start and still be credited. Ids are only
+ * remembered for this long, so older blocks are refused rather than
+ * risk crediting them twice.
+ */
+export const CREDIT_WINDOW_MS = 2 * 24 * 60 * 60 * 1000;
+// Allowed clock drift for blocks that seem to start in the future
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export interface ClaimResult {
+  /** Blocks credited by this submission */
+  credited: ScoredBlock[];
+  /** Ids credited by an earlier submission (or repeated in this one) */
+  duplicates: string[];
+  /** Ids of blocks outside the credit window */
+  expired: string[];
+  /** Ids of blocks covering the same time as another credited block */
+  overlapping: string[];
+}
+
+// The block-sized time slot a block starts in
+function slotOf(startTime: number): number {
+  return Math.floor(startTime / BLOCK_DURATION_MS);
+}
+
+export class CreditedBlocks {
+  constructor(private storage: Party.Storage) {}
+
+  /**
+   * Sorts the blocks like claim, without marking any of them as credited
+   */
+  async check(
+    userId: string,
+    blocks: ScoredBlock[],
+    now: number = Date.now()
+  ): Promise<ClaimResult> {
+    return (await this.sort(userId, blocks, now)).result;
+  }
+
+  /**
+   * Marks the blocks as credited to the user and returns which of them
+   * were new. Ids that fell out of the credit window are forgotten.
+   */
+  async claim(
+    userId: string,
+    blocks: ScoredBlock[],
+    now: number = Date.now()
+  ): Promise<ClaimResult> {
+    const key = `${KEY_PREFIX}${userId}`;
+    const { result, credited } = await this.sort(userId, blocks, now);
+
+    if (Object.keys(credited).length > 0) {
+      await this.storage.put(key, credited);
+    } else {
+      await this.storage.delete(key);
+    }
+    return result;
+  }
+
+  /**
+   * Sorts the blocks by whether they can be credited, and works out the
+   * credited ids to keep if they are
+   */
+  private async sort(
+    userId: string,
+    blocks: ScoredBlock[],
+    now: number
+  ): Promise<{ result: ClaimResult; credited: Record<string, number> }> {
+    const key = `${KEY_PREFIX}${userId}`;
+    const oldest = now - CREDIT_WINDOW_MS;
+    const result: ClaimResult = {
+      credited: [],
+      duplicates: [],
+      expired: [],
+      overlapping: [],
+    };
+
+    const credited: Record<string, number> = {};
+    const slots = new Set<number>();
+    for (const [id, startTime] of Object.entries(
+      (await this.storage.get<Record<string, number>>(key)) ?? {}
+    )) {
+      if (startTime >= oldest) {
+        credited[id] = startTime;
+        slots.add(slotOf(startTime));
+      }
+    }
+
+    for (const block of blocks) {
+      if (block.startTime < oldest || block.startTime > now + CLOCK_SKEW_MS) {
+        result.expired.push(block.id);
+      } else if (Object.hasOwn(credited, block.id)) {
+        result.duplicates.push(block.id);
+      } else if (slots.has(slotOf(block.startTime))) {
+        // Only one block can cover any stretch of time
+        result.overlapping.push(block.id);
+      } else {
+        credited[block.id] = block.startTime;
+        slots.add(slotOf(block.startTime));
+        result.credited.push(block);
+      }
+    }
+    return { result, credited };
+  }
+}
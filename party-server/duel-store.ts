@@ -0,0 +1,108 @@
+/*
+<ai_context>
+Keeps the open focus duels of the global room in room storage and tallies
+the blocks credited to their users during each duel's window.
+</ai_context>
+<recent_changes>
+Created DuelStore for head-to-head focus duels.
+</recent_changes>
+*/
+
+import type * as Party from "partykit/server";
+import type { ScoredBlock } from "@/lib/party-kit/protocol";
+import { scoreBlocks } from "@/lib/party-kit/block-scoring";
+import type { Duel } from "@/lib/types/duel-types";
+
+// Open duels, one key per duel: "duel:<id>"
+const KEY_PREFIX = "duel:";
+
+/**
+ * How long after its window an accepted duel stays open, so blocks the
+ * tracker submits late still count
+ */
+export const DUEL_GRACE_MS = 10 * 60 * 1000;
+
+/**
+ * When an open duel is settled: a pending one expires when its window
+ * ends, an accepted one finishes DUEL_GRACE_MS later
+ */
+export function duelDeadline(duel: Duel): number {
+  return duel.status === "accepted" ? duel.endsAt + DUEL_GRACE_MS : duel.endsAt;
+}
+
+export class DuelStore {
+  constructor(private storage: Party.Storage) {}
+
+  async get(id: string): Promise<Duel | undefined> {
+    return this.storage.get<Duel>(`${KEY_PREFIX}${id}`);
+  }
+
+  async put(duel: Duel): Promise<void> {
+    await this.storage.put(`${KEY_PREFIX}${duel.id}`, duel);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.storage.delete(`${KEY_PREFIX}${id}`);
+  }
+
+  /**
+   * Every open (pending or accepted) duel
+   */
+  async list(): Promise<Duel[]> {
+    const duels = await this.storage.list<Duel>({ prefix: KEY_PREFIX });
+    return Array.from(duels.values());
+  }
+
+  /**
+   * The open duels a user is challenger or opponent in
+   */
+  async forUser(userId: string): Promise<Duel[]> {
+    return (await this.list()).filter(
+      (duel) => duel.challengerId === userId || duel.opponentId === userId
+    );
+  }
+
+  /**
+   * Adds blocks just credited to a user to their open duels, counting the
+   * ones that start in each duel's window. Pending duels are tallied too,
+   * so accepting late doesn't cost the challenger what they earned.
+   *
+   * @returns The duels whose scores changed
+   */
+  async credit(userId: string, blocks: ScoredBlock[]): Promise<Duel[]> {
+    const changed: Duel[] = [];
+    for (const duel of await this.forUser(userId)) {
+      const delta = scoreBlocks(
+        blocks.filter(
+          (block) =>
+            block.startTime >= duel.startsAt && block.startTime < duel.endsAt
+        )
+      );
+      if (delta === 0) continue;
+
+      const updated: Duel =
+        duel.challengerId === userId
+          ? { ...duel, challengerScore: duel.challengerScore + delta }
+          : { ...duel, opponentScore: duel.opponentScore + delta };
+      await this.put(updated);
+      changed.push(updated);
+    }
+    return changed;
+  }
+
+  /**
+   * The open duels whose deadline has passed. They stay stored until
+   * deleted, so a duel whose result couldn't be saved is settled again.
+   */
+  async due(now: number = Date.now()): Promise<Duel[]> {
+    return (await this.list()).filter((duel) => duelDeadline(duel) <= now);
+  }
+
+  /**
+   * The earliest deadline among the open duels, or null if there are none
+   */
+  async nextDeadline(): Promise<number | null> {
+    const deadlines = (await this.list()).map(duelDeadline);
+    return deadlines.length > 0 ? Math.min(...deadlines) : null;
+  }
+}
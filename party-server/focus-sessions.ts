@@ -0,0 +1,103 @@
+/*
+<ai_context>
+Keeps the global room's group focus session in room storage, along with the
+sessions that ended recently, and finds the blocks that earn the focus
+bonus.
+</ai_context>
+<recent_changes>
+Created FocusSessionStore for group focus sessions.
+</recent_changes>
+*/
+
+import type * as Party from "partykit/server";
+import type { ScoredBlock } from "@/lib/party-kit/protocol";
+import { BLOCK_DURATION_MS } from "@/lib/party-kit/block-scoring";
+import { focusWindows, sessionEnd } from "@/lib/party-kit/focus-session";
+import type { FocusSession } from "@/lib/types/focus-session-types";
+import { CREDIT_WINDOW_MS } from "./credited-blocks";
+
+// The running session, if any
+const CURRENT_KEY = "focus-session:current";
+// Sessions that ended within the credit window, oldest first. Blocks are
+// often submitted a while after they end, and still earn the bonus.
+const PAST_KEY = "focus-session:past";
+
+export class FocusSessionStore {
+  constructor(private storage: Party.Storage) {}
+
+  /**
+   * The running session, or null
+   */
+  async current(): Promise<FocusSession | null> {
+    return (await this.storage.get<FocusSession>(CURRENT_KEY)) ?? null;
+  }
+
+  async save(session: FocusSession): Promise<void> {
+    await this.storage.put(CURRENT_KEY, session);
+  }
+
+  /**
+   * Ends the running session at `now` and keeps it with the recent ones.
+   * Participants still in it leave when it ends.
+   *
+   * @returns The ended session
+   */
+  async end(
+    session: FocusSession,
+    now: number = Date.now()
+  ): Promise<FocusSession> {
+    const ended: FocusSession = {
+      ...session,
+      endedAt: Math.min(now, sessionEnd(session)),
+    };
+    const past = (await this.past(now)).filter((s) => s.id !== ended.id);
+    await this.storage.put(PAST_KEY, [...past, ended]);
+    await this.storage.delete(CURRENT_KEY);
+    return ended;
+  }
+
+  /**
+   * The productive blocks that overlap a focus phase while the user was
+   * taking part in a session, running or recent
+   */
+  async bonusBlocks(
+    userId: string,
+    blocks: ScoredBlock[],
+    now: number = Date.now()
+  ): Promise<ScoredBlock[]> {
+    const current = await this.current();
+    const sessions = [...(await this.past(now)), ...(current ? [current] : [])];
+
+    // Stretches of time the user spent in focus phases
+    const focused: [number, number][] = [];
+    for (const session of sessions) {
+      const participant = session.participants.find(
+        (p) => p.userId === userId
+      );
+      if (!participant) continue;
+      const left = participant.leftAt ?? Infinity;
+      for (const [start, end] of focusWindows(session)) {
+        const from = Math.max(start, participant.joinedAt);
+        const to = Math.min(end, left);
+        if (from < to) focused.push([from, to]);
+      }
+    }
+
+    return blocks.filter(
+      (block) =>
+        block.classification === "productive" &&
+        focused.some(
+          ([from, to]) =>
+            block.startTime < to && block.startTime + BLOCK_DURATION_MS > from
+        )
+    );
+  }
+
+  // Ended sessions still within the credit window
+  private async past(now: number): Promise<FocusSession[]> {
+    const oldest = now - CREDIT_WINDOW_MS;
+    return ((await this.storage.get<FocusSession[]>(PAST_KEY)) ?? []).filter(
+      (session) => (session.endedAt ?? now) >= oldest
+    );
+  }
+}
@@ -0,0 +1,40 @@
+/*
+<ai_context>
+Remembers users kicked from a room in its storage, so they can't rejoin
+until their cool-off ends, even if the room is hibernated or evicted.
+</ai_context>
+<recent_changes>
+Created KickList for the moderator toolkit.
+</recent_changes>
+*/
+
+import type * as Party from "partykit/server";
+
+// One key per kicked user: "kicked:<userId>" => end of the cool-off
+const KEY_PREFIX = "kicked:";
+
+export class KickList {
+  constructor(private storage: Party.Storage) {}
+
+  /**
+   * Keeps a user out of the room until `until`
+   */
+  async kick(userId: string, until: number): Promise<void> {
+    await this.storage.put(`${KEY_PREFIX}${userId}`, until);
+  }
+
+  /**
+   * When a user's cool-off ends, or null if they may join. Ended cool-offs
+   * are forgotten.
+   */
+  async kickedUntil(userId: string, now: number): Promise<number | null> {
+    const key = `${KEY_PREFIX}${userId}`;
+    const until = await this.storage.get<number>(key);
+    if (until === undefined) return null;
+    if (until <= now) {
+      await this.storage.delete(key);
+      return null;
+    }
+    return until;
+  }
+}
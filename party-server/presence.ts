@@ -0,0 +1,91 @@
+/*
+<ai_context>
+Builds the public presence roster of a room from its connection states and
+works out which join/leave/update events to broadcast when it changes.
+</ai_context>
+<recent_changes>
+Created the presence roster helpers used by the chat server.
+</recent_changes>
+*/
+
+import type {
+  ConnectionState,
+  PresenceMessage,
+  PresenceStatus,
+  PresenceUser,
+} from "@/lib/party-kit/protocol";
+
+// When a user has several tabs open, the most engaged status wins
+const STATUS_PRIORITY: Record<PresenceStatus, number> = {
+  focus: 2,
+  active: 1,
+  idle: 0,
+};
+
+/**
+ * Collapses connection states into one roster entry per userId.
+ * Connections that haven't identified themselves are left out. The profile
+ * of a multi-tab user comes from their most engaged connection.
+ */
+export function buildPresence(
+  states: Iterable<ConnectionState | null | undefined>
+): Map<string, PresenceUser> {
+  const roster = new Map<string, PresenceUser>();
+
+  for (const state of states) {
+    if (!state?.hasSetValidUserId) continue;
+
+    const existing = roster.get(state.userId);
+    const status = state.status ?? "active";
+    if (
+      !existing ||
+      STATUS_PRIORITY[status] > STATUS_PRIORITY[existing.status]
+    ) {
+      roster.set(state.userId, {
+        userId: state.userId,
+        username: state.username,
+        task: state.task,
+        role: state.role,
+        status,
+        connections: (existing?.connections ?? 0) + 1,
+      });
+    } else {
+      existing.connections += 1;
+    }
+  }
+
+  return roster;
+}
+
+/**
+ * Compares two rosters and returns the events that turn `previous` into
+ * `next`. A change in tab count alone is not worth an update.
+ */
+export function diffPresence(
+  previous: Map<string, PresenceUser>,
+  next: Map<string, PresenceUser>
+): PresenceMessage[] {
+  const events: PresenceMessage[] = [];
+
+  for (const [userId, user] of next) {
+    const before = previous.get(userId);
+    if (!before) {
+      events.push({ type: "presence", event: "join", user });
+    } else if (
+      before.username !== user.username ||
+      before.task !== user.task ||
+      before.role !== user.role ||
+      before.status !== user.status
+    ) {
+      events.push({ type: "presence", event: "update", user });
+    }
+  }
+
+  for (const [userId, user] of previous) {
+    if (!next.has(userId)) {
+      events.push({ type: "presence", event: "leave", user });
+    }
+  }
+
+  return events;
+}
@@ -0,0 +1,44 @@
+/*
+<ai_context>
+Remembers the best monthly rank milestone announced for each user in the
+global room's storage, so each is only announced once a month.
+</ai_context>
+<recent_changes>
+Created RankMilestones for rank-up announcements in chat.
+</recent_changes>
+*/
+
+import type * as Party from "partykit/server";
+
+interface AnnouncedMilestone {
+  /** "YYYY-MM" */
+  month: string;
+  milestone: number;
+}
+
+// One key per user: "rank-milestone:<userId>"
+const KEY_PREFIX = "rank-milestone:";
+
+export class RankMilestones {
+  constructor(private storage: Party.Storage) {}
+
+  /**
+   * Records that a user reached a milestone this month
+   *
+   * @returns Whether it beats the best one they reached this month, i.e.
+   * should be announced
+   */
+  async reach(
+    userId: string,
+    month: string,
+    milestone: number
+  ): Promise<boolean> {
+    const key = `${KEY_PREFIX}${userId}`;
+    const announced = await this.storage.get<AnnouncedMilestone>(key);
+    if (announced?.month === month && announced.milestone <= milestone) {
+      return false;
+    }
+    await this.storage.put(key, { month, milestone });
+    return true;
+  }
+}
@@ -0,0 +1,151 @@
+/*
+<ai_context>
+Plausibility checks for score submissions. Keeps a per-user allowance in
+room storage that refills with wall-clock time, so a user can't earn (or
+shed) points faster than the blocks they could have worked, and spots
+bursts of submissions.
+</ai_context>
+<recent_changes>
+Created ScoreGuard for server-side anti-cheat validation.
+Added SCORE_OFFENCES; going over the allowance doesn't count towards a ban.
+</recent_changes>
+*/
+
+import type * as Party from "partykit/server";
+import type { ScoredBlock } from "@/lib/party-kit/protocol";
+import {
+  BLOCK_DURATION_MS,
+  blockScore,
+} from "@/lib/party-kit/block-scoring";
+
+/**
+ * Kinds of implausible submissions, as recorded in score_violations
+ */
+export type ScoreViolationKind =
+  | "burst" // too many submissions in a short time
+  | "rate_exceeded" // more points than elapsed time allows
+  | "negative_flood" // more lost points than elapsed time allows
+  | "overlapping_blocks"; // several blocks for the same stretch of time
+
+/**
+ * Violations an honest client never commits, which count towards a score
+ * ban. Going over the allowance isn't one: a client catching up on a
+ * backlog does that, and the blocks it couldn't be credited for yet are
+ * credited when it submits them again.
+ */
+export const SCORE_OFFENCES: readonly ScoreViolationKind[] = [
+  "burst",
+  "overlapping_blocks",
+];
+
+export interface ScoreViolation {
+  kind: ScoreViolationKind;
+  /** The blocks that were refused */
+  blockIds: string[];
+}
+
+// Per user: "guard:<userId>"
+const KEY_PREFIX = "guard:";
+
+/**
+ * How many points' worth of blocks a user may bank, i.e. how far behind a
+ * client may fall before its backlog stops counting. New users start full.
+ */
+export const MAX_ALLOWANCE = 12;
+// Max submissions per user within BURST_WINDOW_MS
+export const MAX_SUBMISSIONS_PER_WINDOW = 6;
+const BURST_WINDOW_MS = 60 * 1000;
+
+interface GuardState {
+  allowance: number;
+  updatedAt: number;
+  submissions: number[]; // timestamps within the burst window
+}
+
+export interface AllowanceResult {
+  /** Blocks that fit in the user's allowance */
+  allowed: ScoredBlock[];
+  /** Blocks dropped for exceeding it, by the kind of violation */
+  violations: ScoreViolation[];
+}
+
+export class ScoreGuard {
+  constructor(private storage: Party.Storage) {}
+
+  private async load(userId: string, now: number): Promise<GuardState> {
+    const state = await this.storage.get<GuardState>(
+      `${KEY_PREFIX}${userId}`
+    );
+    if (!state) {
+      return { allowance: MAX_ALLOWANCE, updatedAt: now, submissions: [] };
+    }
+
+    // One point of allowance per block of wall-clock time since last use
+    const refill = Math.max(0, now - state.updatedAt) / BLOCK_DURATION_MS;
+    return {
+      allowance: Math.min(MAX_ALLOWANCE, state.allowance + refill),
+      updatedAt: now,
+      submissions: state.submissions.filter(
+        (time) => time > now - BURST_WINDOW_MS
+      ),
+    };
+  }
+
+  private async save(userId: string, state: GuardState): Promise<void> {
+    await this.storage.put(`${KEY_PREFIX}${userId}`, state);
+  }
+
+  /**
+   * Counts a submission by the user
+   *
+   * @returns false if the user is submitting in a burst and the
+   * submission should be refused
+   */
+  async recordSubmission(
+    userId: string,
+    now: number = Date.now()
+  ): Promise<boolean> {
+    const state = await this.load(userId, now);
+    if (state.submissions.length >= MAX_SUBMISSIONS_PER_WINDOW) {
+      return false;
+    }
+    state.submissions.push(now);
+    await this.save(userId, state);
+    return true;
+  }
+
+  /**
+   * Spends the user's allowance on the blocks, oldest first. Gains and
+   * losses both count, so neither can outpace wall-clock time. Blocks that
+   * don't fit are left out.
+   */
+  async spendAllowance(
+    userId: string,
+    blocks: ScoredBlock[],
+    now: number = Date.now()
+  ): Promise<AllowanceResult> {
+    const state = await this.load(userId, now);
+    const result: AllowanceResult = { allowed: [], violations: [] };
+
+    const oldestFirst = [...blocks].sort((a, b) => a.startTime - b.startTime);
+    for (const block of oldestFirst) {
+      const cost = Math.abs(blockScore(block));
+      if (cost <= state.allowance) {
+        state.allowance -= cost;
+        result.allowed.push(block);
+        continue;
+      }
+
+      const kind = blockScore(block) > 0 ? "rate_exceeded" : "negative_flood";
+      const violation = result.violations.find((v) => v.kind === kind);
+      if (violation) {
+        violation.blockIds.push(block.id);
+      } else {
+        result.violations.push({ kind, blockIds: [block.id] });
+      }
+    }
+
+    await this.save(userId, state);
+    return result;
+  }
+}
@@ -0,0 +1,167 @@
+/*
+<ai_context>
+Keeps pending score deltas in room storage so they survive the room being
+hibernated or evicted before they are written to Supabase.
+</ai_context>
+<recent_changes>
+Created ScoreQueue, replacing the in-memory scoreUpdateQueue map.
+Pending updates carry the ledger events explaining them.
+A batch in flight is only taken again by a fresh instance, never twice.
+</recent_changes>
+*/
+
+import type * as Party from "partykit/server";
+import type { ScoreEvent } from "@/lib/types/scoreboard-types";
+
+export interface PendingScoreUpdate {
+  username: string;
+  delta: number;
+  timestamp: number; // when the latest delta was queued
+  events: ScoreEvent[]; // ledger entries, written with the delta
+}
+
+// Pending deltas, one key per user: "score:<userId>"
+const PENDING_KEY_PREFIX = "score:";
+// The batch currently being written to Supabase
+const IN_FLIGHT_KEY = "score-queue:in-flight";
+// How many flushes in a row have failed
+const FAILED_ATTEMPTS_KEY = "score-queue:failed-attempts";
+
+export class ScoreQueue {
+  // Whether this instance took a batch yet. Only the first one can find a
+  // batch left in flight by an instance that was evicted mid-write.
+  private started = false;
+
+  constructor(private storage: Party.Storage) {}
+
+  /**
+   * Adds a delta, and the ledger event explaining it, to the user's
+   * pending total
+   */
+  async add(
+    userId: string,
+    username: string,
+    delta: number,
+    event: ScoreEvent
+  ): Promise<void> {
+    const key = `${PENDING_KEY_PREFIX}${userId}`;
+    const pending = await this.storage.get<PendingScoreUpdate>(key);
+    await this.storage.put(key, {
+      username,
+      delta: (pending?.delta ?? 0) + delta,
+      timestamp: Date.now(),
+      events: [...(pending?.events ?? []), event],
+    });
+  }
+
+  /**
+   * Whether the user has a delta waiting to be written
+   */
+  async has(userId: string): Promise<boolean> {
+    return (
+      (await this.storage.get(`${PENDING_KEY_PREFIX}${userId}`)) !== undefined
+    );
+  }
+
+  /**
+   * Number of users with a pending delta, including a batch in flight
+   */
+  async depth(): Promise<number> {
+    const pending = await this.storage.list({ prefix: PENDING_KEY_PREFIX });
+    const inFlight =
+      (await this.storage.get<Record<string, PendingScoreUpdate>>(
+        IN_FLIGHT_KEY
+      )) ?? {};
+    const userIds = new Set(Object.keys(inFlight));
+    for (const key of pending.keys()) {
+      userIds.add(key.slice(PENDING_KEY_PREFIX.length));
+    }
+    return userIds.size;
+  }
+
+  /**
+   * Moves every pending delta into a new in-flight batch and returns it.
+   * Deltas queued from now on go into the next batch. A batch left in
+   * flight by an earlier instance that never finished is included again.
+   * While this instance's own batch is in flight, nothing is taken: that
+   * batch is committed, or returned to the queue by failBatch.
+   */
+  async takeBatch(): Promise<Map<string, PendingScoreUpdate>> {
+    const inFlight =
+      (await this.storage.get<Record<string, PendingScoreUpdate>>(
+        IN_FLIGHT_KEY
+      )) ?? {};
+    if (this.started && Object.keys(inFlight).length > 0) {
+      return new Map();
+    }
+    this.started = true;
+    const batch = new Map<string, PendingScoreUpdate>(
+      Object.entries(inFlight)
+    );
+
+    const pending = await this.storage.list<PendingScoreUpdate>({
+      prefix: PENDING_KEY_PREFIX,
+    });
+    for (const [key, update] of pending) {
+      const userId = key.slice(PENDING_KEY_PREFIX.length);
+      const earlier = batch.get(userId);
+      batch.set(userId, {
+        ...update,
+        delta: (earlier?.delta ?? 0) + update.delta,
+        events: [...(earlier?.events ?? []), ...(update.events ?? [])],
+      });
+    }
+
+    if (batch.size > 0) {
+      await this.storage.put(IN_FLIGHT_KEY, Object.fromEntries(batch));
+    }
+    if (pending.size > 0) {
+      await this.storage.delete(Array.from(pending.keys()));
+    }
+    return batch;
+  }
+
+  /**
+   * Marks the in-flight batch as written
+   */
+  async commitBatch(): Promise<void> {
+    await this.storage.delete([IN_FLIGHT_KEY, FAILED_ATTEMPTS_KEY]);
+  }
+
+  /**
+   * Returns the in-flight batch to the queue after a failed write, merged
+   * with anything queued since, and counts the failure
+   *
+   * @returns How many flushes in a row have now failed
+   */
+  async failBatch(): Promise<number> {
+    const inFlight =
+      (await this.storage.get<Record<string, PendingScoreUpdate>>(
+        IN_FLIGHT_KEY
+      )) ?? {};
+
+    for (const [userId, failed] of Object.entries(inFlight)) {
+      const key = `${PENDING_KEY_PREFIX}${userId}`;
+      const pending = await this.storage.get<PendingScoreUpdate>(key);
+      await this.storage.put(key, {
+        username: pending?.username ?? failed.username,
+        delta: failed.delta + (pending?.delta ?? 0),
+        timestamp: pending?.timestamp ?? failed.timestamp,
+        events: [...(failed.events ?? []), ...(pending?.events ?? [])],
+      });
+    }
+    await this.storage.delete(IN_FLIGHT_KEY);
+
+    const attempts =
+      ((await this.storage.get<number>(FAILED_ATTEMPTS_KEY)) ?? 0) + 1;
+    await this.storage.put(FAILED_ATTEMPTS_KEY, attempts);
+    return attempts;
+  }
+
+  /**
+   * How many flushes in a row have failed
+   */
+  async failedAttempts(): Promise<number> {
+    return (await this.storage.get<number>(FAILED_ATTEMPTS_KEY)) ?? 0;
+  }
+}
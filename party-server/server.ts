@@ -7,82 +7,721 @@ import type * as Party from "partykit/server";
 import { moderateMessage } from "@/app/actions/moderation";
 import { createServiceClient } from "./supabase-service-client";
 import { TTLKeyedCache } from "./utils/ttl-cache";
+import { createMessageId } from "./utils/message-id";
+import { ChatMessageStore } from "./chat-message-store";
+import { ScoreQueue } from "./score-queue";
+import { CreditedBlocks, type ClaimResult } from "./credited-blocks";
+import {
+  SCORE_OFFENCES,
+  ScoreGuard,
+  type ScoreViolation,
+} from "./score-guard";
+import { AlarmScheduler } from "./utils/alarm-scheduler";
+import { DuelStore } from "./duel-store";
+import { FocusSessionStore } from "./focus-sessions";
+import { StreakStore } from "./streak-store";
+import { AchievementQueue } from "./achievement-queue";
+import { RankMilestones } from "./rank-milestones";
+import { KickList } from "./kick-list";
+import { UsedNonces } from "./used-nonces";
+import { buildPresence, diffPresence } from "./presence";
+import {
+  GLOBAL_ROOM_ID,
+  type PartyRoom,
+  type RoomKind,
+  type RoomMember,
+} from "@/lib/types/room-types";
+import { GLOBAL_REGION, type Region } from "@/lib/types/region-types";
+import {
+  ACCESS_ROLES,
+  type AccessRole,
+  type Permission,
+} from "@/lib/types/role-types";
+import type {
+  ChatRestriction,
+  ModeratedUser,
+} from "@/lib/types/moderation-types";
+import type { Team, TeamMember, TeamStanding } from "@/lib/types/team-types";
+import type { Duel, DuelRecord } from "@/lib/types/duel-types";
+import type {
+  AchievementStatUpdate,
+  AchievementStats,
+  AchievementUnlock,
+} from "@/lib/types/achievement-types";
+import type {
+  FocusSession,
+  FocusSessionEvent,
+} from "@/lib/types/focus-session-types";
+import {
+  HISTORY_PAGE_SIZE,
+  MAX_HISTORY_PAGE_SIZE,
+  SYSTEM_USER_ID,
+  negotiateProtocolVersion,
+  parseClientMessage,
+  validateClientMessage,
+  type BanUserMessage,
+  type ChatEvent,
+  type ChatMessage as ChatMessageStorage,
+  type ClientMessage,
+  type ConnectionState,
+  type DebugStateMessage,
+  type DeleteMessageMessage,
+  type DuelAcceptMessage,
+  type DuelChallengeMessage,
+  type DuelDeclineMessage,
+  type EditMessageMessage,
+  type StartFocusSessionMessage,
+  type ErrorCode,
+  type FlaggedUser,
+  type HistoryMessage,
+  type HistoryRequestMessage,
+  type HelloMessage,
+  type KickUserMessage,
+  type LeaderboardPeriod,
+  type LeaderboardRanks,
+  type MuteUserMessage,
+  type PresenceUser,
+  type ScoreboardDeltaMessage,
+  type ScoreboardMessage,
+  type ScoreboardRow,
+  type ResetWarningsMessage,
+  type ScoredBlock,
+  type SetRoleMessage,
+  type TeamScoreboardMessage,
+  type ServerMessage,
+  type UnbanUserMessage,
+} from "@/lib/party-kit/protocol";
+import { blockScore, scoreBlocks } from "@/lib/party-kit/block-scoring";
+import { hasPermission, outranks } from "@/lib/party-kit/permissions";
+import {
+  MAX_MUTE_MINUTES,
+  MAX_WARNINGS,
+  WARNING_DECAY_MS,
+  decayedWarnings,
+  describeRestriction,
+  isRestricted,
+} from "@/lib/party-kit/moderation";
+import {
+  DEFAULT_BREAK_MINUTES,
+  DEFAULT_FOCUS_MINUTES,
+  DEFAULT_ROUNDS,
+  FOCUS_SESSION_BONUS,
+  MAX_BREAK_MINUTES,
+  MAX_FOCUS_MINUTES,
+  MAX_ROUNDS,
+  isFocusing,
+  phaseAt,
+} from "@/lib/party-kit/focus-session";
+import {
+  achievementProgress,
+  legacyAchievementStats,
+  newlyUnlocked,
+  productiveHours,
+  toUserAchievements,
+} from "@/lib/party-kit/achievements";
+import {
+  describeChatEvent,
+  rankMilestone,
+  streakMilestone,
+} from "@/lib/party-kit/chat-events";
+import {
+  emptyStreakState,
+  streaksAt,
+  type StreakRecord,
+  type StreakState,
+} from "@/lib/party-kit/streaks";
+import {
+  DEFAULT_TIME_ZONE,
+  addMonths,
+  localDate,
+  monthStart,
+  periodWindow,
+  resolveTimeZone,
+} from "@/lib/party-kit/leaderboard-periods";
+import {
+  MAX_SCOREBOARD_PAGE_SIZE,
+  SCOREBOARD_PAGE_SIZE,
+  addRange,
+  diffScoreboard,
+  visibleIndexes,
+  type RowRange,
+} from "@/lib/party-kit/scoreboard-window";
+import type {
+  ArchivedStanding,
+  MonthArchive,
+  ScoreDecision,
+  ScoreEvent,
+  ScoreEventSource,
+} from "@/lib/types/scoreboard-types";
+import {
+  PARTY_TOKEN_TTL_MS,
+  verifyPartyToken,
+} from "@/lib/party-kit/auth-token";
 
-// Basic chat message structure
-interface ChatMessageStorage {
-  type: "chat";
-  from: string;
-  text: string;
-  timestamp: number;
-}
-
-// Debug state message structure
-interface DebugStateMessage {
-  type: "debug_state";
-  requesterId: string;
-  userState: ConnectionState;
-  userConnectionId: string;
-  allUsers: {
-    id: string;
-    state: ConnectionState;
-    connectionId: string;
-  }[];
-  timestamp: number;
-}
-
-// The ephemeral user state in this server
-interface ConnectionState {
-  userId: string;
-  username: string;
-  task: string;
-  role: string;
-  warningCount: number; // how many flagged messages
-  hasSetValidUserId: boolean; // flag to track if a valid userId has been set via hello message
-}
-
-// Scoreboard entry in Supabase
+// Scoreboard entry in Supabase, or a user's total on the daily, weekly and
+// all-time leaderboards
 interface ScoreboardEntry {
   user_id: string;
   user_name: string;
   score: number;
+  region: Region;
+}
+
+// The rankings of one leaderboard period (see getScoreboard)
+interface Scoreboard {
+  periodKey: string;
+  entries: ScoreboardEntry[];
+}
+
+// Row in the Supabase rooms table
+interface RoomRow {
+  id: string;
+  name: string;
+  kind: Exclude<RoomKind, "public">;
+  owner_id: string;
+  invite_code: string | null;
+}
+
+// Row in the Supabase user_warnings table
+interface UserWarningsRow {
+  user_id: string;
+  user_name: string;
+  warnings: number;
+  last_warning_at: string;
+}
+
+// The moderation commands taking a target user (see moderate)
+type ModerationCommand =
+  | BanUserMessage
+  | MuteUserMessage
+  | KickUserMessage
+  | UnbanUserMessage
+  | ResetWarningsMessage;
+
+// Row in the Supabase score_violations table
+interface ScoreViolationRow {
+  user_id: string;
+  user_name: string;
+  kind: string;
+  created_at: string;
+}
+
+// Row in the Supabase score_events table
+interface ScoreEventRow {
+  created_at: string;
+  delta: number;
+  requested_delta: number;
+  source: ScoreEventSource;
+  block_ids: string[];
+  decision: ScoreDecision;
+  reason: string | null;
+  local_date: string;
+}
+
+// What a connection was last sent of its leaderboard (see sendScoreboard)
+interface ScoreboardView {
+  period: LeaderboardPeriod;
+  periodKey: string;
+  region: Region;
+  ranks: LeaderboardRanks;
+  total: number;
+  /** Pages loaded with "load_scoreboard" */
+  loaded: RowRange[];
+  /** The rows the connection has, by userId */
+  rows: Map<string, ScoreboardRow>;
+}
+
+// Row in the Supabase teams table
+interface TeamRow {
+  id: string;
+  name: string;
+  owner_id: string;
+  invite_code: string;
+}
+
+// Row returned by the team_roster database function
+interface TeamRosterRow {
+  user_id: string;
+  user_name: string;
+  score: number;
+}
+
+// Row returned by the team_leaderboard database function
+interface TeamStandingRow {
+  team_id: string;
+  team_name: string;
+  members: number;
+  active_members: number;
+  total_score: number;
+  score: number;
+}
+
+// Row in the Supabase month_archives table
+interface MonthArchiveRow {
+  month: string;
+  frozen_at: string;
+  players: number;
+}
+
+// Row in the Supabase month_standings table
+interface MonthStandingRow {
   month: string;
-  region: string;
+  rank: number;
+  user_id: string;
+  user_name: string;
+  score: number;
+  region: Region;
+}
+
+// Supabase duels row
+interface DuelRow {
+  id: string;
+  challenger_id: string;
+  challenger_name: string;
+  opponent_id: string;
+  opponent_name: string;
+  starts_at: string;
+  ends_at: string;
+  challenger_score: number;
+  opponent_score: number;
+  winner_id: string | null;
+  created_at: string;
+}
+
+// Row in the Supabase user_streaks table
+interface StreakRow {
+  user_id: string;
+  time_zone: string;
+  daily_to: string | null;
+  daily: number;
+  best_daily: number;
+  flow_date: string | null;
+  flow: number;
+  best_flow: number;
+}
+
+// Row in the Supabase achievements table
+interface AchievementRow {
+  user_id: string;
+  achievements: AchievementUnlock[];
+  progress: AchievementStats;
+}
+
+// A user's new monthly score, as returned by increment_scores
+interface ScoreRow {
+  user_id: string;
+  score: number;
+}
+
+// Outcome of a score submission (see submitBlocks)
+interface ScoreSubmission extends ClaimResult {
+  delta: number;
+  /** Part of the delta earned as the focus session bonus */
+  bonus: number;
+  /** Set when the whole submission was refused as a burst */
+  burst: boolean;
+  /** Blocks refused by the anti-cheat checks */
+  violations: ScoreViolation[];
 }
 
-// Max saved messages to keep in ephemeral storage
+// Result of authenticating a signed token
+type AuthResult = { ok: true; userId: string } | { ok: false; reason: string };
+
+// Clients from this protocol version get the top of the scoreboard and the
+// rows around them, then deltas. Older ones get the whole board every time.
+const WINDOWED_SCOREBOARD_VERSION = 4;
+
+// Named alarms (see AlarmScheduler)
+const FLUSH_SCORES_ALARM = "flush_scores";
+const MONTH_ROLLOVER_ALARM = "month_rollover";
+const DUELS_ALARM = "duels";
+const FOCUS_SESSION_ALARM = "focus_session";
+const ACHIEVEMENTS_ALARM = "achievements";
+const NONCES_ALARM = "nonces";
+// How long to wait before retrying a failed rollover
+const MONTH_ROLLOVER_RETRY_MS = 5 * 60 * 1000;
+// Backoff for failed score flushes: 5s, 10s, 20s, ... up to 5 minutes
+const SCORE_FLUSH_MAX_BACKOFF_MS = 5 * 60 * 1000;
+// How long to wait before retrying failed achievement progress writes
+const ACHIEVEMENTS_RETRY_MS = 60 * 1000;
+
+// Score offences within this window count towards a score ban
+const SCORE_VIOLATION_WINDOW_MS = 24 * 60 * 60 * 1000;
+// Submissions with an offence within the window before a user is banned
+// from scoring (see SCORE_OFFENCES)
+const MAX_SCORE_VIOLATIONS = 3;
+// How far back the flagged users report looks
+const FLAGGED_USERS_REPORT_MS = 7 * 24 * 60 * 60 * 1000;
+// Header proving a request comes from another room of this server
+const ROOM_SECRET_HEADER = "X-Party-Room-Secret";
+// Requests only other rooms may send, with ROOM_SECRET_HEADER
+const ROOM_REQUEST_TYPES = [
+  "refresh_scoreboard",
+  "refresh_restriction",
+  "kick_user",
+];
+// How long a kicked user is kept out of the room
+const KICK_COOLDOWN_MS = 5 * 60 * 1000;
+
+// Default and max number of events in one page of score history
+const SCORE_HISTORY_PAGE_SIZE = 50;
+const MAX_SCORE_HISTORY_PAGE_SIZE = 100;
+
+// Default and max number of months in one page of the month archive, and of
+// standings listed per month
+const MONTH_ARCHIVE_PAGE_SIZE = 12;
+const MAX_MONTH_ARCHIVE_PAGE_SIZE = 24;
+const MONTH_ARCHIVE_STANDINGS = 10;
+const MAX_MONTH_ARCHIVE_STANDINGS = 100;
+// How many winners the rollover announces
+const ANNOUNCED_WINNERS = 3;
+const MONTH_PATTERN = /^\d{4}-\d{2}$/;
+
+// Shortest and longest duel window, and how far ahead one may start
+const MIN_DUEL_MS = 15 * 60 * 1000;
+const MAX_DUEL_MS = 12 * 60 * 60 * 1000;
+const MAX_DUEL_LEAD_MS = 7 * 24 * 60 * 60 * 1000;
+// Allowed clock drift for a duel that seems to start in the past
+const DUEL_START_SKEW_MS = 5 * 60 * 1000;
+// Open duels a user may be in at once
+const MAX_OPEN_DUELS = 5;
+// How long to wait before retrying to save a finished duel
+const DUEL_RETRY_MS = 5 * 60 * 1000;
+// Finished duels listed on the profile page
+const DUEL_RECORD_RECENT = 10;
+
+const MINUTE_MS = 60 * 1000;
+
+// Why refused blocks weren't credited, for the score ledger
+const VIOLATION_REASONS: Record<ScoreViolation["kind"], string> = {
+  burst: "sent in a burst",
+  rate_exceeded: "over the time allowance",
+  negative_flood: "over the time allowance",
+  overlapping_blocks: "overlapping other blocks",
+};
+
+// Max saved messages to keep in room storage
 const MAX_MESSAGES = 1000;
-// Max times a user can post flagged content before shadow ban
-const MAX_WARNINGS = 3;
+
+// Room kinds users are allowed to create
+const CREATABLE_ROOM_KINDS: RoomKind[] = ["team", "project", "private"];
+// Max length of a room display name
+const MAX_ROOM_NAME_LENGTH = 40;
+// Max length of a team name
+const MAX_TEAM_NAME_LENGTH = 40;
+
+/**
+ * Maps a Supabase rooms row to the shape sent to clients.
+ * The invite code is only included when explicitly requested.
+ */
+function toPartyRoom(row: RoomRow, includeInviteCode = false): PartyRoom {
+  return {
+    id: row.id,
+    name: row.name,
+    kind: row.kind,
+    ownerId: row.owner_id,
+    inviteCode:
+      includeInviteCode && row.invite_code ? row.invite_code : undefined,
+  };
+}
+
+/**
+ * Explains, for the score ledger, which blocks of a submission weren't
+ * credited and why. Null if every block was.
+ */
+function describeSkippedBlocks(submission: ScoreSubmission): string | null {
+  const parts: string[] = [];
+  if (submission.duplicates.length > 0) {
+    parts.push(`${submission.duplicates.length} already credited`);
+  }
+  if (submission.expired.length > 0) {
+    parts.push(`${submission.expired.length} outside the credit window`);
+  }
+  for (const violation of submission.violations) {
+    parts.push(
+      `${violation.blockIds.length} ${VIOLATION_REASONS[violation.kind]}`
+    );
+  }
+  return parts.length > 0 ? `Blocks not credited: ${parts.join(", ")}` : null;
+}
+
+/**
+ * The ledger reason of a submission that wasn't refused outright: the
+ * blocks that weren't credited and the focus session bonus, if any
+ */
+function describeSubmission(submission: ScoreSubmission): string | null {
+  const parts = [describeSkippedBlocks(submission)];
+  if (submission.bonus !== 0) {
+    parts.push(`Focus session bonus: +${submission.bonus}`);
+  }
+  return parts.filter(Boolean).join(". ") || null;
+}
+
+/**
+ * Maps a Supabase score_events row to the shape sent to clients
+ */
+function toScoreEvent(row: ScoreEventRow): ScoreEvent {
+  return {
+    delta: row.delta,
+    requestedDelta: row.requested_delta,
+    source: row.source,
+    blockIds: row.block_ids,
+    decision: row.decision,
+    reason: row.reason,
+    timestamp: new Date(row.created_at).getTime(),
+    localDate: row.local_date,
+  };
+}
+
+/**
+ * Reads a page size from a query parameter, falling back to the default
+ * when it is missing or not a positive number
+ */
+function parseLimit(
+  value: string | null,
+  defaultLimit: number,
+  maxLimit: number
+): number {
+  const requested = Math.floor(Number(value));
+  return requested > 0 ? Math.min(requested, maxLimit) : defaultLimit;
+}
+
+/**
+ * The display name of a month, e.g. "March 2025"
+ */
+function formatMonth(month: string): string {
+  return new Date(monthStart(month)).toLocaleString("en-US", {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Maps Supabase month_archives rows, and the month_standings rows listed
+ * for them, to the shape sent to clients
+ */
+function toMonthArchives(
+  archives: MonthArchiveRow[],
+  standings: MonthStandingRow[]
+): MonthArchive[] {
+  return archives.map((archive) => ({
+    month: archive.month,
+    frozenAt: new Date(archive.frozen_at).getTime(),
+    players: archive.players,
+    standings: standings
+      .filter((row) => row.month === archive.month)
+      .map(
+        (row): ArchivedStanding => ({
+          rank: row.rank,
+          userId: row.user_id,
+          username: row.user_name,
+          score: row.score,
+          region: row.region,
+        })
+      ),
+  }));
+}
+
+/**
+ * Generates a short random string for room ids and invite codes
+ */
+function randomCode(length: number): string {
+  return crypto.randomUUID().replace(/-/g, "").slice(0, length);
+}
+
+/**
+ * Turns a display name into the readable part of a room or team id
+ */
+function toSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 24);
+}
+
+/**
+ * Maps a Supabase teams row to the shape sent to its members
+ */
+function toTeam(row: TeamRow): Team {
+  return {
+    id: row.id,
+    name: row.name,
+    ownerId: row.owner_id,
+    inviteCode: row.invite_code,
+  };
+}
+
+/**
+ * Maps a Supabase duels row to the shape sent to clients
+ */
+function toDuel(row: DuelRow): Duel {
+  return {
+    id: row.id,
+    challengerId: row.challenger_id,
+    challengerName: row.challenger_name,
+    opponentId: row.opponent_id,
+    opponentName: row.opponent_name,
+    startsAt: new Date(row.starts_at).getTime(),
+    endsAt: new Date(row.ends_at).getTime(),
+    status: "finished",
+    challengerScore: row.challenger_score,
+    opponentScore: row.opponent_score,
+    winnerId: row.winner_id,
+    createdAt: new Date(row.created_at).getTime(),
+  };
+}
+
+/**
+ * Maps a Supabase user_streaks row to the part of a StreakState it holds
+ */
+function toStreakRecord(row: StreakRow): StreakRecord {
+  return {
+    timeZone: row.time_zone,
+    dailyTo: row.daily_to,
+    daily: row.daily,
+    bestDaily: row.best_daily,
+    flowDate: row.flow_date,
+    flow: row.flow,
+    bestFlow: row.best_flow,
+  };
+}
+
+/**
+ * The streaks shown next to a user's name on the leaderboard, left out
+ * when they have none going
+ */
+function streakFields(
+  record: StreakRecord | undefined,
+  now: number
+): Pick<ScoreboardRow, "dailyStreak" | "flowStreak"> {
+  if (!record) return {};
+  const { daily, flow } = streaksAt(record, now);
+  return {
+    ...(daily > 0 && { dailyStreak: daily }),
+    ...(flow > 0 && { flowStreak: flow }),
+  };
+}
+
+/**
+ * Checks a duel window, returning why it can't be used or null if it can
+ */
+function checkDuelWindow(
+  startsAt: number,
+  endsAt: number,
+  now: number
+): string | null {
+  if (startsAt < now - DUEL_START_SKEW_MS) {
+    return "A duel can't start in the past.";
+  }
+  if (startsAt > now + MAX_DUEL_LEAD_MS) {
+    return "A duel must start within the next 7 days.";
+  }
+  if (endsAt - startsAt < MIN_DUEL_MS) {
+    return "A duel must last at least 15 minutes.";
+  }
+  if (endsAt - startsAt > MAX_DUEL_MS) {
+    return "A duel can last at most 12 hours.";
+  }
+  return null;
+}
 
 /**
  * ChatServer
  * @description A PartyKit server handling chat + scoreboard. Now includes
  * message moderation with repeated flags => shadow ban.
+ *
+ * Every PartyKit room is its own ChatServer instance. The global room
+ * (GLOBAL_ROOM_ID) is open to everyone, while named team, project and private
+ * rooms are stored in Supabase and scope their leaderboard to room members.
  */
 export default class ChatServer implements Party.Server {
-  private bannedChatCache: TTLKeyedCache<boolean>;
-  private scoreUpdateQueue: Map<
-    string,
-    { username: string; score: number; timestamp: number }
-  >;
-  private scoreUpdateTimer: NodeJS.Timeout | null = null;
+  // Each user's chat ban or mute as saved in Supabase, false for none
+  private bannedChatCache: TTLKeyedCache<ChatRestriction | false>;
+  // Whether each user is banned from scoring, as saved in Supabase
+  private scoreBanCache: TTLKeyedCache<boolean>;
+  // Nonces of the signed tokens accepted here, so each is used once
+  private usedNonces: UsedNonces;
+  // Pending score deltas per user, summed until the next batch flush
+  private scoreQueue: ScoreQueue;
+  // Block ids already credited to each user, so submissions are idempotent
+  private creditedBlocks: CreditedBlocks;
+  // Per-user allowance and burst tracking for anti-cheat checks
+  private scoreGuard: ScoreGuard;
+  private alarms: AlarmScheduler;
+  // Open focus duels of the global room
+  private duels: DuelStore;
+  // The global room's group focus session and the recently ended ones
+  private focusSessions: FocusSessionStore;
+  // Productivity streaks worked out in the global room
+  private streaks: StreakStore;
+  // Achievement stat updates waiting to be written to Supabase
+  private achievementQueue: AchievementQueue;
+  // Rank milestones announced in chat this month
+  private rankMilestones: RankMilestones;
+  // Users kicked from this room and still cooling off
+  private kicks: KickList;
   private readonly SCORE_UPDATE_INTERVAL = 5000;
   private messageRateLimits: Map<string, number[]>; // User ID -> timestamps of recent messages
   private readonly MAX_MESSAGES_PER_MINUTE = 20;
   private readonly RATE_LIMIT_WINDOW_MS = 60000;
-  private isShuttingDown = false;
-  private scoreboardCache: ScoreboardEntry[] | null = null;
-  private scoreboardCacheExpiry: number = 0;
+  // Rankings per leaderboard period, e.g. "daily:2025-03-10"
+  private scoreboardCache: TTLKeyedCache<ScoreboardEntry[]>;
+  // Team rankings per month
+  private teamScoreboardCache: TTLKeyedCache<TeamStanding[]>;
+  // Streaks per user as saved in Supabase, for leaderboard rows
+  private streakCache: TTLKeyedCache<StreakRecord>;
+  // Whether each user's milestones are announced in chat
+  private announcementsCache: TTLKeyedCache<boolean>;
   private readonly SCOREBOARD_CACHE_TTL = 60000; // 1 minute cache TTL
   private readonly BANNED_CHAT_CACHE_TTL = 60000; // 1 minute cache TTL
+  private roomInfo: PartyRoom | null = null;
+  private memberIdsCache: string[] | null = null;
+  private memberIdsCacheExpiry: number = 0;
+  private readonly MEMBER_IDS_CACHE_TTL = 60000; // 1 minute cache TTL
+  private presence: Map<string, PresenceUser> = new Map(); // last broadcast roster
+  private scoreboardViews: Map<string, ScoreboardView> = new Map(); // connection id -> last sent rows
+  private messageStore: ChatMessageStore;
+  // The score flush running right now, if any
+  private flushing: Promise<void> | null = null;
 
   constructor(public room: Party.Room) {
-    this.bannedChatCache = new TTLKeyedCache<boolean>(
+    this.bannedChatCache = new TTLKeyedCache<ChatRestriction | false>(
+      this.BANNED_CHAT_CACHE_TTL
+    );
+    this.scoreBanCache = new TTLKeyedCache<boolean>(
       this.BANNED_CHAT_CACHE_TTL
     );
+    this.scoreboardCache = new TTLKeyedCache<ScoreboardEntry[]>(
+      this.SCOREBOARD_CACHE_TTL
+    );
+    this.teamScoreboardCache = new TTLKeyedCache<TeamStanding[]>(
+      this.SCOREBOARD_CACHE_TTL
+    );
+    this.streakCache = new TTLKeyedCache<StreakRecord>(
+      this.SCOREBOARD_CACHE_TTL
+    );
+    this.announcementsCache = new TTLKeyedCache<boolean>(
+      this.SCOREBOARD_CACHE_TTL
+    );
+
+    // Chat history, one storage key per message
+    this.messageStore = new ChatMessageStore(room.storage, MAX_MESSAGES);
 
-    // Init score update batch queue
-    this.scoreUpdateQueue = new Map();
+    // Score deltas and the alarms that flush them live in room storage, so
+    // they survive the room being hibernated or evicted
+    this.scoreQueue = new ScoreQueue(room.storage);
+    this.creditedBlocks = new CreditedBlocks(room.storage);
+    this.scoreGuard = new ScoreGuard(room.storage);
+    this.alarms = new AlarmScheduler(room.storage);
+    this.duels = new DuelStore(room.storage);
+    this.focusSessions = new FocusSessionStore(room.storage);
+    this.streaks = new StreakStore(room.storage);
+    this.achievementQueue = new AchievementQueue(room.storage);
+    this.rankMilestones = new RankMilestones(room.storage);
+    this.kicks = new KickList(room.storage);
+    this.usedNonces = new UsedNonces(room.storage);
 
     // Init message rate limiter
     this.messageRateLimits = new Map();
@@ -91,264 +730,1993 @@ export default class ChatServer implements Party.Server {
   }
 
   /**
-   * Cleanup resources before server shutdown
+   * onStart
+   * Called when the room starts. Moves chat history stored in the old
+   * single-array layout to per-message keys before anyone connects. The
+   * global room also makes sure the next monthly rollover is scheduled.
    */
-  private async cleanup() {
-    // Prevent new messages during shutdown
-    this.isShuttingDown = true;
+  async onStart() {
+    await this.messageStore.init();
+
+    if (this.isGlobalRoom()) {
+      await this.alarms.schedule(
+        MONTH_ROLLOVER_ALARM,
+        monthStart(addMonths(this.getCurrentMonth(), 1)),
+        { keepExisting: true }
+      );
+    }
+  }
 
-    // Process any pending score updates
-    if (this.scoreUpdateQueue.size > 0 && this.scoreUpdateTimer) {
-      clearTimeout(this.scoreUpdateTimer);
+  /**
+   * onAlarm
+   * Called when the room's alarm fires, even if the room was evicted in the
+   * meantime. Runs every named alarm that is due.
+   */
+  async onAlarm() {
+    const due = await this.alarms.takeDue();
+    if (due.includes(FLUSH_SCORES_ALARM)) {
       await this.processBatchScoreUpdates();
     }
+    if (due.includes(MONTH_ROLLOVER_ALARM)) {
+      await this.rolloverMonth();
+    }
+    if (due.includes(DUELS_ALARM)) {
+      await this.settleDuels();
+    }
+    if (due.includes(FOCUS_SESSION_ALARM)) {
+      await this.advanceFocusSession();
+    }
+    if (due.includes(ACHIEVEMENTS_ALARM)) {
+      await this.flushAchievements();
+    }
+    if (due.includes(NONCES_ALARM)) {
+      const next = await this.usedNonces.prune(Date.now());
+      if (next !== null) {
+        await this.alarms.schedule(NONCES_ALARM, next);
+      }
+    }
+  }
 
-    // Notify clients if needed
-    const shutdownMsg: ChatMessageStorage = {
-      type: "chat",
-      from: "System",
-      text: "Server is shutting down for maintenance. Please reconnect in a few minutes.",
-      timestamp: Date.now(),
+  /**
+   * rolloverMonth
+   * Runs in the global room when a new month starts. Freezes the final
+   * standings of the month that just ended in the month archive, announces
+   * its winners in chat, and schedules the next rollover. Freezing is
+   * idempotent, and the announcement is recorded apart from it, so a
+   * repeated rollover announces once and a failed announcement is retried.
+   */
+  private async rolloverMonth() {
+    const current = this.getCurrentMonth();
+    const ended = addMonths(current, -1);
+
+    try {
+      const db = await this.getServiceClient();
+      const { data: players, error } = await db.rpc("freeze_month", {
+        p_month: ended,
+      });
+      if (error) throw error;
+
+      // Null when the month's winners were already announced
+      if (typeof players === "number") {
+        if (players > 0) {
+          await this.announceWinners(ended, players);
+        }
+        const { error: announcedError } = await db
+          .from("month_archives")
+          .update({ announced_at: new Date().toISOString() })
+          .eq("month", ended);
+        if (announcedError) throw announcedError;
+      }
+    } catch (error) {
+      console.error(`Error rolling over ${ended}, retrying:`, error);
+      await this.alarms.schedule(
+        MONTH_ROLLOVER_ALARM,
+        Date.now() + MONTH_ROLLOVER_RETRY_MS
+      );
+      return;
+    }
+
+    await this.alarms.schedule(
+      MONTH_ROLLOVER_ALARM,
+      monthStart(addMonths(current, 1))
+    );
+  }
+
+  /**
+   * Posts the winners of a frozen month to chat
+   */
+  private async announceWinners(month: string, players: number) {
+    const db = await this.getServiceClient();
+    const { data } = await db
+      .from("month_standings")
+      .select("month, rank, user_id, user_name, score, region")
+      .eq("month", month)
+      .lte("rank", ANNOUNCED_WINNERS)
+      .order("rank", { ascending: true });
+
+    const [champion, ...runnersUp] = (data ?? []) as MonthStandingRow[];
+    if (!champion) return;
+
+    let text =
+      `🏆 ${formatMonth(month)} is over! ${champion.user_name} won with ` +
+      `${champion.score} points out of ${players} ` +
+      `${players === 1 ? "player" : "players"}.`;
+    if (runnersUp.length > 0) {
+      text += ` Runners-up: ${runnersUp
+        .map((row) => `${row.user_name} (${row.score})`)
+        .join(", ")}.`;
+    }
+    await this.postMessage(this.createSystemMessage(text));
+  }
+
+  /**
+   * Sends a message to every identified connection of a user
+   */
+  private sendToUser(userId: string, message: ServerMessage) {
+    for (const connection of this.room.getConnections<ConnectionState>()) {
+      if (
+        connection.state?.hasSetValidUserId &&
+        connection.state.userId === userId
+      ) {
+        this.send(connection, message);
+      }
+    }
+  }
+
+  /**
+   * Sends a duel to every connection of its two users
+   */
+  private sendDuel(duel: Duel) {
+    for (const connection of this.room.getConnections<ConnectionState>()) {
+      const state = connection.state;
+      if (
+        state?.hasSetValidUserId &&
+        (state.userId === duel.challengerId || state.userId === duel.opponentId)
+      ) {
+        this.send(connection, { type: "duel", duel });
+      }
+    }
+  }
+
+  /**
+   * Arms the duels alarm for the next open duel to settle, but no earlier
+   * than notBefore. Cancels it when no duel is open.
+   */
+  private async scheduleDuels(notBefore = 0) {
+    const deadline = await this.duels.nextDeadline();
+    if (deadline === null) {
+      await this.alarms.cancel(DUELS_ALARM);
+      return;
+    }
+    await this.alarms.schedule(DUELS_ALARM, Math.max(deadline, notBefore));
+  }
+
+  /**
+   * Creates a duel from a "duel_challenge" and sends it to both users.
+   * The opponent has to be in the room, so their name is known and they
+   * see the challenge right away.
+   *
+   * @returns Why the challenge was refused, or null
+   */
+  private async challengeDuel(
+    state: ConnectionState,
+    data: DuelChallengeMessage
+  ): Promise<string | null> {
+    const now = Date.now();
+    if (data.opponentId === state.userId) {
+      return "You can't duel yourself.";
+    }
+    const windowError = checkDuelWindow(data.startsAt, data.endsAt, now);
+    if (windowError) {
+      return windowError;
+    }
+
+    const opponent = Array.from(
+      this.room.getConnections<ConnectionState>()
+    ).find(
+      (conn) =>
+        conn.state?.hasSetValidUserId && conn.state.userId === data.opponentId
+    )?.state;
+    if (!opponent) {
+      return "Your opponent has to be online to be challenged.";
+    }
+
+    if ((await this.duels.forUser(state.userId)).length >= MAX_OPEN_DUELS) {
+      return `You can't be in more than ${MAX_OPEN_DUELS} open duels.`;
+    }
+    if ((await this.duels.forUser(opponent.userId)).length >= MAX_OPEN_DUELS) {
+      return `${opponent.username} is already in ${MAX_OPEN_DUELS} open duels.`;
+    }
+
+    const duel: Duel = {
+      id: randomCode(16),
+      challengerId: state.userId,
+      challengerName: state.username,
+      opponentId: opponent.userId,
+      opponentName: opponent.username,
+      startsAt: data.startsAt,
+      endsAt: data.endsAt,
+      status: "pending",
+      challengerScore: 0,
+      opponentScore: 0,
+      winnerId: null,
+      createdAt: now,
     };
-    this.room.broadcast(JSON.stringify(shutdownMsg));
+    await this.duels.put(duel);
+    await this.scheduleDuels();
+    this.sendDuel(duel);
+    return null;
   }
 
   /**
-   * onConnect
-   * Called when a user connects to the PartyKit room.
-   * We set default ephemeral user state, then send them existing chat messages
-   * and scoreboard data.
+   * Handles "duel_accept" and "duel_decline". Only the opponent may accept,
+   * either user may decline (or withdraw) a duel until it is accepted.
+   *
+   * @returns Why the answer was refused, or null
    */
-  async onConnect(connection: Party.Connection<ConnectionState>) {
-    // Set default ephemeral user state
-    connection.setState({
-      username: "Anonymous",
-      task: "",
-      role: "",
-      warningCount: 0,
-      userId: connection.id,
-      hasSetValidUserId: false,
-    });
+  private async answerDuel(
+    userId: string,
+    data: DuelAcceptMessage | DuelDeclineMessage
+  ): Promise<string | null> {
+    const duel = await this.duels.get(data.duelId);
+    if (
+      !duel ||
+      (duel.challengerId !== userId && duel.opponentId !== userId)
+    ) {
+      return "This duel doesn't exist or is already over.";
+    }
+    if (duel.status !== "pending") {
+      return "This duel has already been accepted.";
+    }
+
+    if (data.type === "duel_accept") {
+      if (duel.opponentId !== userId) {
+        return "Only your opponent can accept this duel.";
+      }
+      if (Date.now() >= duel.endsAt) {
+        return "This duel is already over.";
+      }
+      const accepted: Duel = { ...duel, status: "accepted" };
+      await this.duels.put(accepted);
+      await this.scheduleDuels();
+      this.sendDuel(accepted);
+      return null;
+    }
+
+    await this.duels.delete(duel.id);
+    await this.scheduleDuels();
+    this.sendDuel({ ...duel, status: "declined" });
+    return null;
+  }
+
+  /**
+   * settleDuels
+   * Runs when the duels alarm fires. Pending duels whose window ended
+   * expire; accepted ones whose grace period ended are finished, saved for
+   * the duel record and announced in chat. Duels that fail to save are
+   * retried later.
+   */
+  private async settleDuels() {
+    let failed = false;
+    for (const duel of await this.duels.due()) {
+      try {
+        if (duel.status === "accepted") {
+          await this.finishDuel(duel);
+        } else {
+          await this.duels.delete(duel.id);
+          this.sendDuel({ ...duel, status: "expired" });
+        }
+      } catch (error) {
+        console.error(`Error settling duel ${duel.id}, retrying:`, error);
+        failed = true;
+      }
+    }
+    await this.scheduleDuels(failed ? Date.now() + DUEL_RETRY_MS : 0);
+  }
+
+  /**
+   * Decides the winner of an accepted duel, saves it and announces it
+   */
+  private async finishDuel(duel: Duel) {
+    const winnerId =
+      duel.challengerScore > duel.opponentScore
+        ? duel.challengerId
+        : duel.opponentScore > duel.challengerScore
+          ? duel.opponentId
+          : null;
+    const finished: Duel = { ...duel, status: "finished", winnerId };
+
+    // Upsert, so a retry after a failed delete doesn't fail on the id
+    const db = await this.getServiceClient();
+    const { error } = await db.from("duels").upsert(
+      {
+        id: duel.id,
+        challenger_id: duel.challengerId,
+        challenger_name: duel.challengerName,
+        opponent_id: duel.opponentId,
+        opponent_name: duel.opponentName,
+        starts_at: new Date(duel.startsAt).toISOString(),
+        ends_at: new Date(duel.endsAt).toISOString(),
+        challenger_score: duel.challengerScore,
+        opponent_score: duel.opponentScore,
+        winner_id: winnerId,
+        created_at: new Date(duel.createdAt).toISOString(),
+      },
+      { onConflict: "id" }
+    );
+    if (error) throw error;
+    await this.duels.delete(duel.id);
+    if (winnerId !== null) {
+      const winnerName =
+        winnerId === duel.challengerId ? duel.challengerName : duel.opponentName;
+      await this.trackAchievements(winnerId, winnerName, {
+        add: { duelWins: 1 },
+      });
+    }
+
+    let text: string;
+    if (winnerId === null) {
+      text =
+        `⚔️ The focus duel between ${duel.challengerName} and ` +
+        `${duel.opponentName} ended in a tie, ${duel.challengerScore} ` +
+        `to ${duel.opponentScore}.`;
+    } else {
+      const challengerWon = winnerId === duel.challengerId;
+      const [winner, loser] = challengerWon
+        ? [duel.challengerName, duel.opponentName]
+        : [duel.opponentName, duel.challengerName];
+      const [high, low] = challengerWon
+        ? [duel.challengerScore, duel.opponentScore]
+        : [duel.opponentScore, duel.challengerScore];
+      text = `⚔️ ${winner} won the focus duel against ${loser}, ${high} to ${low}!`;
+    }
+    await this.postMessage(this.createSystemMessage(text));
+    this.sendDuel(finished);
+  }
+
+  /**
+   * Broadcasts the focus session to the room, with what changed
+   */
+  private broadcastFocusSession(
+    event: FocusSessionEvent,
+    session: FocusSession
+  ) {
+    this.broadcast({ type: "focus_session", event, session });
+  }
+
+  /**
+   * Starts a group focus session from a "start_focus_session", with the
+   * sender as host and first participant, and announces it in chat
+   *
+   * @returns Why it was refused, or null
+   */
+  private async startFocusSession(
+    state: ConnectionState,
+    data: StartFocusSessionMessage
+  ): Promise<string | null> {
+    if (await this.focusSessions.current()) {
+      return "A focus session is already running. Join it instead!";
+    }
 
-    // Retrieve existing messages from ephemeral storage
-    const messages =
-      (await this.room.storage.get<ChatMessageStorage[]>("messages")) ?? [];
+    const focusMinutes = Math.floor(data.focusMinutes ?? DEFAULT_FOCUS_MINUTES);
+    const breakMinutes = Math.floor(data.breakMinutes ?? DEFAULT_BREAK_MINUTES);
+    const rounds = Math.floor(data.rounds ?? DEFAULT_ROUNDS);
+    if (
+      focusMinutes < 1 ||
+      focusMinutes > MAX_FOCUS_MINUTES ||
+      breakMinutes < 1 ||
+      breakMinutes > MAX_BREAK_MINUTES ||
+      rounds < 1 ||
+      rounds > MAX_ROUNDS
+    ) {
+      return (
+        `Focus phases last 1 to ${MAX_FOCUS_MINUTES} minutes, breaks 1 to ` +
+        `${MAX_BREAK_MINUTES}, with 1 to ${MAX_ROUNDS} rounds.`
+      );
+    }
 
-    // Send them to the newly connected user
-    for (const msg of messages) {
-      connection.send(JSON.stringify(msg));
+    const now = Date.now();
+    const session: FocusSession = {
+      id: randomCode(16),
+      hostId: state.userId,
+      hostName: state.username,
+      focusMs: focusMinutes * MINUTE_MS,
+      breakMs: breakMinutes * MINUTE_MS,
+      rounds,
+      startedAt: now,
+      endedAt: null,
+      participants: [
+        { userId: state.userId, username: state.username, joinedAt: now },
+      ],
+    };
+    await this.focusSessions.save(session);
+    await this.alarms.schedule(FOCUS_SESSION_ALARM, now + session.focusMs);
+    await this.trackAchievements(state.userId, state.username, {
+      add: { focusSessions: 1 },
+    });
+
+    this.broadcastFocusSession("started", session);
+    await this.postMessage(
+      this.createSystemMessage(
+        `🍅 ${state.username} started a group focus session: ${rounds} × ` +
+          `${focusMinutes} min focus with ${breakMinutes} min breaks. ` +
+          `Join in for a ${FOCUS_SESSION_BONUS}× bonus on productive time!`
+      )
+    );
+    return null;
+  }
+
+  /**
+   * Handles "join_focus_session", "leave_focus_session" and
+   * "end_focus_session" for the running session
+   *
+   * @returns Why it was refused, or null
+   */
+  private async changeFocusSession(
+    state: ConnectionState,
+    type: "join_focus_session" | "leave_focus_session" | "end_focus_session"
+  ): Promise<string | null> {
+    const session = await this.focusSessions.current();
+    if (!session) {
+      return "No focus session is running.";
+    }
+
+    if (type === "end_focus_session") {
+      if (session.hostId !== state.userId) {
+        return "Only the host can end the session.";
+      }
+      await this.endFocusSession(session);
+      return null;
+    }
+
+    const now = Date.now();
+    const others = session.participants.filter(
+      (p) => p.userId !== state.userId
+    );
+    const participant = session.participants.find(
+      (p) => p.userId === state.userId
+    );
+    let participants = session.participants;
+    if (type === "join_focus_session") {
+      if (participant && participant.leftAt === undefined) return null;
+      participants = [
+        ...others,
+        { userId: state.userId, username: state.username, joinedAt: now },
+      ];
+    } else {
+      if (!participant || participant.leftAt !== undefined) return null;
+      participants = [...others, { ...participant, leftAt: now }];
+    }
+
+    const updated: FocusSession = { ...session, participants };
+    await this.focusSessions.save(updated);
+    this.broadcastFocusSession("updated", updated);
+    // Rejoining the same session doesn't count again
+    if (type === "join_focus_session" && !participant) {
+      await this.trackAchievements(state.userId, state.username, {
+        add: { focusSessions: 1 },
+      });
+    }
+    return null;
+  }
+
+  /**
+   * advanceFocusSession
+   * Runs when the focus session alarm fires, at the end of each phase.
+   * Announces the phase that starts, or ends the session after its last
+   * focus phase.
+   */
+  private async advanceFocusSession() {
+    const session = await this.focusSessions.current();
+    if (!session) return;
+
+    const phase = phaseAt(session, Date.now());
+    if (!phase) {
+      await this.endFocusSession(session);
+      return;
+    }
+    this.broadcastFocusSession(phase.phase, session);
+    await this.alarms.schedule(FOCUS_SESSION_ALARM, phase.endsAt);
+  }
+
+  /**
+   * Ends the running session, on schedule or early, and announces it
+   */
+  private async endFocusSession(session: FocusSession) {
+    const ended = await this.focusSessions.end(session);
+    await this.alarms.cancel(FOCUS_SESSION_ALARM);
+    this.broadcastFocusSession("ended", ended);
+
+    const people = ended.participants.length;
+    await this.postMessage(
+      this.createSystemMessage(
+        `🍅 The group focus session is over. ${people} ` +
+          `${people === 1 ? "person" : "people"} focused together.`
+      )
+    );
+  }
+
+  /**
+   * onConnect
+   * Called when a user connects to the PartyKit room.
+   * We set default ephemeral user state, then send them the presence roster
+   * and scoreboard. Named rooms defer this until the user has been admitted
+   * by their "hello" message. Chat history always follows "hello", so
+   * reconnecting clients can ask for only what they missed.
+   */
+  async onConnect(connection: Party.Connection<ConnectionState>) {
+    // Set default ephemeral user state
+    connection.setState({
+      username: "Anonymous",
+      task: "",
+      role: "",
+      status: "active",
+      warningCount: 0,
+      userId: connection.id,
+      hasSetValidUserId: false,
+      protocolVersion: 0,
+      timezone: DEFAULT_TIME_ZONE,
+      region: GLOBAL_REGION,
+      leaderboard: "monthly",
+      leaderboardRegion: GLOBAL_REGION,
+      teamBoard: false,
+      accessRole: "member",
+    });
+
+    if (this.isGlobalRoom()) {
+      await this.sendRoomSnapshot(connection);
+    }
+  }
+
+  /**
+   * Sends the presence roster and the current scoreboard to a connection
+   */
+  private async sendRoomSnapshot(
+    connection: Party.Connection<ConnectionState>
+  ) {
+    this.send(connection, {
+      type: "presence_snapshot",
+      users: Array.from(this.presence.values()),
+    });
+
+    // Send current scoreboard to new connection
+    await this.sendScoreboard(connection);
+  }
+
+  /**
+   * onDisconnect
+   * Called when a user disconnects from the PartyKit room.
+   * We'll send a system message to notify others and clean up any resources.
+   */
+  async onDisconnect(connection: Party.Connection<ConnectionState>) {
+    this.scoreboardViews.delete(connection.id);
+
+    // Get the disconnected user's state
+    const state = connection.state;
+    if (!state || !state.hasSetValidUserId) return;
+
+    // Optional: Notify other users that someone left
+    await this.postMessage(
+      this.createSystemMessage(`${state.username} has left the chat.`)
+    );
+    await this.broadcastRoomInfo();
+    this.syncPresence(connection.id);
+
+    // Force process any pending score updates for this user before they disconnect
+    if (await this.scoreQueue.has(state.userId)) {
+      await this.processBatchScoreUpdates();
+    }
+  }
+
+  /**
+   * Reads one page of chat history, oldest message first.
+   * - before: messages older than the message with this id
+   * - since: messages newer than this timestamp
+   * - neither: the latest messages
+   */
+  private async getHistoryPage(
+    request: Omit<HistoryRequestMessage, "type">
+  ): Promise<HistoryMessage> {
+    const limit = Math.min(
+      Math.max(1, Math.floor(request.limit ?? HISTORY_PAGE_SIZE)),
+      MAX_HISTORY_PAGE_SIZE
+    );
+    return this.messageStore.page({
+      before: request.before,
+      since: request.since,
+      limit,
+    });
+  }
+
+  /**
+   * Sends the edits and deletes a client that has the history up to
+   * `since` missed, e.g. while reconnecting
+   */
+  private async sendChangesSince(
+    connection: Party.Connection<ConnectionState>,
+    since: number | undefined
+  ) {
+    if (since === undefined) return;
+    for (const message of await this.messageStore.changedSince(since)) {
+      this.send(connection, { type: "chat_update", message });
+    }
+  }
+
+  /**
+   * Builds a new chat message with a fresh id
+   */
+  private createChatMessage(
+    userId: string,
+    from: string,
+    text: string
+  ): ChatMessageStorage {
+    const timestamp = Date.now();
+    return {
+      type: "chat",
+      id: createMessageId(timestamp),
+      userId,
+      from,
+      text,
+      timestamp,
+    };
+  }
+
+  /**
+   * Builds a chat message sent by the server itself
+   */
+  private createSystemMessage(text: string): ChatMessageStorage {
+    return this.createChatMessage(SYSTEM_USER_ID, "System", text);
+  }
+
+  /**
+   * Builds a system message announcing an event, with its plain text for
+   * clients that can't show it as a card
+   */
+  private createEventMessage(event: ChatEvent): ChatMessageStorage {
+    return { ...this.createSystemMessage(describeChatEvent(event)), event };
+  }
+
+  /**
+   * Stores a message in the history and broadcasts it
+   */
+  private async postMessage(message: ChatMessageStorage) {
+    await this.messageStore.add(message);
+    this.broadcast(message);
+  }
+
+  /**
+   * Helper method to check if a connection has a valid userId set via hello message
+   */
+  private hasValidUserId(
+    connection: Party.Connection<ConnectionState>
+  ): boolean {
+    return connection.state?.hasSetValidUserId === true;
+  }
+
+  /**
+   * Verifies a signed token issued by the Next.js server actions and returns
+   * the user it identifies. Each token is bound to this room and may only be
+   * used once.
+   */
+  private async authenticate(token: string | undefined): Promise<AuthResult> {
+    const secret = this.room.env?.PARTYKIT_AUTH_SECRET as string | undefined;
+    if (!secret) {
+      console.error("PARTYKIT_AUTH_SECRET is not configured");
+      return { ok: false, reason: "Authentication is not configured" };
+    }
+    if (!token) {
+      return { ok: false, reason: "Missing token" };
+    }
+
+    const result = await verifyPartyToken(token, this.room.id, secret);
+    if (!result.ok) {
+      return result;
+    }
+
+    // Kept in storage until well past the token's expiry, so it can't be
+    // used again after the room was evicted
+    const { nonce, sub, exp } = result.payload;
+    const forgetAt = exp + PARTY_TOKEN_TTL_MS;
+    if (!(await this.usedNonces.use(nonce, forgetAt))) {
+      return { ok: false, reason: "Token has already been used" };
+    }
+    await this.alarms.schedule(NONCES_ALARM, forgetAt, { keepExisting: true });
+
+    return { ok: true, userId: sub };
+  }
+
+  /**
+   * The secret rooms send each other in ROOM_SECRET_HEADER. It's the token
+   * signing secret, which never leaves the servers.
+   */
+  private roomSecret(): string {
+    return (this.room.env?.PARTYKIT_AUTH_SECRET as string | undefined) ?? "";
+  }
+
+  /**
+   * Whether a request was sent by another room (see roomSecret)
+   */
+  private isFromRoom(req: Party.Request): boolean {
+    const secret = this.roomSecret();
+    return !!secret && req.headers.get(ROOM_SECRET_HEADER) === secret;
+  }
+
+  private isGlobalRoom(): boolean {
+    return this.room.id === GLOBAL_ROOM_ID;
+  }
+
+  /**
+   * Loads this room's directory entry. Returns null if a named room
+   * doesn't exist in Supabase.
+   */
+  private async getRoomInfo(): Promise<PartyRoom | null> {
+    if (this.isGlobalRoom()) {
+      return { id: GLOBAL_ROOM_ID, name: "Global", kind: "public", ownerId: "" };
+    }
+    if (this.roomInfo) {
+      return this.roomInfo;
+    }
+
+    const db = await this.getServiceClient();
+    const { data } = await db
+      .from("rooms")
+      .select("id, name, kind, owner_id, invite_code")
+      .eq("id", this.room.id)
+      .maybeSingle();
+
+    if (!data) {
+      return null;
+    }
+
+    this.roomInfo = toPartyRoom(data as RoomRow, data.kind === "private");
+    return this.roomInfo;
+  }
+
+  /**
+   * Returns the user ids of this room's members, used to scope the scoreboard
+   */
+  private async getMemberIds(): Promise<string[]> {
+    const now = Date.now();
+    if (this.memberIdsCache && now < this.memberIdsCacheExpiry) {
+      return this.memberIdsCache;
+    }
+
+    const db = await this.getServiceClient();
+    const { data } = await db
+      .from("room_members")
+      .select("user_id")
+      .eq("room_id", this.room.id);
+
+    this.memberIdsCache = data?.map((row) => row.user_id) ?? [];
+    this.memberIdsCacheExpiry = now + this.MEMBER_IDS_CACHE_TTL;
+    return this.memberIdsCache;
+  }
+
+  /**
+   * Checks whether a user may enter this room, joining open rooms on the
+   * user's first visit. Sends an error and closes the connection otherwise.
+   */
+  private async admitToRoom(
+    connection: Party.Connection<ConnectionState>,
+    userId: string,
+    username: string
+  ): Promise<boolean> {
+    const room = await this.getRoomInfo();
+    if (!room) {
+      this.rejectConnection(
+        connection,
+        "room_not_found",
+        "This room does not exist."
+      );
+      return false;
+    }
+    if (room.kind === "public") {
+      return true;
+    }
+
+    const db = await this.getServiceClient();
+    if (room.kind === "private") {
+      // Always check the database, invites are accepted through other rooms
+      const { data: membership } = await db
+        .from("room_members")
+        .select("user_id")
+        .eq("room_id", this.room.id)
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (!membership) {
+        this.rejectConnection(
+          connection,
+          "room_forbidden",
+          "This room is invite-only. Join it with an invite code first."
+        );
+        return false;
+      }
+    }
+
+    // Keep the member's display name current (and join open rooms)
+    await db.from("room_members").upsert(
+      { room_id: this.room.id, user_id: userId, user_name: username },
+      { onConflict: "room_id,user_id" }
+    );
+
+    this.memberIdsCache = null;
+    this.scoreboardCache.clear();
+    return true;
+  }
+
+  /**
+   * Sends a protocol message to a single connection
+   */
+  private send(
+    connection: Party.Connection<ConnectionState>,
+    message: ServerMessage
+  ) {
+    connection.send(JSON.stringify(message));
+  }
+
+  /**
+   * Sends a protocol message to everyone in the room. In named rooms,
+   * connections that haven't been admitted yet are skipped.
+   */
+  private broadcast(message: ServerMessage) {
+    const without = this.isGlobalRoom()
+      ? []
+      : Array.from(this.room.getConnections<ConnectionState>())
+          .filter((conn) => !conn.state?.hasSetValidUserId)
+          .map((conn) => conn.id);
+    this.room.broadcast(JSON.stringify(message), without);
+  }
+
+  /**
+   * Sends a structured error to a single connection
+   */
+  private sendError(
+    connection: Party.Connection<ConnectionState>,
+    code: ErrorCode,
+    message: string
+  ) {
+    this.send(connection, {
+      type: "error",
+      code,
+      message,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Sends a structured error and closes the connection
+   */
+  private rejectConnection(
+    connection: Party.Connection<ConnectionState>,
+    code: ErrorCode,
+    message: string
+  ) {
+    this.sendError(connection, code, message);
+    connection.close();
+  }
+
+  /**
+   * Lists the identified users connected to this room, one entry per userId
+   */
+  private getOnlineMembers(): Map<string, string> {
+    const online = new Map<string, string>();
+    for (const conn of this.room.getConnections<ConnectionState>()) {
+      if (conn.state?.hasSetValidUserId) {
+        online.set(conn.state.userId, conn.state.username);
+      }
+    }
+    return online;
+  }
+
+  /**
+   * syncPresence
+   * Rebuilds the presence roster from the room's connections and broadcasts
+   * join, leave and update events for whatever changed since the last sync.
+   *
+   * @param closingConnectionId A connection that is going away and must not
+   * be counted, even if the runtime still lists it
+   */
+  private syncPresence(closingConnectionId?: string) {
+    const states = Array.from(this.room.getConnections<ConnectionState>())
+      .filter((conn) => conn.id !== closingConnectionId)
+      .map((conn) => conn.state);
+    const next = buildPresence(states);
+
+    for (const event of diffPresence(this.presence, next)) {
+      this.broadcast(event);
+    }
+    this.presence = next;
+  }
+
+  /**
+   * broadcastRoomInfo
+   * Sends the room's directory entry and member list to everyone in the room.
+   * The global room only lists who is online.
+   */
+  private async broadcastRoomInfo() {
+    const room = await this.getRoomInfo();
+    if (!room) return;
+
+    const online = this.getOnlineMembers();
+    const members: RoomMember[] = [];
+
+    if (!this.isGlobalRoom()) {
+      const db = await this.getServiceClient();
+      const { data } = await db
+        .from("room_members")
+        .select("user_id, user_name")
+        .eq("room_id", this.room.id);
+
+      for (const row of data ?? []) {
+        members.push({
+          userId: row.user_id,
+          username: online.get(row.user_id) ?? row.user_name,
+          online: online.has(row.user_id),
+        });
+      }
+    } else {
+      for (const [userId, username] of online) {
+        members.push({ userId, username, online: true });
+      }
+    }
+
+    this.broadcast({ type: "room_info", room, members });
+  }
+
+  /**
+   * Asks other rooms whose members just had their score changed to refresh
+   * their scoped scoreboards. The global room is always notified.
+   */
+  private async notifyRoomsOfScoreChanges(userIds: string[]) {
+    await this.notifyRooms(userIds, { type: "refresh_scoreboard" });
+  }
+
+  /**
+   * Sends a request to the other rooms the users are members of, and the
+   * global room, with the room secret
+   */
+  private async notifyRooms(
+    userIds: string[],
+    request: { type: string } & Record<string, unknown>
+  ) {
+    const parties = this.room.context?.parties;
+    if (!parties || userIds.length === 0) return;
+
+    const db = await this.getServiceClient();
+    const { data } = await db
+      .from("room_members")
+      .select("room_id")
+      .in("user_id", userIds);
+
+    const roomIds = new Set((data ?? []).map((row) => row.room_id));
+    roomIds.add(GLOBAL_ROOM_ID);
+    roomIds.delete(this.room.id);
+
+    const party = parties[this.room.name];
+    await Promise.all(
+      Array.from(roomIds).map((roomId) =>
+        party
+          .get(roomId)
+          .fetch({
+            method: "POST",
+            headers: { [ROOM_SECRET_HEADER]: this.roomSecret() },
+            body: JSON.stringify(request),
+          })
+          .catch((error) => {
+            console.error(`Failed to notify room ${roomId}:`, error);
+          })
+      )
+    );
+  }
+
+  private getCurrentMonth(): string {
+    return new Date().toISOString().slice(0, 7); // Returns YYYY-MM format
+  }
+
+  private async getServiceClient(): Promise<
+    ReturnType<typeof createServiceClient>
+  > {
+    return createServiceClient(this.room);
+  }
+
+  /**
+   * Reads the rankings of a leaderboard period, highest score first. The
+   * daily and weekly boards cover the current day and week in the given
+   * timezone. Named rooms only rank their own members, and a region other
+   * than GLOBAL_REGION only ranks the users of that region.
+   */
+  private async getScoreboard(
+    period: LeaderboardPeriod = "monthly",
+    timeZone: string = DEFAULT_TIME_ZONE,
+    region: Region = GLOBAL_REGION
+  ): Promise<Scoreboard> {
+    const { key: periodKey, firstDay, lastDay } = periodWindow(
+      period,
+      Date.now(),
+      timeZone
+    );
+    const board = (entries: ScoreboardEntry[]): Scoreboard => ({
+      periodKey,
+      // Regional boards are cut from the global one, so ranks agree
+      entries:
+        region === GLOBAL_REGION
+          ? entries
+          : entries.filter((entry) => entry.region === region),
+    });
+
+    // Return cached result if valid
+    const cacheKey = `${period}:${periodKey}`;
+    const cached = this.scoreboardCache.get(cacheKey);
+    if (cached) {
+      return board(cached);
+    }
+
+    let memberIds: string[] | null = null;
+    if (!this.isGlobalRoom()) {
+      memberIds = await this.getMemberIds();
+      if (memberIds.length === 0) {
+        return board([]);
+      }
+    }
+
+    // Otherwise fetch from database
+    const db = await this.getServiceClient();
+    let rows: ScoreboardEntry[];
+    if (period === "monthly") {
+      let query = db
+        .from("scoreboard")
+        .select("user_id, user_name, score, region")
+        .eq("month", periodKey);
+      if (memberIds) {
+        query = query.in("user_id", memberIds);
+      }
+      const { data } = await query.order("score", { ascending: false });
+      rows = data ?? [];
+    } else if (period === "all_time") {
+      const { data } = await db.rpc("all_time_leaderboard", {
+        p_user_ids: memberIds,
+      });
+      rows = data ?? [];
+    } else {
+      // Daily and weekly totals are summed from the score ledger
+      const { data } = await db.rpc("period_leaderboard", {
+        p_from: firstDay,
+        p_to: lastDay,
+        p_user_ids: memberIds,
+      });
+      rows = data ?? [];
+    }
+
+    // Map to the correct types
+    const typedData: ScoreboardEntry[] = rows.map((item) => ({
+      user_id: item.user_id,
+      user_name: item.user_name,
+      score: item.score,
+      region: item.region || GLOBAL_REGION,
+    }));
+
+    // Update cache
+    this.scoreboardCache.set(cacheKey, typedData);
+
+    return board(typedData);
+  }
+
+  /**
+   * Reads this month's team rankings, best team first. A team scores its
+   * members' total divided by how many of them scored this month.
+   */
+  private async getTeamScoreboard(): Promise<TeamStanding[]> {
+    const month = this.getCurrentMonth();
+    const cached = this.teamScoreboardCache.get(month);
+    if (cached) {
+      return cached;
+    }
+
+    const db = await this.getServiceClient();
+    const { data } = await db.rpc("team_leaderboard", { p_month: month });
+    const standings = ((data ?? []) as TeamStandingRow[]).map(
+      (row, index): TeamStanding => ({
+        rank: index + 1,
+        teamId: row.team_id,
+        name: row.team_name,
+        members: row.members,
+        activeMembers: row.active_members,
+        totalScore: row.total_score,
+        score: row.score,
+      })
+    );
+
+    this.teamScoreboardCache.set(month, standings);
+    return standings;
+  }
+
+  private async getTeamScoreboardMessage(): Promise<TeamScoreboardMessage> {
+    return {
+      type: "team_scoreboard",
+      month: this.getCurrentMonth(),
+      teams: await this.getTeamScoreboard(),
+    };
+  }
+
+  /**
+   * Reads the streaks of the users on a leaderboard, from the cache where
+   * it has them. Users without streaks are left out. Streaks are only
+   * decoration, so a failed read leaves them all out.
+   */
+  private async getStreaks(
+    userIds: string[]
+  ): Promise<Map<string, StreakRecord>> {
+    const streaks = new Map<string, StreakRecord>();
+    const missing: string[] = [];
+    for (const userId of userIds) {
+      const cached = this.streakCache.get(userId);
+      if (cached) {
+        streaks.set(userId, cached);
+      } else {
+        missing.push(userId);
+      }
+    }
+    if (missing.length === 0) return streaks;
+
+    try {
+      const db = await this.getServiceClient();
+      const { data, error } = await db
+        .from("user_streaks")
+        .select(
+          "user_id, time_zone, daily_to, daily, best_daily, flow_date, flow, best_flow"
+        )
+        .in("user_id", missing);
+      if (error) throw error;
+
+      const found = new Map(
+        ((data ?? []) as StreakRow[]).map((row) => [
+          row.user_id,
+          toStreakRecord(row),
+        ])
+      );
+      for (const userId of missing) {
+        // Users without a row are cached too, so they aren't read again
+        const record =
+          found.get(userId) ?? emptyStreakState(DEFAULT_TIME_ZONE);
+        this.streakCache.set(userId, record);
+        streaks.set(userId, record);
+      }
+    } catch (error) {
+      console.error("Error loading streaks:", error);
+    }
+    return streaks;
+  }
+
+  /**
+   * Saves streaks that just changed to Supabase, where every room's
+   * leaderboard reads them, and tells the global room. The room keeps its
+   * own copy, so a failed save is caught up at the next change.
+   */
+  private async saveStreaks(
+    userId: string,
+    username: string,
+    state: StreakState
+  ) {
+    this.streakCache.set(userId, state);
+    this.broadcast({
+      type: "streak",
+      userId,
+      username,
+      streaks: streaksAt(state, Date.now()),
+    });
+
+    try {
+      const db = await this.getServiceClient();
+      const { error } = await db.from("user_streaks").upsert({
+        user_id: userId,
+        user_name: username,
+        time_zone: state.timeZone,
+        daily_to: state.dailyTo,
+        daily: state.daily,
+        best_daily: state.bestDaily,
+        flow_date: state.flowDate,
+        flow: state.flow,
+        best_flow: state.bestFlow,
+        updated_at: new Date().toISOString(),
+      });
+      if (error) throw error;
+    } catch (error) {
+      console.error("Error saving streaks:", error);
+    }
+  }
+
+  /**
+   * Announces the streak milestones a user just passed, comparing their
+   * streaks before and after blocks were credited
+   */
+  private async announceStreaks(
+    userId: string,
+    username: string,
+    before: StreakState | null,
+    after: StreakState,
+    now: number
+  ) {
+    const previous = streaksAt(before ?? emptyStreakState(after.timeZone), now);
+    const current = streaksAt(after, now);
+    for (const streak of ["daily", "flow"] as const) {
+      const length = streakMilestone(streak, previous[streak], current[streak]);
+      if (length !== null) {
+        await this.announce({
+          type: "streak_milestone",
+          userId,
+          username,
+          streak,
+          length,
+        });
+      }
+    }
+  }
+
+
+  /**
+   * Drops the cached user and team rankings after scores or teams change
+   */
+  private invalidateScoreboards() {
+    this.scoreboardCache.clear();
+    this.teamScoreboardCache.clear();
+  }
+
+  /**
+   * Works out what a connection should have of the leaderboard it
+   * subscribed to: the top of the board, the rows around its user and the
+   * pages it loaded (or, before protocol version 4, every row), and where
+   * its user ranks globally and in their region
+   */
+  private async buildScoreboardView(
+    state: ConnectionState | null | undefined,
+    loaded: RowRange[]
+  ): Promise<ScoreboardView> {
+    const period = state?.leaderboard ?? "monthly";
+    const timeZone = state?.timezone ?? DEFAULT_TIME_ZONE;
+    const scope = state?.leaderboardRegion ?? GLOBAL_REGION;
+    const userRegion = state?.region ?? GLOBAL_REGION;
+
+    const indexIn = ({ entries }: Scoreboard) => {
+      const index = entries.findIndex(
+        (entry) => entry.user_id === state?.userId
+      );
+      return index >= 0 ? index : null;
+    };
+    const rankIn = (board: Scoreboard) => {
+      const index = indexIn(board);
+      return index === null ? null : index + 1;
+    };
+
+    // All served from the same cached rows
+    const global = await this.getScoreboard(period, timeZone);
+    const shown = await this.getScoreboard(period, timeZone, scope);
+    const regional =
+      userRegion === GLOBAL_REGION
+        ? null
+        : await this.getScoreboard(period, timeZone, userRegion);
+
+    const total = shown.entries.length;
+    const indexes =
+      (state?.protocolVersion ?? 0) >= WINDOWED_SCOREBOARD_VERSION
+        ? visibleIndexes(total, indexIn(shown), loaded)
+        : shown.entries.map((_, index) => index);
+    const streaks = await this.getStreaks(
+      indexes.map((index) => shown.entries[index].user_id)
+    );
+    const now = Date.now();
+
+    return {
+      period,
+      periodKey: global.periodKey,
+      region: scope,
+      ranks: {
+        global: rankIn(global),
+        regional: regional && rankIn(regional),
+      },
+      total,
+      loaded,
+      // Transform property names to match client expectations
+      rows: new Map(
+        indexes.map((index) => {
+          const entry = shown.entries[index];
+          return [
+            entry.user_id,
+            {
+              rank: index + 1,
+              userId: entry.user_id,
+              username: entry.user_name,
+              score: entry.score,
+              region: entry.region,
+              ...streakFields(streaks.get(entry.user_id), now),
+            },
+          ];
+        })
+      ),
+    };
+  }
+
+  /**
+   * Posts an event to chat, unless the user it is about opted out of
+   * announcements
+   */
+  private async announce(event: ChatEvent) {
+    if (!(await this.allowsAnnouncements(event.userId))) return;
+    await this.postMessage(this.createEventMessage(event));
+  }
+
+  /**
+   * Whether a user's milestones may be announced in chat. Users who never
+   * chose are announced. Announcements are only decoration, so a failed
+   * read leaves them out.
+   */
+  private async allowsAnnouncements(userId: string): Promise<boolean> {
+    const cached = this.announcementsCache.get(userId);
+    if (cached !== null) return cached;
+
+    try {
+      const db = await this.getServiceClient();
+      const { data, error } = await db
+        .from("user_privacy")
+        .select("announcements")
+        .eq("user_id", userId)
+        .maybeSingle();
+      if (error) throw error;
+
+      const allowed =
+        (data as { announcements: boolean } | null)?.announcements ?? true;
+      this.announcementsCache.set(userId, allowed);
+      return allowed;
+    } catch (error) {
+      console.error("Error loading announcement setting:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Stores whether a user's milestones are announced in chat
+   */
+  private async saveAnnouncements(userId: string, announcements: boolean) {
+    this.announcementsCache.set(userId, announcements);
+    try {
+      const db = await this.getServiceClient();
+      const { error } = await db.from("user_privacy").upsert({
+        user_id: userId,
+        announcements,
+        updated_at: new Date().toISOString(),
+      });
+      if (error) throw error;
+    } catch (error) {
+      console.error("Error saving announcement setting:", error);
+    }
+  }
+
+  /**
+   * Stores the region a user picked, for their future monthly rows and the
+   * period leaderboards, and moves this month's row right away
+   */
+  private async saveRegion(userId: string, region: Region) {
+    try {
+      const db = await this.getServiceClient();
+      const { error } = await db.from("user_regions").upsert({
+        user_id: userId,
+        region,
+        updated_at: new Date().toISOString(),
+      });
+      if (error) throw error;
+
+      await db
+        .from("scoreboard")
+        .update({ region })
+        .eq("user_id", userId)
+        .eq("month", this.getCurrentMonth());
+    } catch (error) {
+      console.error("Error saving region:", error);
+    }
+    this.scoreboardCache.clear();
+  }
+
+  /**
+   * Queues a score delta for a user, with the ledger event explaining it.
+   * Deltas for the same user are summed in room storage until the next
+   * batch, which applies them with an atomic increment in the database, so
+   * nothing is read here and no update can be lost.
+   */
+  private async updateScore(
+    userId: string,
+    username: string,
+    delta: number,
+    event: ScoreEvent
+  ) {
+    await this.scoreQueue.add(userId, username, delta, event);
+
+    // Flush within SCORE_UPDATE_INTERVAL, unless a flush (or a retry after
+    // a failed one) is already scheduled
+    await this.alarms.schedule(
+      FLUSH_SCORES_ALARM,
+      Date.now() + this.SCORE_UPDATE_INTERVAL,
+      { keepExisting: true }
+    );
+
+    return true;
+  }
+
+  /**
+   * Credits the blocks the user hasn't been credited for yet and queues the
+   * delta they earn. Blocks credited before are skipped, so a retried or
+   * replayed submission can't count twice.
+   *
+   * Implausible submissions are cut down first: bursts are refused
+   * outright, blocks overlapping one already credited are dropped, and
+   * blocks worth more (or less) than the wall-clock time since the user's
+   * last submission allows are left uncredited, to be submitted again once
+   * the allowance refills. Each of these is recorded as a violation.
+   *
+   * Every submission, credited or not, gets an entry in the score ledger,
+   * dated in the user's timezone for the daily and weekly leaderboards.
+   * Credited blocks also count towards duels, the user's streaks and their
+   * achievements, unless the user is banned from scoring.
+   */
+  private async submitBlocks(
+    userId: string,
+    username: string,
+    blocks: ScoredBlock[],
+    source: ScoreEventSource,
+    timeZone: string
+  ): Promise<ScoreSubmission> {
+    // Looked up first, so a failed lookup leaves the blocks unclaimed
+    const scoreBanned = await this.isScoreBanned(userId);
+    const submission = await this.checkSubmission(userId, username, blocks);
+    const now = Date.now();
+
+    // A banned user's delta is dropped at the flush, and nothing else
+    // may count their blocks either
+    const credited = submission.credited.length > 0;
+    if (credited && !scoreBanned) {
+      // Blocks credited during a duel's window count towards it
+      for (const duel of await this.duels.credit(userId, submission.credited)) {
+        this.sendDuel(duel);
+      }
+      const before = await this.streaks.get(userId);
+      const streaks = await this.streaks.credit(
+        userId,
+        submission.credited,
+        timeZone,
+        now
+      );
+      if (streaks) {
+        await this.saveStreaks(userId, username, streaks);
+        await this.announceStreaks(userId, username, before, streaks, now);
+      }
+      await this.trackAchievements(userId, username, {
+        add: productiveHours(submission.credited, timeZone),
+        max: streaks
+          ? { dailyStreak: streaks.bestDaily, flowStreak: streaks.bestFlow }
+          : undefined,
+      });
+    }
+    const decision: ScoreDecision = !credited
+      ? "rejected"
+      : submission.violations.length > 0
+        ? "clamped"
+        : "applied";
+    await this.updateScore(userId, username, submission.delta, {
+      delta: submission.delta,
+      requestedDelta: scoreBlocks(blocks),
+      source,
+      blockIds: blocks.map((block) => block.id),
+      decision,
+      reason: submission.burst
+        ? "Too many submissions in a short time"
+        : describeSubmission(submission),
+      timestamp: now,
+      localDate: localDate(now, timeZone),
+    });
+    return submission;
+  }
+
+  /**
+   * Whether a user is banned from scoring
+   */
+  private async isScoreBanned(userId: string): Promise<boolean> {
+    let banned = this.scoreBanCache.get(userId);
+    if (banned === null) {
+      const db = await this.getServiceClient();
+      const { data } = await db
+        .from("banned")
+        .select("banned_score_reason")
+        .eq("user_id", userId)
+        .single();
+      banned = !!data?.banned_score_reason;
+      this.scoreBanCache.set(userId, banned);
+    }
+    return banned;
+  }
+
+  /**
+   * Works out which of the submitted blocks can be credited (see
+   * submitBlocks) and what they are worth
+   */
+  private async checkSubmission(
+    userId: string,
+    username: string,
+    blocks: ScoredBlock[]
+  ): Promise<ScoreSubmission> {
+    if (!(await this.scoreGuard.recordSubmission(userId))) {
+      const violations: ScoreViolation[] = [
+        { kind: "burst", blockIds: blocks.map((block) => block.id) },
+      ];
+      await this.recordScoreViolations(userId, username, violations);
+      return {
+        credited: [],
+        duplicates: [],
+        expired: [],
+        overlapping: [],
+        delta: 0,
+        bonus: 0,
+        burst: true,
+        violations,
+      };
+    }
+
+    // Only blocks within the allowance are claimed, the rest can be
+    // credited when they're submitted again
+    const claim = await this.creditedBlocks.check(userId, blocks);
+    const { allowed, violations } = await this.scoreGuard.spendAllowance(
+      userId,
+      claim.credited
+    );
+    const { credited } = await this.creditedBlocks.claim(userId, allowed);
+    if (claim.overlapping.length > 0) {
+      violations.unshift({
+        kind: "overlapping_blocks",
+        blockIds: claim.overlapping,
+      });
+    }
+    if (violations.length > 0) {
+      await this.recordScoreViolations(userId, username, violations);
     }
 
-    // Send current scoreboard to new connection
-    await this.broadcastScoreboardToConnection(connection);
+    // Productive time in a group focus session earns extra
+    const bonusBlocks = await this.focusSessions.bonusBlocks(userId, credited);
+    const bonus = Math.round(
+      bonusBlocks.reduce((sum, block) => sum + blockScore(block), 0) *
+        (FOCUS_SESSION_BONUS - 1)
+    );
+
+    return {
+      ...claim,
+      credited,
+      delta: scoreBlocks(credited) + bonus,
+      bonus,
+      burst: false,
+      violations,
+    };
   }
 
   /**
-   * onDisconnect
-   * Called when a user disconnects from the PartyKit room.
-   * We'll send a system message to notify others and clean up any resources.
+   * Records the anti-cheat violations of a submission in Supabase, for the
+   * flagged users report. A user who submits MAX_SCORE_VIOLATIONS times
+   * with an offence within SCORE_VIOLATION_WINDOW_MS is banned from
+   * scoring, which stops their deltas at the next flush. A submission
+   * holds at most one offence, so each counts once.
    */
-  async onDisconnect(connection: Party.Connection<ConnectionState>) {
-    // Get the disconnected user's state
-    const state = connection.state;
-    if (!state || !state.hasSetValidUserId) return;
-
-    // Optional: Notify other users that someone left
-    const systemMsg: ChatMessageStorage = {
-      type: "chat",
-      from: "System",
-      text: `${state.username} has left the chat.`,
-      timestamp: Date.now(),
-    };
-
-    // Get existing messages
-    const messages =
-      (await this.room.storage.get<ChatMessageStorage[]>("messages")) ?? [];
+  private async recordScoreViolations(
+    userId: string,
+    username: string,
+    violations: ScoreViolation[]
+  ) {
+    console.warn(
+      `Score violations by ${userId}:`,
+      violations.map((violation) => violation.kind).join(", ")
+    );
 
-    // Add system message about user leaving
-    messages.unshift(systemMsg);
+    try {
+      const db = await this.getServiceClient();
+      const { error } = await db.from("score_violations").insert(
+        violations.map((violation) => ({
+          user_id: userId,
+          user_name: username,
+          kind: violation.kind,
+          details: { blockIds: violation.blockIds },
+        }))
+      );
+      if (error) throw error;
 
-    // Prune if needed
-    if (messages.length > MAX_MESSAGES) {
-      messages.length = MAX_MESSAGES;
-    }
+      // Catching up on a backlog isn't cheating
+      if (!violations.some((v) => SCORE_OFFENCES.includes(v.kind))) return;
 
-    // Save and broadcast
-    await this.room.storage.put("messages", messages);
-    this.room.broadcast(JSON.stringify(systemMsg));
+      const since = new Date(Date.now() - SCORE_VIOLATION_WINDOW_MS);
+      const { count } = await db
+        .from("score_violations")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", userId)
+        .in("kind", SCORE_OFFENCES)
+        .gte("created_at", since.toISOString());
 
-    // Force process any pending score updates for this user before they disconnect
-    if (this.scoreUpdateQueue.has(state.userId)) {
-      await this.processBatchScoreUpdates();
+      if ((count ?? 0) >= MAX_SCORE_VIOLATIONS) {
+        await db.from("banned").upsert({
+          user_id: userId,
+          banned_score_reason: `Automatic: ${count} implausible score submissions in 24 hours`,
+        });
+        this.scoreBanCache.set(userId, true);
+      }
+    } catch (error) {
+      console.error("Error recording score violations:", error);
     }
   }
 
   /**
-   * Helper method to check if a connection has a valid userId set via hello message
+   * Builds the admin report of users with score violations within
+   * FLAGGED_USERS_REPORT_MS, most violations first
    */
-  private hasValidUserId(
-    connection: Party.Connection<ConnectionState>
-  ): boolean {
-    return connection.state?.hasSetValidUserId === true;
-  }
+  private async getFlaggedUsers(since: number): Promise<FlaggedUser[]> {
+    const db = await this.getServiceClient();
+    const { data: rows } = await db
+      .from("score_violations")
+      .select("user_id, user_name, kind, created_at")
+      .gte("created_at", new Date(since).toISOString())
+      .order("created_at", { ascending: false })
+      .limit(1000);
 
-  private getCurrentMonth(): string {
-    return new Date().toISOString().slice(0, 7); // Returns YYYY-MM format
-  }
+    const users = new Map<string, FlaggedUser>();
+    for (const row of (rows ?? []) as ScoreViolationRow[]) {
+      const user = users.get(row.user_id) ?? {
+        userId: row.user_id,
+        username: row.user_name,
+        violations: 0,
+        kinds: {},
+        // Rows are newest first
+        lastViolationAt: new Date(row.created_at).getTime(),
+        scoreBanned: false,
+      };
+      user.violations += 1;
+      user.kinds[row.kind] = (user.kinds[row.kind] ?? 0) + 1;
+      users.set(row.user_id, user);
+    }
 
-  private async getServiceClient(): Promise<
-    ReturnType<typeof createServiceClient>
-  > {
-    return createServiceClient(this.room);
-  }
+    if (users.size > 0) {
+      const { data: banned } = await db
+        .from("banned")
+        .select("user_id, banned_score_reason")
+        .in("user_id", Array.from(users.keys()));
+      for (const row of banned ?? []) {
+        const user = users.get(row.user_id);
+        if (user) user.scoreBanned = !!row.banned_score_reason;
+      }
+    }
 
-  private async getScoreboard(): Promise<ScoreboardEntry[]> {
-    const now = Date.now();
+    return Array.from(users.values()).sort(
+      (a, b) => b.violations - a.violations
+    );
+  }
 
-    // Return cached result if valid
-    if (this.scoreboardCache && now < this.scoreboardCacheExpiry) {
-      return this.scoreboardCache;
+  /**
+   * Flushes the queued deltas through the increment_scores database
+   * function (see supabase/migrations), which adds them in place and clamps
+   * scores at zero. The same call writes the ledger events explaining the
+   * deltas to score_events. If the call fails, the deltas go back in the
+   * queue and the flush is retried with exponential backoff. The new
+   * monthly scores and ranks count towards achievements.
+   *
+   * Flushes run one at a time. A flush requested while another is writing
+   * waits for it, then takes what was queued in the meantime.
+   */
+  private async processBatchScoreUpdates() {
+    while (this.flushing) {
+      await this.flushing;
+    }
+    this.flushing = this.flushScores();
+    try {
+      await this.flushing;
+    } finally {
+      this.flushing = null;
     }
+  }
 
-    // Otherwise fetch from database
-    const db = await this.getServiceClient();
-    const month = this.getCurrentMonth();
+  /**
+   * Writes one batch of queued deltas (see processBatchScoreUpdates)
+   */
+  private async flushScores() {
+    // Deltas queued from here on go into the next batch
+    const batch = await this.scoreQueue.takeBatch();
 
-    const { data } = await db
-      .from("scoreboard")
-      .select("user_id, user_name, score, month, region")
-      .eq("month", month)
-      .order("score", { ascending: false });
+    // If queue is empty, do nothing
+    if (batch.size === 0) return;
 
-    if (!data) {
-      return [];
-    }
+    const month = this.getCurrentMonth();
+    const updates = Array.from(batch.entries());
 
-    // Map to the correct types
-    const typedData: ScoreboardEntry[] = data.map((item) => ({
-      user_id: item.user_id,
-      user_name: item.user_name,
-      score: item.score,
-      month: item.month,
-      region: item.region || "global",
-    }));
+    // Invalidate scoreboard cache since we're updating scores
+    this.invalidateScoreboards();
 
-    // Update cache
-    this.scoreboardCache = typedData;
-    this.scoreboardCacheExpiry = now + this.SCOREBOARD_CACHE_TTL;
+    let increments: { user_id: string; user_name: string; delta: number }[];
+    let scores: ScoreRow[];
+    try {
+      const db = await this.getServiceClient();
 
-    return typedData;
-  }
+      // First filter out users banned from scoring
+      const userIds = updates.map(([userId]) => userId);
+      const { data: bannedUsers } = await db
+        .from("banned")
+        .select("user_id, banned_score_reason")
+        .in("user_id", userIds);
 
-  private async updateScore(userId: string, username: string, delta: number) {
-    // Get the current scoreboard row
-    const db = await this.getServiceClient();
-    const month = this.getCurrentMonth();
+      const bannedUserIds = new Set(
+        bannedUsers
+          ?.filter((u) => u.banned_score_reason)
+          .map((u) => u.user_id) || []
+      );
 
-    // fetch existing entry
-    const { data: existing } = await db
-      .from("scoreboard")
-      .select("*")
-      .eq("user_id", userId)
-      .eq("month", month)
-      .single();
+      // Prepare deltas for non-banned users
+      increments = updates
+        .filter(([userId, data]) => !bannedUserIds.has(userId) && data.delta)
+        .map(([userId, data]) => ({
+          user_id: userId,
+          user_name: data.username,
+          delta: data.delta,
+        }));
 
-    const oldScore = existing?.score ?? 0;
-    // Ensure score never goes below 0
-    const newScore = Math.max(0, oldScore + delta);
+      // Ledger entries; a banned user's submissions are rejected here
+      const events = updates.flatMap(([userId, data]) =>
+        (data.events ?? []).map((event) => {
+          const banned = bannedUserIds.has(userId);
+          return {
+            created_at: new Date(event.timestamp).toISOString(),
+            user_id: userId,
+            user_name: data.username,
+            delta: banned ? 0 : event.delta,
+            requested_delta: event.requestedDelta,
+            source: event.source,
+            block_ids: event.blockIds,
+            decision: banned ? "rejected" : event.decision,
+            reason: banned ? "Banned from scoring" : event.reason,
+            // Missing on events queued by older versions, dated in UTC then
+            local_date: event.localDate,
+          };
+        })
+      );
 
-    // Queue the score update
-    this.scoreUpdateQueue.set(userId, {
-      username,
-      score: newScore,
-      timestamp: Date.now(),
-    });
+      if (increments.length === 0 && events.length === 0) {
+        await this.scoreQueue.commitBatch();
+        return;
+      }
 
-    // Start the timer if not already running
-    if (!this.scoreUpdateTimer) {
-      this.scoreUpdateTimer = setTimeout(
-        () => this.processBatchScoreUpdates(),
-        this.SCORE_UPDATE_INTERVAL
+      // Apply all deltas and record their events in one atomic call
+      const { data, error } = await db.rpc("increment_scores", {
+        p_month: month,
+        p_updates: increments,
+        p_events: events,
+      });
+      if (error) throw error;
+      scores = data ?? [];
+    } catch (error) {
+      const attempts = await this.scoreQueue.failBatch();
+      const backoff = Math.min(
+        this.SCORE_UPDATE_INTERVAL * 2 ** attempts,
+        SCORE_FLUSH_MAX_BACKOFF_MS
+      );
+      console.error(
+        `Error batch updating scores (attempt ${attempts}), retrying in ${backoff}ms:`,
+        error
       );
+      await this.alarms.schedule(FLUSH_SCORES_ALARM, Date.now() + backoff);
+      return;
     }
+    await this.scoreQueue.commitBatch();
+    if (increments.length === 0) return;
 
-    return true;
+    // Broadcast updated scoreboard
+    await this.broadcastScoreboard();
+    await this.notifyRoomsOfScoreChanges(
+      increments.map((entry) => entry.user_id)
+    );
+    await this.trackScores(
+      scores,
+      new Map(increments.map((entry) => [entry.user_id, entry.user_name]))
+    );
   }
 
-  private async processBatchScoreUpdates() {
-    // Clear the timer
-    this.scoreUpdateTimer = null;
-
-    // If queue is empty, do nothing
-    if (this.scoreUpdateQueue.size === 0) return;
-
-    const db = await this.getServiceClient();
+  /**
+   * Queues the monthly scores just flushed, and the ranks they give on the
+   * monthly leaderboard, as achievement stats. Users who reach a new rank
+   * milestone this month are announced in chat.
+   */
+  private async trackScores(scores: ScoreRow[], names: Map<string, string>) {
     const month = this.getCurrentMonth();
-    const updates = Array.from(this.scoreUpdateQueue.entries());
+    const ranks = new Map<string, number>();
+    try {
+      const { entries } = await this.getScoreboard("monthly");
+      entries.forEach((entry, index) => ranks.set(entry.user_id, index + 1));
+    } catch (error) {
+      console.error("Error ranking users for achievements:", error);
+    }
 
-    // Clear the queue
-    this.scoreUpdateQueue.clear();
+    for (const { user_id, score } of scores) {
+      const username = names.get(user_id) ?? user_id;
+      const rank = ranks.get(user_id);
+      await this.trackAchievements(user_id, username, {
+        max: { monthlyScore: score },
+        min: rank ? { monthlyRank: rank } : undefined,
+      });
 
-    // Invalidate scoreboard cache since we're updating scores
-    this.scoreboardCache = null;
-    this.scoreboardCacheExpiry = 0;
+      const milestone = rank ? rankMilestone(rank) : null;
+      if (
+        rank &&
+        milestone !== null &&
+        (await this.rankMilestones.reach(user_id, month, milestone))
+      ) {
+        await this.announce({
+          type: "rank_up",
+          userId: user_id,
+          username,
+          rank,
+          milestone,
+          month,
+        });
+      }
+    }
+  }
 
-    // First filter out banned users
-    const userIds = updates.map(([userId]) => userId);
-    const { data: bannedUsers } = await db
-      .from("banned")
-      .select("user_id, banned_score_reason")
-      .in("user_id", userIds);
+  /**
+   * Queues a change to a user's achievement stats. Changes are merged in
+   * room storage and written within SCORE_UPDATE_INTERVAL, unless a write
+   * (or a retry after a failed one) is already scheduled.
+   */
+  private async trackAchievements(
+    userId: string,
+    username: string,
+    update: AchievementStatUpdate
+  ) {
+    await this.achievementQueue.add(userId, username, update);
+    await this.alarms.schedule(
+      ACHIEVEMENTS_ALARM,
+      Date.now() + this.SCORE_UPDATE_INTERVAL,
+      { keepExisting: true }
+    );
+  }
 
-    const bannedUserIds = new Set(bannedUsers?.map((u) => u.user_id) || []);
+  /**
+   * Writes the queued achievement stats through the
+   * record_achievement_progress database function, which merges them into
+   * each user's progress and returns it, then unlocks the achievements the
+   * new stats earn, sends them to their users and announces them in chat.
+   * If the write fails, the
+   * stats go back in the queue and are retried after ACHIEVEMENTS_RETRY_MS.
+   * Unlocks are worked out against the saved ones every time, so a failed
+   * unlock is caught up at the user's next change.
+   */
+  private async flushAchievements() {
+    const updates = await this.achievementQueue.take();
+    if (updates.size === 0) return;
 
-    // Prepare upsert data for non-banned users
-    const upsertData = updates
-      .filter(([userId]) => !bannedUserIds.has(userId))
-      .map(([userId, data]) => ({
-        user_id: userId,
-        user_name: data.username,
-        score: data.score,
-        month,
-        region: "global",
-      }));
-
-    if (upsertData.length === 0) return;
-
-    console.log("Upserting data:", upsertData);
-    // Perform the batch upsert
-    const { error } = await db.from("scoreboard").upsert(upsertData, {
-      onConflict: "user_id,month",
+    const db = await this.getServiceClient();
+    let rows: AchievementRow[];
+    try {
+      const { data, error } = await db.rpc("record_achievement_progress", {
+        p_updates: Array.from(updates, ([userId, { update }]) => ({
+          user_id: userId,
+          add: update.add ?? {},
+          max: update.max ?? {},
+          min: update.min ?? {},
+        })),
+      });
+      if (error) throw error;
+      rows = data ?? [];
+    } catch (error) {
+      console.error("Error recording achievement progress, retrying:", error);
+      await this.achievementQueue.restore(updates);
+      await this.alarms.schedule(
+        ACHIEVEMENTS_ALARM,
+        Date.now() + ACHIEVEMENTS_RETRY_MS
+      );
+      return;
+    }
+
+    const now = Date.now();
+    const unlocks = rows.flatMap((row) => {
+      const earned = newlyUnlocked(row.progress ?? {}, row.achievements ?? []);
+      return earned.length > 0
+        ? [
+            {
+              user_id: row.user_id,
+              achievements: earned.map(
+                ({ id }): AchievementUnlock => ({ id, unlockedAt: now })
+              ),
+            },
+          ]
+        : [];
     });
+    if (unlocks.length === 0) return;
 
-    if (error) {
-      console.error("Error batch updating scores:", error);
-    }
+    try {
+      // Only unlocks the user doesn't have yet are saved and returned
+      const { data, error } = await db.rpc("unlock_achievements", {
+        p_unlocks: unlocks,
+      });
+      if (error) throw error;
 
-    // Broadcast updated scoreboard
-    await this.broadcastScoreboard();
+      const unlocked = (data ?? []) as Omit<AchievementRow, "progress">[];
+      for (const row of unlocked) {
+        const username = updates.get(row.user_id)?.username ?? row.user_id;
+        for (const achievement of toUserAchievements(row.achievements)) {
+          this.sendToUser(row.user_id, { type: "achievement", achievement });
+          await this.announce({
+            type: "achievement_unlocked",
+            userId: row.user_id,
+            username,
+            achievementId: achievement.id,
+          });
+        }
+      }
+    } catch (error) {
+      console.error("Error unlocking achievements:", error);
+    }
   }
 
-  private async isUserBanned(userId: string): Promise<boolean> {
+  /**
+   * The ban or mute keeping a user out of chat right now, if any
+   */
+  private async getChatRestriction(
+    userId: string
+  ): Promise<ChatRestriction | null> {
     // Check cache first
-    const cachedBanned = this.bannedChatCache.get(userId);
-    if (cachedBanned !== null) {
-      return cachedBanned;
-    }
+    let restriction = this.bannedChatCache.get(userId);
 
     // Cache miss - check database
-    const db = await this.getServiceClient();
-    const { data } = await db
-      .from("banned")
-      .select("banned_chat_reason")
-      .eq("user_id", userId)
-      .single();
+    if (restriction === null) {
+      const db = await this.getServiceClient();
+      const { data } = await db
+        .from("banned")
+        .select("banned_chat_reason, banned_chat_until")
+        .eq("user_id", userId)
+        .single();
 
-    const isBanned = !!data?.banned_chat_reason;
-    // Update cache
-    this.bannedChatCache.set(userId, isBanned);
+      restriction = data?.banned_chat_reason
+        ? {
+            reason: data.banned_chat_reason,
+            until: data.banned_chat_until
+              ? Date.parse(data.banned_chat_until)
+              : null,
+          }
+        : false;
+      this.bannedChatCache.set(userId, restriction);
+    }
+
+    return restriction && isRestricted(restriction, Date.now())
+      ? restriction
+      : null;
+  }
+
+  /**
+   * Saves or lifts a user's chat ban or mute. The cache is updated right
+   * away; other rooms pick the change up when their cache expires.
+   */
+  private async saveChatRestriction(
+    userId: string,
+    restriction: ChatRestriction | null
+  ) {
+    const db = await this.getServiceClient();
+    if (restriction) {
+      await db.from("banned").upsert({
+        user_id: userId,
+        banned_chat_reason: restriction.reason,
+        banned_chat_until:
+          restriction.until === null
+            ? null
+            : new Date(restriction.until).toISOString(),
+      });
+    } else {
+      // Leaves a score ban in place
+      await db
+        .from("banned")
+        .update({ banned_chat_reason: null, banned_chat_until: null })
+        .eq("user_id", userId);
+    }
+    this.bannedChatCache.set(userId, restriction ?? false);
 
-    return isBanned;
+    // Other rooms read it again rather than wait for their cache to expire
+    await this.notifyRooms([userId], { type: "refresh_restriction", userId });
   }
 
   /**
@@ -382,62 +2750,76 @@ export default class ChatServer implements Party.Server {
     this.messageRateLimits.set(userId, userMessages);
   }
 
-  async onMessage(raw: string, sender: Party.Connection<ConnectionState>) {
-    // If server is shutting down, reject all messages
-    if (this.isShuttingDown) {
-      sender.send(
-        JSON.stringify({
-          type: "error",
-          message:
-            "Server is shutting down. Please reconnect in a few minutes.",
-          timestamp: Date.now(),
-        })
+  /**
+   * Whether a user may write to the chat now, telling them why not. Checks
+   * bans and mutes, the focus session mute and the rate limit, and counts
+   * the message towards the rate limit. Used for new and edited messages.
+   */
+  private async mayWrite(
+    sender: Party.Connection<ConnectionState>
+  ): Promise<boolean> {
+    const { userId } = sender.state!;
+
+    const restriction = await this.getChatRestriction(userId);
+    if (restriction) {
+      this.sendError(
+        sender,
+        "banned",
+        describeRestriction(restriction, Date.now())
       );
-      return;
+      return false;
     }
 
-    let data: any;
-    try {
-      data = JSON.parse(raw);
-    } catch {
-      // Not valid JSON, just ignore
+    // Focus session participants can chat during breaks only
+    if (
+      this.isGlobalRoom() &&
+      isFocusing(await this.focusSessions.current(), userId, Date.now())
+    ) {
+      this.sendError(
+        sender,
+        "focus_muted",
+        "Chat is muted while you focus. It opens again at the break."
+      );
+      return false;
+    }
+
+    // Check for rate limiting
+    if (this.isRateLimited(userId)) {
+      this.sendError(
+        sender,
+        "rate_limited",
+        "You are sending messages too quickly. Please wait a moment."
+      );
+      return false;
+    }
+
+    // Record this message for rate limiting
+    this.recordMessage(userId);
+    return true;
+  }
+
+  async onMessage(raw: string, sender: Party.Connection<ConnectionState>) {
+    // Validate the frame against the shared protocol
+    const parsed = parseClientMessage(raw);
+    if (!parsed.ok) {
+      this.sendError(sender, parsed.code, parsed.error);
       return;
     }
+    const data: ClientMessage = parsed.message;
 
     // Special case: always allow "hello" messages to set the userId
     if (data.type === "hello") {
-      if (data.userId) {
-        const currentState = sender.state || {
-          username: data.nickname || "Anonymous",
-          task: data.currentTask || "",
-          role: data.role || "",
-          warningCount: 0,
-          userId: data.userId,
-          hasSetValidUserId: true,
-        };
-
-        sender.setState({
-          ...currentState,
-          userId: data.userId,
-          username: data.nickname || currentState.username,
-          task: data.currentTask || currentState.task,
-          role: data.role || currentState.role,
-          hasSetValidUserId: true,
-        });
-      }
+      await this.handleHello(data, sender);
       return; // Exit after processing hello message
     }
 
     // For all other message types, bail out if no valid userId has been set
     if (!this.hasValidUserId(sender)) {
-      // Optionally send an error message back to the client
-      const errorMsg = {
-        type: "error",
-        message:
-          "No valid userId set. Please send a 'hello' message with userId first.",
-        timestamp: Date.now(),
-      };
-      sender.send(JSON.stringify(errorMsg));
+      this.sendError(
+        sender,
+        "not_identified",
+        "No valid userId set. Please send a 'hello' message with userId first."
+      );
       return;
     }
 
@@ -451,7 +2833,20 @@ export default class ChatServer implements Party.Server {
           username: data.name || currentState.username,
           task: data.task || currentState.task,
           role: data.role || currentState.role,
+          status: data.status || currentState.status,
+          region: data.region || currentState.region,
         });
+        this.syncPresence();
+
+        if (data.region && data.region !== currentState.region) {
+          await this.saveRegion(currentState.userId, data.region);
+        }
+        if (data.announcements !== undefined) {
+          await this.saveAnnouncements(
+            currentState.userId,
+            data.announcements
+          );
+        }
 
         // If they have a score, update their username there too
         if (data.name) {
@@ -476,110 +2871,220 @@ export default class ChatServer implements Party.Server {
          * store and broadcast.
          */
 
-        // First check if user is banned
         const currentState = sender.state!;
-        const { username, warningCount } = currentState;
-        const text = data.text || "";
+        const { username } = currentState;
+        const text = data.text;
 
-        const isBanned = await this.isUserBanned(currentState.userId);
-        if (isBanned) {
-          sender.send(
-            JSON.stringify({
-              type: "error",
-              message: "You are banned from chat",
-              timestamp: Date.now(),
-            })
-          );
+        if (!(await this.mayWrite(sender))) return;
+
+        // Create the new ChatMessage
+        const newMessage = this.createChatMessage(
+          currentState.userId,
+          username,
+          text
+        );
+
+        // Otherwise we do moderation
+        const flagged = await moderateMessage(text);
+        if (flagged) {
+          await this.recordWarning(sender);
           return;
         }
 
-        // Check for rate limiting
-        if (this.isRateLimited(currentState.userId)) {
-          sender.send(
-            JSON.stringify({
-              type: "error",
-              message:
-                "You are sending messages too quickly. Please wait a moment.",
-              timestamp: Date.now(),
-            })
+        // If not flagged => store + broadcast to everyone
+        await this.postMessage(newMessage);
+        await this.trackAchievements(currentState.userId, username, {
+          add: { chatMessages: 1 },
+        });
+        break;
+      }
+
+      case "history": {
+        /**
+         * Example shapes:
+         * { type: "history", before: "<message id>", limit: 50 }
+         * { type: "history", since: 1712345678901 }
+         */
+        this.send(sender, await this.getHistoryPage(data));
+        await this.sendChangesSince(sender, data.since);
+        break;
+      }
+
+      case "edit_message":
+      case "delete_message": {
+        /**
+         * Example shapes:
+         * { type: "edit_message", id: "...", text: "Fixed typo" }
+         * { type: "delete_message", id: "..." }
+         */
+        await this.handleMessageChange(data, sender);
+        break;
+      }
+
+      case "update_score": {
+        /**
+         * Example shape:
+         * { type: "update_score", blocks: [{ id, startTime, classification }] }
+         */
+        // Credited block ids are kept per room, so only one room may credit
+        if (!this.isGlobalRoom()) {
+          this.sendError(
+            sender,
+            "invalid_message",
+            "Scores can only be submitted in the global room"
+          );
+          break;
+        }
+
+        // Always use the userId from the state (set via hello message)
+        const currentState = sender.state!;
+        const userId = currentState.userId; // Use the userId from state, not from the message
+
+        const result = await this.submitBlocks(
+          userId,
+          currentState.username,
+          data.blocks,
+          "ws",
+          currentState.timezone
+        );
+        if (result.burst) {
+          this.sendError(
+            sender,
+            "rate_limited",
+            "Too many score submissions. Please slow down."
+          );
+        } else if (
+          result.credited.length === 0 &&
+          result.duplicates.length > 0
+        ) {
+          this.sendError(
+            sender,
+            "duplicate_submission",
+            "These blocks have already been credited"
           );
-          return;
         }
+        // No need to broadcast here - the batched update will do it
+        break;
+      }
+
+      case "subscribe_leaderboard": {
+        /**
+         * Example shape:
+         * { type: "subscribe_leaderboard", period: "weekly", region: "europe" }
+         *
+         * Switches the leaderboard this connection is sent and sends it
+         */
+        sender.setState({
+          ...sender.state!,
+          leaderboard: data.period,
+          leaderboardRegion: data.region ?? GLOBAL_REGION,
+          teamBoard: false,
+        });
+        await this.sendScoreboard(sender);
+        break;
+      }
 
-        // Record this message for rate limiting
-        this.recordMessage(currentState.userId);
+      case "subscribe_teams": {
+        /**
+         * Example shape:
+         * { type: "subscribe_teams" }
+         *
+         * Switches this connection to the team leaderboard and sends it
+         */
+        sender.setState({ ...sender.state!, teamBoard: true });
+        this.scoreboardViews.delete(sender.id);
+        this.send(sender, await this.getTeamScoreboardMessage());
+        break;
+      }
 
-        // Create the new ChatMessage
-        const newMessage: ChatMessageStorage = {
-          type: "chat",
-          from: username,
-          text,
-          timestamp: Date.now(),
+      case "load_scoreboard": {
+        /**
+         * Example shape:
+         * { type: "load_scoreboard", offset: 20, limit: 50 }
+         *
+         * Adds a page of rows to the ones this connection is kept up to
+         * date on, and sends them
+         */
+        const view = this.scoreboardViews.get(sender.id);
+        const requested = Math.floor(data.limit ?? SCOREBOARD_PAGE_SIZE);
+        const page: RowRange = {
+          offset: Math.max(0, Math.floor(data.offset)),
+          limit:
+            requested > 0
+              ? Math.min(requested, MAX_SCOREBOARD_PAGE_SIZE)
+              : SCOREBOARD_PAGE_SIZE,
         };
+        await this.updateScoreboard(
+          sender,
+          addRange(view?.loaded ?? [], page),
+          true
+        );
+        break;
+      }
 
-        // Otherwise we do moderation
-        const flagged = await moderateMessage(text);
-        if (flagged) {
-          const newCount = warningCount + 1;
-          sender.setState({
-            ...currentState,
-            warningCount: newCount,
-          });
-
-          // Check if they exceed threshold => ban them
-          if (newCount >= MAX_WARNINGS) {
-            // Record the ban in Supabase
-            const db = await this.getServiceClient();
-            await db.from("banned").upsert({
-              user_id: currentState.userId,
-              banned_chat_reason: "Exceeded maximum warnings",
-            });
-            // Update the cache
-            this.bannedChatCache.set(currentState.userId, true);
-          }
-          return;
+      case "duel_challenge":
+      case "duel_accept":
+      case "duel_decline": {
+        /**
+         * Example shapes:
+         * { type: "duel_challenge", opponentId: "...", startsAt: 1741615200000, endsAt: 1741626000000 }
+         * { type: "duel_accept", duelId: "..." }
+         * { type: "duel_decline", duelId: "..." }
+         *
+         * Both users are sent the duel as it changes, refusals get an error
+         */
+        // Duels follow credited blocks, which only the global room keeps
+        if (!this.isGlobalRoom()) {
+          this.sendError(
+            sender,
+            "invalid_message",
+            "Duels can only be played in the global room"
+          );
+          break;
         }
 
-        // If not flagged => store + broadcast
-        const messages =
-          (await this.room.storage.get<ChatMessageStorage[]>("messages")) ?? [];
-        messages.unshift(newMessage);
-        // Only keep the most recent MAX_MESSAGES
-        if (messages.length > MAX_MESSAGES) {
-          messages.length = MAX_MESSAGES;
+        const error =
+          data.type === "duel_challenge"
+            ? await this.challengeDuel(sender.state!, data)
+            : await this.answerDuel(sender.state!.userId, data);
+        if (error) {
+          this.sendError(sender, "invalid_duel", error);
         }
-        await this.room.storage.put("messages", messages);
-
-        // broadcast to everyone (except the original sender? up to you).
-        // We'll broadcast to everyone for normal chat:
-        this.room.broadcast(JSON.stringify(newMessage));
         break;
       }
 
-      case "update_score": {
+      case "start_focus_session":
+      case "join_focus_session":
+      case "leave_focus_session":
+      case "end_focus_session": {
         /**
-         * Example shape:
-         * { type: "update_score", delta: <number> }
+         * Example shapes:
+         * { type: "start_focus_session", focusMinutes: 50, breakMinutes: 10, rounds: 2 }
+         * { type: "join_focus_session" }
+         *
+         * Everyone in the room is sent the session as it changes
          */
-        // Always use the userId from the state (set via hello message)
-        const currentState = sender.state!;
-        const userId = currentState.userId; // Use the userId from state, not from the message
-        const delta = typeof data.delta === "number" ? data.delta : 0;
+        // The focus bonus follows credited blocks, which only the global
+        // room keeps
+        if (!this.isGlobalRoom()) {
+          this.sendError(
+            sender,
+            "invalid_message",
+            "Focus sessions can only be run in the global room"
+          );
+          break;
+        }
 
-        await this.updateScore(userId, currentState.username, delta);
-        // No need to broadcast here - the batched update will do it
+        const error =
+          data.type === "start_focus_session"
+            ? await this.startFocusSession(sender.state!, data)
+            : await this.changeFocusSession(sender.state!, data.type);
+        if (error) {
+          this.sendError(sender, "invalid_focus_session", error);
+        }
         break;
       }
-    }
-
-    // Check for debug key but without using process.env which isn't available in Cloudflare Workers
-    const debugKey = this.room.env?.PARTYKIT_DEBUG_KEY;
-    if (data.debugKey !== debugKey) {
-      console.log("UNAUTHORIZED DEBUG REQUEST");
-      return;
-    }
 
-    switch (data.type) {
       case "get_debug_state": {
         /**
          * Example shape:
@@ -587,6 +3092,7 @@ export default class ChatServer implements Party.Server {
          *
          * Returns the user's current state and all connected users' states
          */
+        if (!this.authorize(sender, "view_debug_state")) return;
         const currentState = sender.state!;
 
         // Get all connected users
@@ -599,9 +3105,17 @@ export default class ChatServer implements Party.Server {
             username: "Unknown",
             task: "none",
             role: "",
+            status: "active",
             warningCount: 0,
-            userId: conn.state?.userId || "",
+            userId: "",
             hasSetValidUserId: false,
+            protocolVersion: 0,
+            timezone: DEFAULT_TIME_ZONE,
+            region: GLOBAL_REGION,
+            leaderboard: "monthly",
+            leaderboardRegion: GLOBAL_REGION,
+            teamBoard: false,
+            accessRole: "member",
           },
           connectionId: conn.id, // Explicitly include connection ID
         }));
@@ -617,7 +3131,8 @@ export default class ChatServer implements Party.Server {
         };
 
         // Send only to the requesting user
-        sender.send(JSON.stringify(debugStateMsg));
+        this.send(sender, debugStateMsg);
+        await this.audit(sender.state!, "view_debug_state");
         break;
       }
 
@@ -628,16 +3143,34 @@ export default class ChatServer implements Party.Server {
          *
          * Clears all chat messages from storage
          */
-        await this.room.storage.put("messages", []);
+        if (!this.authorize(sender, "clear_messages")) return;
+        await this.messageStore.clear();
+        await this.audit(sender.state!, "clear_messages");
 
         // Notify all users that messages have been cleared
-        const systemMsg: ChatMessageStorage = {
-          type: "chat",
-          from: "System",
-          text: "All messages have been cleared by an administrator.",
-          timestamp: Date.now(),
-        };
-        this.room.broadcast(JSON.stringify(systemMsg));
+        this.broadcast(
+          this.createSystemMessage(
+            "All messages have been cleared by an administrator."
+          )
+        );
+        break;
+      }
+
+      case "get_flagged_users": {
+        /**
+         * Example shape:
+         * { type: "get_flagged_users" }
+         *
+         * Returns users with recent anti-cheat violations
+         */
+        if (!this.authorize(sender, "view_flagged_users")) return;
+        const since = Date.now() - FLAGGED_USERS_REPORT_MS;
+        this.send(sender, {
+          type: "flagged_users",
+          users: await this.getFlaggedUsers(since),
+          since,
+        });
+        await this.audit(sender.state!, "view_flagged_users");
         break;
       }
 
@@ -648,74 +3181,768 @@ export default class ChatServer implements Party.Server {
          *
          * Clears the leaderboard/scoreboard
          */
+        if (!this.authorize(sender, "clear_leaderboard")) return;
         const db = await this.getServiceClient();
-        await db
+        const month = this.getCurrentMonth();
+        const { data: cleared } = await db
           .from("scoreboard")
           .delete()
-          .eq("month", this.getCurrentMonth());
+          .eq("month", month)
+          .select("user_id, user_name, score");
+        await this.audit(sender.state!, "clear_leaderboard", null, {
+          month,
+          users: cleared?.length ?? 0,
+        });
+
+        // Explain the reset in every affected user's ledger, dated in the
+        // timezone of their connection like their credits
+        if (cleared?.length) {
+          const now = Date.now();
+          const timeZones = new Map<string, string>();
+          const connections = this.room.getConnections<ConnectionState>();
+          for (const connection of connections) {
+            if (connection.state?.hasSetValidUserId) {
+              timeZones.set(connection.state.userId, connection.state.timezone);
+            }
+          }
+          await db.from("score_events").insert(
+            cleared.map((row) => ({
+              created_at: new Date(now).toISOString(),
+              user_id: row.user_id,
+              user_name: row.user_name,
+              month,
+              delta: -row.score,
+              requested_delta: -row.score,
+              source: "admin",
+              block_ids: [],
+              decision: "applied",
+              reason: "Leaderboard cleared by an administrator",
+              local_date: localDate(
+                now,
+                timeZones.get(row.user_id) ?? DEFAULT_TIME_ZONE
+              ),
+            }))
+          );
+        }
 
         // Broadcast empty scoreboard to all
+        this.invalidateScoreboards();
         await this.broadcastScoreboard();
 
         // Notify all users that the leaderboard has been cleared
-        const systemMsg: ChatMessageStorage = {
-          type: "chat",
-          from: "System",
-          text: "The leaderboard has been cleared by an administrator.",
-          timestamp: Date.now(),
+        this.broadcast(
+          this.createSystemMessage(
+            "The leaderboard has been cleared by an administrator."
+          )
+        );
+        break;
+      }
+
+      case "ban_user":
+      case "mute_user":
+      case "kick_user":
+      case "unban_user":
+      case "reset_warnings": {
+        /**
+         * Example shapes:
+         * { type: "ban_user", userId: "...", reason: "Spam" }
+         * { type: "mute_user", userId: "...", minutes: 60, reason: "Spam" }
+         * { type: "kick_user", userId: "...", reason: "Spam" }
+         * { type: "unban_user", userId: "..." }
+         * { type: "reset_warnings", userId: "..." }
+         *
+         * Moderation commands, answered with the moderated users. They
+         * only reach users of a lower role.
+         */
+        if (!this.authorize(sender, data.type)) return;
+        if (!(await this.mayModerate(sender, data.userId))) return;
+        const error = await this.moderate(sender.state!, data);
+        if (error) {
+          this.sendError(sender, "invalid_message", error);
+          return;
+        }
+        await this.sendModeratedUsers(sender);
+        break;
+      }
+
+      case "get_moderated_users": {
+        /**
+         * Example shape:
+         * { type: "get_moderated_users" }
+         *
+         * Returns the users who are banned, muted or warned
+         */
+        if (!this.authorize(sender, "view_moderated_users")) return;
+        await this.audit(sender.state!, "view_moderated_users");
+        await this.sendModeratedUsers(sender);
+        break;
+      }
+
+      case "set_role": {
+        /**
+         * Example shape:
+         * { type: "set_role", userId: "...", role: "moderator" }
+         *
+         * Grants a user an access role
+         */
+        if (!this.authorize(sender, "set_role")) return;
+        await this.setRole(sender, data);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Runs a moderation command on a moderator's or admin's behalf and
+   * audits it
+   *
+   * @returns An error message if the command is invalid
+   */
+  private async moderate(
+    moderator: ConnectionState,
+    data: ModerationCommand
+  ): Promise<string | null> {
+    const { userId } = data;
+    const now = Date.now();
+
+    switch (data.type) {
+      case "ban_user":
+      case "mute_user": {
+        let until: number | null = null;
+        if (data.type === "mute_user") {
+          if (
+            !Number.isInteger(data.minutes) ||
+            data.minutes < 1 ||
+            data.minutes > MAX_MUTE_MINUTES
+          ) {
+            return `Mutes last from 1 to ${MAX_MUTE_MINUTES} minutes`;
+          }
+          until = now + data.minutes * 60 * 1000;
+        }
+        const restriction: ChatRestriction = {
+          reason:
+            data.reason?.trim() ||
+            (until === null ? "Banned by a moderator" : "Muted by a moderator"),
+          until,
         };
-        this.room.broadcast(JSON.stringify(systemMsg));
+        await this.saveChatRestriction(userId, restriction);
+        await this.audit(moderator, data.type, userId, {
+          reason: restriction.reason,
+          until,
+        });
+        this.sendToUser(userId, {
+          type: "error",
+          code: "banned",
+          message: describeRestriction(restriction, now),
+          timestamp: now,
+        });
+        break;
+      }
+
+      case "kick_user": {
+        const reason = data.reason?.trim() || "Removed by a moderator";
+        const until = now + KICK_COOLDOWN_MS;
+        await this.kick(userId, until, reason);
+        await this.audit(moderator, "kick_user", userId, { reason });
+        // The user's other rooms keep them out too
+        await this.notifyRooms([userId], {
+          type: "kick_user",
+          userId,
+          until,
+          reason,
+        });
         break;
       }
 
-      default:
-        // unknown type => no-op
-        break;
+      case "unban_user": {
+        await this.saveChatRestriction(userId, null);
+        await this.audit(moderator, "unban_user", userId);
+        break;
+      }
+
+      case "reset_warnings": {
+        const warnings = await this.loadWarnings(userId);
+        const db = await this.getServiceClient();
+        await db.from("user_warnings").delete().eq("user_id", userId);
+        this.setWarningCount(userId, 0);
+        await this.audit(moderator, "reset_warnings", userId, { warnings });
+        break;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Keeps a user out of this room until `until` and closes their
+   * connections
+   */
+  private async kick(userId: string, until: number, reason: string) {
+    await this.kicks.kick(userId, until);
+    for (const connection of this.room.getConnections<ConnectionState>()) {
+      if (
+        connection.state?.hasSetValidUserId &&
+        connection.state.userId === userId
+      ) {
+        this.rejectConnection(
+          connection,
+          "kicked",
+          `You were kicked from the room: ${reason}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Sends the users who are banned, muted or still warned, restricted
+   * first. Names come from their warnings or their connections.
+   */
+  private async sendModeratedUsers(sender: Party.Connection<ConnectionState>) {
+    const now = Date.now();
+    const db = await this.getServiceClient();
+    const users = new Map<string, ModeratedUser>();
+    const online = this.getOnlineMembers();
+    const userFor = (userId: string) => {
+      let user = users.get(userId);
+      if (!user) {
+        user = {
+          userId,
+          username: online.get(userId) ?? null,
+          warnings: 0,
+          restriction: null,
+        };
+        users.set(userId, user);
+      }
+      return user;
+    };
+
+    const { data: banned } = await db
+      .from("banned")
+      .select("user_id, banned_chat_reason, banned_chat_until")
+      .not("banned_chat_reason", "is", null);
+    for (const row of banned ?? []) {
+      const restriction: ChatRestriction = {
+        reason: row.banned_chat_reason,
+        until: row.banned_chat_until ? Date.parse(row.banned_chat_until) : null,
+      };
+      if (isRestricted(restriction, now)) {
+        userFor(row.user_id).restriction = restriction;
+      }
+    }
+
+    // Older warnings have decayed to zero
+    const { data: warned } = await db
+      .from("user_warnings")
+      .select("user_id, user_name, warnings, last_warning_at")
+      .gt(
+        "last_warning_at",
+        new Date(now - MAX_WARNINGS * WARNING_DECAY_MS).toISOString()
+      );
+    for (const row of (warned ?? []) as UserWarningsRow[]) {
+      const warnings = decayedWarnings(
+        row.warnings,
+        Date.parse(row.last_warning_at),
+        now
+      );
+      if (warnings > 0) {
+        const user = userFor(row.user_id);
+        user.username ??= row.user_name;
+        user.warnings = warnings;
+      }
+    }
+
+    this.send(sender, {
+      type: "moderated_users",
+      users: Array.from(users.values()).sort(
+        (a, b) =>
+          Number(!!b.restriction) - Number(!!a.restriction) ||
+          b.warnings - a.warnings
+      ),
+    });
+  }
+
+  /**
+   * Saves a user's access role and applies it to their connections to this
+   * room. Their connections to other rooms pick it up on their next hello.
+   */
+  private async setRole(
+    sender: Party.Connection<ConnectionState>,
+    data: SetRoleMessage
+  ) {
+    const db = await this.getServiceClient();
+    const { error } = await db.from("user_roles").upsert({
+      user_id: data.userId,
+      role: data.role,
+      granted_by: sender.state!.userId,
+      updated_at: new Date().toISOString(),
+    });
+    if (error) {
+      console.error("Error saving role:", error);
+      this.sendError(sender, "invalid_message", "Could not save the role");
+      return;
+    }
+    await this.audit(sender.state!, "set_role", data.userId, {
+      role: data.role,
+    });
+
+    for (const connection of this.room.getConnections<ConnectionState>()) {
+      if (
+        connection.state?.hasSetValidUserId &&
+        connection.state.userId === data.userId
+      ) {
+        connection.setState({ ...connection.state, accessRole: data.role });
+      }
+    }
+  }
+
+  /**
+   * Counts a flagged message against the sender and bans them from chat once
+   * they reach MAX_WARNINGS. Warnings are kept in user_warnings, so they
+   * outlive the connection, and decay over time (see moderation.ts).
+   */
+  private async recordWarning(sender: Party.Connection<ConnectionState>) {
+    const { userId, username } = sender.state!;
+    const newCount = (await this.loadWarnings(userId)) + 1;
+    const db = await this.getServiceClient();
+    await db.from("user_warnings").upsert({
+      user_id: userId,
+      user_name: username,
+      warnings: newCount,
+      last_warning_at: new Date().toISOString(),
+    });
+    this.setWarningCount(userId, newCount);
+
+    // Check if they exceed threshold => ban them
+    if (newCount >= MAX_WARNINGS) {
+      await this.saveChatRestriction(userId, {
+        reason: "Exceeded maximum warnings",
+        until: null,
+      });
+    }
+  }
+
+  /**
+   * A user's warnings after decay, 0 if they can't be read
+   */
+  private async loadWarnings(userId: string): Promise<number> {
+    const db = await this.getServiceClient();
+    const { data, error } = await db
+      .from("user_warnings")
+      .select("warnings, last_warning_at")
+      .eq("user_id", userId)
+      .maybeSingle();
+    if (error || !data) return 0;
+    return decayedWarnings(
+      data.warnings,
+      Date.parse(data.last_warning_at),
+      Date.now()
+    );
+  }
+
+  /**
+   * Updates the warning count on every connection of a user to this room
+   */
+  private setWarningCount(userId: string, warningCount: number) {
+    for (const connection of this.room.getConnections<ConnectionState>()) {
+      if (
+        connection.state?.hasSetValidUserId &&
+        connection.state.userId === userId
+      ) {
+        connection.setState({ ...connection.state, warningCount });
+      }
+    }
+  }
+
+  /**
+   * handleMessageChange
+   * Edits a stored message or replaces it with a tombstone, then pushes the
+   * new version to everyone in the room. Authors may change their own
+   * messages, anyone else needs the edit_any_message or delete_any_message
+   * permission, and is audited.
+   */
+  private async handleMessageChange(
+    data: EditMessageMessage | DeleteMessageMessage,
+    sender: Party.Connection<ConnectionState>
+  ) {
+    const { userId } = sender.state!;
+    const message = await this.messageStore.get(data.id);
+
+    if (!message || message.deletedAt) {
+      this.sendError(sender, "message_not_found", "Message not found");
+      return;
+    }
+
+    const isAuthor = message.userId === userId && userId !== SYSTEM_USER_ID;
+    const permission =
+      data.type === "edit_message" ? "edit_any_message" : "delete_any_message";
+    if (!isAuthor && !this.authorize(sender, permission)) return;
+
+    let updated: ChatMessageStorage;
+    if (data.type === "edit_message") {
+      if (!(await this.mayWrite(sender))) return;
+      // Edits go through the same moderation as new messages
+      if (await moderateMessage(data.text)) {
+        await this.recordWarning(sender);
+        return;
+      }
+      updated = { ...message, text: data.text, editedAt: Date.now() };
+    } else {
+      updated = { ...message, text: "", deletedAt: Date.now() };
+    }
+
+    await this.messageStore.update(updated);
+    this.broadcast({ type: "chat_update", message: updated });
+    if (!isAuthor) {
+      await this.audit(sender.state!, permission, message.userId, {
+        messageId: message.id,
+        text: message.text,
+      });
+    }
+  }
+
+  /**
+   * handleHello
+   * Negotiates the protocol version, identifies the connection and admits it
+   * to the room. Clients speaking an unsupported version are disconnected.
+   */
+  private async handleHello(
+    data: HelloMessage,
+    sender: Party.Connection<ConnectionState>
+  ) {
+    const protocolVersion = negotiateProtocolVersion(data.protocolVersion);
+    if (protocolVersion === null) {
+      this.rejectConnection(
+        sender,
+        "unsupported_protocol",
+        `Protocol version ${data.protocolVersion} is not supported. Please update the app.`
+      );
+      return;
+    }
+
+    // The userId comes from the signed token, never from the client
+    const auth = await this.authenticate(data.token);
+    if (!auth.ok) {
+      this.rejectConnection(sender, "invalid_token", auth.reason);
+      return;
+    }
+    const userId = auth.userId;
+
+    // Kicked users sit out a cool-off before they may rejoin
+    const kickedUntil = await this.kicks.kickedUntil(userId, Date.now());
+    if (kickedUntil !== null) {
+      const minutes = Math.ceil((kickedUntil - Date.now()) / 60000);
+      this.rejectConnection(
+        sender,
+        "kicked",
+        `You were kicked from this room. You can rejoin in ${minutes} ` +
+          `${minutes === 1 ? "minute" : "minutes"}.`
+      );
+      return;
+    }
+
+    const wasIdentified = this.hasValidUserId(sender);
+    const currentState = sender.state || {
+      username: data.nickname || "Anonymous",
+      task: data.currentTask || "",
+      role: data.role || "",
+      status: data.status || "active",
+      warningCount: 0,
+      userId,
+      hasSetValidUserId: true,
+      protocolVersion,
+      timezone: DEFAULT_TIME_ZONE,
+      region: GLOBAL_REGION,
+      leaderboard: "monthly",
+      leaderboardRegion: GLOBAL_REGION,
+      teamBoard: false,
+      accessRole: "member",
+    };
+    const username = data.nickname || currentState.username;
+
+    // Named rooms check membership before the user is identified
+    const admitted = await this.admitToRoom(sender, userId, username);
+    if (!admitted) return;
+
+    // Looked up on every hello, so granted and revoked roles apply on the
+    // next reconnect
+    const accessRole = await this.loadAccessRole(userId);
+    const warningCount = await this.loadWarnings(userId);
+
+    sender.setState({
+      ...currentState,
+      userId,
+      username,
+      task: data.currentTask || currentState.task,
+      role: data.role || currentState.role,
+      status: data.status || currentState.status,
+      hasSetValidUserId: true,
+      protocolVersion,
+      timezone: data.timezone
+        ? resolveTimeZone(data.timezone)
+        : currentState.timezone,
+      region: data.region || currentState.region,
+      accessRole,
+      warningCount,
+    });
+
+    // The stored region may be stale, e.g. if it was changed while offline
+    if (data.region) {
+      await this.saveRegion(userId, data.region);
+    }
+    if (data.announcements !== undefined) {
+      await this.saveAnnouncements(userId, data.announcements);
+    }
+
+    this.send(sender, {
+      type: "welcome",
+      protocolVersion,
+      connectionId: sender.id,
+      userId,
+      accessRole,
+    });
+
+    if (!wasIdentified) {
+      if (!this.isGlobalRoom()) {
+        await this.sendRoomSnapshot(sender);
+      }
+      this.send(
+        sender,
+        await this.getHistoryPage({ since: data.historySince })
+      );
+      await this.sendChangesSince(sender, data.historySince);
+      if (this.isGlobalRoom()) {
+        for (const duel of await this.duels.forUser(userId)) {
+          this.send(sender, { type: "duel", duel });
+        }
+        const session = await this.focusSessions.current();
+        if (session) {
+          this.send(sender, {
+            type: "focus_session",
+            event: "updated",
+            session,
+          });
+        }
+        const streaks = await this.streaks.get(userId);
+        if (streaks) {
+          this.send(sender, {
+            type: "streak",
+            userId,
+            username,
+            streaks: streaksAt(streaks, Date.now()),
+          });
+        }
+      }
+    }
+    await this.broadcastRoomInfo();
+    this.syncPresence();
+  }
+
+  /**
+   * Reads a user's access role from user_roles. Users without a row, or
+   * whose role can't be read, are members.
+   */
+  private async loadAccessRole(userId: string): Promise<AccessRole> {
+    const db = await this.getServiceClient();
+    const { data, error } = await db
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", userId)
+      .maybeSingle();
+    if (error) {
+      console.error("Error loading role:", error);
+      return "member";
+    }
+    return ACCESS_ROLES.includes(data?.role) ? data!.role : "member";
+  }
+
+  /**
+   * Checks that the sender's access role ranks above the user they
+   * moderate, answering with an "unauthorized" error if it doesn't. Nobody
+   * can moderate themselves.
+   */
+  private async mayModerate(
+    sender: Party.Connection<ConnectionState>,
+    userId: string
+  ): Promise<boolean> {
+    const role =
+      userId === sender.state?.userId
+        ? sender.state.accessRole
+        : await this.loadAccessRole(userId);
+    if (!outranks(sender.state?.accessRole, role)) {
+      this.sendError(
+        sender,
+        "unauthorized",
+        "You can only moderate users below your role"
+      );
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Checks that the sender's access role holds a permission, answering
+   * with an "unauthorized" error if it doesn't
+   */
+  private authorize(
+    sender: Party.Connection<ConnectionState>,
+    permission: Permission
+  ): boolean {
+    if (!hasPermission(sender.state?.accessRole, permission)) {
+      this.sendError(
+        sender,
+        "unauthorized",
+        "You don't have permission to do that"
+      );
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Records a privileged action in the audit_log table. Failures are
+   * logged, never surfaced, since the action already happened.
+   */
+  private async audit(
+    actor: ConnectionState,
+    action: Permission,
+    targetUserId: string | null = null,
+    details: Record<string, unknown> = {}
+  ) {
+    try {
+      const db = await this.getServiceClient();
+      const { error } = await db.from("audit_log").insert({
+        actor_id: actor.userId,
+        actor_name: actor.username,
+        actor_role: actor.accessRole,
+        action,
+        room_id: this.room.id,
+        target_user_id: targetUserId,
+        details,
+      });
+      if (error) throw error;
+    } catch (error) {
+      console.error("Error writing audit entry:", error);
+    }
+  }
+
+  /**
+   * broadcastScoreboard
+   * Brings every connection's leaderboard up to date, sending only the rows
+   * that changed (see updateScoreboard), or the team leaderboard to
+   * connections that subscribed to it. The first connection of each
+   * period fills the cache for the rest. In named rooms, connections that
+   * haven't been admitted yet are skipped.
+   */
+  private async broadcastScoreboard() {
+    const connected = new Set<string>();
+    let teamScoreboard: TeamScoreboardMessage | null = null;
+    for (const connection of this.room.getConnections<ConnectionState>()) {
+      connected.add(connection.id);
+      if (!this.isGlobalRoom() && !connection.state?.hasSetValidUserId) {
+        continue;
+      }
+      if (connection.state?.teamBoard) {
+        teamScoreboard ??= await this.getTeamScoreboardMessage();
+        this.send(connection, teamScoreboard);
+        continue;
+      }
+      await this.updateScoreboard(connection);
+    }
+
+    // Forget connections that closed without a disconnect
+    for (const connectionId of this.scoreboardViews.keys()) {
+      if (!connected.has(connectionId)) {
+        this.scoreboardViews.delete(connectionId);
+      }
     }
   }
 
   /**
-   * broadcastScoreboard
-   * Reads scoreboard from ephemeral storage, sends to all
+   * sendScoreboard
+   * Sends a connection a "scoreboard" snapshot of the leaderboard it
+   * subscribed to, replacing the rows it had. Pages it loaded are
+   * forgotten, unless passed in again.
    */
-  private async broadcastScoreboard() {
-    const scoreboard = await this.getScoreboard();
-    // Transform property names to match client expectations
-    const clientScoreboard = scoreboard.map((entry) => ({
-      userId: entry.user_id,
-      username: entry.user_name,
-      score: entry.score,
-      month: entry.month,
-      region: entry.region,
-    }));
-    const msg = {
+  private async sendScoreboard(
+    connection: Party.Connection<ConnectionState>,
+    loaded: RowRange[] = []
+  ) {
+    const view = await this.buildScoreboardView(connection.state, loaded);
+    this.scoreboardViews.set(connection.id, view);
+
+    const message: ScoreboardMessage = {
       type: "scoreboard",
-      scoreboard: clientScoreboard,
+      period: view.period,
+      periodKey: view.periodKey,
+      region: view.region,
+      ranks: view.ranks,
+      total: view.total,
+      scoreboard: Array.from(view.rows.values()),
     };
-    this.room.broadcast(JSON.stringify(msg));
+    this.send(connection, message);
   }
 
   /**
-   * broadcastScoreboardToConnection
-   * same as broadcastScoreboard, but only to the specified connection
+   * updateScoreboard
+   * Sends a connection a "scoreboard_delta" with the rows of its
+   * leaderboard that changed since it was last sent, if any did. Falls back
+   * to a snapshot when there is nothing to patch: for clients older than
+   * protocol version 4, when the connection has no rows yet, or when its
+   * leaderboard moved on to a new day, week or month.
+   *
+   * @param force Send the delta even if nothing changed, e.g. to answer
+   *   "load_scoreboard"
    */
-  private async broadcastScoreboardToConnection(
-    connection: Party.Connection<ConnectionState>
+  private async updateScoreboard(
+    connection: Party.Connection<ConnectionState>,
+    loaded?: RowRange[],
+    force = false
   ) {
-    const scoreboard = await this.getScoreboard();
-    // Transform property names to match client expectations
-    const clientScoreboard = scoreboard.map((entry) => ({
-      userId: entry.user_id,
-      username: entry.user_name,
-      score: entry.score,
-      month: entry.month,
-      region: entry.region,
-    }));
-    const msg = {
-      type: "scoreboard",
-      scoreboard: clientScoreboard,
+    const previous = this.scoreboardViews.get(connection.id);
+    if (
+      !previous ||
+      (connection.state?.protocolVersion ?? 0) < WINDOWED_SCOREBOARD_VERSION
+    ) {
+      await this.sendScoreboard(connection, loaded);
+      return;
+    }
+
+    const view = await this.buildScoreboardView(
+      connection.state,
+      loaded ?? previous.loaded
+    );
+    if (
+      view.period !== previous.period ||
+      view.periodKey !== previous.periodKey ||
+      view.region !== previous.region
+    ) {
+      await this.sendScoreboard(connection, loaded);
+      return;
+    }
+
+    const { rows, removed } = diffScoreboard(
+      previous.rows,
+      Array.from(view.rows.values())
+    );
+    this.scoreboardViews.set(connection.id, view);
+    const unchanged =
+      rows.length === 0 &&
+      removed.length === 0 &&
+      view.total === previous.total &&
+      view.ranks.global === previous.ranks.global &&
+      view.ranks.regional === previous.ranks.regional;
+    if (unchanged && !force) return;
+
+    const message: ScoreboardDeltaMessage = {
+      type: "scoreboard_delta",
+      period: view.period,
+      periodKey: view.periodKey,
+      region: view.region,
+      ranks: view.ranks,
+      total: view.total,
+      rows,
+      removed,
     };
-    connection.send(JSON.stringify(msg));
+    this.send(connection, message);
   }
 
   /**
@@ -724,14 +3951,44 @@ export default class ChatServer implements Party.Server {
    * This allows server-to-server communication without a WebSocket connection.
    *
    * Currently supports:
-   * - POST with { type: "update_score", userId: string, delta: number }
+   * - POST with { type: "update_score", token: string, blocks: ScoredBlock[] }
+   * - POST with { type: "create_room", token: string, username?: string, name: string, kind: RoomKind }
+   * - POST with { type: "join_room", token: string, username?: string, inviteCode: string }
+   * - POST with { type: "refresh_scoreboard" } (sent between rooms, with
+   *   the room secret header)
+   * - POST with { type: "refresh_restriction", userId: string } and
+   *   { type: "kick_user", userId: string, until: number, reason?: string }
+   *   (also sent between rooms) after a ban, mute, unban or kick
    * - GET with { type: "get_user_score", userId: string }
-   * - GET /health for health check status
+   * - GET with { type: "list_rooms", token: string } for the room directory
+   * - GET with { type: "get_team", token: string } for the user's team this month
+   * - POST with { type: "create_team", token: string, username?: string, name: string }
+   * - POST with { type: "join_team", token: string, username?: string, inviteCode: string }
+   * - GET with { type: "get_score_history", token: string, before?: number, limit?: number }
+   *   for the user's score ledger, newest first
+   * - GET with { type: "get_month_archive", month?: string, before?: string, limit?: number, top?: number }
+   *   for the frozen standings of past months, newest first
+   * - GET with { type: "get_duel_record", token: string } for the user's
+   *   finished duels
+   * - GET with { type: "get_achievements", userId: string } for every
+   *   achievement with any user's progress towards it
+   * - POST with { type: "import_achievements", token: string, username?: string, achievementIds: string[] }
+   *   for the achievements the app used to keep in the local settings, as
+   *   far as the saved scores back them up
+   * - GET /health (or /<room>/health) for health check status
+   *
+   * Requests made on behalf of a user carry a signed token (see
+   * lib/party-kit/auth-token.ts) instead of a plain userId.
    */
   async onRequest(req: Party.Request): Promise<Response> {
     // Handle health check endpoint
     const url = new URL(req.url);
-    if (req.method === "GET" && url.pathname === "/party/health") {
+    // Also served at /party/<room>/health, to check one room's score queue
+    if (
+      req.method === "GET" &&
+      (url.pathname === "/party/health" ||
+        url.pathname === `/party/${this.room.id}/health`)
+    ) {
       const connections = Array.from(this.room.getConnections()).length;
 
       // Check database connection
@@ -763,10 +4020,17 @@ export default class ChatServer implements Party.Server {
           connections,
           database: dbStatus,
           memory: {
-            scoreboardCacheSize: this.scoreboardCache?.length || 0,
-            messagesQueueSize: this.scoreUpdateQueue.size,
+            scoreboardCacheSize: this.scoreboardCache.size,
             rateLimitersCount: this.messageRateLimits.size,
           },
+          scoreQueue: {
+            room: this.room.id,
+            depth: await this.scoreQueue.depth(),
+            failedAttempts: await this.scoreQueue.failedAttempts(),
+            nextFlushAt: await this.alarms.getScheduledTime(
+              FLUSH_SCORES_ALARM
+            ),
+          },
           env_node: {
             // ...process.env,
             // DEV: process.env.NODE_ENV === "development",
@@ -790,6 +4054,7 @@ export default class ChatServer implements Party.Server {
     if (req.method === "GET") {
       const type = url.searchParams.get("type");
       const userId = url.searchParams.get("userId");
+      const token = url.searchParams.get("token") ?? undefined;
 
       if (type === "get_user_score" && userId) {
         const db = await this.getServiceClient();
@@ -817,6 +4082,298 @@ export default class ChatServer implements Party.Server {
         );
       }
 
+      if (type === "get_score_history") {
+        const auth = await this.authenticate(token);
+        if (!auth.ok) {
+          return new Response(`Unauthorized: ${auth.reason}`, {
+            status: 401,
+          });
+        }
+
+        const before = Number(url.searchParams.get("before")) || undefined;
+        const limit = parseLimit(
+          url.searchParams.get("limit"),
+          SCORE_HISTORY_PAGE_SIZE,
+          MAX_SCORE_HISTORY_PAGE_SIZE
+        );
+
+        // Newest first; one extra row tells us whether there are more
+        const db = await this.getServiceClient();
+        let query = db
+          .from("score_events")
+          .select(
+            "created_at, delta, requested_delta, source, block_ids, decision, reason, local_date"
+          )
+          .eq("user_id", auth.userId)
+          .order("created_at", { ascending: false })
+          .limit(limit + 1);
+        if (before) {
+          query = query.lt("created_at", new Date(before).toISOString());
+        }
+        const { data: rows, error } = await query;
+        if (error) {
+          return new Response(`Error: ${error.message}`, { status: 500 });
+        }
+
+        const events = ((rows ?? []) as ScoreEventRow[]).map(toScoreEvent);
+        return new Response(
+          JSON.stringify({
+            success: true,
+            events: events.slice(0, limit),
+            hasMore: events.length > limit,
+          }),
+          {
+            status: 200,
+            headers: {
+              "Content-Type": "application/json",
+              "Cache-Control": "no-cache",
+            },
+          }
+        );
+      }
+
+      if (type === "get_month_archive") {
+        const month = url.searchParams.get("month");
+        const before = url.searchParams.get("before");
+        if (
+          (month && !MONTH_PATTERN.test(month)) ||
+          (before && !MONTH_PATTERN.test(before))
+        ) {
+          return new Response("Invalid request: months must be YYYY-MM", {
+            status: 400,
+          });
+        }
+        const limit = parseLimit(
+          url.searchParams.get("limit"),
+          MONTH_ARCHIVE_PAGE_SIZE,
+          MAX_MONTH_ARCHIVE_PAGE_SIZE
+        );
+        const top = parseLimit(
+          url.searchParams.get("top"),
+          MONTH_ARCHIVE_STANDINGS,
+          MAX_MONTH_ARCHIVE_STANDINGS
+        );
+
+        // Newest first; one extra row tells us whether there are more
+        const db = await this.getServiceClient();
+        let query = db
+          .from("month_archives")
+          .select("month, frozen_at, players")
+          .order("month", { ascending: false })
+          .limit(limit + 1);
+        if (month) {
+          query = query.eq("month", month);
+        }
+        if (before) {
+          query = query.lt("month", before);
+        }
+        const { data: rows, error } = await query;
+        if (error) {
+          return new Response(`Error: ${error.message}`, { status: 500 });
+        }
+
+        const archives = ((rows ?? []) as MonthArchiveRow[]).slice(0, limit);
+        const { data: standings } = archives.length
+          ? await db
+              .from("month_standings")
+              .select("month, rank, user_id, user_name, score, region")
+              .in(
+                "month",
+                archives.map((archive) => archive.month)
+              )
+              .lte("rank", top)
+              .order("rank", { ascending: true })
+          : { data: [] };
+
+        return new Response(
+          JSON.stringify({
+            success: true,
+            months: toMonthArchives(
+              archives,
+              (standings ?? []) as MonthStandingRow[]
+            ),
+            hasMore: (rows ?? []).length > limit,
+          }),
+          {
+            status: 200,
+            headers: {
+              "Content-Type": "application/json",
+              "Cache-Control": "no-cache",
+            },
+          }
+        );
+      }
+
+      if (type === "get_achievements" && userId) {
+        const db = await this.getServiceClient();
+        const { data, error } = await db
+          .from("achievements")
+          .select("achievements, progress")
+          .eq("user_id", userId)
+          .maybeSingle();
+        if (error) {
+          return new Response(`Error: ${error.message}`, { status: 500 });
+        }
+
+        const row = data as Omit<AchievementRow, "user_id"> | null;
+        const achievements = achievementProgress(
+          row?.progress ?? {},
+          row?.achievements ?? []
+        );
+        return new Response(JSON.stringify({ success: true, achievements }), {
+          status: 200,
+          headers: {
+            "Content-Type": "application/json",
+            "Cache-Control": "no-cache",
+          },
+        });
+      }
+
+      if (type === "get_duel_record") {
+        const auth = await this.authenticate(token);
+        if (!auth.ok) {
+          return new Response(`Unauthorized: ${auth.reason}`, {
+            status: 401,
+          });
+        }
+
+        const db = await this.getServiceClient();
+        const [{ data: totals, error }, { data: rows }] = await Promise.all([
+          db.rpc("duel_record", { p_user_id: auth.userId }),
+          db.rpc("recent_duels", {
+            p_user_id: auth.userId,
+            p_limit: DUEL_RECORD_RECENT,
+          }),
+        ]);
+        if (error) {
+          return new Response(`Error: ${error.message}`, { status: 500 });
+        }
+
+        const [counts] = (totals ?? []) as Omit<DuelRecord, "recent">[];
+        const record: DuelRecord = {
+          wins: counts?.wins ?? 0,
+          losses: counts?.losses ?? 0,
+          ties: counts?.ties ?? 0,
+          recent: ((rows ?? []) as DuelRow[]).map(toDuel),
+        };
+        return new Response(JSON.stringify({ success: true, ...record }), {
+          status: 200,
+          headers: {
+            "Content-Type": "application/json",
+            "Cache-Control": "no-cache",
+          },
+        });
+      }
+
+      if (type === "get_team") {
+        const auth = await this.authenticate(token);
+        if (!auth.ok) {
+          return new Response(`Unauthorized: ${auth.reason}`, {
+            status: 401,
+          });
+        }
+
+        // The user's latest membership up to this month is their team
+        const month = this.getCurrentMonth();
+        const db = await this.getServiceClient();
+        const { data: membership } = await db
+          .from("team_members")
+          .select("team_id, month")
+          .eq("user_id", auth.userId)
+          .lte("month", month)
+          .order("month", { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        let team: Team | null = null;
+        let members: TeamMember[] = [];
+        if (membership) {
+          const [{ data: row }, { data: roster }] = await Promise.all([
+            db
+              .from("teams")
+              .select("id, name, owner_id, invite_code")
+              .eq("id", membership.team_id)
+              .maybeSingle(),
+            db.rpc("team_roster", {
+              p_team_id: membership.team_id,
+              p_month: month,
+            }),
+          ]);
+          team = row ? toTeam(row as TeamRow) : null;
+          members = ((roster ?? []) as TeamRosterRow[]).map((member) => ({
+            userId: member.user_id,
+            username: member.user_name,
+            score: member.score,
+          }));
+        }
+
+        return new Response(
+          JSON.stringify({
+            success: true,
+            team,
+            members,
+            // Users can switch teams once a month
+            canSwitch: !membership || membership.month !== month,
+          }),
+          {
+            status: 200,
+            headers: {
+              "Content-Type": "application/json",
+              "Cache-Control": "no-cache",
+            },
+          }
+        );
+      }
+
+      if (type === "list_rooms") {
+        const auth = await this.authenticate(token);
+        if (!auth.ok) {
+          return new Response(`Unauthorized: ${auth.reason}`, {
+            status: 401,
+          });
+        }
+
+        const db = await this.getServiceClient();
+
+        // Open rooms are listed for everyone, private rooms only for members
+        const [{ data: openRooms }, { data: memberships }] = await Promise.all([
+          db
+            .from("rooms")
+            .select("id, name, kind, owner_id, invite_code")
+            .in("kind", ["team", "project"])
+            .order("name"),
+          db
+            .from("room_members")
+            .select("room_id")
+            .eq("user_id", auth.userId),
+        ]);
+
+        const memberRoomIds = (memberships ?? []).map((row) => row.room_id);
+        const { data: privateRooms } = memberRoomIds.length
+          ? await db
+              .from("rooms")
+              .select("id, name, kind, owner_id, invite_code")
+              .eq("kind", "private")
+              .in("id", memberRoomIds)
+              .order("name")
+          : { data: [] };
+
+        const rooms: PartyRoom[] = [
+          ...((openRooms ?? []) as RoomRow[]).map((row) => toPartyRoom(row)),
+          ...((privateRooms ?? []) as RoomRow[]).map((row) =>
+            toPartyRoom(row, true)
+          ),
+        ];
+
+        return new Response(JSON.stringify({ success: true, rooms }), {
+          status: 200,
+          headers: {
+            "Content-Type": "application/json",
+            "Cache-Control": "no-cache",
+          },
+        });
+      }
+
       return new Response("Invalid request", { status: 400 });
     }
 
@@ -829,32 +4386,347 @@ export default class ChatServer implements Party.Server {
       // Parse the request body
       const data = (await req.json()) as {
         type: string;
+        token?: string;
+        username?: string;
+        blocks?: ScoredBlock[];
+        timezone?: string;
+        name?: string;
+        kind?: RoomKind;
+        inviteCode?: string;
+        achievementIds?: string[];
         userId?: string;
-        delta?: number;
+        until?: number;
+        reason?: string;
       };
 
+      // Everything except room-to-room requests acts on behalf of a user.
+      // Those prove they come from a room instead.
+      let userId = "";
+      if (ROOM_REQUEST_TYPES.includes(data.type)) {
+        if (!this.isFromRoom(req)) {
+          return new Response("Unauthorized: Not sent by a room", {
+            status: 401,
+          });
+        }
+      } else {
+        const auth = await this.authenticate(data.token);
+        if (!auth.ok) {
+          return new Response(`Unauthorized: ${auth.reason}`, {
+            status: 401,
+          });
+        }
+        userId = auth.userId;
+      }
+
       // Handle different request types
       switch (data.type) {
         case "update_score": {
-          if (!data.userId || typeof data.delta !== "number") {
-            return new Response("Invalid request: missing userId or delta", {
+          if (!this.isGlobalRoom()) {
+            return new Response(
+              "Invalid request: scores can only be submitted in the global room",
+              { status: 400 }
+            );
+          }
+          const parsed = validateClientMessage({
+            type: "update_score",
+            blocks: data.blocks,
+          });
+          if (!parsed.ok) {
+            return new Response(`Invalid request: ${parsed.error}`, {
               status: 400,
             });
           }
 
-          // Get current username from scoreboard
+          // Get current username from the latest month on the scoreboard
           const db = await this.getServiceClient();
           const { data: userData } = await db
             .from("scoreboard")
             .select("user_name")
-            .eq("user_id", data.userId)
-            .single();
+            .eq("user_id", userId)
+            .order("month", { ascending: false })
+            .limit(1)
+            .maybeSingle();
 
           const username = userData?.user_name || "Anonymous";
 
-          await this.updateScore(data.userId, username, data.delta);
+          const result = await this.submitBlocks(
+            userId,
+            username,
+            data.blocks!,
+            "http",
+            resolveTimeZone(data.timezone)
+          );
           // No need to broadcast here - the batched update will do it
 
+          // Nothing credited: a burst, a replay, or only blocks that were
+          // expired or refused by the anti-cheat checks
+          const status = result.burst
+            ? 429
+            : result.credited.length > 0
+              ? 200
+              : result.duplicates.length > 0
+                ? 409
+                : 400;
+          return new Response(
+            JSON.stringify({
+              success: status === 200,
+              delta: result.delta,
+              credited: result.credited.map((block) => block.id),
+              duplicates: result.duplicates,
+              expired: result.expired,
+              refused: result.violations,
+            }),
+            { status, headers: { "Content-Type": "application/json" } }
+          );
+        }
+
+        case "create_room": {
+          const name = data.name?.trim() ?? "";
+          if (
+            !name ||
+            name.length > MAX_ROOM_NAME_LENGTH ||
+            !data.kind ||
+            !CREATABLE_ROOM_KINDS.includes(data.kind)
+          ) {
+            return new Response("Invalid request: missing name or kind", {
+              status: 400,
+            });
+          }
+
+          const row: RoomRow = {
+            id: `${toSlug(name) || "room"}-${randomCode(6)}`,
+            name,
+            kind: data.kind as RoomRow["kind"],
+            owner_id: userId,
+            invite_code: data.kind === "private" ? randomCode(8) : null,
+          };
+
+          const db = await this.getServiceClient();
+          const { error } = await db.from("rooms").insert(row);
+          if (error) {
+            console.error("Error creating room:", error);
+            return new Response("Failed to create room", { status: 500 });
+          }
+
+          await db.from("room_members").insert({
+            room_id: row.id,
+            user_id: userId,
+            user_name: data.username || "Anonymous",
+          });
+
+          return new Response(
+            JSON.stringify({ success: true, room: toPartyRoom(row, true) }),
+            { status: 200, headers: { "Content-Type": "application/json" } }
+          );
+        }
+
+        case "join_room": {
+          if (!data.inviteCode) {
+            return new Response("Invalid request: missing inviteCode", {
+              status: 400,
+            });
+          }
+
+          const db = await this.getServiceClient();
+          const { data: room } = await db
+            .from("rooms")
+            .select("id, name, kind, owner_id, invite_code")
+            .eq("invite_code", data.inviteCode.trim())
+            .maybeSingle();
+
+          if (!room) {
+            return new Response("Unknown invite code", { status: 404 });
+          }
+
+          await db.from("room_members").upsert(
+            {
+              room_id: room.id,
+              user_id: userId,
+              user_name: data.username || "Anonymous",
+            },
+            { onConflict: "room_id,user_id" }
+          );
+
+          return new Response(
+            JSON.stringify({
+              success: true,
+              room: toPartyRoom(room as RoomRow, true),
+            }),
+            { status: 200, headers: { "Content-Type": "application/json" } }
+          );
+        }
+
+        case "create_team": {
+          const name = data.name?.trim() ?? "";
+          if (!name || name.length > MAX_TEAM_NAME_LENGTH) {
+            return new Response("Invalid request: missing name", {
+              status: 400,
+            });
+          }
+
+          const row: TeamRow = {
+            id: `${toSlug(name) || "team"}-${randomCode(6)}`,
+            name,
+            owner_id: userId,
+            invite_code: randomCode(8),
+          };
+
+          const db = await this.getServiceClient();
+          const { data: created, error } = await db.rpc("create_team", {
+            p_team_id: row.id,
+            p_name: row.name,
+            p_invite_code: row.invite_code,
+            p_user_id: userId,
+            p_user_name: data.username || "Anonymous",
+            p_month: this.getCurrentMonth(),
+          });
+          if (error) {
+            console.error("Error creating team:", error);
+            return new Response("Failed to create team", { status: 500 });
+          }
+          if (!created) {
+            return new Response("You already joined a team this month", {
+              status: 409,
+            });
+          }
+
+          this.invalidateScoreboards();
+          await this.broadcastScoreboard();
+
+          return new Response(
+            JSON.stringify({ success: true, team: toTeam(row) }),
+            { status: 200, headers: { "Content-Type": "application/json" } }
+          );
+        }
+
+        case "join_team": {
+          const inviteCode = data.inviteCode?.trim();
+          if (!inviteCode) {
+            return new Response("Invalid request: missing inviteCode", {
+              status: 400,
+            });
+          }
+
+          const db = await this.getServiceClient();
+          const { data: outcome, error } = await db.rpc("join_team", {
+            p_invite_code: inviteCode,
+            p_user_id: userId,
+            p_user_name: data.username || "Anonymous",
+            p_month: this.getCurrentMonth(),
+          });
+          if (error) {
+            console.error("Error joining team:", error);
+            return new Response("Failed to join team", { status: 500 });
+          }
+          if (outcome === "unknown_code") {
+            return new Response("Unknown invite code", { status: 404 });
+          }
+          if (outcome === "month_taken") {
+            return new Response("You already joined a team this month", {
+              status: 409,
+            });
+          }
+
+          const { data: team } = await db
+            .from("teams")
+            .select("id, name, owner_id, invite_code")
+            .eq("invite_code", inviteCode)
+            .maybeSingle();
+
+          if (outcome === "joined") {
+            this.invalidateScoreboards();
+            await this.broadcastScoreboard();
+          }
+
+          return new Response(
+            JSON.stringify({
+              success: true,
+              team: team ? toTeam(team as TeamRow) : null,
+            }),
+            { status: 200, headers: { "Content-Type": "application/json" } }
+          );
+        }
+
+        case "import_achievements": {
+          // Achievements the app kept locally before the server did
+          const ids = data.achievementIds;
+          if (
+            !this.isGlobalRoom() ||
+            !Array.isArray(ids) ||
+            !ids.every((id) => typeof id === "string")
+          ) {
+            return new Response("Invalid request: missing achievementIds", {
+              status: 400,
+            });
+          }
+
+          // Only what the user's saved scores back up is imported: the app
+          // unlocked these from scores it was sent, any month
+          const db = await this.getServiceClient();
+          const { data: best } = await db
+            .from("scoreboard")
+            .select("score")
+            .eq("user_id", userId)
+            .order("score", { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+          // Unlocked at the next achievements flush, like any other stat
+          // change. The queue keeps the update until it's written.
+          const update = legacyAchievementStats(ids, best?.score ?? 0);
+          if (update) {
+            await this.trackAchievements(
+              userId,
+              data.username || "Anonymous",
+              update
+            );
+          }
+
+          return new Response(JSON.stringify({ success: true }), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+
+        case "refresh_scoreboard": {
+          // Another room flushed score updates for some of our members
+          this.invalidateScoreboards();
+          await this.broadcastScoreboard();
+
+          return new Response(JSON.stringify({ success: true }), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+
+        case "refresh_restriction": {
+          // A user was banned, muted or unbanned in another room
+          if (!data.userId) {
+            return new Response("Invalid request: missing userId", {
+              status: 400,
+            });
+          }
+          this.bannedChatCache.delete(data.userId);
+
+          return new Response(JSON.stringify({ success: true }), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+
+        case "kick_user": {
+          // A user was kicked in another room
+          if (!data.userId || typeof data.until !== "number") {
+            return new Response("Invalid request: missing userId or until", {
+              status: 400,
+            });
+          }
+          await this.kick(
+            data.userId,
+            data.until,
+            data.reason || "Removed by a moderator"
+          );
+
           return new Response(JSON.stringify({ success: true }), {
             status: 200,
             headers: { "Content-Type": "application/json" },
@@ -0,0 +1,55 @@
+/*
+<ai_context>
+Keeps each user's productivity streaks in the global room's storage, along
+with the per-day block counts they are worked out from.
+</ai_context>
+<recent_changes>
+Created StreakStore for daily and flow streaks.
+</recent_changes>
+*/
+
+import type * as Party from "partykit/server";
+import type { ScoredBlock } from "@/lib/party-kit/protocol";
+import {
+  addBlocks,
+  emptyStreakState,
+  streaksAt,
+  type StreakState,
+} from "@/lib/party-kit/streaks";
+
+// One key per user: "streak:<userId>"
+const KEY_PREFIX = "streak:";
+
+export class StreakStore {
+  constructor(private storage: Party.Storage) {}
+
+  async get(userId: string): Promise<StreakState | null> {
+    return (
+      (await this.storage.get<StreakState>(`${KEY_PREFIX}${userId}`)) ?? null
+    );
+  }
+
+  /**
+   * Folds blocks just credited to a user into their streaks, dating them
+   * in the user's timezone
+   *
+   * @returns The new state if the user's streaks changed, null otherwise
+   */
+  async credit(
+    userId: string,
+    blocks: ScoredBlock[],
+    timeZone: string,
+    now: number = Date.now()
+  ): Promise<StreakState | null> {
+    const previous = (await this.get(userId)) ?? emptyStreakState(timeZone);
+    const next = addBlocks(previous, blocks, timeZone);
+    await this.storage.put(`${KEY_PREFIX}${userId}`, next);
+
+    const before = streaksAt(previous, now);
+    const after = streaksAt(next, now);
+    const changed = (Object.keys(after) as (keyof typeof after)[]).some(
+      (key) => before[key] !== after[key]
+    );
+    return changed ? next : null;
+  }
+}
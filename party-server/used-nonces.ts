@@ -0,0 +1,56 @@
+/*
+<ai_context>
+Remembers the nonces of signed tokens a room accepted in its storage, so a
+token can't be used again after the room was hibernated or evicted.
+</ai_context>
+<recent_changes>
+Created UsedNonces, replacing the in-memory usedTokenNonces cache.
+</recent_changes>
+*/
+
+import type * as Party from "partykit/server";
+
+// One key per nonce: "nonce:<nonce>" => when it may be forgotten
+const KEY_PREFIX = "nonce:";
+
+export class UsedNonces {
+  constructor(private storage: Party.Storage) {}
+
+  /**
+   * Records a nonce as used until `expiresAt`
+   *
+   * @returns Whether it was unused, i.e. the token may be accepted
+   */
+  async use(nonce: string, expiresAt: number): Promise<boolean> {
+    const key = `${KEY_PREFIX}${nonce}`;
+    if ((await this.storage.get<number>(key)) !== undefined) {
+      return false;
+    }
+    await this.storage.put(key, expiresAt);
+    return true;
+  }
+
+  /**
+   * Forgets the nonces that expired by `now`
+   *
+   * @returns When the next of the remaining ones expires, or null if none
+   * are left
+   */
+  async prune(now: number): Promise<number | null> {
+    const nonces = await this.storage.list<number>({ prefix: KEY_PREFIX });
+
+    const expired: string[] = [];
+    let next: number | null = null;
+    for (const [key, expiresAt] of nonces) {
+      if (expiresAt <= now) {
+        expired.push(key);
+      } else if (next === null || expiresAt < next) {
+        next = expiresAt;
+      }
+    }
+    if (expired.length > 0) {
+      await this.storage.delete(expired);
+    }
+    return next;
+  }
+}
@@ -0,0 +1,94 @@
+/*
+<ai_context>
+Lets one room run several named timers on top of the single Durable Object
+alarm PartyKit gives each room.
+</ai_context>
+<recent_changes>
+Created AlarmScheduler for the durable score queue flush.
+</recent_changes>
+*/
+
+import type * as Party from "partykit/server";
+
+// Each named alarm is stored as "alarm:<name>" => time in ms since epoch
+const ALARM_KEY_PREFIX = "alarm:";
+
+export class AlarmScheduler {
+  constructor(private storage: Party.Storage) {}
+
+  /**
+   * Schedules a named alarm, replacing its previous time
+   *
+   * @param options.keepExisting Leave the alarm alone if it is already
+   * scheduled, so repeated calls don't keep moving it
+   */
+  async schedule(
+    name: string,
+    at: number,
+    options: { keepExisting?: boolean } = {}
+  ): Promise<void> {
+    const key = `${ALARM_KEY_PREFIX}${name}`;
+    if (options.keepExisting && (await this.storage.get(key)) !== undefined) {
+      return;
+    }
+
+    await this.storage.put(key, at);
+    await this.arm();
+  }
+
+  /**
+   * Cancels a named alarm, if scheduled
+   */
+  async cancel(name: string): Promise<void> {
+    await this.storage.delete(`${ALARM_KEY_PREFIX}${name}`);
+    await this.arm();
+  }
+
+  /**
+   * Returns when a named alarm will fire, or null if it isn't scheduled
+   */
+  async getScheduledTime(name: string): Promise<number | null> {
+    const at = await this.storage.get<number>(`${ALARM_KEY_PREFIX}${name}`);
+    return at ?? null;
+  }
+
+  /**
+   * Removes and returns every alarm that is due. Call from onAlarm; the room
+   * alarm is re-armed for whatever is left.
+   */
+  async takeDue(now: number = Date.now()): Promise<string[]> {
+    const alarms = await this.storage.list<number>({
+      prefix: ALARM_KEY_PREFIX,
+    });
+
+    const dueKeys: string[] = [];
+    for (const [key, at] of alarms) {
+      if (at <= now) dueKeys.push(key);
+    }
+    if (dueKeys.length > 0) {
+      await this.storage.delete(dueKeys);
+    }
+    await this.arm();
+
+    return dueKeys.map((key) => key.slice(ALARM_KEY_PREFIX.length));
+  }
+
+  /**
+   * Points the room's single alarm at the earliest scheduled named alarm
+   */
+  private async arm() {
+    const alarms = await this.storage.list<number>({
+      prefix: ALARM_KEY_PREFIX,
+    });
+    const next = Math.min(...alarms.values());
+
+    if (Number.isFinite(next)) {
+      const current = await this.storage.getAlarm();
+      if (current !== next) {
+        await this.storage.setAlarm(next);
+      }
+    } else {
+      await this.storage.deleteAlarm();
+    }
+  }
+}
@@ -0,0 +1,33 @@
+/*
+<ai_context>
+Generates chat message ids that sort by creation time.
+</ai_context>
+<recent_changes>
+Created createMessageId for server-assigned chat message ids.
+Added messageIdTimePrefix for range queries by timestamp.
+</recent_changes>
+*/
+
+// 10 base36 digits cover timestamps well past the year 5000
+const TIMESTAMP_WIDTH = 10;
+
+/**
+ * Creates a unique message id whose lexicographic order matches the order
+ * the messages were created in, e.g. "00m7x2k9q0-3f9a1c2e".
+ *
+ * @param timestamp The message's creation time in ms since epoch
+ */
+export function createMessageId(timestamp: number = Date.now()): string {
+  const random = crypto.randomUUID().replace(/-/g, "").slice(0, 8);
+  return `${messageIdTimePrefix(timestamp)}-${random}`;
+}
+
+/**
+ * The time part of ids created at `timestamp`. Every id created at or after
+ * that time sorts at or after this prefix.
+ */
+export function messageIdTimePrefix(timestamp: number): string {
+  return Math.max(0, Math.floor(timestamp))
+    .toString(36)
+    .padStart(TIMESTAMP_WIDTH, "0");
+}
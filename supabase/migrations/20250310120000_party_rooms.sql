@@ -0,0 +1,41 @@
+-- Named party rooms (team, project and invite-only private rooms).
+-- The global "chat" room is implicit and has no row here.
+CREATE TABLE IF NOT EXISTS "public"."rooms" (
+    "id" "text" NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "name" "text" NOT NULL,
+    "kind" "text" NOT NULL,
+    "owner_id" "text" NOT NULL,
+    "invite_code" "text",
+    CONSTRAINT "rooms_kind_check" CHECK ("kind" IN ('team', 'project', 'private'))
+);
+
+ALTER TABLE "public"."rooms" OWNER TO "postgres";
+
+ALTER TABLE ONLY "public"."rooms"
+    ADD CONSTRAINT "rooms_pkey" PRIMARY KEY ("id");
+
+ALTER TABLE ONLY "public"."rooms"
+    ADD CONSTRAINT "rooms_invite_code_key" UNIQUE ("invite_code");
+
+-- Membership of a room, used for private room access and scoped leaderboards
+CREATE TABLE IF NOT EXISTS "public"."room_members" (
+    "room_id" "text" NOT NULL,
+    "user_id" "text" NOT NULL,
+    "user_name" "text" NOT NULL,
+    "joined_at" timestamp with time zone DEFAULT "now"() NOT NULL
+);
+
+ALTER TABLE "public"."room_members" OWNER TO "postgres";
+
+ALTER TABLE ONLY "public"."room_members"
+    ADD CONSTRAINT "room_members_pkey" PRIMARY KEY ("room_id", "user_id");
+
+ALTER TABLE ONLY "public"."room_members"
+    ADD CONSTRAINT "room_members_room_id_fkey" FOREIGN KEY ("room_id") REFERENCES "public"."rooms"("id") ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS "room_members_user_id_idx" ON "public"."room_members" ("user_id");
+
+ALTER TABLE "public"."rooms" ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE "public"."room_members" ENABLE ROW LEVEL SECURITY;
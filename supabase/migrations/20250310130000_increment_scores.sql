@@ -0,0 +1,42 @@
+-- Scores are now only ever changed by adding deltas, so they can grow past
+-- the smallint range over a busy month.
+ALTER TABLE "public"."scoreboard" ALTER COLUMN "score" TYPE integer;
+
+-- Applies a batch of score deltas for one month atomically.
+-- p_updates is a JSON array of {"user_id", "user_name", "delta"} objects.
+-- Each row is incremented in place (no read-modify-write in the app), and
+-- the result is clamped at zero. Returns the new score of every user.
+CREATE OR REPLACE FUNCTION "public"."increment_scores"(
+    "p_month" "text",
+    "p_updates" "jsonb"
+)
+RETURNS TABLE ("user_id" "text", "score" integer)
+LANGUAGE "plpgsql"
+SET "search_path" = ''
+AS $$
+#variable_conflict use_column
+DECLARE
+    r record;
+BEGIN
+    FOR r IN
+        SELECT *
+        FROM jsonb_to_recordset(p_updates)
+            AS x(user_id text, user_name text, delta integer)
+    LOOP
+        INSERT INTO public.scoreboard AS s (user_id, user_name, score, month, region)
+        VALUES (r.user_id, r.user_name, GREATEST(0, r.delta), p_month, 'global')
+        ON CONFLICT (user_id, month) DO UPDATE
+            SET score = GREATEST(0, s.score + r.delta),
+                user_name = EXCLUDED.user_name
+        RETURNING s.user_id, s.score INTO user_id, score;
+
+        RETURN NEXT;
+    END LOOP;
+END;
+$$;
+
+ALTER FUNCTION "public"."increment_scores"("text", "jsonb") OWNER TO "postgres";
+
+-- Only the party server (service role) may change scores
+REVOKE ALL ON FUNCTION "public"."increment_scores"("text", "jsonb") FROM PUBLIC, "anon", "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."increment_scores"("text", "jsonb") TO "service_role";
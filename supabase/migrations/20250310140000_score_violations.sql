@@ -0,0 +1,27 @@
+-- Implausible score submissions caught by the party server's anti-cheat
+-- checks (see party-server/score-guard.ts). Repeat offenders get
+-- banned.banned_score_reason set automatically.
+CREATE TABLE IF NOT EXISTS "public"."score_violations" (
+    "id" bigint GENERATED BY DEFAULT AS IDENTITY NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "user_id" "text" NOT NULL,
+    "user_name" "text" NOT NULL,
+    "kind" "text" NOT NULL,
+    "details" "jsonb" DEFAULT '{}'::"jsonb" NOT NULL,
+    CONSTRAINT "score_violations_kind_check" CHECK ("kind" IN ('burst', 'rate_exceeded', 'negative_flood', 'overlapping_blocks'))
+);
+
+ALTER TABLE "public"."score_violations" OWNER TO "postgres";
+
+ALTER TABLE ONLY "public"."score_violations"
+    ADD CONSTRAINT "score_violations_pkey" PRIMARY KEY ("id");
+
+CREATE INDEX IF NOT EXISTS "score_violations_user_id_created_at_idx" ON "public"."score_violations" ("user_id", "created_at");
+
+CREATE INDEX IF NOT EXISTS "score_violations_created_at_idx" ON "public"."score_violations" ("created_at");
+
+ALTER TABLE "public"."score_violations" ENABLE ROW LEVEL SECURITY;
+
+-- Only the party server (service role) reads and writes violations
+REVOKE ALL ON TABLE "public"."score_violations" FROM "anon", "authenticated";
+GRANT ALL ON TABLE "public"."score_violations" TO "service_role";
@@ -0,0 +1,88 @@
+-- Ledger of every score submission the party server has handled, so a
+-- user's monthly total can be explained delta by delta.
+--   delta:           what was actually added to the score
+--   requested_delta: what the submitted blocks were worth
+--   decision:        'applied' in full, 'clamped' by the anti-cheat checks,
+--                    or 'rejected' (replay, burst, banned, ...)
+CREATE TABLE IF NOT EXISTS "public"."score_events" (
+    "id" bigint GENERATED BY DEFAULT AS IDENTITY NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "user_id" "text" NOT NULL,
+    "user_name" "text" NOT NULL,
+    "month" "text" NOT NULL,
+    "delta" integer NOT NULL,
+    "requested_delta" integer NOT NULL,
+    "source" "text" NOT NULL,
+    "block_ids" "text"[] DEFAULT '{}'::"text"[] NOT NULL,
+    "decision" "text" NOT NULL,
+    "reason" "text",
+    CONSTRAINT "score_events_source_check" CHECK ("source" IN ('ws', 'http', 'admin')),
+    CONSTRAINT "score_events_decision_check" CHECK ("decision" IN ('applied', 'clamped', 'rejected'))
+);
+
+ALTER TABLE "public"."score_events" OWNER TO "postgres";
+
+ALTER TABLE ONLY "public"."score_events"
+    ADD CONSTRAINT "score_events_pkey" PRIMARY KEY ("id");
+
+CREATE INDEX IF NOT EXISTS "score_events_user_id_created_at_idx" ON "public"."score_events" ("user_id", "created_at" DESC);
+
+ALTER TABLE "public"."score_events" ENABLE ROW LEVEL SECURITY;
+
+-- Only the party server (service role) reads and writes the ledger
+REVOKE ALL ON TABLE "public"."score_events" FROM "anon", "authenticated";
+GRANT ALL ON TABLE "public"."score_events" TO "service_role";
+
+-- increment_scores now also records the batch's ledger entries, in the
+-- same transaction as the increments they explain.
+-- p_events is a JSON array of score_events rows (without id).
+DROP FUNCTION IF EXISTS "public"."increment_scores"("text", "jsonb");
+
+CREATE OR REPLACE FUNCTION "public"."increment_scores"(
+    "p_month" "text",
+    "p_updates" "jsonb",
+    "p_events" "jsonb" DEFAULT '[]'::"jsonb"
+)
+RETURNS TABLE ("user_id" "text", "score" integer)
+LANGUAGE "plpgsql"
+SET "search_path" = ''
+AS $$
+#variable_conflict use_column
+DECLARE
+    r record;
+BEGIN
+    INSERT INTO public.score_events (
+        created_at, user_id, user_name, month, delta, requested_delta,
+        source, block_ids, decision, reason
+    )
+    SELECT
+        e.created_at, e.user_id, e.user_name, p_month, e.delta,
+        e.requested_delta, e.source, e.block_ids, e.decision, e.reason
+    FROM jsonb_to_recordset(p_events) AS e(
+        created_at timestamptz, user_id text, user_name text, delta integer,
+        requested_delta integer, source text, block_ids text[],
+        decision text, reason text
+    );
+
+    FOR r IN
+        SELECT *
+        FROM jsonb_to_recordset(p_updates)
+            AS x(user_id text, user_name text, delta integer)
+    LOOP
+        INSERT INTO public.scoreboard AS s (user_id, user_name, score, month, region)
+        VALUES (r.user_id, r.user_name, GREATEST(0, r.delta), p_month, 'global')
+        ON CONFLICT (user_id, month) DO UPDATE
+            SET score = GREATEST(0, s.score + r.delta),
+                user_name = EXCLUDED.user_name
+        RETURNING s.user_id, s.score INTO user_id, score;
+
+        RETURN NEXT;
+    END LOOP;
+END;
+$$;
+
+ALTER FUNCTION "public"."increment_scores"("text", "jsonb", "jsonb") OWNER TO "postgres";
+
+-- Only the party server (service role) may change scores
+REVOKE ALL ON FUNCTION "public"."increment_scores"("text", "jsonb", "jsonb") FROM PUBLIC, "anon", "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."increment_scores"("text", "jsonb", "jsonb") TO "service_role";
@@ -0,0 +1,122 @@
+-- Daily, weekly and all-time leaderboards.
+-- Daily and weekly totals are summed from the score_events ledger, dated by
+-- the user's calendar day (in their timezone) when the event was recorded.
+-- All-time totals add up the monthly scoreboard rows.
+
+-- The user's local date when the event was recorded. Older events were
+-- dated in UTC.
+ALTER TABLE "public"."score_events"
+    ADD COLUMN IF NOT EXISTS "local_date" "date";
+
+UPDATE "public"."score_events"
+    SET "local_date" = ("created_at" AT TIME ZONE 'UTC')::"date"
+    WHERE "local_date" IS NULL;
+
+ALTER TABLE "public"."score_events"
+    ALTER COLUMN "local_date" SET DEFAULT (("now"() AT TIME ZONE 'UTC')::"date"),
+    ALTER COLUMN "local_date" SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS "score_events_local_date_idx" ON "public"."score_events" ("local_date");
+
+-- increment_scores now stores each event's local_date. Events without one
+-- (queued before this migration) are dated in UTC.
+CREATE OR REPLACE FUNCTION "public"."increment_scores"(
+    "p_month" "text",
+    "p_updates" "jsonb",
+    "p_events" "jsonb" DEFAULT '[]'::"jsonb"
+)
+RETURNS TABLE ("user_id" "text", "score" integer)
+LANGUAGE "plpgsql"
+SET "search_path" = ''
+AS $$
+#variable_conflict use_column
+DECLARE
+    r record;
+BEGIN
+    INSERT INTO public.score_events (
+        created_at, user_id, user_name, month, delta, requested_delta,
+        source, block_ids, decision, reason, local_date
+    )
+    SELECT
+        e.created_at, e.user_id, e.user_name, p_month, e.delta,
+        e.requested_delta, e.source, e.block_ids, e.decision, e.reason,
+        COALESCE(e.local_date, (e.created_at AT TIME ZONE 'UTC')::date)
+    FROM jsonb_to_recordset(p_events) AS e(
+        created_at timestamptz, user_id text, user_name text, delta integer,
+        requested_delta integer, source text, block_ids text[],
+        decision text, reason text, local_date date
+    );
+
+    FOR r IN
+        SELECT *
+        FROM jsonb_to_recordset(p_updates)
+            AS x(user_id text, user_name text, delta integer)
+    LOOP
+        INSERT INTO public.scoreboard AS s (user_id, user_name, score, month, region)
+        VALUES (r.user_id, r.user_name, GREATEST(0, r.delta), p_month, 'global')
+        ON CONFLICT (user_id, month) DO UPDATE
+            SET score = GREATEST(0, s.score + r.delta),
+                user_name = EXCLUDED.user_name
+        RETURNING s.user_id, s.score INTO user_id, score;
+
+        RETURN NEXT;
+    END LOOP;
+END;
+$$;
+
+-- Totals per user for the events dated p_from to p_to (inclusive), highest
+-- first. Administrator events (leaderboard clears) only concern the monthly
+-- board and are left out. Users who didn't gain any points aren't listed.
+-- p_user_ids limits the board to those users, as in named rooms.
+CREATE OR REPLACE FUNCTION "public"."period_leaderboard"(
+    "p_from" "date",
+    "p_to" "date",
+    "p_user_ids" "text"[] DEFAULT NULL
+)
+RETURNS TABLE ("user_id" "text", "user_name" "text", "score" integer)
+LANGUAGE "sql"
+STABLE
+SET "search_path" = ''
+AS $$
+    SELECT
+        e.user_id,
+        (array_agg(e.user_name ORDER BY e.created_at DESC))[1],
+        SUM(e.delta)::integer AS score
+    FROM public.score_events e
+    WHERE e.local_date BETWEEN p_from AND p_to
+        AND e.source <> 'admin'
+        AND (p_user_ids IS NULL OR e.user_id = ANY (p_user_ids))
+    GROUP BY e.user_id
+    HAVING SUM(e.delta) > 0
+    ORDER BY score DESC;
+$$;
+
+-- Every month's score per user added up, highest first, under the name of
+-- their latest month
+CREATE OR REPLACE FUNCTION "public"."all_time_leaderboard"(
+    "p_user_ids" "text"[] DEFAULT NULL
+)
+RETURNS TABLE ("user_id" "text", "user_name" "text", "score" integer)
+LANGUAGE "sql"
+STABLE
+SET "search_path" = ''
+AS $$
+    SELECT
+        s.user_id,
+        (array_agg(s.user_name ORDER BY s.month DESC))[1],
+        SUM(s.score)::integer AS score
+    FROM public.scoreboard s
+    WHERE p_user_ids IS NULL OR s.user_id = ANY (p_user_ids)
+    GROUP BY s.user_id
+    HAVING SUM(s.score) > 0
+    ORDER BY score DESC;
+$$;
+
+ALTER FUNCTION "public"."period_leaderboard"("date", "date", "text"[]) OWNER TO "postgres";
+ALTER FUNCTION "public"."all_time_leaderboard"("text"[]) OWNER TO "postgres";
+
+-- Only the party server (service role) reads the ledger
+REVOKE ALL ON FUNCTION "public"."period_leaderboard"("date", "date", "text"[]) FROM PUBLIC, "anon", "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."period_leaderboard"("date", "date", "text"[]) TO "service_role";
+REVOKE ALL ON FUNCTION "public"."all_time_leaderboard"("text"[]) FROM PUBLIC, "anon", "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."all_time_leaderboard"("text"[]) TO "service_role";
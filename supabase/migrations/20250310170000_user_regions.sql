@@ -0,0 +1,127 @@
+-- The region each user picked on their profile, for regional leaderboards.
+-- Users without a row are in the 'global' region, i.e. on no regional board.
+CREATE TABLE IF NOT EXISTS "public"."user_regions" (
+    "user_id" "text" NOT NULL,
+    "region" "text" NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "user_regions_region_check" CHECK ("region" IN ('global', 'north_america', 'south_america', 'europe', 'africa', 'middle_east', 'asia', 'oceania'))
+);
+
+ALTER TABLE "public"."user_regions" OWNER TO "postgres";
+
+ALTER TABLE ONLY "public"."user_regions"
+    ADD CONSTRAINT "user_regions_pkey" PRIMARY KEY ("user_id");
+
+ALTER TABLE "public"."user_regions" ENABLE ROW LEVEL SECURITY;
+
+-- Only the party server (service role) reads and writes regions
+REVOKE ALL ON TABLE "public"."user_regions" FROM "anon", "authenticated";
+GRANT ALL ON TABLE "public"."user_regions" TO "service_role";
+
+-- increment_scores now files each row under the user's region instead of
+-- always 'global', and moves it when the region changed
+CREATE OR REPLACE FUNCTION "public"."increment_scores"(
+    "p_month" "text",
+    "p_updates" "jsonb",
+    "p_events" "jsonb" DEFAULT '[]'::"jsonb"
+)
+RETURNS TABLE ("user_id" "text", "score" integer)
+LANGUAGE "plpgsql"
+SET "search_path" = ''
+AS $$
+#variable_conflict use_column
+DECLARE
+    r record;
+BEGIN
+    INSERT INTO public.score_events (
+        created_at, user_id, user_name, month, delta, requested_delta,
+        source, block_ids, decision, reason, local_date
+    )
+    SELECT
+        e.created_at, e.user_id, e.user_name, p_month, e.delta,
+        e.requested_delta, e.source, e.block_ids, e.decision, e.reason,
+        COALESCE(e.local_date, (e.created_at AT TIME ZONE 'UTC')::date)
+    FROM jsonb_to_recordset(p_events) AS e(
+        created_at timestamptz, user_id text, user_name text, delta integer,
+        requested_delta integer, source text, block_ids text[],
+        decision text, reason text, local_date date
+    );
+
+    FOR r IN
+        SELECT x.user_id, x.user_name, x.delta,
+            COALESCE(ur.region, 'global') AS region
+        FROM jsonb_to_recordset(p_updates)
+            AS x(user_id text, user_name text, delta integer)
+        LEFT JOIN public.user_regions ur ON ur.user_id = x.user_id
+    LOOP
+        INSERT INTO public.scoreboard AS s (user_id, user_name, score, month, region)
+        VALUES (r.user_id, r.user_name, GREATEST(0, r.delta), p_month, r.region)
+        ON CONFLICT (user_id, month) DO UPDATE
+            SET score = GREATEST(0, s.score + r.delta),
+                user_name = EXCLUDED.user_name,
+                region = EXCLUDED.region
+        RETURNING s.user_id, s.score INTO user_id, score;
+
+        RETURN NEXT;
+    END LOOP;
+END;
+$$;
+
+-- The period leaderboards now report each user's region, so the party
+-- server can rank regions from the same rows
+DROP FUNCTION IF EXISTS "public"."period_leaderboard"("date", "date", "text"[]);
+DROP FUNCTION IF EXISTS "public"."all_time_leaderboard"("text"[]);
+
+CREATE OR REPLACE FUNCTION "public"."period_leaderboard"(
+    "p_from" "date",
+    "p_to" "date",
+    "p_user_ids" "text"[] DEFAULT NULL
+)
+RETURNS TABLE ("user_id" "text", "user_name" "text", "score" integer, "region" "text")
+LANGUAGE "sql"
+STABLE
+SET "search_path" = ''
+AS $$
+    SELECT
+        e.user_id,
+        (array_agg(e.user_name ORDER BY e.created_at DESC))[1],
+        SUM(e.delta)::integer AS score,
+        COALESCE(MAX(ur.region), 'global')
+    FROM public.score_events e
+    LEFT JOIN public.user_regions ur ON ur.user_id = e.user_id
+    WHERE e.local_date BETWEEN p_from AND p_to
+        AND e.source <> 'admin'
+        AND (p_user_ids IS NULL OR e.user_id = ANY (p_user_ids))
+    GROUP BY e.user_id
+    HAVING SUM(e.delta) > 0
+    ORDER BY score DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION "public"."all_time_leaderboard"(
+    "p_user_ids" "text"[] DEFAULT NULL
+)
+RETURNS TABLE ("user_id" "text", "user_name" "text", "score" integer, "region" "text")
+LANGUAGE "sql"
+STABLE
+SET "search_path" = ''
+AS $$
+    SELECT
+        s.user_id,
+        (array_agg(s.user_name ORDER BY s.month DESC))[1],
+        SUM(s.score)::integer AS score,
+        COALESCE(MAX(ur.region), 'global')
+    FROM public.scoreboard s
+    LEFT JOIN public.user_regions ur ON ur.user_id = s.user_id
+    WHERE p_user_ids IS NULL OR s.user_id = ANY (p_user_ids)
+    GROUP BY s.user_id
+    HAVING SUM(s.score) > 0
+    ORDER BY score DESC;
+$$;
+
+ALTER FUNCTION "public"."period_leaderboard"("date", "date", "text"[]) OWNER TO "postgres";
+ALTER FUNCTION "public"."all_time_leaderboard"("text"[]) OWNER TO "postgres";
+
+REVOKE ALL ON FUNCTION "public"."period_leaderboard"("date", "date", "text"[]) FROM PUBLIC, "anon", "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."period_leaderboard"("date", "date", "text"[]) TO "service_role";
+REVOKE ALL ON FUNCTION "public"."all_time_leaderboard"("text"[]) FROM PUBLIC, "anon", "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."all_time_leaderboard"("text"[]) TO "service_role";
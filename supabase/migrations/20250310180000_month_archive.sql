@@ -0,0 +1,84 @@
+-- Final standings of past months, frozen by the party server's monthly
+-- rollover so they no longer change with the scoreboard table.
+CREATE TABLE IF NOT EXISTS "public"."month_archives" (
+    "month" "text" NOT NULL,
+    "frozen_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "players" integer NOT NULL
+);
+
+ALTER TABLE "public"."month_archives" OWNER TO "postgres";
+
+ALTER TABLE ONLY "public"."month_archives"
+    ADD CONSTRAINT "month_archives_pkey" PRIMARY KEY ("month");
+
+-- One row per ranked user; tied scores share a rank
+CREATE TABLE IF NOT EXISTS "public"."month_standings" (
+    "month" "text" NOT NULL,
+    "rank" integer NOT NULL,
+    "user_id" "text" NOT NULL,
+    "user_name" "text" NOT NULL,
+    "score" integer NOT NULL,
+    "region" "text" DEFAULT 'global'::"text" NOT NULL
+);
+
+ALTER TABLE "public"."month_standings" OWNER TO "postgres";
+
+ALTER TABLE ONLY "public"."month_standings"
+    ADD CONSTRAINT "month_standings_pkey" PRIMARY KEY ("month", "user_id");
+
+ALTER TABLE ONLY "public"."month_standings"
+    ADD CONSTRAINT "month_standings_month_fkey" FOREIGN KEY ("month") REFERENCES "public"."month_archives"("month") ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS "month_standings_month_rank_idx" ON "public"."month_standings" ("month", "rank");
+
+ALTER TABLE "public"."month_archives" ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE "public"."month_standings" ENABLE ROW LEVEL SECURITY;
+
+-- Only the party server (service role) reads and writes the archive
+REVOKE ALL ON TABLE "public"."month_archives" FROM "anon", "authenticated";
+GRANT ALL ON TABLE "public"."month_archives" TO "service_role";
+REVOKE ALL ON TABLE "public"."month_standings" FROM "anon", "authenticated";
+GRANT ALL ON TABLE "public"."month_standings" TO "service_role";
+
+-- Freezes a month's final standings from the scoreboard table. Returns how
+-- many users were ranked, or NULL if the month was already frozen, so a
+-- repeated rollover doesn't announce the winners twice.
+CREATE OR REPLACE FUNCTION "public"."freeze_month"("p_month" "text")
+RETURNS integer
+LANGUAGE "plpgsql"
+SET "search_path" = ''
+AS $$
+DECLARE
+    v_players integer;
+BEGIN
+    SELECT COUNT(*) INTO v_players
+    FROM public.scoreboard s
+    WHERE s.month = p_month AND s.score > 0;
+
+    INSERT INTO public.month_archives (month, players)
+    VALUES (p_month, v_players)
+    ON CONFLICT (month) DO NOTHING;
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO public.month_standings (month, rank, user_id, user_name, score, region)
+    SELECT
+        s.month,
+        RANK() OVER (ORDER BY s.score DESC),
+        s.user_id,
+        s.user_name,
+        s.score,
+        COALESCE(s.region, 'global')
+    FROM public.scoreboard s
+    WHERE s.month = p_month AND s.score > 0;
+
+    RETURN v_players;
+END;
+$$;
+
+ALTER FUNCTION "public"."freeze_month"("text") OWNER TO "postgres";
+
+REVOKE ALL ON FUNCTION "public"."freeze_month"("text") FROM PUBLIC, "anon", "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."freeze_month"("text") TO "service_role";
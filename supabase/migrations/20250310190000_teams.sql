@@ -0,0 +1,204 @@
+-- Teams compete on their own leaderboard, scored from their members' monthly
+-- scores. Everyone joins with the team's invite code.
+CREATE TABLE IF NOT EXISTS "public"."teams" (
+    "id" "text" NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "name" "text" NOT NULL,
+    "owner_id" "text" NOT NULL,
+    "invite_code" "text" NOT NULL
+);
+
+ALTER TABLE "public"."teams" OWNER TO "postgres";
+
+ALTER TABLE ONLY "public"."teams"
+    ADD CONSTRAINT "teams_pkey" PRIMARY KEY ("id");
+
+ALTER TABLE ONLY "public"."teams"
+    ADD CONSTRAINT "teams_invite_code_key" UNIQUE ("invite_code");
+
+-- One row per user per month they joined a team in. A user stays in their
+-- team in later months until they join another one, so a user's team for
+-- a month is their latest row up to that month.
+CREATE TABLE IF NOT EXISTS "public"."team_members" (
+    "team_id" "text" NOT NULL,
+    "user_id" "text" NOT NULL,
+    "user_name" "text" NOT NULL,
+    "month" "text" NOT NULL,
+    "joined_at" timestamp with time zone DEFAULT "now"() NOT NULL
+);
+
+ALTER TABLE "public"."team_members" OWNER TO "postgres";
+
+ALTER TABLE ONLY "public"."team_members"
+    ADD CONSTRAINT "team_members_pkey" PRIMARY KEY ("user_id", "month");
+
+ALTER TABLE ONLY "public"."team_members"
+    ADD CONSTRAINT "team_members_team_id_fkey" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS "team_members_team_id_idx" ON "public"."team_members" ("team_id");
+
+ALTER TABLE "public"."teams" ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE "public"."team_members" ENABLE ROW LEVEL SECURITY;
+
+-- Only the party server (service role) reads and writes teams
+REVOKE ALL ON TABLE "public"."teams" FROM "anon", "authenticated";
+GRANT ALL ON TABLE "public"."teams" TO "service_role";
+REVOKE ALL ON TABLE "public"."team_members" FROM "anon", "authenticated";
+GRANT ALL ON TABLE "public"."team_members" TO "service_role";
+
+-- The team of every user who is in one during a month
+CREATE OR REPLACE FUNCTION "public"."team_memberships"("p_month" "text")
+RETURNS TABLE ("user_id" "text", "team_id" "text", "user_name" "text")
+LANGUAGE "sql"
+STABLE
+SET "search_path" = ''
+AS $$
+    SELECT DISTINCT ON (m.user_id) m.user_id, m.team_id, m.user_name
+    FROM public.team_members m
+    WHERE m.month <= p_month
+    ORDER BY m.user_id, m.month DESC;
+$$;
+
+-- Creates a team with its creator as the first member. Returns false, and
+-- creates nothing, if the user already joined a team this month.
+CREATE OR REPLACE FUNCTION "public"."create_team"(
+    "p_team_id" "text",
+    "p_name" "text",
+    "p_invite_code" "text",
+    "p_user_id" "text",
+    "p_user_name" "text",
+    "p_month" "text"
+)
+RETURNS boolean
+LANGUAGE "plpgsql"
+SET "search_path" = ''
+AS $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM public.team_members m
+        WHERE m.user_id = p_user_id AND m.month = p_month
+    ) THEN
+        RETURN false;
+    END IF;
+
+    INSERT INTO public.teams (id, name, owner_id, invite_code)
+    VALUES (p_team_id, p_name, p_user_id, p_invite_code);
+
+    INSERT INTO public.team_members (team_id, user_id, user_name, month)
+    VALUES (p_team_id, p_user_id, p_user_name, p_month);
+
+    RETURN true;
+END;
+$$;
+
+-- Joins the team with an invite code. Returns 'joined', 'member' if the
+-- user is already in that team, 'unknown_code', or 'month_taken' if the
+-- user already joined another team this month.
+CREATE OR REPLACE FUNCTION "public"."join_team"(
+    "p_invite_code" "text",
+    "p_user_id" "text",
+    "p_user_name" "text",
+    "p_month" "text"
+)
+RETURNS "text"
+LANGUAGE "plpgsql"
+SET "search_path" = ''
+AS $$
+DECLARE
+    v_team_id text;
+    v_current_team_id text;
+BEGIN
+    SELECT t.id INTO v_team_id
+    FROM public.teams t
+    WHERE t.invite_code = p_invite_code;
+    IF NOT FOUND THEN
+        RETURN 'unknown_code';
+    END IF;
+
+    SELECT tm.team_id INTO v_current_team_id
+    FROM public.team_memberships(p_month) tm
+    WHERE tm.user_id = p_user_id;
+    IF v_current_team_id = v_team_id THEN
+        RETURN 'member';
+    END IF;
+
+    INSERT INTO public.team_members (team_id, user_id, user_name, month)
+    VALUES (v_team_id, p_user_id, p_user_name, p_month)
+    ON CONFLICT ("user_id", "month") DO NOTHING;
+    IF NOT FOUND THEN
+        RETURN 'month_taken';
+    END IF;
+
+    RETURN 'joined';
+END;
+$$;
+
+-- The members of a team during a month, with their monthly scores
+CREATE OR REPLACE FUNCTION "public"."team_roster"(
+    "p_team_id" "text",
+    "p_month" "text"
+)
+RETURNS TABLE ("user_id" "text", "user_name" "text", "score" integer)
+LANGUAGE "sql"
+STABLE
+SET "search_path" = ''
+AS $$
+    SELECT tm.user_id, tm.user_name, COALESCE(s.score, 0)
+    FROM public.team_memberships(p_month) tm
+    LEFT JOIN public.scoreboard s
+        ON s.user_id = tm.user_id AND s.month = p_month
+    WHERE tm.team_id = p_team_id
+    ORDER BY 3 DESC, tm.user_name;
+$$;
+
+-- Teams ranked by their members' total monthly score divided by how many
+-- of them scored that month, so large teams with idle members don't win
+-- by size alone
+CREATE OR REPLACE FUNCTION "public"."team_leaderboard"("p_month" "text")
+RETURNS TABLE (
+    "team_id" "text",
+    "team_name" "text",
+    "members" integer,
+    "active_members" integer,
+    "total_score" integer,
+    "score" integer
+)
+LANGUAGE "sql"
+STABLE
+SET "search_path" = ''
+AS $$
+    SELECT
+        t.id,
+        t.name,
+        COUNT(*)::integer,
+        COUNT(*) FILTER (WHERE s.score > 0)::integer,
+        COALESCE(SUM(s.score), 0)::integer,
+        ROUND(
+            COALESCE(SUM(s.score), 0)::numeric
+            / GREATEST(COUNT(*) FILTER (WHERE s.score > 0), 1)
+        )::integer AS score
+    FROM public.team_memberships(p_month) tm
+    JOIN public.teams t ON t.id = tm.team_id
+    LEFT JOIN public.scoreboard s
+        ON s.user_id = tm.user_id AND s.month = p_month
+    GROUP BY t.id, t.name
+    ORDER BY score DESC, 5 DESC, t.name;
+$$;
+
+ALTER FUNCTION "public"."team_memberships"("text") OWNER TO "postgres";
+ALTER FUNCTION "public"."create_team"("text", "text", "text", "text", "text", "text") OWNER TO "postgres";
+ALTER FUNCTION "public"."join_team"("text", "text", "text", "text") OWNER TO "postgres";
+ALTER FUNCTION "public"."team_roster"("text", "text") OWNER TO "postgres";
+ALTER FUNCTION "public"."team_leaderboard"("text") OWNER TO "postgres";
+
+REVOKE ALL ON FUNCTION "public"."team_memberships"("text") FROM PUBLIC, "anon", "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."team_memberships"("text") TO "service_role";
+REVOKE ALL ON FUNCTION "public"."create_team"("text", "text", "text", "text", "text", "text") FROM PUBLIC, "anon", "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."create_team"("text", "text", "text", "text", "text", "text") TO "service_role";
+REVOKE ALL ON FUNCTION "public"."join_team"("text", "text", "text", "text") FROM PUBLIC, "anon", "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."join_team"("text", "text", "text", "text") TO "service_role";
+REVOKE ALL ON FUNCTION "public"."team_roster"("text", "text") FROM PUBLIC, "anon", "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."team_roster"("text", "text") TO "service_role";
+REVOKE ALL ON FUNCTION "public"."team_leaderboard"("text") FROM PUBLIC, "anon", "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."team_leaderboard"("text") TO "service_role";
@@ -0,0 +1,73 @@
+-- Finished focus duels: two users racing for the best score over a window
+-- they agreed on. Open duels live in the party server's storage until
+-- they are settled.
+CREATE TABLE IF NOT EXISTS "public"."duels" (
+    "id" "text" NOT NULL,
+    "challenger_id" "text" NOT NULL,
+    "challenger_name" "text" NOT NULL,
+    "opponent_id" "text" NOT NULL,
+    "opponent_name" "text" NOT NULL,
+    "starts_at" timestamp with time zone NOT NULL,
+    "ends_at" timestamp with time zone NOT NULL,
+    "challenger_score" integer NOT NULL,
+    "opponent_score" integer NOT NULL,
+    -- Null for a tie
+    "winner_id" "text",
+    "created_at" timestamp with time zone NOT NULL,
+    "finished_at" timestamp with time zone DEFAULT "now"() NOT NULL
+);
+
+ALTER TABLE "public"."duels" OWNER TO "postgres";
+
+ALTER TABLE ONLY "public"."duels"
+    ADD CONSTRAINT "duels_pkey" PRIMARY KEY ("id");
+
+CREATE INDEX IF NOT EXISTS "duels_challenger_id_idx" ON "public"."duels" ("challenger_id", "finished_at" DESC);
+CREATE INDEX IF NOT EXISTS "duels_opponent_id_idx" ON "public"."duels" ("opponent_id", "finished_at" DESC);
+
+ALTER TABLE "public"."duels" ENABLE ROW LEVEL SECURITY;
+
+-- Only the party server (service role) reads and writes duels
+REVOKE ALL ON TABLE "public"."duels" FROM "anon", "authenticated";
+GRANT ALL ON TABLE "public"."duels" TO "service_role";
+
+-- A user's duel record: how many of their finished duels they won, lost
+-- and tied
+CREATE OR REPLACE FUNCTION "public"."duel_record"("p_user_id" "text")
+RETURNS TABLE ("wins" integer, "losses" integer, "ties" integer)
+LANGUAGE "sql"
+STABLE
+SET "search_path" = ''
+AS $$
+    SELECT
+        COUNT(*) FILTER (WHERE d.winner_id = p_user_id)::integer,
+        COUNT(*) FILTER (WHERE d.winner_id <> p_user_id)::integer,
+        COUNT(*) FILTER (WHERE d.winner_id IS NULL)::integer
+    FROM public.duels d
+    WHERE d.challenger_id = p_user_id OR d.opponent_id = p_user_id;
+$$;
+
+-- A user's latest finished duels, newest first
+CREATE OR REPLACE FUNCTION "public"."recent_duels"(
+    "p_user_id" "text",
+    "p_limit" integer
+)
+RETURNS SETOF "public"."duels"
+LANGUAGE "sql"
+STABLE
+SET "search_path" = ''
+AS $$
+    SELECT d.*
+    FROM public.duels d
+    WHERE d.challenger_id = p_user_id OR d.opponent_id = p_user_id
+    ORDER BY d.finished_at DESC
+    LIMIT p_limit;
+$$;
+
+ALTER FUNCTION "public"."duel_record"("text") OWNER TO "postgres";
+ALTER FUNCTION "public"."recent_duels"("text", integer) OWNER TO "postgres";
+
+REVOKE ALL ON FUNCTION "public"."duel_record"("text") FROM PUBLIC, "anon", "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."duel_record"("text") TO "service_role";
+REVOKE ALL ON FUNCTION "public"."recent_duels"("text", integer) FROM PUBLIC, "anon", "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."recent_duels"("text", integer) TO "service_role";
@@ -0,0 +1,31 @@
+-- Productivity streaks, worked out by the party server's global room from
+-- credited blocks and saved here whenever they change, so every room's
+-- leaderboard can show them. Whether a streak is still going depends on
+-- the date in the user's timezone, so the runs are stored rather than
+-- the current counts.
+CREATE TABLE IF NOT EXISTS "public"."user_streaks" (
+    "user_id" "text" NOT NULL,
+    "user_name" "text" NOT NULL,
+    "time_zone" "text" DEFAULT 'UTC' NOT NULL,
+    -- The last day and length of the latest run of days with enough
+    -- productive blocks
+    "daily_to" "date",
+    "daily" integer DEFAULT 0 NOT NULL,
+    "best_daily" integer DEFAULT 0 NOT NULL,
+    -- The day and length of the latest run of consecutive productive blocks
+    "flow_date" "date",
+    "flow" integer DEFAULT 0 NOT NULL,
+    "best_flow" integer DEFAULT 0 NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL
+);
+
+ALTER TABLE "public"."user_streaks" OWNER TO "postgres";
+
+ALTER TABLE ONLY "public"."user_streaks"
+    ADD CONSTRAINT "user_streaks_pkey" PRIMARY KEY ("user_id");
+
+ALTER TABLE "public"."user_streaks" ENABLE ROW LEVEL SECURITY;
+
+-- Only the party server (service role) reads and writes streaks
+REVOKE ALL ON TABLE "public"."user_streaks" FROM "anon", "authenticated";
+GRANT ALL ON TABLE "public"."user_streaks" TO "service_role";
@@ -0,0 +1,13 @@
+-- The party server now owns achievements. Each user has one row, whose
+-- "achievements" column holds their unlocks as [{"id", "unlockedAt"}],
+-- with the definitions in the app (lib/party-kit/achievements.ts).
+ALTER TABLE "public"."achievements"
+    ADD COLUMN IF NOT EXISTS "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL;
+
+ALTER TABLE "public"."achievements"
+    ALTER COLUMN "achievements" SET DEFAULT '[]'::"jsonb";
+
+-- Only the party server (service role) reads and writes achievements;
+-- clients read them through it
+REVOKE ALL ON TABLE "public"."achievements" FROM "anon", "authenticated";
+GRANT ALL ON TABLE "public"."achievements" TO "service_role";
@@ -0,0 +1,135 @@
+-- Achievements now unlock by rules over numbers the party server tracks
+-- per user (see AchievementStats in lib/types/achievement-types.ts), such
+-- as the longest streak, duels won or chat messages sent. They are kept
+-- in a "progress" object next to the unlocks, so every room adds to the
+-- same totals.
+ALTER TABLE "public"."achievements"
+    ADD COLUMN IF NOT EXISTS "progress" "jsonb" DEFAULT '{}'::"jsonb" NOT NULL;
+
+-- Merges a batch of stat updates into users' progress atomically.
+-- p_updates is a JSON array of {"user_id", "add", "max", "min"} objects,
+-- each holding stats by name: "add" counts are summed, "max" and "min"
+-- values only replace the saved ones that they beat. Returns the progress
+-- and unlocks of every user in the batch.
+CREATE OR REPLACE FUNCTION "public"."record_achievement_progress"(
+    "p_updates" "jsonb"
+)
+RETURNS TABLE ("user_id" "text", "progress" "jsonb", "achievements" "jsonb")
+LANGUAGE "plpgsql"
+SET "search_path" = ''
+AS $$
+#variable_conflict use_column
+DECLARE
+    r record;
+    v_progress jsonb;
+    v_stat text;
+    v_value numeric;
+BEGIN
+    FOR r IN
+        SELECT *
+        FROM jsonb_to_recordset(p_updates)
+            AS x(user_id text, "add" jsonb, "max" jsonb, "min" jsonb)
+    LOOP
+        INSERT INTO public.achievements (user_id, achievements)
+        VALUES (r.user_id, '[]'::jsonb)
+        ON CONFLICT (user_id) DO NOTHING;
+
+        SELECT a.progress INTO v_progress
+        FROM public.achievements a
+        WHERE a.user_id = r.user_id
+        FOR UPDATE;
+
+        FOR v_stat, v_value IN
+            SELECT key, value::numeric FROM jsonb_each_text(COALESCE(r."add", '{}'))
+        LOOP
+            v_progress := v_progress || jsonb_build_object(
+                v_stat, COALESCE((v_progress ->> v_stat)::numeric, 0) + v_value
+            );
+        END LOOP;
+
+        FOR v_stat, v_value IN
+            SELECT key, value::numeric FROM jsonb_each_text(COALESCE(r."max", '{}'))
+        LOOP
+            v_progress := v_progress || jsonb_build_object(
+                v_stat, GREATEST((v_progress ->> v_stat)::numeric, v_value)
+            );
+        END LOOP;
+
+        FOR v_stat, v_value IN
+            SELECT key, value::numeric FROM jsonb_each_text(COALESCE(r."min", '{}'))
+        LOOP
+            v_progress := v_progress || jsonb_build_object(
+                v_stat, LEAST((v_progress ->> v_stat)::numeric, v_value)
+            );
+        END LOOP;
+
+        UPDATE public.achievements AS a
+        SET progress = v_progress,
+            updated_at = "now"()
+        WHERE a.user_id = r.user_id
+        RETURNING a.user_id, a.progress, a.achievements
+        INTO user_id, progress, achievements;
+
+        RETURN NEXT;
+    END LOOP;
+END;
+$$;
+
+-- Appends unlocks to users' achievements, skipping ones they already have,
+-- so two rooms unlocking the same achievement only save it once.
+-- p_unlocks is a JSON array of {"user_id", "achievements"} objects, with
+-- the unlocks as [{"id", "unlockedAt"}]. Returns the unlocks that were new.
+CREATE OR REPLACE FUNCTION "public"."unlock_achievements"(
+    "p_unlocks" "jsonb"
+)
+RETURNS TABLE ("user_id" "text", "achievements" "jsonb")
+LANGUAGE "plpgsql"
+SET "search_path" = ''
+AS $$
+#variable_conflict use_column
+DECLARE
+    r record;
+    v_saved jsonb;
+    v_new jsonb;
+BEGIN
+    FOR r IN
+        SELECT *
+        FROM jsonb_to_recordset(p_unlocks)
+            AS x(user_id text, achievements jsonb)
+    LOOP
+        SELECT a.achievements INTO v_saved
+        FROM public.achievements a
+        WHERE a.user_id = r.user_id
+        FOR UPDATE;
+
+        SELECT COALESCE(jsonb_agg(u), '[]'::jsonb) INTO v_new
+        FROM jsonb_array_elements(r.achievements) AS u
+        WHERE NOT EXISTS (
+            SELECT 1
+            FROM jsonb_array_elements(COALESCE(v_saved, '[]'::jsonb)) AS s
+            WHERE s ->> 'id' = u ->> 'id'
+        );
+
+        IF jsonb_array_length(v_new) > 0 THEN
+            INSERT INTO public.achievements AS a (user_id, achievements)
+            VALUES (r.user_id, v_new)
+            ON CONFLICT (user_id) DO UPDATE
+                SET achievements = a.achievements || EXCLUDED.achievements,
+                    updated_at = "now"();
+
+            user_id := r.user_id;
+            achievements := v_new;
+            RETURN NEXT;
+        END IF;
+    END LOOP;
+END;
+$$;
+
+ALTER FUNCTION "public"."record_achievement_progress"("jsonb") OWNER TO "postgres";
+ALTER FUNCTION "public"."unlock_achievements"("jsonb") OWNER TO "postgres";
+
+-- Only the party server (service role) may change achievements
+REVOKE ALL ON FUNCTION "public"."record_achievement_progress"("jsonb") FROM PUBLIC, "anon", "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."record_achievement_progress"("jsonb") TO "service_role";
+REVOKE ALL ON FUNCTION "public"."unlock_achievements"("jsonb") FROM PUBLIC, "anon", "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."unlock_achievements"("jsonb") TO "service_role";
@@ -0,0 +1,19 @@
+-- Privacy choices each user made on their profile. The party server
+-- announces achievements, rank-ups and streak milestones in chat unless
+-- the user turned announcements off. Users without a row are announced.
+CREATE TABLE IF NOT EXISTS "public"."user_privacy" (
+    "user_id" "text" NOT NULL,
+    "announcements" boolean DEFAULT true NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL
+);
+
+ALTER TABLE "public"."user_privacy" OWNER TO "postgres";
+
+ALTER TABLE ONLY "public"."user_privacy"
+    ADD CONSTRAINT "user_privacy_pkey" PRIMARY KEY ("user_id");
+
+ALTER TABLE "public"."user_privacy" ENABLE ROW LEVEL SECURITY;
+
+-- Only the party server (service role) reads and writes privacy choices
+REVOKE ALL ON TABLE "public"."user_privacy" FROM "anon", "authenticated";
+GRANT ALL ON TABLE "public"."user_privacy" TO "service_role";
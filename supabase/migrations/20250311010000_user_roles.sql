@@ -0,0 +1,52 @@
+-- Access roles of the party server (see lib/party-kit/permissions.ts).
+-- Looked up on every "hello"; users without a row are members. The first
+-- admin is granted here by hand, admins can then grant roles with
+-- "set_role".
+CREATE TABLE IF NOT EXISTS "public"."user_roles" (
+    "user_id" "text" NOT NULL,
+    "role" "text" NOT NULL,
+    "granted_by" "text",
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "user_roles_role_check" CHECK ("role" IN ('admin', 'moderator', 'member'))
+);
+
+ALTER TABLE "public"."user_roles" OWNER TO "postgres";
+
+ALTER TABLE ONLY "public"."user_roles"
+    ADD CONSTRAINT "user_roles_pkey" PRIMARY KEY ("user_id");
+
+ALTER TABLE "public"."user_roles" ENABLE ROW LEVEL SECURITY;
+
+-- Every privileged action taken on the party server, by whom and in which
+-- room. Written by the server after the action; never updated.
+CREATE TABLE IF NOT EXISTS "public"."audit_log" (
+    "id" bigint GENERATED BY DEFAULT AS IDENTITY NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "actor_id" "text" NOT NULL,
+    "actor_name" "text" NOT NULL,
+    "actor_role" "text" NOT NULL,
+    "action" "text" NOT NULL,
+    "room_id" "text" NOT NULL,
+    "target_user_id" "text",
+    "details" "jsonb" DEFAULT '{}'::"jsonb" NOT NULL
+);
+
+ALTER TABLE "public"."audit_log" OWNER TO "postgres";
+
+ALTER TABLE ONLY "public"."audit_log"
+    ADD CONSTRAINT "audit_log_pkey" PRIMARY KEY ("id");
+
+CREATE INDEX IF NOT EXISTS "audit_log_created_at_idx" ON "public"."audit_log" ("created_at");
+
+CREATE INDEX IF NOT EXISTS "audit_log_actor_id_created_at_idx" ON "public"."audit_log" ("actor_id", "created_at");
+
+CREATE INDEX IF NOT EXISTS "audit_log_target_user_id_created_at_idx" ON "public"."audit_log" ("target_user_id", "created_at");
+
+ALTER TABLE "public"."audit_log" ENABLE ROW LEVEL SECURITY;
+
+-- Only the party server (service role) reads and writes roles and the log
+REVOKE ALL ON TABLE "public"."user_roles" FROM "anon", "authenticated";
+GRANT ALL ON TABLE "public"."user_roles" TO "service_role";
+
+REVOKE ALL ON TABLE "public"."audit_log" FROM "anon", "authenticated";
+GRANT ALL ON TABLE "public"."audit_log" TO "service_role";
@@ -0,0 +1,29 @@
+-- Moderator toolkit (see lib/party-kit/moderation.ts). A chat ban with
+-- banned_chat_until set is a mute that ends then; without, it lasts until
+-- a moderator lifts it.
+ALTER TABLE "public"."banned"
+    ADD COLUMN IF NOT EXISTS "banned_chat_until" timestamp with time zone;
+
+-- Warnings for flagged chat messages, kept per user so they outlive the
+-- connection. One is forgiven per day since the latest; the party server
+-- applies the decay when it reads them.
+CREATE TABLE IF NOT EXISTS "public"."user_warnings" (
+    "user_id" "text" NOT NULL,
+    "user_name" "text" NOT NULL,
+    "warnings" integer DEFAULT 0 NOT NULL,
+    "last_warning_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "user_warnings_warnings_check" CHECK ("warnings" >= 0)
+);
+
+ALTER TABLE "public"."user_warnings" OWNER TO "postgres";
+
+ALTER TABLE ONLY "public"."user_warnings"
+    ADD CONSTRAINT "user_warnings_pkey" PRIMARY KEY ("user_id");
+
+CREATE INDEX IF NOT EXISTS "user_warnings_last_warning_at_idx" ON "public"."user_warnings" ("last_warning_at");
+
+ALTER TABLE "public"."user_warnings" ENABLE ROW LEVEL SECURITY;
+
+-- Only the party server (service role) reads and writes warnings
+REVOKE ALL ON TABLE "public"."user_warnings" FROM "anon", "authenticated";
+GRANT ALL ON TABLE "public"."user_warnings" TO "service_role";
@@ -0,0 +1,57 @@
+-- Records when the winners of an archived month were announced, apart from
+-- freezing it, so a rollover that froze a month but failed to announce it
+-- still announces it when retried.
+ALTER TABLE "public"."month_archives"
+    ADD COLUMN IF NOT EXISTS "announced_at" timestamp with time zone;
+
+-- Months archived so far were announced right after they were frozen
+UPDATE "public"."month_archives"
+SET "announced_at" = "frozen_at"
+WHERE "announced_at" IS NULL;
+
+-- Freezes a month's final standings from the scoreboard table, unless it
+-- was frozen before. Returns how many users were ranked, or NULL once the
+-- month's winners were announced, so a repeated rollover doesn't announce
+-- them twice.
+CREATE OR REPLACE FUNCTION "public"."freeze_month"("p_month" "text")
+RETURNS integer
+LANGUAGE "plpgsql"
+SET "search_path" = ''
+AS $$
+DECLARE
+    v_players integer;
+    v_announced_at timestamp with time zone;
+BEGIN
+    SELECT COUNT(*) INTO v_players
+    FROM public.scoreboard s
+    WHERE s.month = p_month AND s.score > 0;
+
+    INSERT INTO public.month_archives (month, players)
+    VALUES (p_month, v_players)
+    ON CONFLICT (month) DO NOTHING;
+    IF FOUND THEN
+        INSERT INTO public.month_standings (month, rank, user_id, user_name, score, region)
+        SELECT
+            s.month,
+            RANK() OVER (ORDER BY s.score DESC),
+            s.user_id,
+            s.user_name,
+            s.score,
+            COALESCE(s.region, 'global')
+        FROM public.scoreboard s
+        WHERE s.month = p_month AND s.score > 0;
+
+        RETURN v_players;
+    END IF;
+
+    -- Frozen before: still to announce unless that was recorded
+    SELECT a.players, a.announced_at INTO v_players, v_announced_at
+    FROM public.month_archives a
+    WHERE a.month = p_month;
+    IF v_announced_at IS NOT NULL THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN v_players;
+END;
+$$;